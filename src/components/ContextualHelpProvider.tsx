@@ -107,7 +107,7 @@ const CONTEXTUAL_HELP: Record<string, ContextualEntry> = {
   },
   "dev-director-vision": {
     label: "Director's Vision",
-    description: "Neural style engine matches your script to iconic director profiles. Produces the Style Contract governing all downstream generation.",
+    description: "Neural style engine matches your script to iconic director profiles and your custom profiles. Produces the Style Contract governing all downstream generation.",
     articleId: "director-vision",
   },
   "dev-production-bible": {
@@ -124,7 +124,7 @@ const CONTEXTUAL_HELP: Record<string, ContextualEntry> = {
   },
   "preprod-locations": {
     label: "Locations",
-    description: "Generate AI concept art for each location. Auto-grouped from Global Elements. Rate, lock, and approve designs.",
+    description: "Generate AI concept art for each location. Auto-grouped from Global Elements, or by the Location Tree of locations and sets. Rate, lock, and approve designs.",
     articleId: "locations-props",
   },
   "preprod-props": {
@@ -142,6 +142,16 @@ const CONTEXTUAL_HELP: Record<string, ContextualEntry> = {
     description: "Design and lock picture vehicles identified from the script for consistent visual reference.",
     articleId: "locations-props",
   },
+  "preprod-vfx": {
+    label: "VFX Breakdown",
+    description: "Every visual effect as a VFX shot ID with complexity, estimated shot count and linked Production shots. Export a vendor bid sheet.",
+    articleId: "vfx-breakdown",
+  },
+  "preprod-schedule": {
+    label: "Schedule",
+    description: "Colour-coded stripboard. Propose a shooting order by location, day/night and cast, then drag strips into shoot days.",
+    articleId: "stripboard",
+  },
   "preprod-storyboards": {
     label: "Storyboards",
     description: "Build shot-by-shot visual sequences. Add frames, describe composition, generate AI artwork, and drag to reorder.",
@@ -208,7 +218,7 @@ const CONTEXTUAL_HELP: Record<string, ContextualEntry> = {
   },
   "postprod-style-drift": {
     label: "Style Drift Detector",
-    description: "Monitors shots against the Style Contract. Flags color, lighting, texture, and mood deviations with severity indicators.",
+    description: "Monitors shots against the Style Contract or a chosen earlier version. History compares versions field by field and rolls back.",
     articleId: "style-drift",
   },
   "postprod-localization": {
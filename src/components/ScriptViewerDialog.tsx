@@ -6,6 +6,10 @@ import { ScrollText, Loader2 } from "lucide-react";
 export interface ScriptParagraph {
   type: string;
   text: string;
+  /** Marked with a revision asterisk in the source PDF */
+  revised?: boolean;
+  /** Character cue of the second speaker in a dual-dialogue pair */
+  dual?: boolean;
 }
 
 export interface ScriptScene {
@@ -62,18 +66,29 @@ const highlightTerms = (text: string, terms: string[]): React.ReactNode => {
 };
 
 /* ── Paragraph renderer ── */
-const SceneParagraph = ({
+const ParagraphBody = ({
   p,
   index,
   sceneNum,
   terms,
+  column,
 }: {
   p: ScriptParagraph;
   index: number;
   sceneNum?: number;
   terms: string[];
+  /** Rendered in one half of a dual-dialogue block — indents shrink to fit */
+  column?: boolean;
 }) => {
   const hl = (text: string) => highlightTerms(text, terms);
+  if (column) {
+    const indent = p.type === "Character" ? "30%" : p.type === "Parenthetical" ? "15%" : "4%";
+    return (
+      <p style={{ textTransform: p.type === "Character" ? "uppercase" : "none", fontStyle: p.type === "Parenthetical" || p.type === "Lyrics" ? "italic" : "normal", paddingLeft: indent, paddingRight: "4%", marginTop: 0, marginBottom: 0 }}>
+        {p.type === "Character" ? p.text : hl(p.text)}
+      </p>
+    );
+  }
   switch (p.type) {
     case "Scene Heading":
       return (
@@ -106,15 +121,86 @@ const SceneParagraph = ({
           {p.text}
         </p>
       );
+    case "Centered":
+      return (
+        <p style={{ textAlign: "center", marginTop: 12, marginBottom: 0 }}>
+          {hl(p.text)}
+        </p>
+      );
+    case "Lyrics":
+      return (
+        <p style={{ paddingLeft: "17%", paddingRight: "17%", fontStyle: "italic", marginTop: 0, marginBottom: 0 }}>
+          {hl(p.text)}
+        </p>
+      );
+    // Writer-only Fountain elements (sections, synopses, notes) — shown muted
+    case "Section":
+    case "Synopsis":
+    case "Note":
+      return (
+        <p style={{ color: "#888", fontStyle: p.type === "Section" ? "normal" : "italic", fontWeight: p.type === "Section" ? "bold" : "normal", marginTop: 12, marginBottom: 0 }}>
+          {p.type === "Note" ? `[[${p.text}]]` : p.text}
+        </p>
+      );
+    case "Page Break":
+      return <hr style={{ border: 0, borderTop: "1px dashed #ccc", margin: "18px 0" }} />;
     default:
       return (
-        <p style={{ marginTop: 12, marginBottom: 0 }}>
+        <p style={{ marginTop: 12, marginBottom: 0, whiteSpace: "pre-wrap" }}>
           {hl(p.text)}
         </p>
       );
   }
 };
 
+/** Paragraph with a right-margin revision asterisk when marked revised */
+const SceneParagraph = (props: { p: ScriptParagraph; index: number; sceneNum?: number; terms: string[]; column?: boolean }) => {
+  if (!props.p.revised) return <ParagraphBody {...props} />;
+  return (
+    <div style={{ position: "relative" }}>
+      <ParagraphBody {...props} />
+      <span style={{ position: "absolute", right: -36, bottom: 0, fontWeight: "bold" }}>*</span>
+    </div>
+  );
+};
+
+/* ── Dual dialogue ── */
+const SPEECH_TYPES = new Set(["Parenthetical", "Dialogue", "Lyrics"]);
+
+type IndexedParagraph = { p: ScriptParagraph; index: number };
+type SceneBlock = ({ kind: "single" } & IndexedParagraph) | { kind: "dual"; left: IndexedParagraph[]; right: IndexedParagraph[] };
+
+/**
+ * Group paragraphs for rendering. A dual cue pairs with the speech right
+ * before it; both speeches are laid out side by side.
+ */
+const groupDualDialogue = (paragraphs: ScriptParagraph[]): SceneBlock[] => {
+  const blocks: SceneBlock[] = [];
+  paragraphs.forEach((p, index) => {
+    const last = blocks[blocks.length - 1];
+    if (p.type === "Character" && p.dual) {
+      let start = blocks.length;
+      while (start > 0) {
+        const b = blocks[start - 1];
+        if (b.kind !== "single" || !(SPEECH_TYPES.has(b.p.type) || b.p.type === "Character")) break;
+        start--;
+        if (b.p.type === "Character") break;
+      }
+      const first = blocks[start];
+      if (first?.kind === "single" && first.p.type === "Character") {
+        const left = blocks.splice(start) as ({ kind: "single" } & IndexedParagraph)[];
+        blocks.push({ kind: "dual", left: left.map(({ p, index }) => ({ p, index })), right: [{ p, index }] });
+        return;
+      }
+    } else if (last?.kind === "dual" && SPEECH_TYPES.has(p.type)) {
+      last.right.push({ p, index });
+      return;
+    }
+    blocks.push({ kind: "single", p, index });
+  });
+  return blocks;
+};
+
 /* ── Provider + Dialog ── */
 export const ScriptViewerProvider = ({ children }: { children: ReactNode }) => {
   const [state, setState] = useState<ScriptViewerState>({
@@ -192,15 +278,27 @@ export const ScriptViewerProvider = ({ children }: { children: ReactNode }) => {
                       minHeight: "400px",
                     }}
                   >
-                    {scene.paragraphs.map((p, i) => (
-                      <SceneParagraph
-                        key={i}
-                        p={p}
-                        index={i}
-                        sceneNum={scene.sceneNum}
-                        terms={state.highlightTerms}
-                      />
-                    ))}
+                    {groupDualDialogue(scene.paragraphs).map((block) =>
+                      block.kind === "single" ? (
+                        <SceneParagraph
+                          key={block.index}
+                          p={block.p}
+                          index={block.index}
+                          sceneNum={scene.sceneNum}
+                          terms={state.highlightTerms}
+                        />
+                      ) : (
+                        <div key={block.left[0].index} style={{ display: "grid", gridTemplateColumns: "1fr 1fr", marginTop: 18 }}>
+                          {[block.left, block.right].map((side, k) => (
+                            <div key={k}>
+                              {side.map(({ p, index }) => (
+                                <SceneParagraph key={index} p={p} index={index} terms={state.highlightTerms} column />
+                              ))}
+                            </div>
+                          ))}
+                        </div>
+                      )
+                    )}
                   </div>
                 ))}
               </div>
@@ -0,0 +1,271 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Slider } from "@/components/ui/slider";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Download, Loader2, Plus, Trash2, Upload, UserCog } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import {
+  CLUSTER_LABELS,
+  DIRECTORS,
+  STYLE_AXES,
+  STYLE_AXIS_LABELS,
+  VISUAL_MANDATE_FIELDS,
+  type ClusterId,
+  type StyleAxis,
+  type VisualMandate,
+} from "@/lib/director-styles";
+import {
+  downloadDirectorProfiles,
+  emptyDirectorDraft,
+  parseDirectorProfiles,
+  toDirectorDraft,
+  type CustomDirectorDraft,
+} from "@/lib/custom-directors";
+import {
+  useCustomDirectors,
+  useDeleteCustomDirector,
+  useImportCustomDirectors,
+  useSaveCustomDirector,
+} from "@/hooks/useCustomDirectors";
+
+/** Create, edit, import and export the workspace's own director profiles */
+const CustomDirectorsDialog = ({ disabled }: { disabled?: boolean }) => {
+  const { toast } = useToast();
+  const { data: profiles = [] } = useCustomDirectors();
+  const saveProfile = useSaveCustomDirector();
+  const deleteProfile = useDeleteCustomDirector();
+  const importProfiles = useImportCustomDirectors();
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const [open, setOpen] = useState(false);
+  // null: nothing selected; "new": unsaved draft; else the profile being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<CustomDirectorDraft>(emptyDirectorDraft);
+
+  const selectProfile = (id: string) => {
+    const profile = profiles.find((p) => p.id === id);
+    if (!profile) return;
+    setEditingId(id);
+    setDraft(toDirectorDraft(profile));
+  };
+
+  const startNew = (from?: string) => {
+    const base = DIRECTORS.find((d) => d.id === from);
+    setEditingId("new");
+    setDraft(base ? { ...toDirectorDraft(base), name: `${base.name} (House Style)` } : emptyDirectorDraft());
+  };
+
+  const setAxis = (axis: StyleAxis, value: number) => setDraft((d) => ({ ...d, vector: { ...d.vector, [axis]: value } }));
+  const setMandate = (key: keyof VisualMandate, value: string) =>
+    setDraft((d) => ({ ...d, visualMandate: { ...d.visualMandate, [key]: value } }));
+
+  const handleSave = async () => {
+    if (!draft.name.trim()) {
+      toast({ title: "Name the profile first", variant: "destructive" });
+      return;
+    }
+    try {
+      const id = await saveProfile.mutateAsync({ id: editingId && editingId !== "new" ? editingId : undefined, draft });
+      setEditingId(id);
+      toast({ title: "Director profile saved", description: draft.name.trim() });
+    } catch (e) {
+      toast({ title: "Save failed", description: e instanceof Error ? e.message : String(e), variant: "destructive" });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!editingId || editingId === "new") return;
+    try {
+      await deleteProfile.mutateAsync(editingId);
+      setEditingId(null);
+      toast({ title: "Director profile deleted" });
+    } catch (e) {
+      toast({ title: "Delete failed", description: e instanceof Error ? e.message : String(e), variant: "destructive" });
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const drafts = parseDirectorProfiles(await file.text());
+      const count = await importProfiles.mutateAsync(drafts);
+      toast({ title: `Imported ${count} director profile${count === 1 ? "" : "s"}` });
+    } catch (e) {
+      toast({ title: "Import failed", description: e instanceof Error ? e.message : String(e), variant: "destructive" });
+    }
+  };
+
+  const editing = editingId === "new" ? null : profiles.find((p) => p.id === editingId);
+
+  return (
+    <>
+      <Button variant="outline" size="sm" className="gap-1.5" disabled={disabled} onClick={() => setOpen(true)}>
+        <UserCog className="h-4 w-4" />
+        Custom Profiles{profiles.length > 0 && ` (${profiles.length})`}
+      </Button>
+      <Dialog open={open} onOpenChange={(v) => { setOpen(v); if (!v) setEditingId(null); }}>
+        <DialogContent className="max-w-3xl max-h-[85vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2 text-base">
+              <UserCog className="h-4 w-4" /> Custom Director Profiles
+            </DialogTitle>
+            <DialogDescription className="text-xs">
+              Your own directors and house styles. They appear on the constellation map, in director matching and in the style engine's analysis alongside the built-in catalog.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex flex-1 min-h-0 gap-4">
+            <div className="w-56 shrink-0 border-r border-border pr-3 flex flex-col gap-2">
+              <div className="flex gap-1.5">
+                <Button variant="outline" size="sm" className="h-7 flex-1 gap-1 text-xs" onClick={() => startNew()}>
+                  <Plus className="h-3 w-3" /> New
+                </Button>
+                <Button variant="outline" size="sm" className="h-7 flex-1 gap-1 text-xs" disabled={importProfiles.isPending} onClick={() => fileRef.current?.click()}>
+                  {importProfiles.isPending ? <Loader2 className="h-3 w-3 animate-spin" /> : <Upload className="h-3 w-3" />} Import
+                </Button>
+                <input
+                  ref={fileRef}
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={(e) => { const f = e.target.files?.[0]; if (f) handleImport(f); e.target.value = ""; }}
+                />
+              </div>
+              <Select value="" onValueChange={(v) => startNew(v)}>
+                <SelectTrigger className="h-7 text-xs">
+                  <SelectValue placeholder="Start from a director…" />
+                </SelectTrigger>
+                <SelectContent className="max-h-72 overflow-y-auto">
+                  {[...DIRECTORS].sort((a, b) => a.name.localeCompare(b.name)).map((d) => (
+                    <SelectItem key={d.id} value={d.id} className="text-xs">{d.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <ScrollArea className="flex-1">
+                <div className="space-y-1">
+                  {profiles.map((p) => (
+                    <button
+                      key={p.id}
+                      onClick={() => selectProfile(p.id)}
+                      className={cn(
+                        "w-full rounded-md px-2 py-1.5 text-left transition-colors",
+                        p.id === editingId ? "bg-accent" : "hover:bg-accent/50",
+                      )}
+                    >
+                      <p className="text-xs font-semibold truncate">{p.name}</p>
+                      <p className="text-[10px] text-muted-foreground truncate">{CLUSTER_LABELS[p.cluster]}</p>
+                    </button>
+                  ))}
+                  {profiles.length === 0 && <p className="text-xs text-muted-foreground">No custom profiles yet.</p>}
+                </div>
+              </ScrollArea>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 gap-1 text-xs"
+                disabled={profiles.length === 0}
+                onClick={() => downloadDirectorProfiles(profiles)}
+              >
+                <Download className="h-3 w-3" /> Export all
+              </Button>
+            </div>
+
+            <ScrollArea className="flex-1">
+              {editingId ? (
+                <div className="space-y-3 pr-3">
+                  <div className="grid grid-cols-2 gap-2">
+                    <div className="space-y-1">
+                      <label className="text-[9px] uppercase tracking-wider text-muted-foreground font-bold">Name</label>
+                      <Input className="h-8 text-xs" value={draft.name} onChange={(e) => setDraft((d) => ({ ...d, name: e.target.value }))} />
+                    </div>
+                    <div className="space-y-1">
+                      <label className="text-[9px] uppercase tracking-wider text-muted-foreground font-bold">Cluster</label>
+                      <Select value={draft.cluster} onValueChange={(v) => setDraft((d) => ({ ...d, cluster: v as ClusterId }))}>
+                        <SelectTrigger className="h-8 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.entries(CLUSTER_LABELS) as [ClusterId, string][]).map(([id, label]) => (
+                            <SelectItem key={id} value={id} className="text-xs">{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                  <div className="space-y-1">
+                    <label className="text-[9px] uppercase tracking-wider text-muted-foreground font-bold">Known for (genres, comma-separated)</label>
+                    <Input
+                      key={`${editingId}-${draft.knownFor.join(",")}`}
+                      className="h-8 text-xs"
+                      defaultValue={draft.knownFor.join(", ")}
+                      onBlur={(e) => setDraft((d) => ({ ...d, knownFor: e.target.value.split(",").map((g) => g.trim()).filter(Boolean) }))}
+                    />
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-x-4 gap-y-2">
+                    {STYLE_AXES.map((axis) => (
+                      <div key={axis} className="space-y-1">
+                        <div className="flex items-center justify-between">
+                          <span className="text-[9px] text-muted-foreground uppercase">{STYLE_AXIS_LABELS[axis]}</span>
+                          <span className="text-[9px] font-mono text-foreground tabular-nums">{draft.vector[axis]}</span>
+                        </div>
+                        <Slider
+                          className="fader-slider"
+                          value={[draft.vector[axis]]}
+                          onValueChange={([v]) => setAxis(axis, v)}
+                          min={0}
+                          max={10}
+                          step={0.5}
+                        />
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="space-y-2">
+                    <span className="text-[10px] font-semibold uppercase tracking-wider text-muted-foreground">Visual Mandate</span>
+                    {VISUAL_MANDATE_FIELDS.map(({ key, label }) => (
+                      <div key={key} className="space-y-1">
+                        <label className="text-[9px] uppercase tracking-wider text-muted-foreground">{label}</label>
+                        <Textarea
+                          className="min-h-[44px] text-xs"
+                          value={draft.visualMandate[key]}
+                          onChange={(e) => setMandate(key, e.target.value)}
+                        />
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="flex items-center gap-2 pt-1">
+                    <Button size="sm" className="gap-1.5 flex-1" disabled={saveProfile.isPending} onClick={handleSave}>
+                      {saveProfile.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+                      {editingId === "new" ? "Create Profile" : "Save Profile"}
+                    </Button>
+                    {editing && (
+                      <>
+                        <Button variant="outline" size="sm" className="gap-1.5" onClick={() => downloadDirectorProfiles([editing])}>
+                          <Download className="h-4 w-4" /> Export
+                        </Button>
+                        <Button variant="outline" size="sm" className="gap-1.5 text-destructive" disabled={deleteProfile.isPending} onClick={handleDelete}>
+                          <Trash2 className="h-4 w-4" /> Delete
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              ) : (
+                <p className="text-xs text-muted-foreground py-8 text-center">
+                  Select a profile, start a new one, or import a JSON export from another workspace.
+                </p>
+              )}
+            </ScrollArea>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default CustomDirectorsDialog;
@@ -2,18 +2,25 @@ import { useState, useMemo, useCallback, useRef } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { useFilmId, useFilm } from "@/hooks/useFilm";
+import { useDirectorCatalog } from "@/hooks/useCustomDirectors";
 import {
   DIRECTORS,
   STYLE_AXES,
   STYLE_AXIS_LABELS,
   CLUSTER_LABELS,
   QUADRANT_LABELS,
-  blendVectors,
+  VISUAL_MANDATE_FIELDS,
+  blendManyVectors,
+  leadDirector,
+  mergeMandates,
+  normalizeWeights,
   styleDistance,
   nearestDirectors,
   vectorToQuadrant,
   emotionTier,
+  type BlendMember,
   type DirectorProfile,
+  type MandateDimension,
   type StyleVector,
   type ClusterId,
   type QuadrantId,
@@ -27,11 +34,12 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Loader2, Sparkles, Eye, Check, Blend, Search } from "lucide-react";
+import { Loader2, Sparkles, Eye, Check, Blend, Search, X } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import CustomDirectorsDialog from "@/components/development/CustomDirectorsDialog";
 
 /* ── Cluster color map ── */
 const CLUSTER_COLORS: Record<ClusterId, string> = {
@@ -73,6 +81,33 @@ function genreAwareDistance(
   return baseDist * Math.max(0.4, 1 - genreBonus);
 }
 
+/* ── Blend entries (film_director_profiles.blend_directors) ── */
+interface BlendEntry {
+  id: string;
+  /** Slider units (5–100); shares are the normalized weights */
+  weight: number;
+}
+
+type MandateSources = Partial<Record<MandateDimension, string>>;
+
+/** Saved blend; rows from before N-way blends fall back to primary/secondary and blend_weight */
+function savedBlend(profile: {
+  blend_directors: unknown;
+  blend_weight: number | null;
+  primary_director_id: string;
+  secondary_director_id: string | null;
+} | null | undefined): BlendEntry[] {
+  if (!profile) return [];
+  const stored = (Array.isArray(profile.blend_directors) ? profile.blend_directors : []) as { id: string; weight: number }[];
+  if (stored.length > 0) return stored.map((b) => ({ id: b.id, weight: Math.max(5, Math.round(b.weight * 100)) }));
+  const primaryWeight = Math.round((profile.blend_weight ?? 1) * 100);
+  const entries: BlendEntry[] = [{ id: profile.primary_director_id, weight: primaryWeight }];
+  if (profile.secondary_director_id && primaryWeight < 100) {
+    entries.push({ id: profile.secondary_director_id, weight: 100 - primaryWeight });
+  }
+  return entries;
+}
+
 /* ── Hook: fetch director profile ── */
 const useDirectorProfile = (filmId: string | undefined) =>
   useQuery({
@@ -113,52 +148,66 @@ const DirectorVisionPanel = ({ disabled }: { disabled?: boolean }) => {
   const { data: film } = useFilm();
   const { data: profile, isLoading: profileLoading } = useDirectorProfile(filmId);
   const { data: filmGenres = [] } = useFilmGenres(filmId);
+  const catalog = useDirectorCatalog();
+  const customCount = catalog.length - DIRECTORS.length;
   const filmTitle = film?.title || "YOUR FILM";
 
   const [hoveredDirector, setHoveredDirector] = useState<string | null>(null);
-  const [selectedPrimary, setSelectedPrimary] = useState<string | null>(null);
-  const [selectedSecondary, setSelectedSecondary] = useState<string | null>(null);
-  const [blendWeight, setBlendWeight] = useState(70);
+  // Unsaved edits; null until the user changes the saved blend
+  const [blendDraft, setBlendDraft] = useState<BlendEntry[] | null>(null);
+  const [sourcesDraft, setSourcesDraft] = useState<MandateSources | null>(null);
   const [analyzing, setAnalyzing] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
 
   // Sync from DB profile
-  const primaryId = selectedPrimary || profile?.primary_director_id || null;
-  const secondaryId = selectedSecondary || profile?.secondary_director_id || null;
-  const primaryDirector = DIRECTORS.find((d) => d.id === primaryId);
-  const secondaryDirector = DIRECTORS.find((d) => d.id === secondaryId);
+  const blend = useMemo(() => blendDraft ?? savedBlend(profile), [blendDraft, profile]);
+  const mandateSources = useMemo(
+    () => sourcesDraft ?? ((profile?.mandate_sources ?? {}) as MandateSources),
+    [sourcesDraft, profile],
+  );
+  const members = useMemo<BlendMember[]>(
+    () => blend.flatMap((b) => {
+      const director = catalog.find((d) => d.id === b.id);
+      return director ? [{ director, weight: b.weight }] : [];
+    }),
+    [blend, catalog],
+  );
+  const shares = useMemo(() => normalizeWeights(members.map((m) => m.weight)), [members]);
+  const primaryDirector = leadDirector(members)?.director;
+  const primaryId = primaryDirector?.id ?? null;
+  const memberIds = useMemo(() => new Set(members.map((m) => m.director.id)), [members]);
 
   const scriptVector = profile?.computed_vector as unknown as StyleVector | null;
 
   // Genre-aware top matches
   const topMatches = useMemo(() => {
     if (!scriptVector) return [];
-    return DIRECTORS
+    return catalog
       .map((d) => ({ director: d, distance: genreAwareDistance(scriptVector, d, filmGenres) }))
       .sort((a, b) => a.distance - b.distance)
       .slice(0, 5);
-  }, [scriptVector, filmGenres]);
+  }, [scriptVector, filmGenres, catalog]);
 
   const topMatchIds = useMemo(() => new Set(topMatches.slice(0, 3).map((m) => m.director.id)), [topMatches]);
 
-  // Blended vector
-  const blendedVector = useMemo(() => {
-    if (!primaryDirector) return null;
-    if (!secondaryDirector) return primaryDirector.vector;
-    return blendVectors(primaryDirector.vector, secondaryDirector.vector, blendWeight / 100);
-  }, [primaryDirector, secondaryDirector, blendWeight]);
+  // Blended vector and per-dimension mandate
+  const blendedVector = useMemo(
+    () => (members.length > 0 ? blendManyVectors(members.map((m) => ({ vector: m.director.vector, weight: m.weight }))) : null),
+    [members],
+  );
+  const mergedMandate = useMemo(() => mergeMandates(members, mandateSources), [members, mandateSources]);
 
   // Filtered directors for manual search
   const filteredDirectors = useMemo(() => {
     if (!searchQuery.trim()) return [];
     const q = searchQuery.toLowerCase();
-    return DIRECTORS.filter(
+    return catalog.filter(
       (d) =>
         d.name.toLowerCase().includes(q) ||
         d.knownFor.some((g) => g.toLowerCase().includes(q)) ||
         CLUSTER_LABELS[d.cluster].toLowerCase().includes(q)
     );
-  }, [searchQuery]);
+  }, [searchQuery, catalog]);
 
   // Run analysis
   const handleAnalyze = useCallback(async () => {
@@ -183,20 +232,29 @@ const DirectorVisionPanel = ({ disabled }: { disabled?: boolean }) => {
     mutationFn: async () => {
       if (!filmId || !primaryDirector) return;
       const vec = blendedVector || primaryDirector.vector;
+      // Heaviest first, so primary/secondary stay meaningful for older readers
+      const ranked = members
+        .map((m, i) => ({ director: m.director, share: Math.round(shares[i] * 1000) / 1000 }))
+        .sort((a, b) => b.share - a.share);
+      const secondary = ranked[1]?.director;
       const profileData: any = {
         film_id: filmId,
         primary_director_id: primaryDirector.id,
         primary_director_name: primaryDirector.name,
-        secondary_director_id: secondaryDirector?.id || null,
-        secondary_director_name: secondaryDirector?.name || null,
-        blend_weight: blendWeight / 100,
+        secondary_director_id: secondary?.id || null,
+        secondary_director_name: secondary?.name || null,
+        blend_weight: ranked[0].share,
+        blend_directors: ranked.map((r) => ({ id: r.director.id, name: r.director.name, weight: r.share })),
+        mandate_sources: Object.fromEntries(
+          Object.entries(mandateSources).filter(([, id]) => id && memberIds.has(id)),
+        ),
         computed_vector: scriptVector || vec,
         quadrant: vectorToQuadrant(vec),
         cluster: primaryDirector.cluster,
         emotional_depth: emotionTier(vec.emotion),
         auto_matched: false,
         match_distance: scriptVector ? styleDistance(scriptVector, vec) : null,
-        visual_mandate: primaryDirector.visualMandate,
+        visual_mandate: mergedMandate,
         updated_at: new Date().toISOString(),
       };
 
@@ -269,32 +327,30 @@ const DirectorVisionPanel = ({ disabled }: { disabled?: boolean }) => {
     sy: MAP_H - PAD - ((y / 10) * (MAP_H - PAD * 2)),
   });
 
-  const handleNodeClick = (d: DirectorProfile) => {
-    if (disabled) return;
-    if (!primaryId || primaryId === d.id) {
-      setSelectedPrimary(d.id);
-      return;
-    }
-    if (!secondaryId || secondaryId === d.id) {
-      setSelectedSecondary(d.id === secondaryId ? null : d.id);
-      return;
-    }
-    setSelectedSecondary(d.id);
+  const addToBlend = (directorId: string) => {
+    if (disabled || memberIds.has(directorId)) return;
+    setBlendDraft([...blend, { id: directorId, weight: members.length === 0 ? 100 : 50 }]);
+    setSearchQuery("");
   };
 
-  const handleManualSelect = (directorId: string, role: "primary" | "secondary") => {
+  const removeFromBlend = (directorId: string) => {
     if (disabled) return;
-    if (role === "primary") {
-      setSelectedPrimary(directorId);
-      if (secondaryId === directorId) setSelectedSecondary(null);
-    } else {
-      setSelectedSecondary(directorId);
-      if (primaryId === directorId) setSelectedPrimary(null);
-    }
-    setSearchQuery("");
+    setBlendDraft(blend.filter((b) => b.id !== directorId));
   };
 
-  const hovered = hoveredDirector ? DIRECTORS.find((d) => d.id === hoveredDirector) : null;
+  const setMemberWeight = (directorId: string, weight: number) =>
+    setBlendDraft(blend.map((b) => (b.id === directorId ? { ...b, weight } : b)));
+
+  const setMandateSource = (key: MandateDimension, directorId: string) =>
+    setSourcesDraft({ ...mandateSources, [key]: directorId });
+
+  // Clicking a node toggles it in the blend
+  const handleNodeClick = (d: DirectorProfile) => {
+    if (memberIds.has(d.id)) removeFromBlend(d.id);
+    else addToBlend(d.id);
+  };
+
+  const hovered = hoveredDirector ? catalog.find((d) => d.id === hoveredDirector) : null;
 
   /** Genre overlap badges */
   const GenreTags = ({ genres }: { genres: string[] }) => {
@@ -352,7 +408,7 @@ const DirectorVisionPanel = ({ disabled }: { disabled?: boolean }) => {
           <div className="text-center space-y-2 max-w-md">
             <p className="text-sm font-medium text-foreground">Analyzing Directorial Fit</p>
             <p className="text-xs text-muted-foreground leading-relaxed">
-              The neural style engine is reading your script's tone, pacing, visual density, and emotional temperature — then matching it against 35 iconic director profiles across 8 cinematic axes. This finds the directorial DNA that best fits your story.
+              The neural style engine is reading your script's tone, pacing, visual density, and emotional temperature — then matching it against {DIRECTORS.length} iconic director profiles{customCount > 0 && ` and ${customCount} custom profile${customCount === 1 ? "" : "s"}`} across 8 cinematic axes. This finds the directorial DNA that best fits your story.
             </p>
           </div>
         </div>
@@ -363,49 +419,28 @@ const DirectorVisionPanel = ({ disabled }: { disabled?: boolean }) => {
         <div className="flex items-center gap-2">
           <Search className="h-3.5 w-3.5 text-muted-foreground" />
           <span className="text-[10px] font-semibold uppercase tracking-wider text-muted-foreground">Manual Director Selection</span>
+          <div className="ml-auto">
+            <CustomDirectorsDialog />
+          </div>
         </div>
 
-        <div className="flex gap-2">
-          <div className="flex-1 space-y-1.5">
-            <label className="text-[9px] uppercase tracking-wider text-primary font-bold">Primary</label>
-            <Select
-              value={primaryId || ""}
-              onValueChange={(v) => handleManualSelect(v, "primary")}
-              disabled={disabled}
-            >
-              <SelectTrigger className="h-8 text-xs bg-background">
-                <SelectValue placeholder="Select primary director…" />
-              </SelectTrigger>
-              <SelectContent className="max-h-72 overflow-y-auto">
-                  {[...DIRECTORS].sort((a, b) => a.name.localeCompare(b.name)).map((d) => (
-                    <SelectItem key={d.id} value={d.id} className="text-xs">
-                      <span className="font-medium">{d.name}</span>
-                      <span className="text-muted-foreground ml-1.5">— {d.knownFor.join(", ")}</span>
-                    </SelectItem>
-                  ))}
-              </SelectContent>
-            </Select>
-          </div>
-          <div className="flex-1 space-y-1.5">
-            <label className="text-[9px] uppercase tracking-wider text-muted-foreground font-bold">Secondary</label>
-            <Select
-              value={secondaryId || ""}
-              onValueChange={(v) => handleManualSelect(v, "secondary")}
-              disabled={disabled}
-            >
-              <SelectTrigger className="h-8 text-xs bg-background">
-                <SelectValue placeholder="Select secondary…" />
-              </SelectTrigger>
-              <SelectContent className="max-h-72 overflow-y-auto">
-                  {[...DIRECTORS].filter((d) => d.id !== primaryId).sort((a, b) => a.name.localeCompare(b.name)).map((d) => (
-                    <SelectItem key={d.id} value={d.id} className="text-xs">
-                      <span className="font-medium">{d.name}</span>
-                      <span className="text-muted-foreground ml-1.5">— {d.knownFor.join(", ")}</span>
-                    </SelectItem>
-                  ))}
-              </SelectContent>
-            </Select>
-          </div>
+        <div className="space-y-1.5">
+          <label className="text-[9px] uppercase tracking-wider text-primary font-bold">
+            Add to blend {members.length > 0 && <span className="text-muted-foreground">· {members.length} in blend</span>}
+          </label>
+          <Select value="" onValueChange={addToBlend} disabled={disabled}>
+            <SelectTrigger className="h-8 text-xs bg-background">
+              <SelectValue placeholder={members.length === 0 ? "Select a director…" : "Add another director…"} />
+            </SelectTrigger>
+            <SelectContent className="max-h-72 overflow-y-auto">
+                {[...catalog].filter((d) => !memberIds.has(d.id)).sort((a, b) => a.name.localeCompare(b.name)).map((d) => (
+                  <SelectItem key={d.id} value={d.id} className="text-xs">
+                    <span className="font-medium">{d.name}</span>
+                    <span className="text-muted-foreground ml-1.5">— {d.custom ? "Custom" : d.knownFor.join(", ")}</span>
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
         </div>
 
         {/* Film genre context */}
@@ -461,24 +496,26 @@ const DirectorVisionPanel = ({ disabled }: { disabled?: boolean }) => {
               <text x={PAD + 6} y={MAP_H - PAD - 6} fill="hsl(var(--muted-foreground))" fontSize="8" opacity="0.5" fontFamily="var(--font-display)">INTIMATE + CLASSICAL</text>
               <text x={MAP_W - PAD - 6} y={MAP_H - PAD - 6} fill="hsl(var(--muted-foreground))" fontSize="8" opacity="0.5" textAnchor="end" fontFamily="var(--font-display)">EPIC + CLASSICAL</text>
 
-              {/* Blend line between primary and secondary */}
-              {primaryDirector && secondaryDirector && (() => {
-                const p1 = directorToXY(primaryDirector);
-                const p2 = directorToXY(secondaryDirector);
-                const s1 = toScreen(p1.x, p1.y);
-                const s2 = toScreen(p2.x, p2.y);
-                return (
-                  <line x1={s1.sx} y1={s1.sy} x2={s2.sx} y2={s2.sy} stroke="hsl(var(--primary))" strokeWidth="1.5" opacity="0.3" strokeDasharray="4 4" />
-                );
+              {/* Blend lines from each director to the blended position */}
+              {blendedVector && members.length > 1 && (() => {
+                const b = vectorToXY(blendedVector);
+                const sb = toScreen(b.x, b.y);
+                return members.map((m, i) => {
+                  const p = directorToXY(m.director);
+                  const sp = toScreen(p.x, p.y);
+                  return (
+                    <line key={m.director.id} x1={sp.sx} y1={sp.sy} x2={sb.sx} y2={sb.sy} stroke="hsl(var(--primary))" strokeWidth={0.75 + shares[i] * 2} opacity="0.3" strokeDasharray="4 4" />
+                  );
+                });
               })()}
 
               {/* Director nodes */}
-              {DIRECTORS.map((d) => {
+              {catalog.map((d) => {
                 const { x, y } = directorToXY(d);
                 const { sx, sy } = toScreen(x, y);
                 const isTop3 = topMatchIds.has(d.id);
                 const isPrimary = d.id === primaryId;
-                const isSecondary = d.id === secondaryId;
+                const isSecondary = memberIds.has(d.id) && !isPrimary;
                 const isHovered = d.id === hoveredDirector;
                 const rank = topMatches.findIndex((m) => m.director.id === d.id);
                 const clusterColor = CLUSTER_COLORS[d.cluster];
@@ -510,12 +547,13 @@ const DirectorVisionPanel = ({ disabled }: { disabled?: boolean }) => {
                       <circle cx={sx} cy={sy} r={r + 3} fill="none" stroke="hsl(var(--primary))" strokeWidth="1" opacity="0.4" strokeDasharray="2 2" />
                     )}
 
-                    {/* Node circle */}
+                    {/* Node circle — custom profiles get a dotted outline */}
                     <circle
                       cx={sx} cy={sy} r={r}
                       fill={isPrimary || isSecondary ? "hsl(var(--primary))" : clusterColor}
-                      stroke={isHovered ? "hsl(var(--foreground))" : "none"}
-                      strokeWidth={isHovered ? 1.5 : 0}
+                      stroke={isHovered || d.custom ? "hsl(var(--foreground))" : "none"}
+                      strokeWidth={isHovered ? 1.5 : d.custom ? 1 : 0}
+                      strokeDasharray={d.custom && !isHovered ? "1.5 1.5" : undefined}
                     />
 
                     {/* Name label — show for hovered, selected, and top matches */}
@@ -555,7 +593,7 @@ const DirectorVisionPanel = ({ disabled }: { disabled?: boolean }) => {
               })()}
 
               {/* Blended position marker */}
-              {blendedVector && primaryDirector && secondaryDirector && (() => {
+              {blendedVector && members.length > 1 && (() => {
                 const { x, y } = vectorToXY(blendedVector);
                 const { sx, sy } = toScreen(x, y);
                 return (
@@ -602,7 +640,7 @@ const DirectorVisionPanel = ({ disabled }: { disabled?: boolean }) => {
               <div className="flex items-center justify-between">
                 <span className="text-sm font-display font-bold text-foreground">{hovered.name}</span>
                 <span className="text-[10px] px-2 py-0.5 rounded-full border border-border text-muted-foreground">
-                  {CLUSTER_LABELS[hovered.cluster]}
+                  {hovered.custom && "Custom · "}{CLUSTER_LABELS[hovered.cluster]}
                 </span>
               </div>
               <GenreTags genres={hovered.knownFor} />
@@ -639,16 +677,12 @@ const DirectorVisionPanel = ({ disabled }: { disabled?: boolean }) => {
                       key={m.director.id}
                       onClick={() => {
                         if (disabled) return;
-                        if (i === 0) {
-                          setSelectedPrimary(m.director.id);
-                        } else {
-                          setSelectedSecondary(m.director.id);
-                        }
+                        addToBlend(m.director.id);
                       }}
                       disabled={disabled}
                       className={cn(
                         "rounded-lg border p-2.5 text-left transition-all hover:border-primary/50",
-                        (m.director.id === primaryId || m.director.id === secondaryId)
+                        memberIds.has(m.director.id)
                           ? "border-primary bg-primary/5"
                           : "border-border bg-secondary/30",
                       )}
@@ -667,73 +701,106 @@ const DirectorVisionPanel = ({ disabled }: { disabled?: boolean }) => {
               </div>
             )}
 
-            {/* Primary / Secondary display */}
-            <div className="grid grid-cols-2 gap-3">
-              <div className={cn("rounded-lg border p-3 space-y-1.5", primaryDirector ? "border-primary/40 bg-primary/5" : "border-border border-dashed")}>
-                <span className="text-[9px] font-bold uppercase tracking-wider text-primary">Primary</span>
-                {primaryDirector ? (
-                  <>
-                    <p className="text-sm font-display font-bold text-foreground">{primaryDirector.name}</p>
-                    <GenreTags genres={primaryDirector.knownFor} />
-                    <p className="text-[10px] text-muted-foreground">{primaryDirector.visualMandate.lighting.split(";")[0]}</p>
-                  </>
-                ) : (
-                  <p className="text-xs text-muted-foreground">Click a director or use dropdown above</p>
-                )}
-              </div>
-              <div className={cn("rounded-lg border p-3 space-y-1.5", secondaryDirector ? "border-border bg-secondary/30" : "border-border border-dashed")}>
-                <span className="text-[9px] font-bold uppercase tracking-wider text-muted-foreground">Secondary</span>
-                {secondaryDirector ? (
-                  <>
-                    <p className="text-sm font-display font-bold text-foreground">{secondaryDirector.name}</p>
-                    <GenreTags genres={secondaryDirector.knownFor} />
-                    <p className="text-[10px] text-muted-foreground">{secondaryDirector.visualMandate.lighting.split(";")[0]}</p>
-                  </>
-                ) : (
-                  <p className="text-xs text-muted-foreground">Click another director to blend</p>
+            {/* Blend members with their weights */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-[10px] text-muted-foreground uppercase tracking-wider flex items-center gap-1.5">
+                  <Blend className="h-3 w-3" /> Director Blend
+                </span>
+                {blendedVector && (
+                  <span className="text-[10px] text-muted-foreground">
+                    <span className="text-foreground font-medium">{QUADRANT_LABELS[vectorToQuadrant(blendedVector)]}</span>
+                    {" · "}
+                    <span className="text-foreground font-medium capitalize">{emotionTier(blendedVector.emotion)}</span>
+                  </span>
                 )}
               </div>
-            </div>
-
-            {/* Blend slider */}
-            {primaryDirector && secondaryDirector && (
-              <div className="space-y-2">
-                <div className="flex items-center justify-between">
-                  <span className="text-[10px] text-muted-foreground uppercase tracking-wider flex items-center gap-1.5">
-                    <Blend className="h-3 w-3" /> Blend Ratio
-                  </span>
-                  <span className="text-[10px] font-mono text-foreground">
-                    {blendWeight}% / {100 - blendWeight}%
-                  </span>
+              {members.length === 0 ? (
+                <div className="rounded-lg border border-dashed border-border p-3">
+                  <p className="text-xs text-muted-foreground">Click directors on the map, pick an AI recommendation, or add one above</p>
                 </div>
-                <div className="flex items-center gap-3">
-                  <span className="text-[9px] text-primary font-bold truncate w-20 text-right">{primaryDirector.name.split(" ").pop()}</span>
-                  <Slider
-                    className="fader-slider flex-1"
-                    value={[blendWeight]}
-                    onValueChange={([v]) => setBlendWeight(v)}
-                    min={10}
-                    max={90}
-                    step={5}
-                    disabled={disabled}
-                  />
-                  <span className="text-[9px] text-muted-foreground font-bold truncate w-20">{secondaryDirector.name.split(" ").pop()}</span>
+              ) : (
+                <div className="space-y-1.5">
+                  {members.map((m, i) => {
+                    const isLead = m.director.id === primaryId;
+                    return (
+                      <div
+                        key={m.director.id}
+                        className={cn("flex items-center gap-3 rounded-lg border px-3 py-2", isLead ? "border-primary/40 bg-primary/5" : "border-border bg-secondary/30")}
+                      >
+                        <span className="h-2 w-2 rounded-full shrink-0" style={{ backgroundColor: CLUSTER_COLORS[m.director.cluster] }} />
+                        <div className="w-36 min-w-0">
+                          <p className="text-xs font-display font-bold text-foreground truncate">{m.director.name}</p>
+                          <p className={cn("text-[9px] uppercase tracking-wider", isLead ? "text-primary font-bold" : "text-muted-foreground")}>
+                            {isLead ? "Primary" : m.director.custom ? "Custom" : CLUSTER_LABELS[m.director.cluster]}
+                          </p>
+                        </div>
+                        {members.length > 1 && (
+                          <Slider
+                            className="fader-slider flex-1"
+                            value={[m.weight]}
+                            onValueChange={([v]) => setMemberWeight(m.director.id, v)}
+                            min={5}
+                            max={100}
+                            step={5}
+                            disabled={disabled}
+                          />
+                        )}
+                        <span className="ml-auto text-[10px] font-mono text-foreground tabular-nums w-9 text-right">{Math.round(shares[i] * 100)}%</span>
+                        <button
+                          onClick={() => removeFromBlend(m.director.id)}
+                          disabled={disabled}
+                          className="text-muted-foreground hover:text-destructive disabled:opacity-40"
+                          aria-label={`Remove ${m.director.name} from the blend`}
+                        >
+                          <X className="h-3.5 w-3.5" />
+                        </button>
+                      </div>
+                    );
+                  })}
                 </div>
+              )}
 
-                {/* Blended 8-axis radar preview */}
-                {blendedVector && (
-                  <div className="grid grid-cols-4 gap-2 pt-2">
-                    {STYLE_AXES.map((axis) => (
-                      <div key={axis} className="space-y-0.5">
-                        <span className="text-[8px] text-muted-foreground uppercase">{STYLE_AXIS_LABELS[axis]}</span>
-                        <div className="h-1.5 rounded-full bg-secondary overflow-hidden">
-                          <div className="h-full rounded-full bg-primary/70 transition-all duration-300" style={{ width: `${blendedVector[axis] * 10}%` }} />
-                        </div>
-                        <span className="text-[8px] text-muted-foreground/60 tabular-nums">{blendedVector[axis]}</span>
+              {/* Blended 8-axis radar preview */}
+              {blendedVector && members.length > 1 && (
+                <div className="grid grid-cols-4 gap-2 pt-2">
+                  {STYLE_AXES.map((axis) => (
+                    <div key={axis} className="space-y-0.5">
+                      <span className="text-[8px] text-muted-foreground uppercase">{STYLE_AXIS_LABELS[axis]}</span>
+                      <div className="h-1.5 rounded-full bg-secondary overflow-hidden">
+                        <div className="h-full rounded-full bg-primary/70 transition-all duration-300" style={{ width: `${blendedVector[axis] * 10}%` }} />
                       </div>
-                    ))}
+                      <span className="text-[8px] text-muted-foreground/60 tabular-nums">{blendedVector[axis]}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Visual mandate, one dimension at a time */}
+            {members.length > 1 && (
+              <div className="space-y-2">
+                <span className="text-[10px] text-muted-foreground uppercase tracking-wider">Visual Mandate Sources</span>
+                {VISUAL_MANDATE_FIELDS.map(({ key, label }) => (
+                  <div key={key} className="grid grid-cols-[64px_160px_1fr] items-center gap-2">
+                    <span className="text-[9px] text-muted-foreground uppercase">{label}</span>
+                    <Select
+                      value={members.some((m) => m.director.id === mandateSources[key]) ? mandateSources[key] : primaryId ?? ""}
+                      onValueChange={(v) => setMandateSource(key, v)}
+                      disabled={disabled}
+                    >
+                      <SelectTrigger className="h-7 text-[10px] bg-background">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {members.map((m) => (
+                          <SelectItem key={m.director.id} value={m.director.id} className="text-xs">{m.director.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-[10px] text-muted-foreground truncate" title={mergedMandate[key]}>{mergedMandate[key] || "—"}</p>
                   </div>
-                )}
+                ))}
               </div>
             )}
 
@@ -0,0 +1,228 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Palette, Plus, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import {
+  BUILT_IN_GENRES,
+  DEFAULT_PROFILE,
+  GENRE_PROFILES,
+  GENRE_PROFILE_GROUPS,
+  getGenreField,
+  setGenreField,
+  type GenreProfile,
+} from "@/lib/genre-profiles";
+import {
+  useDeleteGenreProfile,
+  useGenreProfileVersions,
+  useGenreProfiles,
+  useSaveGenreProfile,
+} from "@/hooks/useGenreProfiles";
+
+/** Edit the built-in genre visual profiles or add the workspace's own genres */
+const GenreProfilesDialog = ({ disabled }: { disabled?: boolean }) => {
+  const { toast } = useToast();
+  const { data: profiles = [] } = useGenreProfiles();
+  const saveProfile = useSaveGenreProfile();
+  const deleteProfile = useDeleteGenreProfile();
+
+  const [open, setOpen] = useState(false);
+  // null: nothing selected; "new": unsaved draft; else the profile being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [draft, setDraft] = useState<GenreProfile>(DEFAULT_PROFILE);
+  const { data: versions = [] } = useGenreProfileVersions(editingId && editingId !== "new" ? editingId : null);
+
+  const editing = editingId === "new" ? null : profiles.find((p) => p.id === editingId);
+
+  const selectProfile = (id: string) => {
+    const profile = profiles.find((p) => p.id === id);
+    if (!profile) return;
+    setEditingId(id);
+    setName(profile.name);
+    setDraft(profile.profile);
+  };
+
+  const startNew = (from?: string) => {
+    const existing = profiles.find((p) => p.name === from);
+    if (existing) {
+      selectProfile(existing.id);
+      return;
+    }
+    setEditingId("new");
+    setName(from ?? "");
+    setDraft(from ? GENRE_PROFILES[from] : DEFAULT_PROFILE);
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast({ title: "Name the genre first", variant: "destructive" });
+      return;
+    }
+    try {
+      const saved = await saveProfile.mutateAsync({ id: editing?.id, version: editing?.version, name, profile: draft });
+      setEditingId(saved.id);
+      toast({ title: "Genre profile saved", description: `${name.trim()} · v${saved.version}` });
+    } catch (e) {
+      toast({ title: "Save failed", description: e instanceof Error ? e.message : String(e), variant: "destructive" });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!editing) return;
+    try {
+      await deleteProfile.mutateAsync(editing.id);
+      setEditingId(null);
+      toast({ title: GENRE_PROFILES[editing.name] ? `${editing.name} reset to built-in` : "Genre profile deleted" });
+    } catch (e) {
+      toast({ title: "Delete failed", description: e instanceof Error ? e.message : String(e), variant: "destructive" });
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" size="sm" className="gap-1.5" disabled={disabled} onClick={() => setOpen(true)}>
+        <Palette className="h-3 w-3" />
+        Genre Profiles{profiles.length > 0 && ` (${profiles.length})`}
+      </Button>
+      <Dialog open={open} onOpenChange={(v) => { setOpen(v); if (!v) setEditingId(null); }}>
+        <DialogContent className="max-w-3xl max-h-[85vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2 text-base">
+              <Palette className="h-4 w-4" /> Genre Visual Profiles
+            </DialogTitle>
+            <DialogDescription className="text-xs">
+              The lighting, colour, texture, framing, tones and negatives the Style Contract takes from each genre. Customise a built-in genre or add your own; every save is kept as a version.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex flex-1 min-h-0 gap-4">
+            <div className="w-56 shrink-0 border-r border-border pr-3 flex flex-col gap-2">
+              <Button variant="outline" size="sm" className="h-7 gap-1 text-xs" onClick={() => startNew()}>
+                <Plus className="h-3 w-3" /> New genre
+              </Button>
+              <Select value="" onValueChange={(v) => startNew(v)}>
+                <SelectTrigger className="h-7 text-xs">
+                  <SelectValue placeholder="Customise a built-in…" />
+                </SelectTrigger>
+                <SelectContent className="max-h-72 overflow-y-auto">
+                  {BUILT_IN_GENRES.map((g) => (
+                    <SelectItem key={g} value={g} className="text-xs">{g}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <ScrollArea className="flex-1">
+                <div className="space-y-1">
+                  {profiles.map((p) => (
+                    <button
+                      key={p.id}
+                      onClick={() => selectProfile(p.id)}
+                      className={cn(
+                        "w-full rounded-md px-2 py-1.5 text-left transition-colors",
+                        p.id === editingId ? "bg-accent" : "hover:bg-accent/50",
+                      )}
+                    >
+                      <p className="text-xs font-semibold truncate">{p.name}</p>
+                      <p className="text-[10px] text-muted-foreground truncate">
+                        v{p.version} · {GENRE_PROFILES[p.name] ? "overrides built-in" : "custom genre"}
+                      </p>
+                    </button>
+                  ))}
+                  {profiles.length === 0 && <p className="text-xs text-muted-foreground">Using the built-in profiles.</p>}
+                </div>
+              </ScrollArea>
+            </div>
+
+            <ScrollArea className="flex-1">
+              {editingId ? (
+                <div className="space-y-3 pr-3">
+                  <div className="space-y-1">
+                    <label className="text-[9px] uppercase tracking-wider text-muted-foreground font-bold">Genre name</label>
+                    <Input className="h-8 text-xs" value={name} onChange={(e) => setName(e.target.value)} placeholder="Folk Horror" />
+                    {editing && name.trim() !== editing.name && (
+                      <p className="text-[10px] text-muted-foreground">Films tagged “{editing.name}” will fall back to the built-in profile after renaming.</p>
+                    )}
+                  </div>
+
+                  {GENRE_PROFILE_GROUPS.map((group) => (
+                    <div key={group.label} className="space-y-2">
+                      <span className="text-[10px] font-semibold uppercase tracking-wider text-muted-foreground">{group.label}</span>
+                      <div className="grid grid-cols-2 gap-2">
+                        {group.fields.map((field) => (
+                          <div key={`${field.group ?? ""}.${field.key}`} className={cn("space-y-1", !field.short && "col-span-2")}>
+                            <label className="text-[9px] uppercase tracking-wider text-muted-foreground">{field.label}</label>
+                            {field.short ? (
+                              <Input
+                                className="h-8 text-xs"
+                                value={getGenreField(draft, field)}
+                                onChange={(e) => setDraft((d) => setGenreField(d, field, e.target.value))}
+                              />
+                            ) : (
+                              <Textarea
+                                className="min-h-[44px] text-xs"
+                                value={getGenreField(draft, field)}
+                                onChange={(e) => setDraft((d) => setGenreField(d, field, e.target.value))}
+                              />
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+
+                  {versions.length > 0 && (
+                    <div className="space-y-1">
+                      <span className="text-[10px] font-semibold uppercase tracking-wider text-muted-foreground">Versions</span>
+                      {versions.map((v) => (
+                        <div key={v.id} className="flex items-center gap-2 rounded-md border border-border/60 px-2 py-1">
+                          <span className="text-xs font-mono font-bold">v{v.version}</span>
+                          {v.version === editing?.version && <Badge variant="secondary" className="text-[8px] px-1 py-0 h-4">current</Badge>}
+                          <span className="text-[10px] text-muted-foreground flex-1 truncate">
+                            {v.name} · {new Date(v.created_at).toLocaleString()}
+                          </span>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 px-2 text-[10px]"
+                            disabled={v.version === editing?.version}
+                            onClick={() => { setName(v.name); setDraft(v.profile); }}
+                          >
+                            Load
+                          </Button>
+                        </div>
+                      ))}
+                      <p className="text-[10px] text-muted-foreground">Loading an older version fills the editor; save to make it current as a new version.</p>
+                    </div>
+                  )}
+
+                  <div className="flex items-center gap-2 pt-1">
+                    <Button size="sm" className="gap-1.5 flex-1" disabled={saveProfile.isPending} onClick={handleSave}>
+                      {saveProfile.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+                      {editing ? "Save New Version" : "Create Genre Profile"}
+                    </Button>
+                    {editing && (
+                      <Button variant="outline" size="sm" className="gap-1.5 text-destructive" disabled={deleteProfile.isPending} onClick={handleDelete}>
+                        <Trash2 className="h-4 w-4" /> {GENRE_PROFILES[editing.name] ? "Reset to Built-in" : "Delete"}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ) : (
+                <p className="text-xs text-muted-foreground py-8 text-center">
+                  Select a profile, customise a built-in genre, or add a new one such as “Folk Horror” or “Neo-Western”.
+                </p>
+              )}
+            </ScrollArea>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default GenreProfilesDialog;
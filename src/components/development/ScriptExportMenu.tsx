@@ -0,0 +1,127 @@
+import { useState } from "react";
+import { useFilm, useParsedScenes } from "@/hooks/useFilm";
+import { useCharacterRanking } from "@/hooks/useCharacterRanking";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ClipboardList, Download, FileSpreadsheet, FileText } from "lucide-react";
+import { downloadScript, type ScriptExportFormat } from "@/lib/script-export";
+import { REVISION_COLORS } from "@/lib/revision-colors";
+import { BREAKDOWN_CATEGORIES, downloadBreakdownSheets, type BreakdownCategoryKey } from "@/lib/breakdown-sheets";
+
+const FORMATS: { format: ScriptExportFormat; label: string }[] = [
+  { format: "pdf", label: "Screenplay PDF" },
+  { format: "fdx", label: "Final Draft (.fdx)" },
+  { format: "fountain", label: "Fountain (.fountain)" },
+];
+
+/** Export the current parsed script (renumbered, omitted and revised scenes as they stand) and its breakdown sheets */
+const ScriptExportMenu = ({ disabled }: { disabled?: boolean }) => {
+  const { data: film } = useFilm();
+  const { data: scenes } = useParsedScenes();
+  const rankings = useCharacterRanking();
+  const { toast } = useToast();
+  const [sceneNumbers, setSceneNumbers] = useState(true);
+  const [revisionColor, setRevisionColor] = useState("none");
+
+  const handleExport = (format: ScriptExportFormat) => {
+    if (!scenes || scenes.length === 0) {
+      toast({ title: "Nothing to export", description: "No parsed scenes found for this version.", variant: "destructive" });
+      return;
+    }
+    const color = REVISION_COLORS.find((c) => c.name === revisionColor);
+    downloadScript(format, scenes, {
+      title: film?.title || "Untitled",
+      writers: film?.writers,
+      sceneNumbers,
+      revision: color ? { color, date: new Date().toLocaleDateString() } : null,
+    });
+  };
+
+  const handleBreakdown = (format: "pdf" | BreakdownCategoryKey | "all") => {
+    if (!scenes || scenes.length === 0) {
+      toast({ title: "Nothing to export", description: "No parsed scenes found for this version.", variant: "destructive" });
+      return;
+    }
+    const castIds = new Map(rankings.map((r) => [r.nameNormalized, r.rank]));
+    downloadBreakdownSheets(format, scenes, film?.title || "Untitled", castIds);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-1.5 shrink-0" disabled={disabled}>
+          <Download className="h-4 w-4" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel className="text-xs">Export script</DropdownMenuLabel>
+        {FORMATS.map(({ format, label }) => (
+          <DropdownMenuItem key={format} onClick={() => handleExport(format)} className="gap-2">
+            <FileText className="h-3.5 w-3.5" /> {label}
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuCheckboxItem
+          checked={sceneNumbers}
+          onCheckedChange={(v) => setSceneNumbers(!!v)}
+          onSelect={(e) => e.preventDefault()}
+        >
+          Scene numbers
+        </DropdownMenuCheckboxItem>
+        <DropdownMenuSub>
+          <DropdownMenuSubTrigger>
+            Revision header{revisionColor !== "none" ? `: ${revisionColor}` : ""}
+          </DropdownMenuSubTrigger>
+          <DropdownMenuSubContent>
+            <DropdownMenuRadioGroup value={revisionColor} onValueChange={setRevisionColor}>
+              <DropdownMenuRadioItem value="none" onSelect={(e) => e.preventDefault()}>None</DropdownMenuRadioItem>
+              {REVISION_COLORS.map((c) => (
+                <DropdownMenuRadioItem key={c.name} value={c.name} onSelect={(e) => e.preventDefault()} className="gap-2">
+                  <span className="h-3 w-3 rounded-sm border border-border" style={{ backgroundColor: c.hex }} />
+                  {c.name}
+                </DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+          </DropdownMenuSubContent>
+        </DropdownMenuSub>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel className="text-xs">Breakdown sheets</DropdownMenuLabel>
+        <DropdownMenuItem onClick={() => handleBreakdown("pdf")} className="gap-2">
+          <ClipboardList className="h-3.5 w-3.5" /> Breakdown Sheets PDF
+        </DropdownMenuItem>
+        <DropdownMenuSub>
+          <DropdownMenuSubTrigger className="gap-2">
+            <FileSpreadsheet className="h-3.5 w-3.5" /> Department CSV
+          </DropdownMenuSubTrigger>
+          <DropdownMenuSubContent>
+            <DropdownMenuItem onClick={() => handleBreakdown("all")}>All departments</DropdownMenuItem>
+            <DropdownMenuSeparator />
+            {BREAKDOWN_CATEGORIES.map((c) => (
+              <DropdownMenuItem key={c.key} onClick={() => handleBreakdown(c.key)} className="gap-2">
+                <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: `rgb(${c.rgb.join(",")})` }} />
+                {c.label}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuSubContent>
+        </DropdownMenuSub>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ScriptExportMenu;
@@ -0,0 +1,238 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useFilmId } from "@/hooks/useFilm";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Camera, ChevronDown, ChevronRight, GitCompare, Package, Users } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { revisionColorHex } from "@/lib/revision-colors";
+import { sceneNumberLabel } from "@/lib/scene-numbers";
+import { getSluglineLocale } from "@/lib/slugline-locales";
+
+/* ── Types (parse_jobs.change_report, written by parse-script) ── */
+interface LineDiffOp {
+  op: "=" | "+" | "-";
+  text: string;
+}
+
+interface ChangeReport {
+  revision_number: number;
+  revision_color: string;
+  summary: Record<string, number>;
+  scenes: {
+    scene_number: number;
+    production_scene_number: string | null;
+    previous_scene_number: number | null;
+    heading: string;
+    status: string;
+    diff?: LineDiffOp[];
+  }[];
+  characters: { added: string[]; removed: string[]; affected: string[] };
+  props: string[];
+  shots: { id: string; scene_number: number }[];
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  changed: "bg-amber-500/15 text-amber-500",
+  added: "bg-green-500/15 text-green-500",
+  omitted: "bg-muted text-muted-foreground line-through",
+};
+
+/* ── Hook: numbered script revisions for the film ── */
+const useScriptRevisions = (filmId: string | undefined, enabled: boolean) =>
+  useQuery({
+    queryKey: ["script-revisions", filmId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("parse_jobs")
+        .select("id, revision_number, revision_color, file_name, created_at, scene_count, change_report, slugline_locale")
+        .eq("film_id", filmId!)
+        .order("revision_number", { ascending: false })
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!filmId && enabled,
+  });
+
+const Swatch = ({ color }: { color: string | null }) => (
+  <span className="h-3 w-3 rounded-sm border border-border shrink-0" style={{ backgroundColor: revisionColorHex(color) ?? "transparent" }} />
+);
+
+/** Line diff for one scene — removed lines struck through, added lines marked with * */
+const SceneDiff = ({ diff }: { diff: LineDiffOp[] }) => (
+  <div className="mt-2 rounded-md bg-muted/40 p-2 font-mono text-[11px] leading-relaxed">
+    {diff.map((d, i) => (
+      <div
+        key={i}
+        className={cn(
+          "flex gap-2",
+          d.op === "+" && "text-green-500",
+          d.op === "-" && "text-destructive line-through",
+          d.op === "=" && "text-muted-foreground"
+        )}
+      >
+        <span className="w-3 shrink-0">{d.op === "+" ? "*" : d.op === "-" ? "−" : ""}</span>
+        <span className="whitespace-pre-wrap">{d.text}</span>
+      </div>
+    ))}
+  </div>
+);
+
+const NameList = ({ label, names, tone }: { label: string; names: string[]; tone?: string }) =>
+  names.length === 0 ? null : (
+    <div className="text-xs">
+      <span className="text-muted-foreground">{label}: </span>
+      <span className={tone}>{names.join(", ")}</span>
+    </div>
+  );
+
+const ReportBody = ({ report }: { report: ChangeReport }) => {
+  const [openScene, setOpenScene] = useState<number | null>(null);
+  const shotsByScene = new Map<number, number>();
+  for (const s of report.shots) shotsByScene.set(s.scene_number, (shotsByScene.get(s.scene_number) || 0) + 1);
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-muted-foreground">
+        {report.summary.changed ?? 0} changed · {report.summary.added ?? 0} added · {report.summary.omitted ?? 0} omitted · {report.summary.unchanged ?? 0} unchanged
+      </p>
+
+      <section className="space-y-1.5">
+        <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Scenes</h4>
+        {report.scenes.length === 0 && <p className="text-xs text-muted-foreground">No scene changes.</p>}
+        {report.scenes.map((s) => (
+          <div key={`${s.status}-${s.scene_number}`} className="rounded-lg border border-border p-2">
+            <button
+              className="flex w-full items-center gap-2 text-left"
+              onClick={() => setOpenScene(openScene === s.scene_number ? null : s.scene_number)}
+              disabled={!s.diff}
+            >
+              {s.diff ? (
+                openScene === s.scene_number ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />
+              ) : <span className="w-3.5" />}
+              <span className="font-mono text-xs font-bold w-10 shrink-0">{sceneNumberLabel(s)}</span>
+              <span className="text-xs flex-1 truncate">{s.heading}</span>
+              {shotsByScene.has(s.scene_number) && (
+                <span className="flex items-center gap-1 text-[10px] text-muted-foreground">
+                  <Camera className="h-3 w-3" /> {shotsByScene.get(s.scene_number)}
+                </span>
+              )}
+              <span className={cn("text-[10px] font-mono uppercase tracking-wider px-1.5 py-0.5 rounded", STATUS_STYLES[s.status])}>
+                {s.status}
+              </span>
+            </button>
+            {openScene === s.scene_number && s.diff && <SceneDiff diff={s.diff} />}
+          </div>
+        ))}
+      </section>
+
+      <section className="space-y-1">
+        <h4 className="flex items-center gap-1.5 text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+          <Users className="h-3.5 w-3.5" /> Characters
+        </h4>
+        <NameList label="New speaking parts" names={report.characters.added} tone="text-green-500" />
+        <NameList label="No longer speaking" names={report.characters.removed} tone="text-destructive" />
+        <NameList label="In affected scenes" names={report.characters.affected} />
+        {report.characters.affected.length === 0 && report.characters.added.length === 0 && (
+          <p className="text-xs text-muted-foreground">No characters affected.</p>
+        )}
+      </section>
+
+      <section className="space-y-1">
+        <h4 className="flex items-center gap-1.5 text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+          <Package className="h-3.5 w-3.5" /> Props
+        </h4>
+        <p className="text-xs">{report.props.length > 0 ? report.props.join(", ") : <span className="text-muted-foreground">No props affected.</span>}</p>
+      </section>
+
+      <section className="space-y-1">
+        <h4 className="flex items-center gap-1.5 text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+          <Camera className="h-3.5 w-3.5" /> Shots
+        </h4>
+        <p className="text-xs">
+          {report.shots.length > 0
+            ? `${report.shots.length} shot${report.shots.length !== 1 ? "s" : ""} flagged for review in ${shotsByScene.size} scene${shotsByScene.size !== 1 ? "s" : ""}`
+            : <span className="text-muted-foreground">No shots affected.</span>}
+        </p>
+      </section>
+    </div>
+  );
+};
+
+/** Numbered, coloured script revisions with a "what changed" report per revision */
+const ScriptRevisionsDialog = ({ disabled }: { disabled?: boolean }) => {
+  const filmId = useFilmId();
+  const [open, setOpen] = useState(false);
+  const { data: revisions } = useScriptRevisions(filmId, open);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  // Latest revision with a report is shown first
+  useEffect(() => {
+    if (!open || !revisions || selectedId) return;
+    setSelectedId(revisions.find((r) => r.change_report)?.id ?? revisions[0]?.id ?? null);
+  }, [open, revisions, selectedId]);
+
+  const selected = revisions?.find((r) => r.id === selectedId);
+  const report = selected?.change_report as unknown as ChangeReport | null;
+
+  return (
+    <>
+      <Button variant="outline" size="sm" className="gap-1.5 shrink-0" disabled={disabled} onClick={() => setOpen(true)}>
+        <GitCompare className="h-4 w-4" />
+        Revisions
+      </Button>
+      <Dialog open={open} onOpenChange={(v) => { setOpen(v); if (!v) setSelectedId(null); }}>
+        <DialogContent className="max-w-3xl max-h-[85vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2 text-base">
+              <GitCompare className="h-4 w-4" /> Script Revisions
+            </DialogTitle>
+            <DialogDescription className="text-xs">
+              Every import is a numbered revision. Select one to see what it changed.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex flex-1 min-h-0 gap-4">
+            <ScrollArea className="w-56 shrink-0 border-r border-border pr-3">
+              <div className="space-y-1">
+                {(revisions ?? []).map((r) => (
+                  <button
+                    key={r.id}
+                    onClick={() => setSelectedId(r.id)}
+                    className={cn(
+                      "w-full rounded-md px-2 py-1.5 text-left transition-colors",
+                      r.id === selectedId ? "bg-accent" : "hover:bg-accent/50"
+                    )}
+                  >
+                    <div className="flex items-center gap-2 text-xs font-semibold">
+                      <Swatch color={r.revision_color} />
+                      {r.revision_number === 0 ? "Original" : `Revision ${r.revision_number}`} · {r.revision_color}
+                    </div>
+                    <p className="text-[10px] text-muted-foreground truncate">
+                      {r.file_name || "—"} · {new Date(r.created_at).toLocaleDateString()}
+                      {r.slugline_locale !== "en" && ` · ${getSluglineLocale(r.slugline_locale)?.name ?? r.slugline_locale}`}
+                    </p>
+                  </button>
+                ))}
+                {revisions?.length === 0 && <p className="text-xs text-muted-foreground">No imports yet.</p>}
+              </div>
+            </ScrollArea>
+            <ScrollArea className="flex-1">
+              {report ? (
+                <ReportBody report={report} />
+              ) : (
+                <p className="text-xs text-muted-foreground py-8 text-center">
+                  {selected ? `${selected.scene_count ?? 0} scenes imported — the first draft has nothing to compare against.` : "Select a revision."}
+                </p>
+              )}
+            </ScrollArea>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default ScriptRevisionsDialog;
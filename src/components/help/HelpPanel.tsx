@@ -261,6 +261,7 @@ export const HELP_ARTICLES: HelpArticle[] = [
       "**Key Buttons**\n" +
       "• *Save Details* — Saves title, version name, and writers to the database.\n" +
       "• *Analyze Script* — Runs multi-pass AI analysis on the uploaded screenplay.\n" +
+      "• *Genre Profiles* — In the Genre card: edit any field of a built-in genre's visual profile (lighting, colour, texture, framing, tones, negative) or add your own genres such as Folk Horror. Every save is a new version; the Style Contract compile uses your profiles in place of the built-ins.\n" +
       "• *Lock Fundamentals* — Freezes all Fundamentals data and unlocks the Vision tab.\n" +
       "• *Lock Vision* — Freezes Vision data and unlocks Scene Breakdown. Only enabled when Global Elements, Ratings, Director's Vision, and Production Bible are all approved.",
   },
@@ -389,15 +390,16 @@ export const HELP_ARTICLES: HelpArticle[] = [
       "Located in the Vision tab. The Director's Vision uses a neural style engine to analyze your script's tone, pacing, and visual density, then matches against iconic director profiles.\n\n" +
       "**What It Produces**\n" +
       "• **Primary Director Match** — The closest directorial style to your screenplay.\n" +
-      "• **Secondary Director** — An optional blend influence.\n" +
-      "• **Blend Weight** — How much the secondary director influences the final style (0–100%).\n" +
+      "• **Director Blend** — Any number of directors, each with its own weight. Click nodes on the map, pick AI recommendations, or add directors from the list. Shares are shown as percentages, and the heaviest director is the primary. A live preview shows the blended 8 axes, quadrant and emotion tier.\n" +
+      "• **Visual Mandate Sources** — With two or more directors, choose whose lighting, lens, texture, colour and avoid-list the film takes, one dimension at a time (e.g. lens from one director, colour from another). The merged mandate flows into the Style Contract.\n" +
       "• **Visual DNA** — A concise description of the film's visual identity.\n" +
       "• **Style Quadrant** — Classifies the style on axes of naturalism vs. stylization, restraint vs. expressiveness.\n" +
       "• **Visual Mandate** — Detailed camera, lighting, color, and texture directives.\n\n" +
       "**Buttons**\n" +
       "• *Analyze Style* — Runs the director-fit AI analysis. Displays a loading animation showing the neural style engine at work.\n" +
       "• *Approve* — Locks the director profile. Turns green and shows 'Approved'.\n" +
-      "• *Re-analyze* — Clears and re-runs the style analysis.\n\n" +
+      "• *Re-analyze* — Clears and re-runs the style analysis.\n" +
+      "• *Custom Profiles* — Define your own director or house style: a name, cluster, the 8 style axes and a visual mandate (lighting, lens, texture, colour, things to avoid). Start from scratch or from a built-in director. Custom profiles belong to your workspace. They are matched, mapped and blended like the built-in directors. *Export* saves them as JSON and *Import* loads a JSON export from another workspace.\n\n" +
       "**Impact**\n" +
       "The locked Director's Vision generates the **Style Contract** — a comprehensive document that governs all downstream AI generation (color mandates, lens philosophy, lighting doctrine, texture rules).",
   },
@@ -486,8 +488,9 @@ export const HELP_ARTICLES: HelpArticle[] = [
       "• **Actors** — Audition AI-generated headshots, generate consistency views, and lock your cast.\n" +
       "• **Locations** — Design and approve location concepts with AI-generated artwork.\n" +
       "• **Props** — Browse, generate, and lock key objects identified from the script.\n" +
-      "• **Wardrobe** — Manage costume designs with per-scene assignments and fitting views.\n" +
+      "• **Wardrobe** — Manage costume designs with per-scene assignments, fitting views and a costume plot (change numbers across scenes and story days, exportable to PDF).\n" +
       "• **Vehicles** — Design picture vehicles for visual consistency.\n" +
+      "• **Schedule** — Stripboard: propose a shooting order and arrange strips into shoot days.\n" +
       "• **Storyboards** — Build shot-by-shot visual sequences per scene.\n" +
       "• **Voice Casting** — Preview and select AI voice options per character.\n\n" +
       "**Tab Status Indicators**\n" +
@@ -539,11 +542,13 @@ export const HELP_ARTICLES: HelpArticle[] = [
       "• Generate AI concept art options (3 variations per generation).\n" +
       "• Rate and select your preferred design.\n" +
       "• Lock the chosen concept as the canonical location reference.\n" +
-      "• View the location description extracted from the first action block following the scene heading.\n\n" +
+      "• View the location description extracted from the first action block following the scene heading.\n" +
+      "• **Location Tree** — The locations department's hierarchy: top-level locations with the sets inside them (SMITH HOUSE → KITCHEN, BEDROOM). *Build from sluglines* proposes the tree; rename, move, merge or split nodes so variant sluglines count as one place. Each node shows its scenes, pages and INT/EXT and day/night coverage. Once built, the tree drives the location groups, the stripboard's *Propose Order* and the Production Bible's location list.\n\n" +
       "**Props Tab**\n" +
       "Props identified during script analysis appear in a categorized list. Auto-grouped by character ownership or location co-occurrence.\n" +
       "• Generate visual options for critical props.\n" +
-      "• Lock your selections for downstream consistency.\n\n" +
+      "• Lock your selections for downstream consistency.\n" +
+      "• **Master List** — The props department's list: scenes, owning character, hero / stunt / background designation, quantity, duplicates (e.g. breakaway bottles) and the prop's state in each scene (intact, broken, bloodied…). Link a prop to its identity token and generated shots describe it in that scene's state.\n\n" +
       "**Wardrobe Tab**\n" +
       "Wardrobe items are linked to specific characters. Each entry includes:\n" +
       "• A description extracted from the script.\n" +
@@ -561,6 +566,48 @@ export const HELP_ARTICLES: HelpArticle[] = [
       "**Asset Identity Registry**\n" +
       "All locked assets are registered with internal reference codes ensuring consistent visual identity across all generation tasks.",
   },
+  {
+    id: "stripboard",
+    title: "Stripboard & Shooting Schedule",
+    context: ["pre-production"],
+    category: "Pre-Production",
+    content:
+      "**Strips**\n" +
+      "Every scene is a strip coloured by the usual convention: white INT day, yellow EXT day, blue INT night, green EXT night, pink dawn/dusk. Each strip shows the scene number, location, cast IDs (the character ranking), page length in eighths, and icons for stunts and picture vehicles.\n\n" +
+      "**Propose Order**\n" +
+      "Builds a shooting order from the scene data: scenes are grouped by location, then day/night, then shared cast, and location blocks are chained so actors carry over between company moves. Days fill up to the *Pages / day* target and always break before going from night work back to day work.\n\n" +
+      "**Shoot Days**\n" +
+      "• Drag a strip onto another strip to place it before it, onto the space at the end of a day to append it, or back to *Unscheduled*.\n" +
+      "• The scissors on a strip inserts a day break after it; the unlink icon on a day break merges the two days.\n" +
+      "• Set a start date to date each day (Monday to Friday). Days over the page target show their length in amber.\n\n" +
+      "**Day Out of Days**\n" +
+      "Switch the view to *Day Out of Days* for the cast grid: SW start/work, W work, WF work/finish, SWF start/work/finish, H hold, WD work/drop and PW pickup/work per character per shoot day, with work, hold and total day counts. Idle stretches of 10 days or more become a drop/pickup instead of holds. The grid follows the board as strips move and exports as PDF or CSV.\n\n" +
+      "**Call Sheets**\n" +
+      "The document icon on a day break opens that day's call sheet: crew and shooting call, a call time per cast member, an address for each location and notes. Scenes (with page eighths and synopsis), cast, special requirements (stunts, vehicles, animals, SFX) and the advance schedule for the next day come from the board. Export the full crew version, a copy for one cast member or department with their lines highlighted, or one PDF per cast member.\n\n" +
+      "**Story Days**\n" +
+      "The Story Days view places every scene on a day of the story (Day 1, Night 1, Day 2…) from its continuity marker (CONTINUOUS, LATER, NEXT DAY, NEXT MORNING) and from day/night changes; flashbacks and dreams sit outside the timeline. Correct any scene and the scenes after it follow. Strips show their story day, wardrobe assignments apply to every scene of a character's story day, and VICE flags costumes that change within one.\n\n" +
+      "**Sides**\n" +
+      "Sides in the toolbar cuts a character's scenes from the screenplay PDF; the scroll icon on a day break does the same for that shoot day, in shooting order, for one character or everyone on the day. Other scenes that share those pages are struck through or left out, and the character's dialogue can be highlighted.\n\n" +
+      "**Saving**\n" +
+      "Schedules are saved per version. Strips follow their scenes through script revisions; omitted scenes drop off and new scenes appear as unscheduled.",
+  },
+  {
+    id: "vfx-breakdown",
+    title: "VFX Breakdown & Bid Sheet",
+    context: ["pre-production", "post-production"],
+    category: "Pre-Production",
+    content:
+      "**Breaking Down the Script**\n" +
+      "The VFX tab turns the visual effects found in each scene into VFX shot IDs (e.g. VFX-012-01). Each item is classed by complexity — Cleanup, Comp, Environment, Sim / FX or CG Creature — and gets an estimated shot count. Production shots whose action mentions the effect are linked automatically.\n\n" +
+      "**Editing**\n" +
+      "• Change the description, complexity, estimate or vendor notes inline.\n" +
+      "• Link or unlink the Production shots an effect covers; the estimate follows the links unless you raised it by hand.\n" +
+      "• Running the breakdown again only adds effects that are new to the script.\n\n" +
+      "**Fix-It Bay Repairs**\n" +
+      "In Post-Production, choose a VFX shot in the VFX Fix-It Bay before regenerating a region and the repair is filed against it. The breakdown shows each item's repairs.\n\n" +
+      "**Bid Sheet**\n" +
+      "Export the breakdown (or the current complexity filter) as a vendor bid sheet: a PDF with totals per complexity, or a CSV with an empty Bid column for vendors to fill in.",
+  },
   {
     id: "storyboards",
     title: "Storyboard Builder",
@@ -625,6 +672,8 @@ export const HELP_ARTICLES: HelpArticle[] = [
       "• **Shot List** — All shots for the current scene with status and generation controls.\n\n" +
       "**VICE System**\n" +
       "The Visual Integrity & Continuity Engine monitors all shots for visual consistency conflicts across scenes. Shows dependency graphs and dirty-queue management.\n\n" +
+      "**Scene Style**\n" +
+      "The *Scene Style* button in the scene header opens the scene's style overrides — mood, lighting, colour shift, time-of-day grade, environment texture, camera feel and extra negatives — each shown beside the film Style Contract value it refines. Editing a field locks it: recompiling the Style Contract rebuilds unlocked fields from the scene breakdown but keeps locked ones. Unlock a field to return it to the compiled value.\n\n" +
       "**Workflow**\n" +
       "1. Select a scene from the navigator.\n" +
       "2. Highlight script text to create shots.\n" +
@@ -880,7 +929,10 @@ export const HELP_ARTICLES: HelpArticle[] = [
       "• Overall mood alignment\n\n" +
       "**Actions**\n" +
       "• Review flagged shots and decide whether to regenerate or accept the variation.\n" +
-      "• Use the VFX Fix-It Bay or color grading to bring drifted shots back into compliance.",
+      "• Use the VFX Fix-It Bay or color grading to bring drifted shots back into compliance.\n" +
+      "• Target — Pick an older contract version to regenerate selected shots against it instead of the current one.\n\n" +
+      "**Contract History**\n" +
+      "Every compile is kept as a read-only version with its author, time and source hash. Open History to compare any two versions field by field (color mandate, lighting doctrine, lens philosophy and so on) or roll back — a rollback is recorded as a new version, so nothing is lost.",
   },
   {
     id: "sound-module",
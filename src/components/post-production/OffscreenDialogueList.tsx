@@ -0,0 +1,103 @@
+import { useMemo, useState } from "react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { useParsedScenes, useSceneLabel } from "@/hooks/useFilm";
+import { OFFSCREEN_EXTENSIONS, sceneDialogueLines, type DialogueLine } from "@/lib/parse-script-text";
+import { csvCell, saveBlob } from "@/lib/download";
+import { ChevronDown, ChevronRight, Download, Radio } from "lucide-react";
+
+/**
+ * Every voice-over, off-screen, pre-lap and filtered line in the script,
+ * grouped by character — the sound and ADR recording list.
+ */
+const OffscreenDialogueList = () => {
+  const { data: scenes } = useParsedScenes();
+  const sceneLabel = useSceneLabel();
+  const [openCharacter, setOpenCharacter] = useState<string | null>(null);
+
+  const byCharacter = useMemo(() => {
+    const groups = new Map<string, DialogueLine[]>();
+    for (const scene of scenes ?? []) {
+      if (scene.revision_status === "omitted") continue;
+      for (const line of sceneDialogueLines(scene)) {
+        if (!line.extensions.some((e) => OFFSCREEN_EXTENSIONS.includes(e))) continue;
+        const key = line.character.toUpperCase();
+        if (!groups.has(key)) groups.set(key, []);
+        groups.get(key)!.push(line);
+      }
+    }
+    return [...groups.entries()].sort((a, b) => b[1].length - a[1].length);
+  }, [scenes]);
+
+  const handleExport = () => {
+    const rows = [["Character", "Scene", "Extensions", "Dual with", "Parenthetical", "Line"]];
+    for (const [character, lines] of byCharacter) {
+      for (const l of lines) {
+        rows.push([character, sceneLabel(l.scene), l.extensions.join(" "), l.dual_with ?? "", l.parenthetical ?? "", l.text]);
+      }
+    }
+    saveBlob(rows.map((r) => r.map(csvCell).join(",")).join("\n"), "offscreen-dialogue.csv", "text/csv");
+  };
+
+  if (byCharacter.length === 0) {
+    return <p className="text-[9px] text-muted-foreground/60 font-mono">No V.O. or off-screen lines in the script.</p>;
+  }
+
+  return (
+    <div className="space-y-1">
+      {byCharacter.map(([character, lines]) => (
+        <div key={character} className="rounded-md border border-border/60 bg-secondary/30">
+          <button
+            onClick={() => setOpenCharacter(openCharacter === character ? null : character)}
+            className="flex w-full items-center gap-1.5 px-2 py-1.5 text-left"
+          >
+            {openCharacter === character ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+            <span className="flex-1 truncate text-[10px] font-mono font-bold">{character}</span>
+            <span className="text-[9px] font-mono text-muted-foreground">{lines.length}</span>
+          </button>
+          {openCharacter === character && (
+            <div className="space-y-1.5 border-t border-border/40 px-2 py-1.5">
+              {lines.map((l, i) => (
+                <div key={i} className="text-[10px] leading-snug">
+                  <div className="flex items-center gap-1.5 font-mono text-[9px] text-muted-foreground">
+                    <span>Sc {sceneLabel(l.scene)}</span>
+                    {l.extensions.map((e) => (
+                      <span
+                        key={e}
+                        className={cn(
+                          "rounded px-1",
+                          OFFSCREEN_EXTENSIONS.includes(e) ? "bg-primary/15 text-primary" : "bg-muted"
+                        )}
+                      >
+                        {e}
+                      </span>
+                    ))}
+                    {l.dual && (
+                      <span className="flex items-center gap-0.5">
+                        <Radio className="h-2.5 w-2.5" /> with {l.dual_with ?? "—"}
+                      </span>
+                    )}
+                  </div>
+                  <p>
+                    {l.parenthetical && <span className="italic text-muted-foreground">{l.parenthetical} </span>}
+                    {l.text}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+      <Button
+        variant="secondary"
+        size="sm"
+        className="w-full text-[10px] font-mono gap-1.5 h-7 cinema-inset active:translate-y-px"
+        onClick={handleExport}
+      >
+        <Download className="h-3 w-3" /> Export ADR List (CSV)
+      </Button>
+    </div>
+  );
+};
+
+export default OffscreenDialogueList;
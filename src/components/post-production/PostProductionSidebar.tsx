@@ -11,6 +11,7 @@ import {
   Upload, Download, FileUp, Wand2, Film, Globe,
 } from "lucide-react";
 import LocalizationSuitePanel from "./LocalizationSuitePanel";
+import OffscreenDialogueList from "./OffscreenDialogueList";
 import { toast } from "sonner";
 
 /* ── Tri-State Toggle ── */
@@ -294,6 +295,12 @@ const PostProductionSidebar = ({ onInsertMusicClip, onFileImport }: PostProducti
                 <Languages className="h-3 w-3" /> Translate & Sync Lip Movements
               </Button>
             </div>
+
+            {/* V.O. / off-screen lines for recording */}
+            <div>
+              <SectionHeader icon={Mic} label="V.O. & Off-Screen Lines" />
+              <OffscreenDialogueList />
+            </div>
           </>
         )}
 
@@ -0,0 +1,169 @@
+import { useMemo, useState } from "react";
+import { History, Loader2, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+import { useRollbackStyleContract, useStyleContractVersions } from "@/hooks/useStyleContract";
+import { diffStyleContracts, type ContractChange } from "@/lib/style-contract-history";
+
+const CHANGE_STYLES: Record<ContractChange["kind"], string> = {
+  added: "text-primary",
+  removed: "text-destructive",
+  changed: "text-foreground",
+};
+
+/** Browse style contract versions, compare any two field by field, and roll back */
+const StyleContractHistoryDialog = ({ filmId, currentVersion }: { filmId: string; currentVersion: number }) => {
+  const { data: versions = [] } = useStyleContractVersions();
+  const rollback = useRollbackStyleContract();
+  const [open, setOpen] = useState(false);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [compareTo, setCompareTo] = useState<number | null>(null);
+
+  // Default: the newest version against the one before it
+  const toVersion = versions.find((v) => v.version === (selected ?? currentVersion)) ?? versions[0];
+  const fromVersion = versions.find((v) => v.version === compareTo)
+    ?? versions.find((v) => toVersion && v.version < toVersion.version);
+
+  const diff = useMemo(
+    () => (fromVersion && toVersion ? diffStyleContracts(fromVersion, toVersion) : []),
+    [fromVersion, toVersion],
+  );
+
+  const handleRollback = async () => {
+    if (!toVersion) return;
+    try {
+      const { version } = await rollback.mutateAsync({ filmId, target: toVersion });
+      toast.success(`Style Contract restored from v${toVersion.version} as v${version}`);
+      setSelected(version);
+      setCompareTo(null);
+    } catch (err) {
+      toast.error("Rollback failed: " + (err instanceof Error ? err.message : String(err)));
+    }
+  };
+
+  return (
+    <>
+      <Button variant="ghost" size="sm" className="h-6 gap-1 px-2 text-[9px] font-mono" onClick={() => setOpen(true)}>
+        <History className="h-3 w-3" /> History
+      </Button>
+      <Dialog open={open} onOpenChange={(v) => { setOpen(v); if (!v) { setSelected(null); setCompareTo(null); } }}>
+        <DialogContent className="max-w-3xl max-h-[85vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2 text-base">
+              <History className="h-4 w-4" /> Style Contract History
+            </DialogTitle>
+            <DialogDescription className="text-xs">
+              Every compile and rollback is kept as a read-only version. Compare any two, or make an older one current again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex flex-1 min-h-0 gap-4">
+            <ScrollArea className="w-56 shrink-0 border-r border-border pr-3">
+              <div className="space-y-1">
+                {versions.map((v) => (
+                  <button
+                    key={v.id}
+                    onClick={() => { setSelected(v.version); setCompareTo(null); }}
+                    className={cn(
+                      "w-full rounded-md px-2 py-1.5 text-left transition-colors",
+                      v.version === toVersion?.version ? "bg-accent" : "hover:bg-accent/50",
+                    )}
+                  >
+                    <div className="flex items-center gap-1.5">
+                      <span className="text-xs font-mono font-bold">v{v.version}</span>
+                      {v.version === currentVersion && (
+                        <Badge variant="secondary" className="text-[8px] px-1 py-0 h-4">current</Badge>
+                      )}
+                      {v.rolled_back_from !== null && (
+                        <span className="text-[9px] text-muted-foreground">↺ v{v.rolled_back_from}</span>
+                      )}
+                    </div>
+                    <p className="text-[10px] text-muted-foreground truncate">
+                      {new Date(v.created_at).toLocaleString()} · {v.author_name || "Unknown"}
+                    </p>
+                    {v.source_hash && (
+                      <p className="text-[9px] font-mono text-muted-foreground/70 truncate" title={v.source_hash}>
+                        {v.source_hash}
+                      </p>
+                    )}
+                  </button>
+                ))}
+                {versions.length === 0 && <p className="text-xs text-muted-foreground">No versions recorded yet.</p>}
+              </div>
+            </ScrollArea>
+
+            <div className="flex-1 min-w-0 flex flex-col gap-3">
+              {toVersion ? (
+                <>
+                  <div className="flex items-center gap-2 text-xs">
+                    <span className="text-muted-foreground">Compare</span>
+                    <Select
+                      value={fromVersion ? String(fromVersion.version) : ""}
+                      onValueChange={(v) => setCompareTo(Number(v))}
+                    >
+                      <SelectTrigger className="h-7 w-24 text-xs">
+                        <SelectValue placeholder="—" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {versions.filter((v) => v.version !== toVersion.version).map((v) => (
+                          <SelectItem key={v.id} value={String(v.version)} className="text-xs">v{v.version}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <span className="text-muted-foreground">→ v{toVersion.version}</span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="ml-auto h-7 gap-1 text-xs"
+                      disabled={toVersion.version === currentVersion || rollback.isPending}
+                      onClick={handleRollback}
+                    >
+                      {rollback.isPending ? <Loader2 className="h-3 w-3 animate-spin" /> : <RotateCcw className="h-3 w-3" />}
+                      Roll back to v{toVersion.version}
+                    </Button>
+                  </div>
+                  <ScrollArea className="flex-1">
+                    <div className="space-y-3 pr-3">
+                      {!fromVersion && <p className="text-xs text-muted-foreground">The first recorded version — nothing to compare against.</p>}
+                      {fromVersion && diff.length === 0 && (
+                        <p className="text-xs text-muted-foreground">v{fromVersion.version} and v{toVersion.version} are identical.</p>
+                      )}
+                      {diff.map((d) => (
+                        <div key={d.field} className="space-y-1">
+                          <p className="text-[10px] font-semibold uppercase tracking-wider text-muted-foreground">
+                            {d.label} <span className="font-mono normal-case">({d.changes.length})</span>
+                          </p>
+                          {d.changes.map((c) => (
+                            <div key={`${c.path}-${c.kind}`} className="rounded-md border border-border/60 px-2 py-1.5 text-[11px]">
+                              {c.path && <p className="font-mono text-[10px] text-muted-foreground">{c.path}</p>}
+                              {c.before !== undefined && (
+                                <p className={cn("whitespace-pre-wrap", c.kind === "changed" ? "text-muted-foreground line-through" : CHANGE_STYLES[c.kind])}>
+                                  − {c.before}
+                                </p>
+                              )}
+                              {c.after !== undefined && (
+                                <p className={cn("whitespace-pre-wrap", CHANGE_STYLES[c.kind])}>+ {c.after}</p>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      ))}
+                    </div>
+                  </ScrollArea>
+                </>
+              ) : (
+                <p className="text-xs text-muted-foreground py-8 text-center">Compile the Style Contract to start its history.</p>
+              )}
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default StyleContractHistoryDialog;
@@ -2,10 +2,14 @@ import { useState, useMemo } from "react";
 import { AlertTriangle, CheckCircle2, RefreshCw, ChevronDown, ChevronRight, Shield } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { cn } from "@/lib/utils";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import type { Tables } from "@/integrations/supabase/types";
+import { useStyleContractVersions } from "@/hooks/useStyleContract";
+import { useGenerationManager } from "@/hooks/useGenerationManager";
+import StyleContractHistoryDialog from "@/components/post-production/StyleContractHistoryDialog";
 
 type Shot = Tables<"shots">;
 
@@ -18,11 +22,12 @@ interface StyleDriftDetectorProps {
 
 type DriftStatus = "current" | "outdated" | "unknown";
 
+/** Drift is measured against the target version, which may be older than the current contract */
 function getShotDriftStatus(shot: Shot, contractVersion: number | null): DriftStatus {
   if (contractVersion === null) return "unknown";
-  const shotVersion = (shot as any).style_contract_version as number | null;
+  const shotVersion = shot.style_contract_version;
   if (shotVersion === null || shotVersion === undefined) return "unknown";
-  if (shotVersion < contractVersion) return "outdated";
+  if (shotVersion !== contractVersion) return "outdated";
   return "current";
 }
 
@@ -73,7 +78,7 @@ function SceneDriftGroup({
         <div className="p-2 space-y-1">
           {shots.map((shot, idx) => {
             const status = getShotDriftStatus(shot, contractVersion);
-            const shotVersion = (shot as any).style_contract_version as number | null;
+            const shotVersion = shot.style_contract_version;
             if (status === "current") return null;
             return (
               <label
@@ -110,9 +115,16 @@ function SceneDriftGroup({
   );
 }
 
-const StyleDriftDetector = ({ shots, contractVersion, filmId, onRegenerate }: StyleDriftDetectorProps) => {
+const StyleDriftDetector = ({ shots, contractVersion: currentVersion, filmId, onRegenerate }: StyleDriftDetectorProps) => {
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [isRegenerating, setIsRegenerating] = useState(false);
+  const [targetVersion, setTargetVersion] = useState<number | null>(null);
+  const { data: versions = [] } = useStyleContractVersions();
+  const { startGeneration } = useGenerationManager();
+
+  // Regenerate against the current contract unless an older version is chosen
+  const contractVersion = targetVersion ?? currentVersion;
+  const isPinned = contractVersion !== currentVersion;
 
   const { outdatedShots, unknownShots, currentShots, sceneGroups } = useMemo(() => {
     const outdated: Shot[] = [];
@@ -159,20 +171,29 @@ const StyleDriftDetector = ({ shots, contractVersion, filmId, onRegenerate }: St
     if (selectedIds.size === 0) return;
     setIsRegenerating(true);
     try {
-      // Mark selected shots with current contract version (simulating regeneration)
+      // Mark selected shots with the target contract version, then regenerate their anchors against it
       const ids = [...selectedIds];
       const { error } = await supabase
         .from("shots")
-        .update({ style_contract_version: contractVersion } as any)
+        .update({ style_contract_version: contractVersion })
         .in("id", ids);
 
       if (error) throw error;
 
+      for (const id of ids) {
+        startGeneration(id, "anchor", {
+          shot_id: id,
+          mode: "anchor",
+          anchor_count: 4,
+          ...(isPinned ? { style_contract_version: contractVersion } : {}),
+        });
+      }
+
       toast.success(`Queued ${ids.length} shot${ids.length > 1 ? "s" : ""} for regeneration with Style Contract v${contractVersion}`);
       onRegenerate?.(ids);
       setSelectedIds(new Set());
-    } catch (err: any) {
-      toast.error("Failed to queue regeneration: " + err.message);
+    } catch (err) {
+      toast.error("Failed to queue regeneration: " + (err instanceof Error ? err.message : String(err)));
     } finally {
       setIsRegenerating(false);
     }
@@ -181,10 +202,30 @@ const StyleDriftDetector = ({ shots, contractVersion, filmId, onRegenerate }: St
   const totalDrifted = outdatedShots.length + unknownShots.length;
   const allCurrent = totalDrifted === 0;
 
-  if (contractVersion === null) return null;
+  if (currentVersion === null) return null;
 
   return (
     <div className="space-y-3">
+      {/* Contract version the shots are checked and regenerated against */}
+      <div className="flex items-center gap-2">
+        <span className="text-[9px] font-mono font-bold uppercase tracking-wider text-muted-foreground">Target</span>
+        <Select value={String(contractVersion)} onValueChange={(v) => { setTargetVersion(Number(v)); setSelectedIds(new Set()); }}>
+          <SelectTrigger className="h-6 w-32 text-[10px] font-mono">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(versions.length > 0 ? versions.map((v) => v.version) : [currentVersion]).map((v) => (
+              <SelectItem key={v} value={String(v)} className="text-[10px] font-mono">
+                v{v}{v === currentVersion ? " (current)" : ""}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="ml-auto">
+          <StyleContractHistoryDialog filmId={filmId} currentVersion={currentVersion} />
+        </div>
+      </div>
+
       {/* Summary Banner */}
       <div
         className={cn(
@@ -260,7 +301,7 @@ const StyleDriftDetector = ({ shots, contractVersion, filmId, onRegenerate }: St
             <RefreshCw className={cn("h-3.5 w-3.5", isRegenerating && "animate-spin")} />
             {isRegenerating
               ? "Queuing…"
-              : `Regenerate ${selectedIds.size} shot${selectedIds.size !== 1 ? "s" : ""} with current style`}
+              : `Regenerate ${selectedIds.size} shot${selectedIds.size !== 1 ? "s" : ""} with ${isPinned ? `v${contractVersion}` : "current"} style`}
           </Button>
         </>
       )}
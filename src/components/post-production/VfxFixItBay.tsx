@@ -13,7 +13,9 @@ import {
 } from "@/components/ui/dialog";
 import { supabase } from "@/integrations/supabase/client";
 import { useQuery } from "@tanstack/react-query";
-import { useFilmId } from "@/hooks/useFilm";
+import { toast } from "sonner";
+import { useFilmId, useSceneLabel } from "@/hooks/useFilm";
+import { useLogVfxRepair, useVfxShots } from "@/hooks/useVfxBreakdown";
 import type { Tables } from "@/integrations/supabase/types";
 
 type Clip = Tables<"post_production_clips">;
@@ -24,6 +26,7 @@ interface VfxFixItBayProps {
 }
 
 const MASK_COLOR = "rgba(220, 38, 38, 0.35)";
+const NO_VFX_SHOT = "__none__";
 const BRUSH_SIZE = 24;
 
 const VfxFixItBay = ({ clip, onClose }: VfxFixItBayProps) => {
@@ -37,6 +40,10 @@ const VfxFixItBay = ({ clip, onClose }: VfxFixItBayProps) => {
   const [selectedAssetId, setSelectedAssetId] = useState<string>("");
   const [isRegenerating, setIsRegenerating] = useState(false);
   const [hasMask, setHasMask] = useState(false);
+  const [vfxShotId, setVfxShotId] = useState<string>(NO_VFX_SHOT);
+  const { data: vfxShots = [] } = useVfxShots();
+  const sceneLabel = useSceneLabel();
+  const logRepair = useLogVfxRepair();
 
   // Fetch locked assets from registry
   const { data: assets = [] } = useQuery({
@@ -132,7 +139,20 @@ const VfxFixItBay = ({ clip, onClose }: VfxFixItBayProps) => {
   };
 
   const handleRegenerate = () => {
+    if (!clip || !filmId) return;
     setIsRegenerating(true);
+    // File the repair against the breakdown so the bid sheet shows it
+    logRepair.mutate(
+      {
+        film_id: filmId,
+        clip_id: clip.id,
+        clip_label: clip.label,
+        prompt: prompt || null,
+        asset_id: useLockedAsset && selectedAssetId ? selectedAssetId : null,
+        vfx_shot_id: vfxShotId === NO_VFX_SHOT ? null : vfxShotId,
+      },
+      { onError: (err) => toast.error(err instanceof Error ? err.message : "Failed to record the repair") }
+    );
     // Simulate processing
     setTimeout(() => setIsRegenerating(false), 4000);
   };
@@ -290,6 +310,26 @@ const VfxFixItBay = ({ clip, onClose }: VfxFixItBayProps) => {
                 </SelectContent>
               </Select>
             )}
+
+            {/* File the repair against a VFX breakdown item */}
+            <Select value={vfxShotId} onValueChange={setVfxShotId}>
+              <SelectTrigger className="ml-auto w-72 h-8 bg-background border-border/60 text-xs font-mono">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-popover border-border z-50">
+                <SelectItem value={NO_VFX_SHOT}>
+                  <span className="text-muted-foreground">Not linked to a VFX shot</span>
+                </SelectItem>
+                {vfxShots.map((v) => (
+                  <SelectItem key={v.id} value={v.id}>
+                    <div className="flex items-center gap-2">
+                      <span className="font-display font-semibold">{v.vfx_id}</span>
+                      <span className="text-[9px] text-muted-foreground font-mono truncate max-w-40">Sc {sceneLabel(v.scene_number)} · {v.description}</span>
+                    </div>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
         </div>
       </DialogContent>
@@ -0,0 +1,189 @@
+import { useMemo, useState } from "react";
+import { Download, FileText, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useFilm, useParsedScenes } from "@/hooks/useFilm";
+import { useCharacterRanking } from "@/hooks/useCharacterRanking";
+import {
+  REQUIREMENT_LABELS, buildCallSheet, downloadCallSheet,
+  type CallSheetRecipient, type CallSheetScene, type RequirementKey,
+} from "@/lib/call-sheet";
+import type { CallSheetDetails, ShootDay } from "@/lib/stripboard";
+
+interface CallSheetDialogProps {
+  dayIndex: number | null;
+  days: ShootDay[];
+  dates: (Date | null)[];
+  onOpenChange: (open: boolean) => void;
+  onChange: (dayId: string, call: CallSheetDetails) => void;
+}
+
+const parseRecipient = (value: string): CallSheetRecipient => {
+  if (value.startsWith("cast:")) return { kind: "cast", character: value.slice(5) };
+  if (value.startsWith("dept:")) return { kind: "department", department: value.slice(5) as RequirementKey };
+  return { kind: "crew" };
+};
+
+/** Call details for one shoot day, exported as a call sheet per recipient */
+const CallSheetDialog = ({ dayIndex, days, dates, onOpenChange, onChange }: CallSheetDialogProps) => {
+  const { data: film } = useFilm();
+  const { data: parsedScenes } = useParsedScenes();
+  const rankings = useCharacterRanking();
+  const [recipient, setRecipient] = useState("crew");
+
+  const castIds = useMemo(() => new Map(rankings.map((r) => [r.nameNormalized, r.rank])), [rankings]);
+  const sceneById = useMemo(
+    () => new Map(((parsedScenes ?? []) as CallSheetScene[]).map((s) => [s.id, s])),
+    [parsedScenes]
+  );
+
+  const day = dayIndex !== null ? days[dayIndex] : undefined;
+  const sheet = useMemo(
+    () => (dayIndex !== null && day ? buildCallSheet(dayIndex, days, sceneById, castIds, dates) : null),
+    [dayIndex, day, days, sceneById, castIds, dates]
+  );
+  const call = day?.call ?? {};
+
+  const set = (patch: Partial<CallSheetDetails>) => day && onChange(day.id, { ...call, ...patch });
+
+  const title = film?.title ?? "";
+  const handleExport = () => sheet && downloadCallSheet(sheet, parseRecipient(recipient), title, castIds);
+  const handleExportAllCast = () => {
+    if (!sheet) return;
+    for (const c of sheet.cast) downloadCallSheet(sheet, { kind: "cast", character: c.character }, title, castIds);
+  };
+
+  const departments = sheet
+    ? (Object.keys(REQUIREMENT_LABELS) as RequirementKey[]).filter((k) => sheet.requirements[k].length > 0)
+    : [];
+
+  return (
+    <Dialog open={dayIndex !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-base">
+            <FileText className="h-4 w-4" /> Call Sheet — Day {sheet?.dayNumber}
+            {sheet?.date && (
+              <span className="text-sm font-normal text-muted-foreground">
+                {sheet.date.toLocaleDateString(undefined, { weekday: "long", day: "numeric", month: "long" })}
+              </span>
+            )}
+          </DialogTitle>
+          <DialogDescription className="text-xs">
+            Scenes, cast and requirements come from the board. Call times and addresses are saved with the schedule.
+          </DialogDescription>
+        </DialogHeader>
+
+        {sheet && (
+          <ScrollArea className="flex-1 pr-3">
+            <div className="space-y-5">
+              <div className="grid grid-cols-2 gap-3">
+                <label className="space-y-1 text-xs text-muted-foreground">
+                  Crew call
+                  <Input type="time" value={call.crew_call ?? ""} onChange={(e) => set({ crew_call: e.target.value || undefined })} className="h-8 text-xs" />
+                </label>
+                <label className="space-y-1 text-xs text-muted-foreground">
+                  Shooting call
+                  <Input type="time" value={call.shooting_call ?? ""} onChange={(e) => set({ shooting_call: e.target.value || undefined })} className="h-8 text-xs" />
+                </label>
+              </div>
+
+              <section className="space-y-1.5">
+                <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Cast</h4>
+                {sheet.cast.length === 0 && <p className="text-xs text-muted-foreground">No cast in this day's scenes.</p>}
+                {sheet.cast.map((c) => (
+                  <div key={c.character} className="flex items-center gap-3 text-xs">
+                    <span className="w-6 font-mono text-muted-foreground">{c.castId ?? "—"}</span>
+                    <span className="flex-1 truncate font-medium">{c.character}</span>
+                    <span className="font-mono text-[10px] text-muted-foreground">Sc {c.scenes.join(", ")}</span>
+                    <Input
+                      type="time"
+                      value={call.cast_calls?.[c.character] ?? ""}
+                      onChange={(e) => set({ cast_calls: { ...call.cast_calls, [c.character]: e.target.value } })}
+                      className="h-7 w-28 text-xs"
+                    />
+                  </div>
+                ))}
+              </section>
+
+              <section className="space-y-1.5">
+                <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Locations</h4>
+                {sheet.locations.map((l) => (
+                  <div key={l.name} className="space-y-1">
+                    <p className="text-xs font-medium">{l.name}</p>
+                    <Input
+                      value={call.addresses?.[l.name] ?? ""}
+                      onChange={(e) => set({ addresses: { ...call.addresses, [l.name]: e.target.value } })}
+                      placeholder="Address, parking, basecamp…"
+                      className="h-7 text-xs"
+                    />
+                  </div>
+                ))}
+              </section>
+
+              <section className="space-y-1">
+                <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Special Requirements</h4>
+                {departments.length === 0 && <p className="text-xs text-muted-foreground">None.</p>}
+                {departments.map((k) => (
+                  <p key={k} className="text-xs">
+                    <span className="text-muted-foreground">{REQUIREMENT_LABELS[k]}: </span>
+                    {sheet.requirements[k].map((r) => `${r.item} (Sc ${r.scene})`).join(", ")}
+                  </p>
+                ))}
+              </section>
+
+              <section className="space-y-1">
+                <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Notes</h4>
+                <Textarea
+                  value={call.notes ?? ""}
+                  onChange={(e) => set({ notes: e.target.value || undefined })}
+                  placeholder={day?.note || "Safety notes, weather, meal times…"}
+                  className="min-h-[60px] text-xs"
+                />
+              </section>
+
+              <p className="text-[10px] text-muted-foreground">
+                Advance schedule: {sheet.advance ? `Day ${sheet.advance.dayNumber} · ${sheet.advance.scenes.length} scene${sheet.advance.scenes.length !== 1 ? "s" : ""}` : "none — last shoot day"}
+              </p>
+            </div>
+          </ScrollArea>
+        )}
+
+        <div className="flex items-center gap-2 border-t border-border pt-3">
+          <Select value={recipient} onValueChange={setRecipient}>
+            <SelectTrigger className="h-8 w-56 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="crew">Full crew</SelectItem>
+              {sheet?.cast.map((c) => (
+                <SelectItem key={c.character} value={`cast:${c.character}`}>Cast — {c.character}</SelectItem>
+              ))}
+              {departments.map((k) => (
+                <SelectItem key={k} value={`dept:${k}`}>Dept — {REQUIREMENT_LABELS[k]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" className="h-8 gap-1.5 text-xs" onClick={handleExport} disabled={!sheet}>
+            <Download className="h-3.5 w-3.5" /> Export PDF
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="ml-auto h-8 gap-1.5 text-xs"
+            onClick={handleExportAllCast}
+            disabled={!sheet || sheet.cast.length === 0}
+          >
+            <Users className="h-3.5 w-3.5" /> One per cast member
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CallSheetDialog;
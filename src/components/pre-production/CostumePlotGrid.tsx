@@ -0,0 +1,202 @@
+import { useMemo, useState } from "react";
+import { AlertCircle, FileText, Loader2, Shirt, Users } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { useFilm, useParsedScenes, useSceneLabel } from "@/hooks/useFilm";
+import { useCharacterRanking } from "@/hooks/useCharacterRanking";
+import { useStoryDays } from "@/hooks/useStoryDays";
+import { costumeThumbnail, useCostumeThumbnails, useWardrobeAssignments } from "@/hooks/useCostumePlot";
+import { buildCostumePlot, downloadCostumePlot, type CostumePlot } from "@/lib/costume-plot";
+import { storyDayLabel } from "@/lib/story-days";
+
+const CHANGE_STYLES = [
+  "bg-sky-500/20 text-sky-700",
+  "bg-amber-500/20 text-amber-700",
+  "bg-emerald-500/20 text-emerald-700",
+  "bg-violet-500/20 text-violet-700",
+  "bg-pink-500/20 text-pink-700",
+  "bg-teal-500/20 text-teal-700",
+];
+
+interface CostumePlotGridProps {
+  filmId: string;
+  characterName: string;
+  characterSceneNumbers: number[];
+  sceneHeadings?: Record<number, string>;
+  displayName: (item: string) => string;
+}
+
+/** A character's costume changes scene by scene, grouped by story day */
+const CostumePlotGrid = ({ filmId, characterName, characterSceneNumbers, sceneHeadings, displayName }: CostumePlotGridProps) => {
+  const { data: film } = useFilm();
+  const { data: parsedScenes } = useParsedScenes();
+  const sceneLabel = useSceneLabel();
+  const rankings = useCharacterRanking();
+  const storyDays = useStoryDays();
+  const { data: assignments = [] } = useWardrobeAssignments(filmId);
+  const { data: thumbnails } = useCostumeThumbnails(filmId);
+  const [exporting, setExporting] = useState(false);
+
+  const plot = useMemo(
+    () => buildCostumePlot(characterName, characterSceneNumbers, assignments, storyDays),
+    [characterName, characterSceneNumbers, assignments, storyDays]
+  );
+
+  // Columns grouped under their story day
+  const dayGroups = useMemo(() => {
+    const groups: { label: string; cells: typeof plot.cells }[] = [];
+    for (const cell of plot.cells) {
+      const label = storyDayLabel(cell.storyDay) || "—";
+      const last = groups[groups.length - 1];
+      if (last && last.label === label) last.cells.push(cell);
+      else groups.push({ label, cells: [cell] });
+    }
+    return groups;
+  }, [plot]);
+
+  const thumbnailsFor = (plots: CostumePlot[]) => {
+    const map = new Map<string, string>();
+    for (const c of plots.flatMap((p) => p.changes)) {
+      const url = costumeThumbnail(thumbnails, c.item);
+      if (url) map.set(c.item, url);
+    }
+    return map;
+  };
+
+  const exportPlots = async (plots: CostumePlot[]) => {
+    setExporting(true);
+    try {
+      await downloadCostumePlot(plots, thumbnailsFor(plots), sceneHeadings ?? {}, sceneLabel, film?.title ?? "");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to export costume plot");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  // Every character with a costume assigned, in cast order
+  const handleExportAll = () => {
+    const names = [...new Set(assignments.map((a) => a.character_name))];
+    const order = rankings.map((r) => r.nameNormalized);
+    const rank = (name: string) => (order.includes(name.toUpperCase()) ? order.indexOf(name.toUpperCase()) : 9999);
+    const plots = names
+      .sort((a, b) => rank(a) - rank(b))
+      .map((name) => {
+        const scenes = (parsedScenes ?? [])
+          .filter((s) => s.revision_status !== "omitted" && (s.characters ?? []).some((c) => c.trim().toUpperCase() === name.toUpperCase()))
+          .map((s) => s.scene_number);
+        return buildCostumePlot(name, scenes, assignments, storyDays);
+      });
+    exportPlots(plots);
+  };
+
+  return (
+    <div className="rounded-xl border border-border bg-card p-5 cinema-shadow space-y-4">
+      <div className="flex items-center gap-2">
+        <Shirt className="h-4 w-4 text-primary" />
+        <h3 className="font-display text-sm font-bold uppercase tracking-wider text-foreground">Costume Plot</h3>
+        <span className="text-xs text-muted-foreground/50">
+          {plot.changes.length} change{plot.changes.length !== 1 ? "s" : ""}
+        </span>
+        <div className="ml-auto flex items-center gap-2">
+          <Button variant="outline" size="sm" className="h-7 gap-1.5 text-xs" disabled={exporting} onClick={() => exportPlots([plot])}>
+            {exporting ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <FileText className="h-3.5 w-3.5" />} PDF
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 gap-1.5 text-xs"
+            disabled={exporting || assignments.length === 0}
+            onClick={handleExportAll}
+          >
+            <Users className="h-3.5 w-3.5" /> All characters
+          </Button>
+        </div>
+      </div>
+
+      {plot.cells.length === 0 ? (
+        <p className="text-xs text-muted-foreground/50">{characterName} is not in any scene.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="border-collapse text-[10px] font-mono">
+            <thead>
+              <tr>
+                {dayGroups.map((g, i) => (
+                  <th key={i} colSpan={g.cells.length} className="border border-border bg-secondary/60 px-1 py-0.5 text-center uppercase">
+                    {g.label}
+                  </th>
+                ))}
+              </tr>
+              <tr>
+                {plot.cells.map((c) => (
+                  <th
+                    key={c.sceneNumber}
+                    title={sceneHeadings?.[c.sceneNumber] || `Scene ${sceneLabel(c.sceneNumber)}`}
+                    className="min-w-8 border border-border bg-card px-1 py-0.5 text-center font-bold"
+                  >
+                    {sceneLabel(c.sceneNumber)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                {plot.cells.map((c) => (
+                  <td
+                    key={c.sceneNumber}
+                    title={c.item ? displayName(c.item) : "No costume assigned"}
+                    className={cn(
+                      "border border-border px-1 py-1 text-center font-bold",
+                      c.change !== null ? CHANGE_STYLES[(c.change - 1) % CHANGE_STYLES.length] : "bg-destructive/10 text-destructive"
+                    )}
+                  >
+                    {c.change ?? <AlertCircle className="mx-auto h-3 w-3" />}
+                  </td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {plot.changes.length > 0 && (
+        <div className="grid grid-cols-2 lg:grid-cols-3 gap-3">
+          {plot.changes.map((change) => {
+            const url = costumeThumbnail(thumbnails, change.item);
+            return (
+              <div key={change.item} className="flex gap-2.5 rounded-lg border border-border p-2">
+                <div className="h-16 w-12 shrink-0 overflow-hidden rounded bg-secondary flex items-center justify-center">
+                  {url ? (
+                    <img src={url} alt={displayName(change.item)} className="h-full w-full object-cover" loading="lazy" />
+                  ) : (
+                    <Shirt className="h-4 w-4 text-muted-foreground/40" />
+                  )}
+                </div>
+                <div className="min-w-0 space-y-0.5">
+                  <p className={cn("inline-block rounded px-1.5 text-[10px] font-bold", CHANGE_STYLES[(change.number - 1) % CHANGE_STYLES.length])}>
+                    Change {change.number}
+                  </p>
+                  <p className="truncate text-xs font-display font-semibold text-foreground">{displayName(change.item)}</p>
+                  <p className="text-[10px] text-muted-foreground">Sc {change.scenes.map(sceneLabel).join(", ")}</p>
+                  {change.storyDays.length > 0 && (
+                    <p className="text-[10px] text-muted-foreground/70">{change.storyDays.join(", ")}</p>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {plot.unassigned.length > 0 && (
+        <p className="flex items-center gap-1.5 text-[10px] text-destructive/80">
+          <AlertCircle className="h-3 w-3" />
+          No costume in scene{plot.unassigned.length !== 1 ? "s" : ""} {plot.unassigned.map(sceneLabel).join(", ")}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default CostumePlotGrid;
@@ -0,0 +1,112 @@
+import { useMemo } from "react";
+import { Download, FileText } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { useFilm } from "@/hooks/useFilm";
+import { useCharacterRanking } from "@/hooks/useCharacterRanking";
+import { computeDayOutOfDays, downloadDayOutOfDays, type DoodCode } from "@/lib/day-out-of-days";
+import type { ShootDay, StripScene } from "@/lib/stripboard";
+
+const CODE_STYLES: Partial<Record<DoodCode, string>> = {
+  SW: "bg-green-500/20 text-green-600 font-bold",
+  SWF: "bg-green-500/20 text-green-600 font-bold",
+  W: "bg-primary/10 text-foreground",
+  WF: "bg-pink-500/20 text-pink-600 font-bold",
+  PWF: "bg-pink-500/20 text-pink-600 font-bold",
+  H: "bg-muted text-muted-foreground",
+  WD: "bg-amber-500/20 text-amber-600",
+  PW: "bg-sky-500/20 text-sky-600",
+};
+
+interface DayOutOfDaysGridProps {
+  days: ShootDay[];
+  scenes: StripScene[];
+  dates: (Date | null)[];
+}
+
+/** Cast Day Out of Days for the stripboard as it stands — recomputed on every strip move */
+const DayOutOfDaysGrid = ({ days, scenes, dates }: DayOutOfDaysGridProps) => {
+  const { data: film } = useFilm();
+  const rankings = useCharacterRanking();
+
+  const rows = useMemo(
+    () => computeDayOutOfDays(days, new Map(scenes.map((s) => [s.id, s.scene_number])), rankings, dates),
+    [days, scenes, rankings, dates]
+  );
+
+  const handleExport = (format: "pdf" | "csv") => downloadDayOutOfDays(format, rows, days.length, dates, film?.title ?? "");
+
+  if (days.length === 0) {
+    return (
+      <div className="flex flex-1 items-center justify-center">
+        <p className="text-sm text-muted-foreground">Add shoot days on the board to build the Day Out of Days.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-1 flex-col overflow-hidden">
+      <div className="flex shrink-0 items-center gap-2 border-b border-border px-6 py-2">
+        <p className="flex-1 text-[10px] font-mono text-muted-foreground">
+          SW Start · W Work · WF Finish · SWF Start/Finish · H Hold · WD Drop · PW Pickup
+        </p>
+        <Button variant="outline" size="sm" className="h-7 gap-1.5 text-xs" onClick={() => handleExport("csv")}>
+          <Download className="h-3.5 w-3.5" /> CSV
+        </Button>
+        <Button variant="outline" size="sm" className="h-7 gap-1.5 text-xs" onClick={() => handleExport("pdf")}>
+          <FileText className="h-3.5 w-3.5" /> PDF
+        </Button>
+      </div>
+      <div className="flex-1 overflow-auto">
+        <div className="p-6">
+          <table className="border-collapse text-[10px] font-mono">
+            <thead>
+              <tr>
+                <th className="sticky left-0 z-10 min-w-48 border border-border bg-card px-2 py-1 text-left">Cast</th>
+                {days.map((d, i) => (
+                  <th key={d.id} className="w-10 border border-border bg-card px-1 py-1 text-center font-bold">
+                    {i + 1}
+                    {dates[i] && (
+                      <div className="font-normal text-muted-foreground">
+                        {dates[i]!.toLocaleDateString(undefined, { month: "numeric", day: "numeric" })}
+                      </div>
+                    )}
+                  </th>
+                ))}
+                {["Work", "Hold", "Start", "Finish", "Total"].map((t) => (
+                  <th key={t} className="border border-border bg-secondary/60 px-2 py-1 text-center uppercase">{t}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((r) => (
+                <tr key={r.castId}>
+                  <td className="sticky left-0 z-10 border border-border bg-card px-2 py-1 whitespace-nowrap">
+                    <span className="text-muted-foreground">{r.castId}.</span> {r.name}
+                  </td>
+                  {r.codes.map((code, i) => (
+                    <td key={i} className={cn("border border-border px-1 py-1 text-center", CODE_STYLES[code])}>{code}</td>
+                  ))}
+                  <td className="border border-border px-2 py-1 text-center">{r.work}</td>
+                  <td className="border border-border px-2 py-1 text-center">{r.hold}</td>
+                  <td className="border border-border px-2 py-1 text-center">{r.start + 1}</td>
+                  <td className="border border-border px-2 py-1 text-center">{r.finish + 1}</td>
+                  <td className="border border-border px-2 py-1 text-center font-bold">{r.work + r.hold}</td>
+                </tr>
+              ))}
+              {rows.length === 0 && (
+                <tr>
+                  <td colSpan={days.length + 6} className="px-2 py-6 text-center text-muted-foreground">
+                    No cast on the scheduled days yet.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DayOutOfDaysGrid;
@@ -61,6 +61,8 @@ interface DnDGroupPaneProps {
   onReclassify?: (item: string, targetCategory: string) => void;
   /** Pre-seed groups from Global Elements (used when no localStorage groups exist yet) */
   initialGroups?: { id: string; name: string; children: string[] }[];
+  /** Groups owned elsewhere (the location tree); they replace any locally saved grouping */
+  managedGroups?: { id: string; name: string; children: string[] }[];
   /** Names to exclude from key_objects matching (e.g. vehicle names excluded from props) */
   excludeFromKeyObjects?: string[];
   /** All scene numbers in the film (for wardrobe per-scene assignment) */
@@ -182,7 +184,7 @@ function findScenesForItem(itemName: string, scenes: any[], storagePrefix: strin
 }
 
 /* ── Main component ── */
-const DnDGroupPane = ({ items, filmId, storagePrefix, icon: Icon, title, emptyMessage, subtitles, expandableSubtitles, sceneBreakdown, storagePath, reclassifyOptions, onReclassify, initialGroups, excludeFromKeyObjects, allSceneNumbers, sceneHeadings, characterOrder, characterRankings, itemSceneCounts }: DnDGroupPaneProps) => {
+const DnDGroupPane = ({ items, filmId, storagePrefix, icon: Icon, title, emptyMessage, subtitles, expandableSubtitles, sceneBreakdown, storagePath, reclassifyOptions, onReclassify, initialGroups, managedGroups, excludeFromKeyObjects, allSceneNumbers, sceneHeadings, characterOrder, characterRankings, itemSceneCounts }: DnDGroupPaneProps) => {
   const [groups, setGroups] = useState<ItemGroup[]>([]);
   const [mergedAway, setMergedAway] = useState<Set<string>>(new Set());
   const [renames, setRenames] = useState<Record<string, string>>({});
@@ -368,7 +370,10 @@ const DnDGroupPane = ({ items, filmId, storagePrefix, icon: Icon, title, emptyMe
     const loadState = async () => {
       const savedGroups = loadJson<ItemGroup[]>(storagePrefix, filmId, "groups", []);
       let loadedGroups: ItemGroup[];
-      if (savedGroups.length > 0) {
+      if (managedGroups && managedGroups.length > 0) {
+        loadedGroups = managedGroups.map((g) => ({ ...g, children: [...g.children] }));
+        saveJson(storagePrefix, filmId, "groups", loadedGroups);
+      } else if (savedGroups.length > 0) {
         loadedGroups = savedGroups;
       } else if (initialGroups && initialGroups.length > 0) {
         loadedGroups = initialGroups;
@@ -509,7 +514,7 @@ const DnDGroupPane = ({ items, filmId, storagePrefix, icon: Icon, title, emptyMe
       }
 
       // Auto-group locations: merge ungrouped items that share a base location name
-      if (storagePrefix === "locations" && items.length > 0) {
+      if (storagePrefix === "locations" && items.length > 0 && !managedGroups?.length) {
         const alreadyGrouped = new Set(loadedGroups.flatMap((g) => g.children.map((c) => c.toUpperCase())));
         const loadedMerged = new Set(loadJson<string[]>(storagePrefix, filmId, "merged", []).map((m) => m.toUpperCase()));
         const ungroupedItems = items.filter((it) => !alreadyGrouped.has(it.toUpperCase()) && !loadedMerged.has(it.toUpperCase()));
@@ -651,7 +656,7 @@ const DnDGroupPane = ({ items, filmId, storagePrefix, icon: Icon, title, emptyMe
     };
 
     loadState();
-  }, [filmId, storagePrefix, initialGroups]);
+  }, [filmId, storagePrefix, initialGroups, managedGroups]);
 
   const persistGroups = useCallback((next: ItemGroup[]) => {
     setGroups(next);
@@ -0,0 +1,314 @@
+import { useMemo, useState } from "react";
+import {
+  ChevronDown, ChevronRight, FolderTree, GitMerge, Loader2, MapPin, MoreHorizontal, MoveRight, Plus, Scissors, Sparkles, Trash2,
+} from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuSub,
+  DropdownMenuSubContent, DropdownMenuSubTrigger, DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { cn } from "@/lib/utils";
+import { useFilmId, useParsedScenes, useSceneLabel } from "@/hooks/useFilm";
+import {
+  useAddLocation, useDeleteLocation, useInferLocations, useLocationTree, useMergeLocations, useSplitLocation, useUpdateLocation,
+} from "@/hooks/useLocationTree";
+import { formatEighths } from "@/lib/page-count";
+import { isLocationWithin, type LocationNode, type LocationScene, type LocationTreeEntry } from "@/lib/location-tree";
+
+const flatten = (entries: LocationTreeEntry[], collapsed: Set<string>): LocationTreeEntry[] =>
+  entries.flatMap((e) => [e, ...(collapsed.has(e.node.id) ? [] : flatten(e.children, collapsed))]);
+
+/**
+ * Location manifest — the film's locations and the sets inside them, with
+ * scene counts, page totals and INT/EXT and day/night coverage. Scheduling,
+ * the Locations design pane and the Production Bible all read this tree.
+ */
+const LocationTreePanel = () => {
+  const filmId = useFilmId();
+  const { data: parsedScenes } = useParsedScenes();
+  const sceneLabel = useSceneLabel();
+  const { nodes, roots, unassigned, hasTree, isLoading } = useLocationTree();
+  const inferLocations = useInferLocations();
+  const addLocation = useAddLocation();
+  const updateLocation = useUpdateLocation();
+  const mergeLocations = useMergeLocations();
+  const splitLocation = useSplitLocation();
+  const deleteLocation = useDeleteLocation();
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [newName, setNewName] = useState("");
+  const [splitting, setSplitting] = useState<{ node: LocationNode; aliases: string[]; name: string } | null>(null);
+
+  const rows = useMemo(() => flatten(roots, collapsed), [roots, collapsed]);
+  const byId = useMemo(() => new Map(nodes.map((n) => [n.id, n])), [nodes]);
+  const setCount = nodes.filter((n) => n.parent_id).length;
+
+  const onError = (err: unknown) => toast.error(err instanceof Error ? err.message : "Failed to update the location tree");
+
+  const handleInfer = () => {
+    if (!filmId) return;
+    inferLocations.mutate(
+      { filmId, scenes: (parsedScenes ?? []) as LocationScene[], nodes },
+      {
+        onSuccess: ({ added }) => toast.success(added ? `Added ${added} location${added !== 1 ? "s" : ""} from the sluglines` : "Every scene already has a location"),
+        onError,
+      }
+    );
+  };
+
+  const handleAdd = (parentId: string | null, name: string) => {
+    if (!filmId || !name.trim()) return;
+    addLocation.mutate({ filmId, parentId, name: name.trim().toUpperCase(), sortOrder: nodes.length }, { onError });
+    if (parentId) setCollapsed((prev) => { const next = new Set(prev); next.delete(parentId); return next; });
+  };
+
+  const handleMerge = (source: LocationNode, target: LocationNode) => {
+    if (!filmId) return;
+    mergeLocations.mutate(
+      { filmId, source, target },
+      { onSuccess: () => toast.success(`Merged ${source.name} into ${target.name}`), onError }
+    );
+  };
+
+  const handleSplit = () => {
+    if (!filmId || !splitting || !splitting.name.trim() || splitting.aliases.length === 0) return;
+    splitLocation.mutate(
+      { filmId, node: splitting.node, aliases: splitting.aliases, name: splitting.name.trim().toUpperCase() },
+      { onSuccess: () => setSplitting(null), onError }
+    );
+  };
+
+  const toggle = (id: string) =>
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  if (isLoading) {
+    return (
+      <div className="flex flex-1 items-center justify-center">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-1 flex-col overflow-hidden">
+      <div className="flex shrink-0 items-center gap-2 border-b border-border px-6 py-2">
+        <span className="text-[10px] font-mono uppercase tracking-wider text-muted-foreground">
+          {nodes.length - setCount} location{nodes.length - setCount !== 1 ? "s" : ""} · {setCount} set{setCount !== 1 ? "s" : ""}
+          {unassigned.length > 0 && <span className="text-amber-600"> · {unassigned.length} scene{unassigned.length !== 1 ? "s" : ""} unassigned</span>}
+        </span>
+        <form
+          className="ml-auto flex items-center gap-1.5"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleAdd(null, newName);
+            setNewName("");
+          }}
+        >
+          <Input value={newName} onChange={(e) => setNewName(e.target.value)} placeholder="New location…" className="h-7 w-44 text-xs" />
+          <Button type="submit" variant="outline" size="sm" className="h-7 gap-1.5 text-xs" disabled={!newName.trim()}>
+            <Plus className="h-3.5 w-3.5" /> Add
+          </Button>
+        </form>
+        <Button
+          size="sm"
+          className="h-7 gap-1.5 text-xs"
+          disabled={inferLocations.isPending || (hasTree && unassigned.length === 0)}
+          onClick={handleInfer}
+        >
+          {inferLocations.isPending ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Sparkles className="h-3.5 w-3.5" />}
+          {hasTree ? `Add unassigned (${unassigned.length})` : "Build from sluglines"}
+        </Button>
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className="p-6">
+          {!hasTree ? (
+            <div className="flex flex-col items-center gap-2 py-16 text-center">
+              <FolderTree className="h-8 w-8 text-muted-foreground/40" />
+              <p className="text-sm text-muted-foreground">No location tree yet.</p>
+              <p className="text-xs text-muted-foreground/70">Build it from the sluglines, then rename, nest, merge and split locations to match how they will be shot.</p>
+            </div>
+          ) : (
+            <table className="w-full border-collapse text-xs">
+              <thead>
+                <tr className="text-left text-[10px] font-mono uppercase tracking-wider text-muted-foreground">
+                  <th className="px-2 py-1">Location / Set</th>
+                  <th className="w-24 px-2 py-1">Int / Ext</th>
+                  <th className="w-36 px-2 py-1">Day / Night</th>
+                  <th className="w-20 px-2 py-1 text-right">Scenes</th>
+                  <th className="w-20 px-2 py-1 text-right">Pages</th>
+                  <th className="w-10" />
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((entry) => {
+                  const { node } = entry;
+                  const parent = node.parent_id ? byId.get(node.parent_id) ?? null : null;
+                  const others = nodes.filter((n) => n.id !== node.id);
+                  return (
+                    <tr key={node.id} className={cn("border-b border-border/50", entry.depth === 0 && "bg-secondary/20")}>
+                      <td className="px-2 py-1">
+                        <div className="flex items-center gap-1" style={{ paddingLeft: entry.depth * 20 }}>
+                          {entry.children.length > 0 ? (
+                            <button onClick={() => toggle(node.id)} className="text-muted-foreground hover:text-foreground">
+                              {collapsed.has(node.id) ? <ChevronRight className="h-3.5 w-3.5" /> : <ChevronDown className="h-3.5 w-3.5" />}
+                            </button>
+                          ) : (
+                            <span className="w-3.5" />
+                          )}
+                          <MapPin className={cn("h-3 w-3 shrink-0", entry.depth === 0 ? "text-primary" : "text-muted-foreground")} />
+                          <Input
+                            key={`${node.id}:${node.name}`}
+                            defaultValue={node.name}
+                            onBlur={(e) => {
+                              const name = e.target.value.trim().toUpperCase();
+                              if (name && name !== node.name && filmId) updateLocation.mutate({ filmId, id: node.id, patch: { name } }, { onError });
+                            }}
+                            className={cn("h-7 border-transparent bg-transparent px-1.5 text-xs hover:border-border", entry.depth === 0 && "font-semibold")}
+                          />
+                        </div>
+                        {node.aliases.length > 0 && (
+                          <p className="truncate font-mono text-[9px] text-muted-foreground/70" style={{ paddingLeft: entry.depth * 20 + 40 }} title={node.aliases.join("\n")}>
+                            {node.aliases.join(" · ")}
+                          </p>
+                        )}
+                      </td>
+                      <td className="px-2 py-1 font-mono text-[10px]">{entry.intExt.join(" / ") || "—"}</td>
+                      <td className="px-2 py-1 font-mono text-[10px]">{entry.periods.join(" / ") || "—"}</td>
+                      <td
+                        className="px-2 py-1 text-right font-mono text-[10px]"
+                        title={entry.totalSceneNumbers.length ? `Sc ${entry.totalSceneNumbers.map(sceneLabel).join(", ")}` : undefined}
+                      >
+                        {entry.totalSceneNumbers.length}
+                      </td>
+                      <td className="px-2 py-1 text-right font-mono text-[10px]">{formatEighths(entry.eighths)}</td>
+                      <td className="px-1 py-1">
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button variant="ghost" size="icon" className="h-6 w-6"><MoreHorizontal className="h-3.5 w-3.5" /></Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end" className="w-52">
+                            <DropdownMenuItem onClick={() => handleAdd(node.id, "NEW SET")}>
+                              <Plus className="mr-2 h-3.5 w-3.5" /> Add set inside
+                            </DropdownMenuItem>
+                            <DropdownMenuSub>
+                              <DropdownMenuSubTrigger><MoveRight className="mr-2 h-3.5 w-3.5" /> Move under</DropdownMenuSubTrigger>
+                              <DropdownMenuSubContent className="max-h-72 overflow-y-auto">
+                                {node.parent_id && (
+                                  <DropdownMenuItem onClick={() => filmId && updateLocation.mutate({ filmId, id: node.id, patch: { parent_id: null } }, { onError })}>
+                                    Top level
+                                  </DropdownMenuItem>
+                                )}
+                                {others
+                                  .filter((n) => n.id !== node.parent_id && !isLocationWithin(nodes, n.id, node.id))
+                                  .map((n) => (
+                                    <DropdownMenuItem key={n.id} onClick={() => filmId && updateLocation.mutate({ filmId, id: node.id, patch: { parent_id: n.id } }, { onError })}>
+                                      {n.name}
+                                    </DropdownMenuItem>
+                                  ))}
+                              </DropdownMenuSubContent>
+                            </DropdownMenuSub>
+                            <DropdownMenuSub>
+                              <DropdownMenuSubTrigger><GitMerge className="mr-2 h-3.5 w-3.5" /> Merge into</DropdownMenuSubTrigger>
+                              <DropdownMenuSubContent className="max-h-72 overflow-y-auto">
+                                {others
+                                  .filter((n) => !isLocationWithin(nodes, n.id, node.id))
+                                  .map((n) => (
+                                    <DropdownMenuItem key={n.id} onClick={() => handleMerge(node, n)}>{n.name}</DropdownMenuItem>
+                                  ))}
+                              </DropdownMenuSubContent>
+                            </DropdownMenuSub>
+                            <DropdownMenuItem
+                              disabled={node.aliases.length < 2}
+                              onClick={() => setSplitting({ node, aliases: [], name: "" })}
+                            >
+                              <Scissors className="mr-2 h-3.5 w-3.5" /> Split…
+                            </DropdownMenuItem>
+                            <DropdownMenuSeparator />
+                            <DropdownMenuItem
+                              className="text-destructive focus:text-destructive"
+                              onClick={() => filmId && deleteLocation.mutate({ filmId, node, parent }, { onError })}
+                            >
+                              <Trash2 className="mr-2 h-3.5 w-3.5" /> {parent ? `Fold into ${parent.name}` : "Delete"}
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+
+          {hasTree && unassigned.length > 0 && (
+            <div className="mt-6 rounded-lg border border-amber-500/30 bg-amber-500/5 p-3">
+              <p className="text-[10px] font-mono font-bold uppercase tracking-wider text-amber-600">Scenes without a location</p>
+              <p className="mt-1 text-xs text-muted-foreground">
+                Sc {unassigned.map(sceneLabel).join(", ")} — their sluglines match no location in the tree. Add them from the sluglines or merge their new locations into existing ones.
+              </p>
+            </div>
+          )}
+        </div>
+      </ScrollArea>
+
+      <Dialog open={!!splitting} onOpenChange={(open) => !open && setSplitting(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Split {splitting?.node.name}</DialogTitle>
+            <DialogDescription>The selected sluglines and their scenes move to a new location beside it.</DialogDescription>
+          </DialogHeader>
+          {splitting && (
+            <div className="space-y-3">
+              <div className="space-y-1">
+                {splitting.node.aliases.map((alias) => (
+                  <label key={alias} className="flex cursor-pointer items-center gap-2 rounded px-1 py-1 font-mono text-xs hover:bg-secondary/50">
+                    <Checkbox
+                      checked={splitting.aliases.includes(alias)}
+                      onCheckedChange={(checked) =>
+                        setSplitting({
+                          ...splitting,
+                          aliases: checked === true ? [...splitting.aliases, alias] : splitting.aliases.filter((a) => a !== alias),
+                        })
+                      }
+                    />
+                    {alias}
+                  </label>
+                ))}
+              </div>
+              <Input
+                value={splitting.name}
+                onChange={(e) => setSplitting({ ...splitting, name: e.target.value })}
+                placeholder="New location name"
+                className="h-8 text-xs"
+              />
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="ghost" size="sm" onClick={() => setSplitting(null)}>Cancel</Button>
+            <Button
+              size="sm"
+              onClick={handleSplit}
+              disabled={
+                !splitting?.name.trim() || !splitting.aliases.length || splitting.aliases.length === splitting.node.aliases.length || splitLocation.isPending
+              }
+            >
+              Split
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default LocationTreePanel;
@@ -0,0 +1,301 @@
+import { Fragment, useMemo, useState } from "react";
+import { ChevronDown, ChevronRight, Fingerprint, Link2, Loader2, Package, Plus, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { useFilmId, useParsedScenes, useSceneLabel } from "@/hooks/useFilm";
+import { useCharacterRanking } from "@/hooks/useCharacterRanking";
+import {
+  useAddProps, useDeleteProp, useLinkPropIdentity, usePropsMaster, useUpdateProp, type PropsMasterEntry,
+} from "@/hooks/usePropsMaster";
+import {
+  DEFAULT_PROP_STATE, PROP_DESIGNATIONS, PROP_STATES, propRefCode, propSceneNumbers, propStateIn, type PropDesignation,
+} from "@/lib/props-master";
+
+const NO_OWNER = "__none__";
+
+const DESIGNATION_STYLES: Record<string, string> = {
+  hero: "bg-primary/15 text-primary",
+  stunt: "bg-amber-500/15 text-amber-600",
+  background: "bg-muted text-muted-foreground",
+};
+
+/**
+ * Props master list — every tracked prop with its scenes, owner, designation,
+ * quantities and per-scene state. Breakdown props can be added in one go.
+ */
+const PropsMasterPanel = ({ breakdownProps }: { breakdownProps: string[] }) => {
+  const filmId = useFilmId();
+  const { data: parsedScenes } = useParsedScenes();
+  const sceneLabel = useSceneLabel();
+  const rankings = useCharacterRanking();
+  const { data: props = [], isLoading } = usePropsMaster();
+  const addProps = useAddProps();
+  const updateProp = useUpdateProp();
+  const deleteProp = useDeleteProp();
+  const linkIdentity = useLinkPropIdentity();
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [newName, setNewName] = useState("");
+
+  const scenes = useMemo(() => parsedScenes ?? [], [parsedScenes]);
+  const listed = useMemo(() => new Set(props.map((p) => p.name.toLowerCase())), [props]);
+  const unlisted = breakdownProps.filter((p) => !listed.has(p.toLowerCase()));
+
+  const onError = (err: unknown) => toast.error(err instanceof Error ? err.message : "Failed to update props");
+
+  const handleAdd = (names: string[]) => {
+    if (!filmId || names.length === 0) return;
+    addProps.mutate(
+      { filmId, props: names.map((name) => ({ name, scene_numbers: propSceneNumbers(name, scenes) })) },
+      { onError }
+    );
+  };
+
+  const update = (prop: PropsMasterEntry, patch: Parameters<typeof updateProp.mutate>[0]["patch"]) =>
+    filmId && updateProp.mutate({ filmId, prop, patch }, { onError });
+
+  const setSceneState = (prop: PropsMasterEntry, sceneNumber: number, state: string) => {
+    const next = { ...prop.scene_states };
+    if (state === DEFAULT_PROP_STATE) delete next[String(sceneNumber)];
+    else next[String(sceneNumber)] = state;
+    update(prop, { scene_states: next });
+  };
+
+  const addScene = (prop: PropsMasterEntry, value: string) => {
+    const sceneNumber = Number(value);
+    if (!Number.isInteger(sceneNumber) || prop.scene_numbers.includes(sceneNumber)) return;
+    update(prop, { scene_numbers: [...prop.scene_numbers, sceneNumber].sort((a, b) => a - b) });
+  };
+
+  const removeScene = (prop: PropsMasterEntry, sceneNumber: number) => {
+    const states = { ...prop.scene_states };
+    delete states[String(sceneNumber)];
+    update(prop, { scene_numbers: prop.scene_numbers.filter((n) => n !== sceneNumber), scene_states: states });
+  };
+
+  const handleLink = (prop: PropsMasterEntry) => {
+    if (!filmId) return;
+    linkIdentity.mutate(
+      { filmId, prop },
+      { onSuccess: ({ refCode }) => toast.success(`${prop.name} linked to {{${refCode}}}`), onError }
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex flex-1 items-center justify-center">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-1 flex-col overflow-hidden">
+      <div className="flex shrink-0 items-center gap-2 border-b border-border px-6 py-2">
+        <span className="text-[10px] font-mono uppercase tracking-wider text-muted-foreground">
+          {props.length} prop{props.length !== 1 ? "s" : ""} · {props.reduce((n, p) => n + p.quantity + p.duplicates, 0)} pieces
+        </span>
+        <form
+          className="ml-auto flex items-center gap-1.5"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (newName.trim()) handleAdd([newName.trim()]);
+            setNewName("");
+          }}
+        >
+          <Input value={newName} onChange={(e) => setNewName(e.target.value)} placeholder="New prop…" className="h-7 w-44 text-xs" />
+          <Button type="submit" variant="outline" size="sm" className="h-7 gap-1.5 text-xs" disabled={!newName.trim()}>
+            <Plus className="h-3.5 w-3.5" /> Add
+          </Button>
+        </form>
+        <Button
+          size="sm"
+          className="h-7 gap-1.5 text-xs"
+          disabled={unlisted.length === 0 || addProps.isPending}
+          onClick={() => handleAdd(unlisted)}
+        >
+          {addProps.isPending ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Package className="h-3.5 w-3.5" />}
+          Add from breakdown ({unlisted.length})
+        </Button>
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className="p-6">
+          {props.length === 0 ? (
+            <div className="flex flex-col items-center gap-2 py-16 text-center">
+              <Package className="h-8 w-8 text-muted-foreground/40" />
+              <p className="text-sm text-muted-foreground">The master list is empty.</p>
+              <p className="text-xs text-muted-foreground/70">Add the props found in the script breakdown, or add one by name.</p>
+            </div>
+          ) : (
+            <table className="w-full border-collapse text-xs">
+              <thead>
+                <tr className="text-left text-[10px] font-mono uppercase tracking-wider text-muted-foreground">
+                  <th className="w-6" />
+                  <th className="px-2 py-1">Prop</th>
+                  <th className="w-40 px-2 py-1">Owner</th>
+                  <th className="w-32 px-2 py-1">Designation</th>
+                  <th className="w-16 px-2 py-1">Qty</th>
+                  <th className="w-64 px-2 py-1">Duplicates</th>
+                  <th className="w-20 px-2 py-1">Scenes</th>
+                  <th className="w-44 px-2 py-1">Identity</th>
+                  <th className="w-8" />
+                </tr>
+              </thead>
+              <tbody>
+                {props.map((prop) => {
+                  const open = expanded === prop.id;
+                  const changed = prop.scene_numbers.filter((n) => propStateIn(prop.scene_states, n) !== DEFAULT_PROP_STATE).length;
+                  return (
+                    <Fragment key={prop.id}>
+                      <tr className="border-b border-border/50">
+                        <td className="px-1 py-1.5">
+                          <button onClick={() => setExpanded(open ? null : prop.id)} className="text-muted-foreground hover:text-foreground">
+                            {open ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />}
+                          </button>
+                        </td>
+                        <td className="px-2 py-1.5 font-semibold">{prop.name}</td>
+                        <td className="px-2 py-1.5">
+                          <Select value={prop.character_name ?? NO_OWNER} onValueChange={(v) => update(prop, { character_name: v === NO_OWNER ? null : v })}>
+                            <SelectTrigger className="h-7 text-xs"><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={NO_OWNER}>No owner</SelectItem>
+                              {rankings.map((r) => (
+                                <SelectItem key={r.nameNormalized} value={r.nameNormalized}>{r.nameNormalized}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </td>
+                        <td className="px-2 py-1.5">
+                          <Select value={prop.designation} onValueChange={(v) => update(prop, { designation: v as PropDesignation })}>
+                            <SelectTrigger className={cn("h-7 text-xs", DESIGNATION_STYLES[prop.designation])}><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                              {PROP_DESIGNATIONS.map((d) => (
+                                <SelectItem key={d.value} value={d.value}>{d.label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </td>
+                        <td className="px-2 py-1.5">
+                          <Input
+                            key={`${prop.id}:q${prop.quantity}`}
+                            type="number"
+                            min={1}
+                            defaultValue={prop.quantity}
+                            onBlur={(e) => Number(e.target.value) !== prop.quantity && update(prop, { quantity: Math.max(1, Math.round(Number(e.target.value)) || 1) })}
+                            className="h-7 w-14 text-xs"
+                          />
+                        </td>
+                        <td className="px-2 py-1.5">
+                          <div className="flex items-center gap-1">
+                            <Input
+                              key={`${prop.id}:d${prop.duplicates}`}
+                              type="number"
+                              min={0}
+                              defaultValue={prop.duplicates}
+                              onBlur={(e) => Number(e.target.value) !== prop.duplicates && update(prop, { duplicates: Math.max(0, Math.round(Number(e.target.value)) || 0) })}
+                              className="h-7 w-14 text-xs"
+                            />
+                            <Input
+                              key={`${prop.id}:n${prop.duplicate_notes ?? ""}`}
+                              defaultValue={prop.duplicate_notes ?? ""}
+                              placeholder="e.g. breakaway"
+                              onBlur={(e) => e.target.value !== (prop.duplicate_notes ?? "") && update(prop, { duplicate_notes: e.target.value || null })}
+                              className="h-7 flex-1 text-xs"
+                            />
+                          </div>
+                        </td>
+                        <td className="px-2 py-1.5 font-mono text-[10px] text-muted-foreground">
+                          {prop.scene_numbers.length}
+                          {changed > 0 && <span className="text-amber-600"> · {changed} state{changed !== 1 ? "s" : ""}</span>}
+                        </td>
+                        <td className="px-2 py-1.5">
+                          {prop.identity_id ? (
+                            <span className="flex items-center gap-1 font-mono text-[10px] text-primary" title="Generated shots follow this prop's state">
+                              <Fingerprint className="h-3 w-3" /> {`{{${propRefCode(prop.name)}}}`}
+                            </span>
+                          ) : (
+                            <Button variant="ghost" size="sm" className="h-6 gap-1 px-1.5 text-[10px]" onClick={() => handleLink(prop)} disabled={linkIdentity.isPending}>
+                              <Link2 className="h-3 w-3" /> Link identity
+                            </Button>
+                          )}
+                        </td>
+                        <td className="px-1 py-1.5">
+                          <button
+                            onClick={() => filmId && deleteProp.mutate({ filmId, id: prop.id }, { onError })}
+                            title="Remove from master list"
+                            className="text-muted-foreground hover:text-destructive"
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </button>
+                        </td>
+                      </tr>
+                      {open && (
+                        <tr className="border-b border-border/50 bg-secondary/20">
+                          <td />
+                          <td colSpan={8} className="px-2 py-3">
+                            <div className="flex flex-wrap items-center gap-2">
+                              {prop.scene_numbers.map((n) => {
+                                const state = propStateIn(prop.scene_states, n);
+                                const options = PROP_STATES.includes(state as (typeof PROP_STATES)[number]) ? [...PROP_STATES] : [...PROP_STATES, state];
+                                return (
+                                  <div
+                                    key={n}
+                                    className={cn(
+                                      "flex items-center gap-1 rounded-md border px-1.5 py-1",
+                                      state === DEFAULT_PROP_STATE ? "border-border bg-card" : "border-amber-500/40 bg-amber-500/10"
+                                    )}
+                                  >
+                                    <span className="font-mono text-[10px] font-bold">Sc {sceneLabel(n)}</span>
+                                    <Select value={state} onValueChange={(v) => setSceneState(prop, n, v)}>
+                                      <SelectTrigger className="h-6 w-24 border-0 bg-transparent px-1 text-[10px]"><SelectValue /></SelectTrigger>
+                                      <SelectContent>
+                                        {options.map((s) => (
+                                          <SelectItem key={s} value={s} className="text-xs capitalize">{s}</SelectItem>
+                                        ))}
+                                      </SelectContent>
+                                    </Select>
+                                    <button onClick={() => removeScene(prop, n)} title="Not in this scene" className="text-muted-foreground hover:text-destructive">
+                                      <X className="h-3 w-3" />
+                                    </button>
+                                  </div>
+                                );
+                              })}
+                              <Input
+                                type="number"
+                                min={1}
+                                placeholder="+ scene"
+                                onKeyDown={(e) => {
+                                  if (e.key !== "Enter") return;
+                                  addScene(prop, e.currentTarget.value);
+                                  e.currentTarget.value = "";
+                                }}
+                                className="h-7 w-20 text-xs"
+                              />
+                            </div>
+                            <Input
+                              key={`${prop.id}:notes${prop.notes ?? ""}`}
+                              defaultValue={prop.notes ?? ""}
+                              placeholder="Notes (look, period, sourcing)…"
+                              onBlur={(e) => e.target.value !== (prop.notes ?? "") && update(prop, { notes: e.target.value || null })}
+                              className="mt-2 h-7 text-xs"
+                            />
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+};
+
+export default PropsMasterPanel;
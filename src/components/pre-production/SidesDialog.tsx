@@ -0,0 +1,187 @@
+import { useEffect, useMemo, useState } from "react";
+import { Download, ScrollText, Users } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useFilm, useParsedScenes } from "@/hooks/useFilm";
+import { useCharacterRanking } from "@/hooks/useCharacterRanking";
+import { downloadSides, selectSides, type SidesOptions } from "@/lib/script-export";
+import type { ShootDay } from "@/lib/stripboard";
+
+const ALL_CAST = "__all__";
+const WHOLE_SCRIPT = "script";
+
+interface SidesDialogProps {
+  /** Shoot-day index to preselect, "script" for the whole script; null keeps the dialog closed */
+  scope: number | "script" | null;
+  days: ShootDay[];
+  dates: (Date | null)[];
+  onOpenChange: (open: boolean) => void;
+}
+
+/** Actor sides — a character's scenes (optionally for one shoot day) cut from the screenplay PDF */
+const SidesDialog = ({ scope, days, dates, onOpenChange }: SidesDialogProps) => {
+  const { data: film } = useFilm();
+  const { data: parsedScenes } = useParsedScenes();
+  const rankings = useCharacterRanking();
+  const [range, setRange] = useState(WHOLE_SCRIPT);
+  const [character, setCharacter] = useState(ALL_CAST);
+  const [highlight, setHighlight] = useState(true);
+  const [others, setOthers] = useState<SidesOptions["others"]>("strike");
+
+  useEffect(() => {
+    if (scope === null) return;
+    setRange(String(scope));
+    setCharacter(ALL_CAST);
+  }, [scope]);
+
+  const sceneNumberById = useMemo(
+    () => new Map((parsedScenes ?? []).map((s) => [s.id, s.scene_number])),
+    [parsedScenes]
+  );
+
+  const dayIndex = range === WHOLE_SCRIPT ? null : Number(range);
+  const day = dayIndex !== null ? days[dayIndex] : undefined;
+  const sceneNumbers = useMemo(
+    () => (day ? day.scene_ids.map((id) => sceneNumberById.get(id)).filter((n): n is number => n !== undefined) : null),
+    [day, sceneNumberById]
+  );
+
+  // Whole-script sides are always for one actor; a shoot day can also be cut for everyone on it
+  const cast = useMemo(
+    () => rankings.filter((r) => !sceneNumbers || r.sceneNumbers.some((n) => sceneNumbers.includes(n))),
+    [rankings, sceneNumbers]
+  );
+  const selected = character === ALL_CAST ? null : character;
+  const needsCharacter = dayIndex === null && !selected;
+
+  const dayLabel = (i: number) => {
+    const date = dates[i];
+    return `Day ${i + 1}${date ? ` — ${date.toLocaleDateString(undefined, { weekday: "short", day: "numeric", month: "short" })}` : ""}`;
+  };
+
+  const optionsFor = (name: string | null): SidesOptions => ({
+    character: name,
+    sceneNumbers,
+    highlight: highlight && !!name,
+    others,
+    label: [name, dayIndex !== null ? dayLabel(dayIndex) : null].filter(Boolean).join(" — "),
+  });
+
+  const preview = useMemo(
+    () => (needsCharacter ? null : selectSides(parsedScenes ?? [], { character: selected, sceneNumbers, highlight, others, label: "" })),
+    [needsCharacter, parsedScenes, selected, sceneNumbers, highlight, others]
+  );
+  const sceneCount = preview ? preview.scenes.length - preview.struck.size : 0;
+
+  const exportFor = (name: string | null) =>
+    downloadSides(parsedScenes ?? [], optionsFor(name), { title: film?.title || "Untitled", writers: film?.writers, sceneNumbers: true });
+
+  const handleExport = () => {
+    if (!preview || sceneCount === 0) {
+      toast.error("No scenes to print for these sides");
+      return;
+    }
+    exportFor(selected);
+  };
+
+  const handleExportAllCast = () => {
+    for (const r of cast) exportFor(r.nameNormalized);
+  };
+
+  return (
+    <Dialog open={scope !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-base">
+            <ScrollText className="h-4 w-4" /> Sides
+          </DialogTitle>
+          <DialogDescription className="text-xs">
+            Script pages for the chosen scenes only. Other scenes that share those pages are struck through or left out.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <label className="space-y-1 text-xs text-muted-foreground">
+              Scenes
+              <Select value={range} onValueChange={(v) => { setRange(v); setCharacter(ALL_CAST); }}>
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={WHOLE_SCRIPT}>Whole script</SelectItem>
+                  {days.map((d, i) => (
+                    <SelectItem key={d.id} value={String(i)}>{dayLabel(i)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </label>
+            <label className="space-y-1 text-xs text-muted-foreground">
+              Character
+              <Select value={character} onValueChange={setCharacter}>
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue placeholder="Choose a character" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_CAST}>{dayIndex !== null ? "Everyone on the day" : "Choose a character"}</SelectItem>
+                  {cast.map((r) => (
+                    <SelectItem key={r.nameNormalized} value={r.nameNormalized}>
+                      {r.rank}. {r.nameNormalized}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </label>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox id="sides-highlight" checked={highlight} onCheckedChange={(v) => setHighlight(v === true)} disabled={!selected} />
+            <Label htmlFor="sides-highlight" className="text-xs">Highlight the character's dialogue</Label>
+          </div>
+
+          <label className="flex items-center justify-between gap-3 text-xs text-muted-foreground">
+            Other scenes on the same pages
+            <Select value={others} onValueChange={(v) => setOthers(v as SidesOptions["others"])}>
+              <SelectTrigger className="h-8 w-40 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="strike">Strike through</SelectItem>
+                <SelectItem value="remove">Leave out</SelectItem>
+              </SelectContent>
+            </Select>
+          </label>
+
+          <p className="text-[10px] font-mono text-muted-foreground">
+            {needsCharacter
+              ? "Choose a character for whole-script sides."
+              : `${sceneCount} scene${sceneCount !== 1 ? "s" : ""}${preview?.struck.size ? ` · ${preview.struck.size} struck` : ""}`}
+          </p>
+        </div>
+
+        <div className="flex items-center gap-2 border-t border-border pt-3">
+          <Button size="sm" className="h-8 gap-1.5 text-xs" onClick={handleExport} disabled={needsCharacter}>
+            <Download className="h-3.5 w-3.5" /> Export PDF
+          </Button>
+          {dayIndex !== null && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="ml-auto h-8 gap-1.5 text-xs"
+              onClick={handleExportAllCast}
+              disabled={cast.length === 0}
+            >
+              <Users className="h-3.5 w-3.5" /> One per cast member
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SidesDialog;
@@ -0,0 +1,117 @@
+import { useMemo } from "react";
+import { CalendarClock, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { cn } from "@/lib/utils";
+import { useFilmId, useParsedScenes, useSceneLabel } from "@/hooks/useFilm";
+import { useSetStoryDay, useStoryDays } from "@/hooks/useStoryDays";
+import { storyDayLabel, type StoryDayReason } from "@/lib/story-days";
+
+const REASON_LABELS: Record<StoryDayReason, string> = {
+  first: "Opening scene",
+  "same-day": "Same day",
+  continuous: "Continuity marker",
+  "next-day": "Next day marker",
+  "time-jump": "Earlier time of day",
+  corrected: "Corrected",
+  flashback: "Flashback",
+  dream: "Dream",
+};
+
+/**
+ * Story days in script order — inferred from continuity markers and day/night
+ * changes, with a per-scene correction that later scenes carry on from.
+ */
+const StoryDaysPanel = () => {
+  const filmId = useFilmId();
+  const { data: parsedScenes } = useParsedScenes();
+  const sceneLabel = useSceneLabel();
+  const storyDays = useStoryDays();
+  const setStoryDay = useSetStoryDay();
+
+  const scenes = useMemo(
+    () => (parsedScenes ?? []).filter((s) => storyDays.has(s.scene_number)),
+    [parsedScenes, storyDays]
+  );
+  const dayCount = Math.max(0, ...[...storyDays.values()].map((d) => d.day ?? 0));
+
+  const handleCorrect = (sceneId: string, value: string) => {
+    if (!filmId) return;
+    const storyDay = value === "" ? null : Math.max(1, Math.round(Number(value)));
+    if (storyDay !== null && isNaN(storyDay)) return;
+    setStoryDay.mutate(
+      { filmId, sceneId, storyDay },
+      { onError: (err) => toast.error(err instanceof Error ? err.message : "Failed to update story day") }
+    );
+  };
+
+  return (
+    <div className="flex flex-1 flex-col overflow-hidden">
+      <div className="flex shrink-0 items-center gap-2 border-b border-border px-6 py-2">
+        <CalendarClock className="h-3.5 w-3.5 text-muted-foreground" />
+        <p className="flex-1 text-[10px] font-mono text-muted-foreground">
+          {dayCount} story day{dayCount !== 1 ? "s" : ""} · correct a scene and the scenes after it follow
+        </p>
+      </div>
+      <ScrollArea className="flex-1">
+        <div className="p-6">
+          <table className="w-full border-collapse text-xs">
+            <thead>
+              <tr className="text-left text-[10px] font-mono uppercase tracking-wider text-muted-foreground">
+                <th className="w-14 px-2 py-1">Scene</th>
+                <th className="px-2 py-1">Heading</th>
+                <th className="w-28 px-2 py-1">Marker</th>
+                <th className="w-24 px-2 py-1">Story day</th>
+                <th className="w-40 px-2 py-1">Why</th>
+                <th className="w-28 px-2 py-1">Correct to</th>
+              </tr>
+            </thead>
+            <tbody>
+              {scenes.map((scene, i) => {
+                const storyDay = storyDays.get(scene.scene_number)!;
+                const previous = i > 0 ? storyDays.get(scenes[i - 1].scene_number) : undefined;
+                const startsDay = storyDay.day !== null && storyDay.day !== previous?.day;
+                return (
+                  <tr key={scene.id} className={cn("border-b border-border/50", startsDay && i > 0 && "border-t-2 border-t-border")}>
+                    <td className="px-2 py-1.5 font-mono font-bold">{sceneLabel(scene.scene_number)}</td>
+                    <td className="max-w-0 truncate px-2 py-1.5 uppercase">{scene.heading}</td>
+                    <td className="px-2 py-1.5 font-mono text-[10px] text-muted-foreground">{scene.continuity_marker || "—"}</td>
+                    <td className={cn("px-2 py-1.5 font-semibold", storyDay.day === null && "italic text-muted-foreground")}>
+                      {storyDayLabel(storyDay)}
+                    </td>
+                    <td className="px-2 py-1.5 text-[10px] text-muted-foreground">{REASON_LABELS[storyDay.reason]}</td>
+                    <td className="px-2 py-1.5">
+                      <div className="flex items-center gap-1">
+                        <Input
+                          key={`${scene.id}:${scene.story_day ?? ""}`}
+                          type="number"
+                          min={1}
+                          defaultValue={scene.story_day ?? ""}
+                          placeholder={storyDay.day !== null ? String(storyDay.day) : "—"}
+                          onBlur={(e) => e.target.value !== String(scene.story_day ?? "") && handleCorrect(scene.id, e.target.value)}
+                          className="h-6 w-16 text-xs"
+                        />
+                        {scene.story_day != null && (
+                          <button
+                            onClick={() => handleCorrect(scene.id, "")}
+                            title="Back to the inferred day"
+                            className="text-muted-foreground hover:text-foreground"
+                          >
+                            <RotateCcw className="h-3 w-3" />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </ScrollArea>
+    </div>
+  );
+};
+
+export default StoryDaysPanel;
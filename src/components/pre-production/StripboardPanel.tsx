@@ -0,0 +1,470 @@
+import { useEffect, useMemo, useState, type ReactNode } from "react";
+import {
+  DndContext,
+  DragOverlay,
+  useDraggable,
+  useDroppable,
+  PointerSensor,
+  useSensors,
+  useSensor,
+  type DragStartEvent,
+  type DragEndEvent,
+} from "@dnd-kit/core";
+import { CalendarDays, Car, FileText, GripVertical, Loader2, Plus, Save, Scissors, ScrollText, Sparkles, Trash2, Unlink, Zap } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
+  AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+import { useFilmId, useParsedScenes, useSceneLabel } from "@/hooks/useFilm";
+import { useCharacterRanking } from "@/hooks/useCharacterRanking";
+import { useSaveShootingSchedule, useShootingSchedule } from "@/hooks/useShootingSchedule";
+import { useStoryDays } from "@/hooks/useStoryDays";
+import { useLocationTree } from "@/hooks/useLocationTree";
+import DayOutOfDaysGrid from "./DayOutOfDaysGrid";
+import StoryDaysPanel from "./StoryDaysPanel";
+import CallSheetDialog from "./CallSheetDialog";
+import SidesDialog from "./SidesDialog";
+import {
+  DEFAULT_EIGHTHS_PER_DAY, STRIP_COLORS, proposeSchedule, reconcileSchedule,
+  sceneEighths, shootDayDates, stripCast, stripColor, stripPeriod, stripSide,
+  type ShootDay, type StripScene,
+} from "@/lib/stripboard";
+import { formatEighths } from "@/lib/page-count";
+import { storyDayLabel } from "@/lib/story-days";
+
+const UNSCHEDULED = "unscheduled";
+
+/* ── Strip ── */
+const Strip = ({
+  scene,
+  label,
+  castIds,
+  storyDay,
+  onSplitAfter,
+  overlay,
+}: {
+  scene: StripScene;
+  label: string;
+  castIds: string;
+  storyDay: string;
+  onSplitAfter?: () => void;
+  overlay?: boolean;
+}) => {
+  const id = `strip:${scene.id}`;
+  const { attributes, listeners, setNodeRef: setDragRef, isDragging } = useDraggable({ id, disabled: overlay });
+  const { isOver, setNodeRef: setDropRef } = useDroppable({ id, disabled: overlay });
+  const color = stripColor(scene);
+  const period = stripPeriod(scene.day_night);
+
+  return (
+    <div
+      ref={(node) => { setDragRef(node); setDropRef(node); }}
+      style={{ backgroundColor: color.hex }}
+      className={cn(
+        "group flex h-7 items-center gap-2 border-b border-black/10 px-2 text-[11px] text-neutral-900",
+        isDragging && "opacity-30",
+        isOver && "border-t-2 border-t-primary",
+        overlay && "shadow-xl rotate-1 rounded"
+      )}
+    >
+      <div {...attributes} {...listeners} className="cursor-grab active:cursor-grabbing shrink-0 text-neutral-500">
+        <GripVertical className="h-3.5 w-3.5" />
+      </div>
+      <span className="w-10 shrink-0 font-mono font-bold">{label}</span>
+      <span className="w-16 shrink-0 font-mono text-[10px]">
+        {stripSide(scene.int_ext)} · {period === "night" ? "N" : period === "twilight" ? "D/D" : "D"}
+      </span>
+      <span className="w-8 shrink-0 font-mono text-[10px]" title="Story day">{storyDay}</span>
+      <span className="flex-1 truncate font-semibold uppercase">{scene.location_name || scene.heading}</span>
+      {(scene.stunts?.length ?? 0) > 0 && (
+        <span title={`Stunts: ${scene.stunts!.join(", ")}`}><Zap className="h-3 w-3 shrink-0" /></span>
+      )}
+      {(scene.picture_vehicles?.length ?? 0) > 0 && (
+        <span title={`Vehicles: ${scene.picture_vehicles!.join(", ")}`}><Car className="h-3 w-3 shrink-0" /></span>
+      )}
+      <span className="w-28 shrink-0 truncate font-mono text-[10px]" title={stripCast(scene).join(", ")}>{castIds}</span>
+      <span className="w-12 shrink-0 text-right font-mono">{formatEighths(sceneEighths(scene))}</span>
+      {onSplitAfter && (
+        <button
+          onClick={onSplitAfter}
+          title="Day break after this strip"
+          className="shrink-0 text-neutral-500 opacity-0 transition-opacity hover:text-neutral-900 group-hover:opacity-100"
+        >
+          <Scissors className="h-3 w-3" />
+        </button>
+      )}
+    </div>
+  );
+};
+
+/* ── Drop zone at the end of a day (or the unscheduled bin) ── */
+const DropZone = ({ id, children, className }: { id: string; children?: ReactNode; className?: string }) => {
+  const { isOver, setNodeRef } = useDroppable({ id });
+  return (
+    <div ref={setNodeRef} className={cn("transition-colors", isOver && "bg-primary/10 ring-1 ring-primary/30", className)}>
+      {children}
+    </div>
+  );
+};
+
+/**
+ * Stripboard — every scene as a colour-coded strip, ordered into shoot days.
+ * Strips drag between days and the unscheduled bin; day breaks are the black bars
+ * and open the call sheet for their day.
+ */
+const StripboardPanel = () => {
+  const filmId = useFilmId();
+  const { data: parsedScenes } = useParsedScenes();
+  const sceneLabel = useSceneLabel();
+  const rankings = useCharacterRanking();
+  const { data: schedule, isLoading } = useShootingSchedule();
+  const storyDays = useStoryDays();
+  const locationTree = useLocationTree();
+  const saveSchedule = useSaveShootingSchedule();
+
+  const [days, setDays] = useState<ShootDay[]>([]);
+  const [startDate, setStartDate] = useState<string | null>(null);
+  const [eighthsPerDay, setEighthsPerDay] = useState(DEFAULT_EIGHTHS_PER_DAY);
+  const [dirty, setDirty] = useState(false);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [confirmPropose, setConfirmPropose] = useState(false);
+  const [view, setView] = useState<"board" | "dood" | "story">("board");
+  const [callSheetDay, setCallSheetDay] = useState<number | null>(null);
+  const [sidesScope, setSidesScope] = useState<number | "script" | null>(null);
+
+  const scenes = useMemo(() => (parsedScenes ?? []) as StripScene[], [parsedScenes]);
+  const sceneById = useMemo(() => new Map(scenes.map((s) => [s.id, s])), [scenes]);
+
+  // Load the saved schedule, dropping scenes that have since been omitted or removed
+  useEffect(() => {
+    if (!schedule || parsedScenes === undefined) return;
+    setDays(reconcileSchedule(schedule.days, scenes));
+    setStartDate(schedule.start_date);
+    setEighthsPerDay(schedule.eighths_per_day);
+    setDirty(false);
+  }, [schedule, parsedScenes, scenes]);
+
+  const castIdOf = useMemo(() => {
+    const ids = new Map(rankings.map((r) => [r.nameNormalized, String(r.rank)]));
+    return (scene: StripScene) =>
+      stripCast(scene)
+        .map((c) => ids.get(c))
+        .filter((id): id is string => !!id)
+        .sort((a, b) => Number(a) - Number(b))
+        .join(", ");
+  }, [rankings]);
+
+  const scheduledIds = useMemo(() => new Set(days.flatMap((d) => d.scene_ids)), [days]);
+  const unscheduled = scenes.filter((s) => s.revision_status !== "omitted" && !scheduledIds.has(s.id));
+  const dates = useMemo(() => shootDayDates(startDate, days.length), [startDate, days.length]);
+
+  const update = (next: ShootDay[]) => {
+    setDays(next);
+    setDirty(true);
+  };
+
+  const sensors = useSensors(useSensor(PointerSensor, { activationConstraint: { distance: 5 } }));
+
+  const handleDragStart = (e: DragStartEvent) => setActiveId(e.active.id as string);
+
+  const handleDragEnd = (e: DragEndEvent) => {
+    setActiveId(null);
+    const over = e.over?.id as string | undefined;
+    const sceneId = (e.active.id as string).replace(/^strip:/, "");
+    if (!over || over === e.active.id) return;
+
+    const next = days.map((d) => ({ ...d, scene_ids: d.scene_ids.filter((id) => id !== sceneId) }));
+    if (over.startsWith("strip:")) {
+      // Dropped on a strip: insert before it (or unschedule if that strip is unscheduled)
+      const targetId = over.slice("strip:".length);
+      const day = next.find((d) => d.scene_ids.includes(targetId));
+      if (day) day.scene_ids.splice(day.scene_ids.indexOf(targetId), 0, sceneId);
+    } else if (over.startsWith("day:")) {
+      next.find((d) => d.id === over.slice("day:".length))?.scene_ids.push(sceneId);
+    }
+    update(next);
+  };
+
+  const handleSplitAfter = (dayIndex: number, sceneId: string) => {
+    const day = days[dayIndex];
+    const at = day.scene_ids.indexOf(sceneId) + 1;
+    if (at >= day.scene_ids.length) return;
+    update([
+      ...days.slice(0, dayIndex),
+      { ...day, scene_ids: day.scene_ids.slice(0, at) },
+      { id: crypto.randomUUID(), scene_ids: day.scene_ids.slice(at) },
+      ...days.slice(dayIndex + 1),
+    ]);
+  };
+
+  const handleMergeNext = (dayIndex: number) => {
+    const day = days[dayIndex];
+    const following = days[dayIndex + 1];
+    if (!following) return;
+    update([
+      ...days.slice(0, dayIndex),
+      { ...day, scene_ids: [...day.scene_ids, ...following.scene_ids], note: day.note || following.note },
+      ...days.slice(dayIndex + 2),
+    ]);
+  };
+
+  const handlePropose = () => {
+    // Company moves follow the location tree: sets inside one location shoot together
+    const rootByScene = new Map((parsedScenes ?? []).map((s) => [s.id, locationTree.rootOf(s)?.id]));
+    const locationOf = locationTree.hasTree ? (s: StripScene) => rootByScene.get(s.id) ?? s.location_name ?? s.heading : undefined;
+    update(proposeSchedule(scenes, eighthsPerDay, locationOf));
+    setConfirmPropose(false);
+  };
+
+  const handleSave = () => {
+    if (!filmId) return;
+    saveSchedule.mutate(
+      { filmId, days, startDate, eighthsPerDay },
+      {
+        onSuccess: () => {
+          setDirty(false);
+          toast.success("Schedule saved");
+        },
+        onError: (err) => toast.error(err instanceof Error ? err.message : "Failed to save schedule"),
+      }
+    );
+  };
+
+  const renderStrip = (scene: StripScene, onSplitAfter?: () => void) => (
+    <Strip
+      key={scene.id}
+      scene={scene}
+      label={sceneLabel(scene.scene_number)}
+      castIds={castIdOf(scene)}
+      storyDay={storyDayLabel(storyDays.get(scene.scene_number), true)}
+      onSplitAfter={onSplitAfter}
+    />
+  );
+
+  const activeScene = activeId ? sceneById.get(activeId.replace(/^strip:/, "")) : undefined;
+  const totalEighths = days.reduce((sum, d) => sum + d.scene_ids.reduce((s, id) => s + (sceneById.has(id) ? sceneEighths(sceneById.get(id)!) : 0), 0), 0);
+
+  if (isLoading) {
+    return (
+      <div className="flex flex-1 items-center justify-center">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (scenes.length === 0) {
+    return (
+      <div className="flex flex-1 items-center justify-center">
+        <p className="text-sm text-muted-foreground">No scenes to schedule yet. Lock your script in Development.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-1 flex-col overflow-hidden">
+      {/* Toolbar */}
+      <div className="flex shrink-0 flex-wrap items-center gap-3 border-b border-border bg-card px-6 py-2">
+        <label className="flex items-center gap-1.5 text-xs text-muted-foreground">
+          Start
+          <Input
+            type="date"
+            value={startDate ?? ""}
+            onChange={(e) => { setStartDate(e.target.value || null); setDirty(true); }}
+            className="h-7 w-36 text-xs"
+          />
+        </label>
+        <label className="flex items-center gap-1.5 text-xs text-muted-foreground">
+          Pages / day
+          <Input
+            type="number"
+            min={0.125}
+            step={0.125}
+            value={eighthsPerDay / 8}
+            onChange={(e) => { setEighthsPerDay(Math.max(1, Math.round(Number(e.target.value) * 8))); setDirty(true); }}
+            className="h-7 w-20 text-xs"
+          />
+        </label>
+        <div className="flex items-center gap-2">
+          {Object.values(STRIP_COLORS).map((c) => (
+            <span key={c.label} className="flex items-center gap-1 text-[10px] text-muted-foreground">
+              <span className="h-2.5 w-2.5 rounded-sm border border-border" style={{ backgroundColor: c.hex }} />
+              {c.label}
+            </span>
+          ))}
+        </div>
+        <div className="ml-auto flex items-center gap-2">
+          <div className="flex rounded-md border border-border p-0.5">
+            {([["board", "Board"], ["dood", "Day Out of Days"], ["story", "Story Days"]] as const).map(([value, label]) => (
+              <button
+                key={value}
+                onClick={() => setView(value)}
+                className={cn(
+                  "rounded px-2 py-0.5 text-[10px] font-mono uppercase tracking-wider transition-colors",
+                  view === value ? "bg-primary/15 text-primary" : "text-muted-foreground hover:text-foreground"
+                )}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <span className="text-[10px] font-mono text-muted-foreground">
+            {days.length} day{days.length !== 1 ? "s" : ""} · {formatEighths(totalEighths)} pgs
+          </span>
+          <Button variant="outline" size="sm" className="h-7 gap-1.5 text-xs" onClick={() => setSidesScope("script")}>
+            <ScrollText className="h-3.5 w-3.5" /> Sides
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 gap-1.5 text-xs"
+            onClick={() => (days.some((d) => d.scene_ids.length > 0) ? setConfirmPropose(true) : handlePropose())}
+          >
+            <Sparkles className="h-3.5 w-3.5" /> Propose Order
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 gap-1.5 text-xs"
+            onClick={() => update([...days, { id: crypto.randomUUID(), scene_ids: [] }])}
+          >
+            <Plus className="h-3.5 w-3.5" /> Add Day
+          </Button>
+          <Button size="sm" className="h-7 gap-1.5 text-xs" disabled={!dirty || saveSchedule.isPending} onClick={handleSave}>
+            {saveSchedule.isPending ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Save className="h-3.5 w-3.5" />}
+            Save
+          </Button>
+        </div>
+      </div>
+
+      {view === "dood" ? (
+        <DayOutOfDaysGrid days={days} scenes={scenes} dates={dates} />
+      ) : view === "story" ? (
+        <StoryDaysPanel />
+      ) : (
+        <DndContext sensors={sensors} onDragStart={handleDragStart} onDragEnd={handleDragEnd}>
+          <div className="flex flex-1 overflow-hidden">
+            {/* Unscheduled bin */}
+            <aside className="flex w-96 shrink-0 flex-col border-r border-border">
+              <div className="border-b border-border px-3 py-2 text-[10px] font-mono uppercase tracking-wider text-muted-foreground">
+                Unscheduled · {unscheduled.length}
+              </div>
+              <ScrollArea className="flex-1">
+                <DropZone id={UNSCHEDULED} className="min-h-full pb-8">
+                  {unscheduled.map((s) => renderStrip(s))}
+                  {unscheduled.length === 0 && (
+                    <p className="px-3 py-6 text-center text-[11px] text-muted-foreground">Every scene is on a shoot day.</p>
+                  )}
+                </DropZone>
+              </ScrollArea>
+            </aside>
+
+            {/* Board */}
+            <ScrollArea className="flex-1">
+              <div className="space-y-1 p-6">
+                {days.length === 0 && (
+                  <div className="flex flex-col items-center gap-2 py-16 text-center">
+                    <CalendarDays className="h-8 w-8 text-muted-foreground/40" />
+                    <p className="text-sm text-muted-foreground">No shoot days yet.</p>
+                    <p className="text-xs text-muted-foreground/70">Propose an order from the scene data, or add a day and drag strips onto it.</p>
+                  </div>
+                )}
+                {days.map((day, i) => {
+                  const dayScenes = day.scene_ids.map((id) => sceneById.get(id)).filter((s): s is StripScene => !!s);
+                  const dayEighths = dayScenes.reduce((sum, s) => sum + sceneEighths(s), 0);
+                  const date = dates[i];
+                  return (
+                    <div key={day.id} className="overflow-hidden rounded-sm border border-border">
+                      {dayScenes.map((s) => renderStrip(s, () => handleSplitAfter(i, s.id)))}
+                      <DropZone id={`day:${day.id}`} className="h-5 bg-card" />
+                      {/* Day break */}
+                      <div className="flex h-8 items-center gap-3 bg-neutral-900 px-3 text-[11px] text-neutral-100">
+                        <span className="font-mono font-bold uppercase tracking-wider">End of Day {i + 1}</span>
+                        {date && (
+                          <span className="font-mono text-neutral-400">
+                            {date.toLocaleDateString(undefined, { weekday: "short", day: "numeric", month: "short" })}
+                          </span>
+                        )}
+                        <span className={cn("font-mono", dayEighths > eighthsPerDay ? "text-amber-400" : "text-neutral-400")}>
+                          {formatEighths(dayEighths)} pgs
+                        </span>
+                        <input
+                          value={day.note ?? ""}
+                          onChange={(e) => update(days.map((d) => (d.id === day.id ? { ...d, note: e.target.value || undefined } : d)))}
+                          placeholder="Note…"
+                          className="flex-1 bg-transparent text-neutral-200 placeholder:text-neutral-600 focus:outline-none"
+                        />
+                        <button onClick={() => setCallSheetDay(i)} title="Call sheet" className="text-neutral-400 hover:text-neutral-100">
+                          <FileText className="h-3.5 w-3.5" />
+                        </button>
+                        <button onClick={() => setSidesScope(i)} title="Sides" className="text-neutral-400 hover:text-neutral-100">
+                          <ScrollText className="h-3.5 w-3.5" />
+                        </button>
+                        {i < days.length - 1 && (
+                          <button onClick={() => handleMergeNext(i)} title="Remove day break" className="text-neutral-400 hover:text-neutral-100">
+                            <Unlink className="h-3.5 w-3.5" />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => update(days.filter((d) => d.id !== day.id))}
+                          title="Delete day (strips go back to unscheduled)"
+                          className="text-neutral-400 hover:text-red-400"
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </ScrollArea>
+          </div>
+
+          <DragOverlay>
+            {activeScene ? (
+              <Strip
+                scene={activeScene}
+                label={sceneLabel(activeScene.scene_number)}
+                castIds={castIdOf(activeScene)}
+                storyDay={storyDayLabel(storyDays.get(activeScene.scene_number), true)}
+                overlay
+              />
+            ) : null}
+          </DragOverlay>
+        </DndContext>
+      )}
+
+      <CallSheetDialog
+        dayIndex={callSheetDay}
+        days={days}
+        dates={dates}
+        onOpenChange={(open) => !open && setCallSheetDay(null)}
+        onChange={(dayId, call) => update(days.map((d) => (d.id === dayId ? { ...d, call } : d)))}
+      />
+
+      <SidesDialog scope={sidesScope} days={days} dates={dates} onOpenChange={(open) => !open && setSidesScope(null)} />
+
+      <AlertDialog open={confirmPropose} onOpenChange={setConfirmPropose}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Replace the current schedule?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The proposed order groups scenes by location, day/night and cast, and replaces every shoot day on the board.
+              Nothing is saved until you press Save.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handlePropose}>Propose Order</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default StripboardPanel;
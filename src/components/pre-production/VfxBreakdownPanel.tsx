@@ -0,0 +1,295 @@
+import { useMemo, useState } from "react";
+import { Download, FileSpreadsheet, Loader2, Sparkles, Trash2, Wand2, Wrench } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { useFilm, useFilmId, useParsedScenes, useSceneLabel, useShots } from "@/hooks/useFilm";
+import {
+  useAddVfxShots, useDeleteVfxShot, useUpdateVfxShot, useVfxRepairs, useVfxShots, type VfxShot,
+} from "@/hooks/useVfxBreakdown";
+import {
+  VFX_COMPLEXITIES, buildVfxBreakdown, downloadVfxBidSheet, estimateVfxShots, vfxComplexity, type VfxBidRow,
+} from "@/lib/vfx-breakdown";
+
+const ALL = "__all__";
+
+/**
+ * VFX breakdown — the script's visual effects as VFX shot IDs with complexity,
+ * estimated shot counts, linked Production shots and Fix-It Bay repairs.
+ */
+const VfxBreakdownPanel = () => {
+  const filmId = useFilmId();
+  const { data: film } = useFilm();
+  const { data: parsedScenes } = useParsedScenes();
+  const { data: shots } = useShots();
+  const sceneLabel = useSceneLabel();
+  const { data: vfxShots = [], isLoading } = useVfxShots();
+  const { data: repairs = [] } = useVfxRepairs();
+  const addVfxShots = useAddVfxShots();
+  const updateVfxShot = useUpdateVfxShot();
+  const deleteVfxShot = useDeleteVfxShot();
+  const [filter, setFilter] = useState<string>(ALL);
+
+  /** Production shots per scene in Shot Stack order, for "12.3"-style labels */
+  const shotsByScene = useMemo(() => {
+    const map = new Map<number, { id: string; prompt_text: string | null; created_at: string }[]>();
+    for (const s of shots ?? []) {
+      if (!map.has(s.scene_number)) map.set(s.scene_number, []);
+      map.get(s.scene_number)!.push(s);
+    }
+    for (const list of map.values()) list.sort((a, b) => a.created_at.localeCompare(b.created_at));
+    return map;
+  }, [shots]);
+
+  const shotLabels = useMemo(() => {
+    const labels = new Map<string, string>();
+    for (const [sceneNumber, list] of shotsByScene) {
+      list.forEach((s, i) => labels.set(s.id, `${sceneLabel(sceneNumber)}.${i + 1}`));
+    }
+    return labels;
+  }, [shotsByScene, sceneLabel]);
+
+  const headings = useMemo(
+    () => new Map((parsedScenes ?? []).map((s) => [s.scene_number, s.heading])),
+    [parsedScenes],
+  );
+
+  const repairsByShot = useMemo(() => {
+    const map = new Map<string, typeof repairs>();
+    for (const r of repairs) {
+      if (!r.vfx_shot_id) continue;
+      if (!map.has(r.vfx_shot_id)) map.set(r.vfx_shot_id, []);
+      map.get(r.vfx_shot_id)!.push(r);
+    }
+    return map;
+  }, [repairs]);
+
+  const drafts = useMemo(
+    () => buildVfxBreakdown(parsedScenes ?? [], shotsByScene, sceneLabel, vfxShots),
+    [parsedScenes, shotsByScene, sceneLabel, vfxShots],
+  );
+
+  const visible = filter === ALL ? vfxShots : vfxShots.filter((v) => v.complexity === filter);
+  const totalShots = vfxShots.reduce((n, v) => n + v.estimated_shots, 0);
+
+  const onError = (err: unknown) => toast.error(err instanceof Error ? err.message : "Failed to update the VFX breakdown");
+
+  const update = (item: VfxShot, patch: Partial<VfxShot>) =>
+    filmId && updateVfxShot.mutate({ filmId, id: item.id, patch }, { onError });
+
+  const handleGenerate = () => {
+    if (!filmId || drafts.length === 0) return;
+    addVfxShots.mutate(
+      { filmId, drafts },
+      { onSuccess: () => toast.success(`Added ${drafts.length} VFX shot${drafts.length !== 1 ? "s" : ""}`), onError }
+    );
+  };
+
+  const toggleShot = (item: VfxShot, shotId: string, checked: boolean) => {
+    const shotIds = checked ? [...item.shot_ids, shotId] : item.shot_ids.filter((id) => id !== shotId);
+    // Keep the estimate in step with the links unless it was raised by hand
+    const estimate = item.estimated_shots === estimateVfxShots(item.complexity, item.shot_ids.length)
+      ? estimateVfxShots(item.complexity, shotIds.length)
+      : Math.max(item.estimated_shots, shotIds.length);
+    update(item, { shot_ids: shotIds, estimated_shots: estimate });
+  };
+
+  const handleExport = (format: "pdf" | "csv") => {
+    const rows: VfxBidRow[] = visible.map((v) => ({
+      vfxId: v.vfx_id,
+      scene: sceneLabel(v.scene_number),
+      heading: headings.get(v.scene_number) ?? "",
+      description: v.description,
+      complexity: vfxComplexity(v.complexity).label,
+      estimatedShots: v.estimated_shots,
+      shots: v.shot_ids.map((id) => shotLabels.get(id)).filter((l): l is string => !!l),
+      repairs: repairsByShot.get(v.id)?.length ?? 0,
+      notes: v.notes ?? "",
+    }));
+    downloadVfxBidSheet(format, rows, film?.title ?? "");
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex flex-1 items-center justify-center">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-1 flex-col overflow-hidden">
+      <div className="flex shrink-0 items-center gap-2 border-b border-border px-6 py-2">
+        <span className="text-[10px] font-mono uppercase tracking-wider text-muted-foreground">
+          {vfxShots.length} VFX item{vfxShots.length !== 1 ? "s" : ""} · {totalShots} est. shot{totalShots !== 1 ? "s" : ""}
+        </span>
+        <Select value={filter} onValueChange={setFilter}>
+          <SelectTrigger className="ml-2 h-7 w-36 text-xs"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All classes</SelectItem>
+            {VFX_COMPLEXITIES.map((c) => (
+              <SelectItem key={c.value} value={c.value}>{c.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="ml-auto flex items-center gap-1.5">
+          <Button variant="outline" size="sm" className="h-7 gap-1.5 text-xs" disabled={visible.length === 0} onClick={() => handleExport("csv")}>
+            <FileSpreadsheet className="h-3.5 w-3.5" /> Bid CSV
+          </Button>
+          <Button variant="outline" size="sm" className="h-7 gap-1.5 text-xs" disabled={visible.length === 0} onClick={() => handleExport("pdf")}>
+            <Download className="h-3.5 w-3.5" /> Bid PDF
+          </Button>
+          <Button size="sm" className="h-7 gap-1.5 text-xs" disabled={drafts.length === 0 || addVfxShots.isPending} onClick={handleGenerate}>
+            {addVfxShots.isPending ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Sparkles className="h-3.5 w-3.5" />}
+            Break down script VFX ({drafts.length})
+          </Button>
+        </div>
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className="p-6">
+          {vfxShots.length === 0 ? (
+            <div className="flex flex-col items-center gap-2 py-16 text-center">
+              <Wand2 className="h-8 w-8 text-muted-foreground/40" />
+              <p className="text-sm text-muted-foreground">No VFX shots yet.</p>
+              <p className="text-xs text-muted-foreground/70">Break down the visual effects found in the script analysis to start a bid sheet.</p>
+            </div>
+          ) : (
+            <table className="w-full border-collapse text-xs">
+              <thead>
+                <tr className="text-left text-[10px] font-mono uppercase tracking-wider text-muted-foreground">
+                  <th className="w-28 px-2 py-1">VFX ID</th>
+                  <th className="w-12 px-2 py-1">Sc</th>
+                  <th className="px-2 py-1">Description</th>
+                  <th className="w-36 px-2 py-1">Complexity</th>
+                  <th className="w-16 px-2 py-1">Est.</th>
+                  <th className="w-36 px-2 py-1">Shots</th>
+                  <th className="w-16 px-2 py-1">Repairs</th>
+                  <th className="w-48 px-2 py-1">Notes</th>
+                  <th className="w-8" />
+                </tr>
+              </thead>
+              <tbody>
+                {visible.map((item) => {
+                  const sceneShots = shotsByScene.get(item.scene_number) ?? [];
+                  const itemRepairs = repairsByShot.get(item.id) ?? [];
+                  const [r, g, b] = vfxComplexity(item.complexity).rgb;
+                  return (
+                    <tr key={item.id} className="border-b border-border/50 align-top">
+                      <td className="px-2 py-1.5 font-mono font-bold">{item.vfx_id}</td>
+                      <td className="px-2 py-1.5 font-mono" title={headings.get(item.scene_number) ?? undefined}>{sceneLabel(item.scene_number)}</td>
+                      <td className="px-2 py-1.5">
+                        <Input
+                          key={`${item.id}:${item.description}`}
+                          defaultValue={item.description}
+                          onBlur={(e) => e.target.value.trim() && e.target.value !== item.description && update(item, { description: e.target.value.trim() })}
+                          className="h-7 text-xs"
+                        />
+                      </td>
+                      <td className="px-2 py-1.5">
+                        <Select
+                          value={item.complexity}
+                          onValueChange={(v) => update(item, {
+                            complexity: v,
+                            estimated_shots: Math.max(item.estimated_shots, estimateVfxShots(v, item.shot_ids.length)),
+                          })}
+                        >
+                          <SelectTrigger className="h-7 text-xs" style={{ color: `rgb(${r}, ${g}, ${b})` }}><SelectValue /></SelectTrigger>
+                          <SelectContent>
+                            {VFX_COMPLEXITIES.map((c) => (
+                              <SelectItem key={c.value} value={c.value}>{c.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </td>
+                      <td className="px-2 py-1.5">
+                        <Input
+                          key={`${item.id}:e${item.estimated_shots}`}
+                          type="number"
+                          min={1}
+                          defaultValue={item.estimated_shots}
+                          onBlur={(e) => Number(e.target.value) !== item.estimated_shots && update(item, { estimated_shots: Math.max(1, Math.round(Number(e.target.value)) || 1) })}
+                          className="h-7 w-14 text-xs"
+                        />
+                      </td>
+                      <td className="px-2 py-1.5">
+                        <Popover>
+                          <PopoverTrigger asChild>
+                            <Button variant="ghost" size="sm" className="h-7 w-full justify-start px-1.5 font-mono text-[10px]" disabled={sceneShots.length === 0}>
+                              {item.shot_ids.length
+                                ? item.shot_ids.map((id) => shotLabels.get(id)).filter(Boolean).join(", ")
+                                : sceneShots.length ? "Link shots…" : "No shots yet"}
+                            </Button>
+                          </PopoverTrigger>
+                          <PopoverContent className="w-72 p-2" align="start">
+                            <p className="mb-1.5 px-1 text-[10px] font-mono uppercase tracking-wider text-muted-foreground">Production shots · Sc {sceneLabel(item.scene_number)}</p>
+                            <div className="max-h-60 space-y-0.5 overflow-y-auto">
+                              {sceneShots.map((s) => (
+                                <label key={s.id} className="flex cursor-pointer items-start gap-2 rounded px-1 py-1 hover:bg-secondary/50">
+                                  <Checkbox
+                                    checked={item.shot_ids.includes(s.id)}
+                                    onCheckedChange={(checked) => toggleShot(item, s.id, checked === true)}
+                                    className="mt-0.5"
+                                  />
+                                  <span className="font-mono text-[10px] font-bold">{shotLabels.get(s.id)}</span>
+                                  <span className="line-clamp-2 text-[10px] text-muted-foreground">{s.prompt_text || "No action yet"}</span>
+                                </label>
+                              ))}
+                            </div>
+                          </PopoverContent>
+                        </Popover>
+                      </td>
+                      <td className="px-2 py-1.5">
+                        {itemRepairs.length > 0 ? (
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <span className="flex items-center gap-1 font-mono text-[10px] text-amber-600">
+                                <Wrench className="h-3 w-3" /> {itemRepairs.length}
+                              </span>
+                            </TooltipTrigger>
+                            <TooltipContent className="max-w-xs space-y-0.5 text-xs">
+                              {itemRepairs.map((rep) => (
+                                <p key={rep.id}><span className="font-semibold">{rep.clip_label}</span>{rep.prompt ? ` — ${rep.prompt}` : ""}</p>
+                              ))}
+                            </TooltipContent>
+                          </Tooltip>
+                        ) : (
+                          <span className="font-mono text-[10px] text-muted-foreground/50">—</span>
+                        )}
+                      </td>
+                      <td className="px-2 py-1.5">
+                        <Input
+                          key={`${item.id}:n${item.notes ?? ""}`}
+                          defaultValue={item.notes ?? ""}
+                          placeholder="Notes for vendors…"
+                          onBlur={(e) => e.target.value !== (item.notes ?? "") && update(item, { notes: e.target.value || null })}
+                          className="h-7 text-xs"
+                        />
+                      </td>
+                      <td className="px-1 py-1.5">
+                        <button
+                          onClick={() => filmId && deleteVfxShot.mutate({ filmId, id: item.id }, { onError })}
+                          title="Remove from breakdown"
+                          className="mt-1.5 text-muted-foreground hover:text-destructive"
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+};
+
+export default VfxBreakdownPanel;
@@ -1,4 +1,4 @@
-import { useState, useMemo, useCallback } from "react";
+import { Fragment, useState, useMemo, useCallback } from "react";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Button } from "@/components/ui/button";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
@@ -7,8 +7,11 @@ import { cn } from "@/lib/utils";
 import { supabase } from "@/integrations/supabase/client";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { toast } from "sonner";
+import { useStoryDays } from "@/hooks/useStoryDays";
+import { storyDayLabel, wardrobeStoryDayChanges } from "@/lib/story-days";
+import CostumePlotGrid from "./CostumePlotGrid";
 import {
-  Shirt, Film, ChevronDown, ChevronRight, Lock, AlertCircle, Plus, Check, Loader2,
+  Shirt, Film, ChevronDown, ChevronRight, Lock, AlertCircle, AlertTriangle, Plus, Check, Loader2,
 } from "lucide-react";
 
 interface FilmAsset {
@@ -55,6 +58,7 @@ const WardrobeCharacterView = ({
   const [sceneAssignmentsOpen, setSceneAssignmentsOpen] = useState(false);
   const [lockingAssignments, setLockingAssignments] = useState(false);
   const queryClient = useQueryClient();
+  const storyDays = useStoryDays();
 
   const { data: characterHeadshot } = useQuery({
     queryKey: ["character-headshot", filmId, characterName],
@@ -153,26 +157,34 @@ const WardrobeCharacterView = ({
 
   const allScenesAssigned = unassignedScenes.length === 0 && characterSceneNumbers.length > 0;
 
+  // Costumes change only between story days: a change applies to the character's other scenes that day
   const handleSceneWardrobeChange = useCallback(async (sceneNumber: number, wardrobeItem: string) => {
+    const day = storyDays.get(sceneNumber)?.day ?? null;
+    const sceneNumbers = day === null
+      ? [sceneNumber]
+      : characterSceneNumbers.filter((sn) => storyDays.get(sn)?.day === day);
+
     await supabase
       .from("wardrobe_scene_assignments")
       .delete()
       .eq("film_id", filmId)
       .eq("character_name", characterName)
-      .eq("scene_number", sceneNumber);
+      .in("scene_number", sceneNumbers);
 
     if (wardrobeItem !== "__none__") {
-      await supabase.from("wardrobe_scene_assignments").insert({
-        film_id: filmId,
-        character_name: characterName,
-        clothing_item: wardrobeItem,
-        scene_number: sceneNumber,
-      });
+      await supabase.from("wardrobe_scene_assignments").insert(
+        sceneNumbers.map((sn) => ({
+          film_id: filmId,
+          character_name: characterName,
+          clothing_item: wardrobeItem,
+          scene_number: sn,
+        }))
+      );
     }
 
     queryClient.invalidateQueries({ queryKey: ["wardrobe-scene-assignments-char", filmId, characterName] });
     queryClient.invalidateQueries({ queryKey: ["wardrobe-scene-assignments"] });
-  }, [filmId, characterName, queryClient]);
+  }, [filmId, characterName, characterSceneNumbers, storyDays, queryClient]);
 
   const handleLockAssignments = useCallback(async () => {
     if (!allScenesAssigned) {
@@ -192,6 +204,11 @@ const WardrobeCharacterView = ({
     [characterSceneNumbers]
   );
 
+  const storyDayChanges = useMemo(
+    () => wardrobeStoryDayChanges(sceneAssignments, storyDays),
+    [sceneAssignments, storyDays]
+  );
+
   return (
     <ScrollArea className="flex-1 h-full max-h-full overflow-hidden">
       <div className="p-6 space-y-6">
@@ -285,6 +302,34 @@ const WardrobeCharacterView = ({
           )}
         </div>
 
+        <CostumePlotGrid
+          filmId={filmId}
+          characterName={characterName}
+          characterSceneNumbers={characterSceneNumbers}
+          sceneHeadings={sceneHeadings}
+          displayName={displayName}
+        />
+
+        {/* Costume changes inside a story day */}
+        {storyDayChanges.length > 0 && (
+          <div className="rounded-xl border border-amber-500/30 bg-amber-500/5 p-4 space-y-1.5">
+            <div className="flex items-center gap-2">
+              <AlertTriangle className="h-4 w-4 text-amber-500" />
+              <h3 className="font-display text-sm font-bold uppercase tracking-wider text-foreground">
+                Costume Changes Within a Story Day
+              </h3>
+            </div>
+            {storyDayChanges.map((change) => (
+              <p key={change.day} className="text-xs text-muted-foreground">
+                <span className="font-semibold text-foreground">Story day {change.day}:</span>{" "}
+                {[...change.items.entries()]
+                  .map(([item, sns]) => `${displayName(item)} (Sc ${[...sns].sort((a, b) => a - b).join(", ")})`)
+                  .join(" · ")}
+              </p>
+            ))}
+          </div>
+        )}
+
         {/* ═══ SCENE ASSIGNMENTS + UNASSIGNED (side by side) ═══ */}
         <div className="flex items-start gap-4">
           {/* Scene Assignments */}
@@ -306,53 +351,61 @@ const WardrobeCharacterView = ({
 
               <CollapsibleContent className="space-y-3">
                 <p className="text-[10px] text-muted-foreground">
-                  Select which wardrobe <span className="font-semibold text-foreground">{characterName}</span> wears in each scene. This is a character-level continuity control.
+                  Select which wardrobe <span className="font-semibold text-foreground">{characterName}</span> wears in each scene. A change applies to every scene of the same story day, so costumes only change between days.
                 </p>
 
                 <div className="space-y-1.5">
-                  {sortedCharScenes.map((sn) => {
+                  {sortedCharScenes.map((sn, i) => {
                     const currentItem = assignmentByScene.get(sn);
                     const heading = sceneHeadings?.[sn];
+                    const storyDay = storyDays.get(sn);
+                    const newDay = i === 0 || storyDayLabel(storyDays.get(sortedCharScenes[i - 1])) !== storyDayLabel(storyDay);
                     return (
-                      <div
-                        key={sn}
-                        className={cn(
-                          "flex items-center gap-3 rounded-lg px-3 py-2 transition-colors",
-                          currentItem
-                            ? "bg-primary/5 border border-primary/20"
-                            : "bg-destructive/5 border border-destructive/20"
+                      <Fragment key={sn}>
+                        {newDay && storyDay && (
+                          <p className="pt-1 text-[10px] font-display font-semibold uppercase tracking-wider text-muted-foreground">
+                            {storyDayLabel(storyDay)}
+                          </p>
                         )}
-                      >
-                        <Film className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
-                        <span className="font-display text-xs font-semibold text-foreground min-w-[32px]">
-                          Sc {sn}
-                        </span>
-                        {heading && (
-                          <span className="text-[11px] text-muted-foreground truncate max-w-[120px]">
-                            {heading}
+                        <div
+                          className={cn(
+                            "flex items-center gap-3 rounded-lg px-3 py-2 transition-colors",
+                            currentItem
+                              ? "bg-primary/5 border border-primary/20"
+                              : "bg-destructive/5 border border-destructive/20"
+                          )}
+                        >
+                          <Film className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+                          <span className="font-display text-xs font-semibold text-foreground min-w-[32px]">
+                            Sc {sn}
                           </span>
-                        )}
-                        <div className="ml-auto shrink-0 w-[180px]">
-                          <Select
-                            value={currentItem || "__none__"}
-                            onValueChange={(val) => handleSceneWardrobeChange(sn, val)}
-                          >
-                            <SelectTrigger className="h-7 text-[11px] bg-secondary/50 border-border">
-                              <SelectValue placeholder="Select wardrobe…" />
-                            </SelectTrigger>
-                            <SelectContent>
-                              <SelectItem value="__none__">
-                                <span className="text-muted-foreground italic">Unassigned</span>
-                              </SelectItem>
-                              {wardrobeItems.map((w) => (
-                                <SelectItem key={w} value={w}>
-                                  {displayName(w)}
+                          {heading && (
+                            <span className="text-[11px] text-muted-foreground truncate max-w-[120px]">
+                              {heading}
+                            </span>
+                          )}
+                          <div className="ml-auto shrink-0 w-[180px]">
+                            <Select
+                              value={currentItem || "__none__"}
+                              onValueChange={(val) => handleSceneWardrobeChange(sn, val)}
+                            >
+                              <SelectTrigger className="h-7 text-[11px] bg-secondary/50 border-border">
+                                <SelectValue placeholder="Select wardrobe…" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="__none__">
+                                  <span className="text-muted-foreground italic">Unassigned</span>
                                 </SelectItem>
-                              ))}
-                            </SelectContent>
-                          </Select>
+                                {wardrobeItems.map((w) => (
+                                  <SelectItem key={w} value={w}>
+                                    {displayName(w)}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
                         </div>
-                      </div>
+                      </Fragment>
                     );
                   })}
                 </div>
@@ -1,7 +1,8 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import { cn } from "@/lib/utils";
 import { Aperture, Crosshair, Focus, ScanLine, Sun, Move, Sparkles, Lightbulb, Camera, Clapperboard, Users, Drama, Save, FolderOpen, Trash2, Film } from "lucide-react";
-import { DIRECTORS, type DirectorProfile } from "@/lib/director-styles";
+import type { DirectorProfile } from "@/lib/director-styles";
+import { useDirectorCatalog } from "@/hooks/useCustomDirectors";
 import { Slider } from "@/components/ui/slider";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import {
@@ -209,8 +210,6 @@ function deriveTemplate(d: DirectorProfile): DirectorTemplate {
   };
 }
 
-const DIRECTOR_TEMPLATES: DirectorTemplate[] = DIRECTORS.map(deriveTemplate);
-
 interface OpticsSuitePanelProps {
   onAspectRatioChange: (ratio: number) => void;
   filmId?: string;
@@ -263,13 +262,17 @@ const OpticsSuitePanel = ({ onAspectRatioChange, filmId }: OpticsSuitePanelProps
   const [actionOpen, setActionOpen] = useState(false);
   const [dirTemplateOpen, setDirTemplateOpen] = useState(false);
 
+  // Built-in directors plus the workspace's custom profiles
+  const directorCatalog = useDirectorCatalog();
+  const directorTemplates = useMemo(() => directorCatalog.map(deriveTemplate), [directorCatalog]);
+
   // ── Matched director profile ──
   const { data: directorProfile } = useQuery({
     queryKey: ["director-profile", filmId],
     queryFn: async () => {
       const { data, error } = await supabase
         .from("film_director_profiles")
-        .select("primary_director_id, primary_director_name, secondary_director_id, secondary_director_name")
+        .select("primary_director_id, primary_director_name, secondary_director_id, secondary_director_name, blend_directors")
         .eq("film_id", filmId!)
         .maybeSingle();
       if (error) throw error;
@@ -433,8 +436,9 @@ const OpticsSuitePanel = ({ onAspectRatioChange, filmId }: OpticsSuitePanelProps
               </div>
               <ScrollArea className="max-h-64">
                 <div className="p-1.5 space-y-0.5">
-                  {DIRECTOR_TEMPLATES.map((t) => {
-                    const isMatched = directorProfile?.primary_director_id === t.id || directorProfile?.secondary_director_id === t.id;
+                  {directorTemplates.map((t) => {
+                    const isMatched = directorProfile?.primary_director_id === t.id || directorProfile?.secondary_director_id === t.id
+                      || (Array.isArray(directorProfile?.blend_directors) && (directorProfile.blend_directors as { id: string }[]).some((b) => b.id === t.id));
                     return (
                       <button
                         key={t.id}
@@ -1,5 +1,6 @@
 import { useCallback, useRef } from "react";
 import { cn } from "@/lib/utils";
+import { sceneNumberLabel } from "@/lib/scene-numbers";
 import { Film, Sun, Moon, Sunrise, Sunset, ArrowRightLeft, ScrollText } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { ScrollArea } from "@/components/ui/scroll-area";
@@ -92,6 +93,7 @@ const SceneNavigator = ({
             {scenes.map((scene: any, i: number) => {
               const isActive = activeSceneIdx === i;
               const sceneNum = scene.scene_number ?? i + 1;
+              const sceneLabel = sceneNumberLabel({ ...scene, scene_number: sceneNum });
               const count = shotCounts[sceneNum] ?? 0;
               const status = getSceneStatus(scene, count);
               const colors = STATUS_COLORS[status];
@@ -127,7 +129,7 @@ const SceneNavigator = ({
                                   : "text-muted-foreground hover:text-primary hover:bg-primary/10"
                               )}
                             >
-                              {sceneNum}.
+                              {sceneLabel}.
                             </button>
                           </TooltipTrigger>
                           <TooltipContent side="right" className="text-[10px]">
@@ -140,7 +142,7 @@ const SceneNavigator = ({
                         "font-mono text-[10px] font-bold shrink-0",
                         isActive ? "text-primary" : "text-muted-foreground"
                       )}>
-                        {sceneNum}.
+                        {sceneLabel}.
                       </span>
                     )}
                     {/* INT/EXT badge */}
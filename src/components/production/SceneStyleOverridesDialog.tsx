@@ -0,0 +1,242 @@
+import { useState } from "react";
+import { Loader2, Lock, LockOpen, SlidersHorizontal } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+import { useFilmId } from "@/hooks/useFilm";
+import { useStyleContract } from "@/hooks/useStyleContract";
+import { useSaveSceneStyleOverride, useSceneStyleOverride } from "@/hooks/useSceneStyleOverrides";
+import {
+  OVERRIDE_FIELDS,
+  describeColorShift,
+  describeStyleValue,
+  overrideFieldState,
+  toColorShift,
+  type ColorShift,
+  type OverrideField,
+  type OverrideFieldState,
+} from "@/lib/scene-style-overrides";
+
+const STATE_BADGES: Record<OverrideFieldState, { label: string; className: string }> = {
+  locked: { label: "Locked", className: "bg-amber-500/15 text-amber-500" },
+  compiled: { label: "Compiled", className: "bg-primary/10 text-primary" },
+  inherits: { label: "Inherits film", className: "bg-muted text-muted-foreground" },
+};
+
+/** Number inputs use whole percentages; 0 or empty drops the key */
+const percent = (v: string) => Math.max(0, Math.min(100, Math.round(Number(v) || 0)));
+
+type Draft = Record<OverrideField, unknown>;
+
+/** Per-scene style override editor: see what the scene inherits, tune fields and lock them against recompiles */
+const SceneStyleOverridesDialog = ({ sceneNumber, sceneLabel }: { sceneNumber: number | undefined; sceneLabel?: string }) => {
+  const filmId = useFilmId();
+  const { data: override } = useSceneStyleOverride(sceneNumber);
+  const { data: contract } = useStyleContract();
+  const saveOverride = useSaveSceneStyleOverride();
+
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<Draft>({} as Draft);
+  const [locks, setLocks] = useState<Set<OverrideField>>(new Set());
+
+  const compiled = (override?.compiled_values ?? {}) as Partial<Record<OverrideField, unknown>>;
+  const lockedCount = override?.locked_fields.length ?? 0;
+
+  const openEditor = () => {
+    const values = {} as Draft;
+    for (const { key } of OVERRIDE_FIELDS) values[key] = override?.[key] ?? null;
+    setDraft(values);
+    setLocks(new Set((override?.locked_fields ?? []) as OverrideField[]));
+    setOpen(true);
+  };
+
+  // Editing a field locks it so the next recompile keeps the change
+  const setField = (key: OverrideField, value: unknown) => {
+    setDraft((d) => ({ ...d, [key]: value }));
+    setLocks((prev) => new Set(prev).add(key));
+  };
+
+  const setShift = (patch: Partial<ColorShift>) => setField("color_shift", toColorShift({ ...toColorShift(draft.color_shift), ...patch }));
+
+  const toggleLock = (key: OverrideField) => {
+    const next = new Set(locks);
+    if (next.has(key)) {
+      next.delete(key);
+      // Unlocked fields go back to what the last compile derived
+      if (key in compiled) setDraft((d) => ({ ...d, [key]: compiled[key] ?? null }));
+    } else {
+      next.add(key);
+    }
+    setLocks(next);
+  };
+
+  const handleSave = async () => {
+    if (!filmId || sceneNumber == null) return;
+    const text = (key: OverrideField) => {
+      const v = draft[key];
+      return typeof v === "string" && v.trim() ? v.trim() : null;
+    };
+    try {
+      await saveOverride.mutateAsync({
+        filmId,
+        sceneNumber,
+        id: override?.id,
+        values: {
+          mood_override: text("mood_override"),
+          lighting_override: text("lighting_override"),
+          color_shift: { ...toColorShift(draft.color_shift) },
+          environment_texture: text("environment_texture"),
+          time_of_day_grade: text("time_of_day_grade"),
+          camera_feel: text("camera_feel"),
+          custom_negative: text("custom_negative"),
+        },
+        lockedFields: OVERRIDE_FIELDS.map((f) => f.key).filter((k) => locks.has(k)),
+      });
+      toast.success(`Scene ${sceneLabel ?? sceneNumber} style saved`, {
+        description: locks.size > 0 ? `${locks.size} locked field${locks.size === 1 ? "" : "s"} will survive recompiles` : undefined,
+      });
+      setOpen(false);
+    } catch (err) {
+      toast.error("Failed to save scene style: " + (err instanceof Error ? err.message : String(err)));
+    }
+  };
+
+  const shift = toColorShift(draft.color_shift);
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        className="h-7 gap-1.5 px-2 text-[10px] font-mono"
+        disabled={sceneNumber == null}
+        onClick={openEditor}
+      >
+        <SlidersHorizontal className="h-3 w-3" />
+        Scene Style
+        {lockedCount > 0 && (
+          <span className="flex items-center gap-0.5 text-amber-500">
+            <Lock className="h-2.5 w-2.5" />
+            {lockedCount}
+          </span>
+        )}
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-3xl max-h-[85vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2 text-base">
+              <SlidersHorizontal className="h-4 w-4" /> Scene {sceneLabel ?? sceneNumber} Style Overrides
+            </DialogTitle>
+            <DialogDescription className="text-xs">
+              What this scene adds to the film's Style Contract{contract ? ` (v${contract.version})` : ""}. Editing a field locks it; locked fields are kept when the contract is recompiled, unlocked ones are rebuilt from the scene breakdown.
+            </DialogDescription>
+          </DialogHeader>
+          <ScrollArea className="flex-1">
+            <div className="space-y-2 pr-3">
+              {OVERRIDE_FIELDS.map(({ key, label, inherits, inheritsLabel }) => {
+                const locked = locks.has(key);
+                const state = overrideFieldState(key === "color_shift" ? toColorShift(draft[key]) : draft[key], locked);
+                const badge = STATE_BADGES[state];
+                const describe = key === "color_shift" ? describeColorShift : describeStyleValue;
+                const compiledText = key in compiled ? describe(compiled[key]) : null;
+                const draftText = describe(draft[key]);
+                return (
+                  <div key={key} className={cn("rounded-md border p-2 space-y-1.5", locked ? "border-amber-500/40" : "border-border/60")}>
+                    <div className="flex items-center gap-2">
+                      <span className="text-[10px] font-semibold uppercase tracking-wider">{label}</span>
+                      <span className={cn("text-[9px] font-mono rounded px-1.5 py-0.5", badge.className)}>{badge.label}</span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="ml-auto h-6 gap-1 px-2 text-[10px]"
+                        title={locked ? "Unlock: let the next recompile rebuild this field" : "Lock: keep this value on recompile"}
+                        onClick={() => toggleLock(key)}
+                      >
+                        {locked ? <Lock className="h-3 w-3" /> : <LockOpen className="h-3 w-3" />}
+                        {locked ? "Unlock" : "Lock"}
+                      </Button>
+                    </div>
+
+                    {key === "color_shift" ? (
+                      <div className="flex flex-wrap items-center gap-3 text-[10px]">
+                        <label className="flex items-center gap-1.5">
+                          Saturate %
+                          <Input
+                            type="number"
+                            min={0}
+                            max={100}
+                            className="h-7 w-16 text-xs"
+                            value={shift.saturate ?? ""}
+                            onChange={(e) => setShift({ saturate: percent(e.target.value) })}
+                          />
+                        </label>
+                        <label className="flex items-center gap-1.5">
+                          Desaturate %
+                          <Input
+                            type="number"
+                            min={0}
+                            max={100}
+                            className="h-7 w-16 text-xs"
+                            value={shift.desaturate ?? ""}
+                            onChange={(e) => setShift({ desaturate: percent(e.target.value) })}
+                          />
+                        </label>
+                        <label className="flex items-center gap-1.5">
+                          <Switch checked={!!shift.push_warm} onCheckedChange={(v) => setShift({ push_warm: v })} />
+                          Push warm
+                        </label>
+                        <label className="flex items-center gap-1.5">
+                          <Switch checked={!!shift.push_cool} onCheckedChange={(v) => setShift({ push_cool: v })} />
+                          Push cool
+                        </label>
+                      </div>
+                    ) : key === "mood_override" || key === "time_of_day_grade" ? (
+                      <Input
+                        className="h-8 text-xs"
+                        value={typeof draft[key] === "string" ? (draft[key] as string) : ""}
+                        onChange={(e) => setField(key, e.target.value)}
+                      />
+                    ) : (
+                      <Textarea
+                        className="min-h-[44px] text-xs"
+                        value={typeof draft[key] === "string" ? (draft[key] as string) : ""}
+                        onChange={(e) => setField(key, e.target.value)}
+                      />
+                    )}
+
+                    <p className="text-[10px] text-muted-foreground">
+                      <span className="font-semibold">Film · {inheritsLabel}:</span>{" "}
+                      {describeStyleValue(contract?.[inherits]) || "—"}
+                    </p>
+                    {locked && compiledText !== null && compiledText !== draftText && (
+                      <p className="text-[10px] text-muted-foreground">
+                        <span className="font-semibold">Compiled:</span> {compiledText || "—"}
+                      </p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </ScrollArea>
+          <div className="flex items-center gap-2 pt-2">
+            {!override && (
+              <Badge variant="secondary" className="text-[9px]">Not compiled yet — saving creates this scene's overrides</Badge>
+            )}
+            <Button size="sm" className="ml-auto gap-1.5" disabled={saveOverride.isPending || !filmId} onClick={handleSave}>
+              {saveOverride.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+              Save Scene Style
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default SceneStyleOverridesDialog;
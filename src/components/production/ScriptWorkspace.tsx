@@ -4,6 +4,7 @@ import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Plus, FileText, Sparkles, Loader2 } from "lucide-react";
 import { SHOT_COLORS } from "@/lib/shot-colors";
+import { sceneNumberLabel } from "@/lib/scene-numbers";
 
 interface ShotHighlight {
   shotId: string;
@@ -212,7 +213,7 @@ const ScriptWorkspace = ({
           Script
         </span>
         <span className="text-[9px] font-mono text-muted-foreground/50 ml-1">
-          Scene {scene?.scene_number ?? "—"}
+          Scene {scene?.scene_number ? sceneNumberLabel(scene) : "—"}
         </span>
         <div className="ml-auto flex items-center gap-1.5">
           {onAutoShot && sceneText && (
@@ -15,12 +15,14 @@ export interface Shot {
 
 interface ShotListProps {
   shots: Shot[];
+  /** Printed scene number ("12A") of the scene these shots belong to */
+  sceneLabel?: string;
   activeShotId: string | null;
   onSelectShot: (id: string) => void;
   onAddShot: () => void;
 }
 
-const ShotList = ({ shots, activeShotId, onSelectShot, onAddShot }: ShotListProps) => {
+const ShotList = ({ shots, sceneLabel, activeShotId, onSelectShot, onAddShot }: ShotListProps) => {
   return (
     <div className="border-b border-border bg-card/30">
       <div className="flex items-center gap-2 px-4 py-2 border-b border-border/50">
@@ -28,6 +30,11 @@ const ShotList = ({ shots, activeShotId, onSelectShot, onAddShot }: ShotListProp
         <span className="text-[10px] font-display font-bold uppercase tracking-wider text-muted-foreground">
           Shot Stack
         </span>
+        {sceneLabel && (
+          <span className="text-[9px] font-mono font-bold text-primary/70">
+            Sc {sceneLabel}
+          </span>
+        )}
         <span className="text-[9px] font-mono text-muted-foreground/50 ml-1">
           {shots.length} shot{shots.length !== 1 ? "s" : ""}
         </span>
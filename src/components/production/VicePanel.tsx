@@ -9,6 +9,7 @@ import {
   useRegenerateAllDirty,
 } from "@/hooks/useVice";
 import { useStyleContract } from "@/hooks/useStyleContract";
+import { useSceneLabel } from "@/hooks/useFilm";
 import {
   Sheet,
   SheetContent,
@@ -45,6 +46,7 @@ const conflictTypeConfig: Record<string, { icon: typeof AlertTriangle; label: st
   style_drift: { icon: Paintbrush, label: "Style Drift" },
   character_drift: { icon: User, label: "Character Drift" },
   wardrobe_mismatch: { icon: Shirt, label: "Wardrobe Mismatch" },
+  wardrobe_story_day: { icon: Shirt, label: "Story-Day Costume Change" },
   prop_missing: { icon: Zap, label: "Prop Missing" },
   lighting_shift: { icon: Zap, label: "Lighting Shift" },
 };
@@ -54,6 +56,7 @@ const VicePanel = ({ open, onOpenChange }: VicePanelProps) => {
   const { data: conflicts = [], isLoading: conflictsLoading } = useViceConflicts();
   const { data: dirtyQueue = [], isLoading: dirtyLoading } = useViceDirtyQueue();
   const { data: styleContract } = useStyleContract();
+  const sceneLabel = useSceneLabel();
   const resolveConflict = useResolveConflict();
   const dismissDirty = useDismissDirtyItem();
   const detectConflicts = useDetectConflicts();
@@ -188,7 +191,7 @@ const VicePanel = ({ open, onOpenChange }: VicePanelProps) => {
                           <div className="flex-1 min-w-0">
                             <div className="flex items-center gap-1.5 mb-0.5">
                               <Badge variant="outline" className="text-[8px] px-1 py-0 font-mono">
-                                Sc {conflict.scene_number}
+                                Sc {sceneLabel(conflict.scene_number)}
                               </Badge>
                               <span className="font-mono text-muted-foreground">{cfg.label}</span>
                             </div>
@@ -235,7 +238,9 @@ const VicePanel = ({ open, onOpenChange }: VicePanelProps) => {
                         <div className="flex-1 min-w-0">
                           <span className="font-mono text-muted-foreground">
                             Shot needs regen — triggered by{" "}
-                            <span className="text-foreground font-bold">{`{{${item.triggered_by}}}`}</span>
+                            <span className="text-foreground font-bold">
+                              {`{{${item.triggered_by.replace(/^SCENE_(\d+)$/, (_, n) => `SCENE_${sceneLabel(Number(n))}`)}}}`}
+                            </span>
                           </span>
                           <Badge variant="outline" className="ml-1.5 text-[8px] px-1 py-0 font-mono">
                             {item.trigger_type}
@@ -1,7 +1,8 @@
 import { useMemo } from "react";
 import { useFilmId, useParsedScenes } from "@/hooks/useFilm";
 import { supabase } from "@/integrations/supabase/client";
-import { classifyScreenplayLines } from "@/lib/parse-script-text";
+import { classifyScreenplayLines, parseCue } from "@/lib/parse-script-text";
+import { scenePageRange, totalPageCount } from "@/lib/page-count";
 
 /* ── Types ── */
 export type CharacterTier = "LEAD" | "STRONG_SUPPORT" | "FEATURE" | "UNDER_5" | "BACKGROUND";
@@ -26,10 +27,12 @@ export interface CharacterRanking {
 /* ── Core algorithm ── */
 function computeRankings(scenes: any[]): CharacterRanking[] {
   if (!scenes || scenes.length === 0) return [];
+  // Omitted placeholders from a revised draft are no longer part of the script
+  scenes = scenes.filter((s) => s.revision_status !== "omitted");
 
   const totalScenes = scenes.length;
-  // Approximate pages: ~1 scene per page (rough heuristic)
-  const totalPages = Math.max(totalScenes, 1);
+  // Paginated pages when the parser laid the script out; else ~1 scene per page (rough heuristic)
+  const totalPages = Math.max(totalPageCount(scenes) ?? totalScenes, 1);
 
   // Accumulate per-character metrics
   const stats = new Map<
@@ -70,7 +73,7 @@ function computeRankings(scenes: any[]): CharacterRanking[] {
 
   for (let si = 0; si < scenes.length; si++) {
     const scene = scenes[si];
-    const page = scene.page ? parseInt(scene.page, 10) : si + 1;
+    const pages = scenePageRange(scene) ?? [scene.page ? parseInt(scene.page, 10) : si + 1];
 
     const sceneCharWords = new Map<string, number>();
 
@@ -83,9 +86,9 @@ function computeRankings(scenes: any[]): CharacterRanking[] {
         if (!s) continue;
 
         s.appearanceScenes.add(si);
-        s.pages.add(page);
-        s.firstPage = Math.min(s.firstPage, page);
-        s.lastPage = Math.max(s.lastPage, page);
+        for (const page of pages) s.pages.add(page);
+        s.firstPage = Math.min(s.firstPage, pages[0]);
+        s.lastPage = Math.max(s.lastPage, pages[pages.length - 1]);
       }
     }
 
@@ -97,7 +100,7 @@ function computeRankings(scenes: any[]): CharacterRanking[] {
 
       for (const p of classified) {
         if (p.type === "Character") {
-          currentSpeaker = p.text.replace(/\s*\(.*?\)\s*/g, "").trim().toUpperCase();
+          currentSpeaker = parseCue(p.text).name.toUpperCase();
         } else if (p.type === "Dialogue" && currentSpeaker) {
           const wc = p.text.split(/\s+/).filter(Boolean).length;
           const s = stats.get(currentSpeaker);
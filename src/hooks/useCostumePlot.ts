@@ -0,0 +1,60 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+/** Every wardrobe scene assignment of a version */
+export const useWardrobeAssignments = (filmId: string | undefined) =>
+  useQuery({
+    queryKey: ["wardrobe-scene-assignments", filmId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("wardrobe_scene_assignments")
+        .select("*")
+        .eq("film_id", filmId!)
+        .order("scene_number");
+      if (error) throw error;
+      return data ?? [];
+    },
+    enabled: !!filmId,
+  });
+
+/**
+ * Costume thumbnails keyed by lower-cased asset name: the locked wardrobe
+ * asset's image, else the front fitting view.
+ */
+export const useCostumeThumbnails = (filmId: string | undefined) =>
+  useQuery({
+    queryKey: ["costume-thumbnails", filmId],
+    queryFn: async () => {
+      const [assets, fittings] = await Promise.all([
+        supabase
+          .from("film_assets")
+          .select("asset_name, image_url")
+          .eq("film_id", filmId!)
+          .eq("asset_type", "wardrobe")
+          .eq("locked", true),
+        supabase
+          .from("wardrobe_fitting_views")
+          .select("asset_name, image_url, angle_index")
+          .eq("film_id", filmId!)
+          .not("image_url", "is", null)
+          .order("angle_index"),
+      ]);
+      if (assets.error) throw assets.error;
+      if (fittings.error) throw fittings.error;
+      const map = new Map<string, string>();
+      for (const a of assets.data ?? []) {
+        if (a.image_url) map.set(a.asset_name.toLowerCase(), a.image_url);
+      }
+      for (const f of fittings.data ?? []) {
+        const key = f.asset_name.toLowerCase();
+        if (f.image_url && !map.has(key)) map.set(key, f.image_url);
+      }
+      return map;
+    },
+    enabled: !!filmId,
+  });
+
+/** Thumbnail for a clothing item, also matching its name without a trailing "(…)" description */
+export const costumeThumbnail = (thumbnails: Map<string, string> | undefined, item: string) =>
+  thumbnails?.get(item.toLowerCase()) ??
+  thumbnails?.get(item.replace(/\s*\((.*?)\)\s*$/, "").trim().toLowerCase());
@@ -0,0 +1,81 @@
+import { useMemo } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { DIRECTORS } from "@/lib/director-styles";
+import { draftToRow, toDirectorProfile, type CustomDirectorDraft } from "@/lib/custom-directors";
+
+/** The workspace's own director profiles, mapped to DirectorProfile */
+export const useCustomDirectors = () => {
+  const { user } = useAuth();
+  return useQuery({
+    queryKey: ["custom-directors", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("custom_director_profiles")
+        .select("*")
+        .eq("user_id", user!.id)
+        .order("name");
+      if (error) throw error;
+      return (data ?? []).map(toDirectorProfile);
+    },
+    enabled: !!user,
+  });
+};
+
+/** Built-in directors followed by the workspace's custom profiles */
+export const useDirectorCatalog = () => {
+  const { data: custom = [] } = useCustomDirectors();
+  return useMemo(() => [...DIRECTORS, ...custom], [custom]);
+};
+
+/** Create a profile, or update it when `id` is given */
+export const useSaveCustomDirector = () => {
+  const qc = useQueryClient();
+  const { user } = useAuth();
+  return useMutation({
+    mutationFn: async ({ id, draft }: { id?: string; draft: CustomDirectorDraft }) => {
+      const row = draftToRow(draft);
+      if (id) {
+        const { error } = await supabase.from("custom_director_profiles").update(row).eq("id", id);
+        if (error) throw error;
+        return id;
+      }
+      const { data, error } = await supabase
+        .from("custom_director_profiles")
+        .insert({ ...row, user_id: user!.id })
+        .select("id")
+        .single();
+      if (error) throw error;
+      return data.id;
+    },
+    onSuccess: () => qc.invalidateQueries({ queryKey: ["custom-directors", user?.id] }),
+  });
+};
+
+export const useDeleteCustomDirector = () => {
+  const qc = useQueryClient();
+  const { user } = useAuth();
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("custom_director_profiles").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => qc.invalidateQueries({ queryKey: ["custom-directors", user?.id] }),
+  });
+};
+
+/** Add parsed profiles from a JSON export; each import creates new profiles */
+export const useImportCustomDirectors = () => {
+  const qc = useQueryClient();
+  const { user } = useAuth();
+  return useMutation({
+    mutationFn: async (drafts: CustomDirectorDraft[]) => {
+      const rows = drafts.map((d) => ({ ...draftToRow(d), user_id: user!.id }));
+      const { error } = await supabase.from("custom_director_profiles").insert(rows);
+      if (error) throw error;
+      return rows.length;
+    },
+    onSuccess: () => qc.invalidateQueries({ queryKey: ["custom-directors", user?.id] }),
+  });
+};
@@ -1,6 +1,9 @@
+import { useMemo } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { useParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { buildSceneLabelMap } from "@/lib/scene-numbers";
 
 /**
  * Smart deduplication: merges items that refer to the same thing by understanding
@@ -208,8 +211,13 @@ export const useShots = () => {
   });
 };
 
-/** Fetch all parsed scenes for the current film (single source of truth for scene data) */
-export const useParsedScenes = () => {
+const withoutOmitted = (scenes: Tables<"parsed_scenes">[]) => scenes.filter((s) => s.revision_status !== "omitted");
+
+/**
+ * Fetch all parsed scenes for the current film (single source of truth for scene data).
+ * `excludeOmitted` drops OMITTED placeholders for views that list only shootable scenes.
+ */
+export const useParsedScenes = ({ excludeOmitted = false }: { excludeOmitted?: boolean } = {}) => {
   const filmId = useFilmId();
   return useQuery({
     queryKey: ["parsed-scenes", filmId],
@@ -222,9 +230,19 @@ export const useParsedScenes = () => {
       if (error) throw error;
       return data;
     },
+    select: excludeOmitted ? withoutOmitted : undefined,
     enabled: !!filmId,
   });
 };
+/** Resolves a scene ordinal to its printed production number ("12A"), falling back to the ordinal */
+export const useSceneLabel = () => {
+  const { data: scenes } = useParsedScenes();
+  return useMemo(() => {
+    const labels = buildSceneLabelMap(scenes ?? []);
+    return (sceneNumber: number) => labels.get(sceneNumber) ?? String(sceneNumber);
+  }, [scenes]);
+};
+
 export const useTimelineClips = () => {
   const filmId = useFilmId();
   return useQuery({
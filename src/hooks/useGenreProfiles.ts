@@ -0,0 +1,95 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import type { Json } from "@/integrations/supabase/types";
+import { toGenreProfile, type GenreProfile } from "@/lib/genre-profiles";
+
+/** The workspace's own genre profiles, with the stored profile normalized */
+export const useGenreProfiles = () => {
+  const { user } = useAuth();
+  return useQuery({
+    queryKey: ["genre-profiles", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("genre_profiles")
+        .select("*")
+        .eq("user_id", user!.id)
+        .order("name");
+      if (error) throw error;
+      return (data ?? []).map((row) => ({ ...row, profile: toGenreProfile(row.name, row.profile) }));
+    },
+    enabled: !!user,
+  });
+};
+
+/** Saved versions of one genre profile, newest first */
+export const useGenreProfileVersions = (genreProfileId: string | null) => {
+  return useQuery({
+    queryKey: ["genre-profile-versions", genreProfileId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("genre_profile_versions")
+        .select("*")
+        .eq("genre_profile_id", genreProfileId!)
+        .order("version", { ascending: false });
+      if (error) throw error;
+      return (data ?? []).map((row) => ({ ...row, profile: toGenreProfile(row.name, row.profile) }));
+    },
+    enabled: !!genreProfileId,
+  });
+};
+
+/**
+ * Create a profile, or save a new version of it when `id` is given. Every save
+ * is also recorded in genre_profile_versions.
+ */
+export const useSaveGenreProfile = () => {
+  const qc = useQueryClient();
+  const { user } = useAuth();
+  return useMutation({
+    mutationFn: async ({ id, version, name, profile }: { id?: string; version?: number; name: string; profile: GenreProfile }) => {
+      const row = { name: name.trim(), profile: profile as unknown as Json };
+      let saved: { id: string; version: number };
+      if (id) {
+        const { data, error } = await supabase
+          .from("genre_profiles")
+          .update({ ...row, version: (version ?? 0) + 1 })
+          .eq("id", id)
+          .select("id, version")
+          .single();
+        if (error) throw error;
+        saved = data;
+      } else {
+        const { data, error } = await supabase
+          .from("genre_profiles")
+          .insert({ ...row, user_id: user!.id })
+          .select("id, version")
+          .single();
+        if (error) throw error;
+        saved = data;
+      }
+      const { error } = await supabase
+        .from("genre_profile_versions")
+        .insert({ ...row, genre_profile_id: saved.id, version: saved.version, user_id: user!.id });
+      if (error) throw error;
+      return saved;
+    },
+    onSuccess: ({ id }) => {
+      qc.invalidateQueries({ queryKey: ["genre-profiles", user?.id] });
+      qc.invalidateQueries({ queryKey: ["genre-profile-versions", id] });
+    },
+  });
+};
+
+/** Remove a profile and its versions; a built-in genre goes back to its defaults */
+export const useDeleteGenreProfile = () => {
+  const qc = useQueryClient();
+  const { user } = useAuth();
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("genre_profiles").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => qc.invalidateQueries({ queryKey: ["genre-profiles", user?.id] }),
+  });
+};
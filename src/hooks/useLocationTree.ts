@@ -0,0 +1,166 @@
+import { useMemo } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useFilmId, useParsedScenes } from "@/hooks/useFilm";
+import {
+  buildLocationTree, inferLocationTree, locationRoot, resolveSceneLocation,
+  type LocationNode, type LocationScene,
+} from "@/lib/location-tree";
+
+/** Location tree nodes of the current version (flat) */
+export const useFilmLocations = () => {
+  const filmId = useFilmId();
+  return useQuery({
+    queryKey: ["film-locations", filmId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("film_locations")
+        .select("*")
+        .eq("film_id", filmId!)
+        .order("sort_order")
+        .order("name");
+      if (error) throw error;
+      return data ?? [];
+    },
+    enabled: !!filmId,
+  });
+};
+
+/**
+ * The location tree with scene totals, plus lookups from a scene to its set
+ * and its top-level location. `hasTree` is false until the tree is built, and
+ * callers fall back to the sluglines.
+ */
+export const useLocationTree = () => {
+  const { data: nodes = [], isLoading } = useFilmLocations();
+  const { data: scenes } = useParsedScenes();
+  return useMemo(() => {
+    const active = (scenes ?? []) as LocationScene[];
+    const { roots, unassigned } = buildLocationTree(nodes, active);
+    const setOf = (scene: Pick<LocationScene, "heading" | "location_name" | "sublocation">) => resolveSceneLocation(nodes, scene);
+    const rootOf = (scene: Pick<LocationScene, "heading" | "location_name" | "sublocation">) => {
+      const node = setOf(scene);
+      return node ? locationRoot(nodes, node) : null;
+    };
+    return { nodes, roots, unassigned, setOf, rootOf, hasTree: nodes.length > 0, isLoading };
+  }, [nodes, scenes, isLoading]);
+};
+
+const invalidate = (qc: ReturnType<typeof useQueryClient>, filmId: string) =>
+  qc.invalidateQueries({ queryKey: ["film-locations", filmId] });
+
+/**
+ * Build the tree from the sluglines, or add the locations of scenes the tree
+ * does not cover yet. New sets hang under existing nodes with a matching alias.
+ */
+export const useInferLocations = () => {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ filmId, scenes, nodes }: { filmId: string; scenes: LocationScene[]; nodes: LocationNode[] }) => {
+      const byAlias = new Map(nodes.flatMap((n) => n.aliases.map((a) => [a, n.id] as const)));
+      const drafts = inferLocationTree(scenes).filter((d) => !d.aliases.some((a) => byAlias.has(a)));
+      const ids = new Map(drafts.map((d) => [d.key, crypto.randomUUID()]));
+      const offset = nodes.length;
+      const rows = drafts.map((d, i) => ({
+        id: ids.get(d.key)!,
+        film_id: filmId,
+        parent_id: d.parentKey ? ids.get(d.parentKey) ?? byAlias.get(d.parentKey) ?? null : null,
+        name: d.name,
+        aliases: d.aliases,
+        sort_order: offset + i,
+      }));
+      if (rows.length === 0) return { filmId, added: 0 };
+      const { error } = await supabase.from("film_locations").insert(rows);
+      if (error) throw error;
+      return { filmId, added: rows.length };
+    },
+    onSuccess: ({ filmId }) => invalidate(qc, filmId),
+  });
+};
+
+export const useAddLocation = () => {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ filmId, parentId, name, sortOrder }: { filmId: string; parentId: string | null; name: string; sortOrder: number }) => {
+      const { error } = await supabase.from("film_locations").insert({ film_id: filmId, parent_id: parentId, name, sort_order: sortOrder });
+      if (error) throw error;
+      return filmId;
+    },
+    onSuccess: (filmId) => invalidate(qc, filmId),
+  });
+};
+
+/** Rename, move under another node, or reassign aliases */
+export const useUpdateLocation = () => {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ filmId, id, patch }: { filmId: string; id: string; patch: { name?: string; parent_id?: string | null; aliases?: string[]; sort_order?: number } }) => {
+      const { error } = await supabase.from("film_locations").update(patch).eq("id", id);
+      if (error) throw error;
+      return filmId;
+    },
+    onSuccess: (filmId) => invalidate(qc, filmId),
+  });
+};
+
+/** Fold `source` into `target`: its aliases and sets move over, then it is removed */
+export const useMergeLocations = () => {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ filmId, source, target }: { filmId: string; source: LocationNode; target: LocationNode }) => {
+      const { error: aliasErr } = await supabase
+        .from("film_locations")
+        .update({ aliases: [...new Set([...target.aliases, ...source.aliases])] })
+        .eq("id", target.id);
+      if (aliasErr) throw aliasErr;
+      const { error: moveErr } = await supabase.from("film_locations").update({ parent_id: target.id }).eq("parent_id", source.id);
+      if (moveErr) throw moveErr;
+      const { error } = await supabase.from("film_locations").delete().eq("id", source.id);
+      if (error) throw error;
+      return filmId;
+    },
+    onSuccess: (filmId) => invalidate(qc, filmId),
+  });
+};
+
+/** Move some of a node's aliases (and so its scenes) to a new node beside it */
+export const useSplitLocation = () => {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ filmId, node, aliases, name }: { filmId: string; node: LocationNode; aliases: string[]; name: string }) => {
+      const { error: insertErr } = await supabase
+        .from("film_locations")
+        .insert({ film_id: filmId, parent_id: node.parent_id, name, aliases, sort_order: node.sort_order + 1 });
+      if (insertErr) throw insertErr;
+      const { error } = await supabase
+        .from("film_locations")
+        .update({ aliases: node.aliases.filter((a) => !aliases.includes(a)) })
+        .eq("id", node.id);
+      if (error) throw error;
+      return filmId;
+    },
+    onSuccess: (filmId) => invalidate(qc, filmId),
+  });
+};
+
+/** Remove a node; its sets and scenes move up to its parent (a root's scenes become unassigned) */
+export const useDeleteLocation = () => {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ filmId, node, parent }: { filmId: string; node: LocationNode; parent: LocationNode | null }) => {
+      if (parent) {
+        const { error: aliasErr } = await supabase
+          .from("film_locations")
+          .update({ aliases: [...new Set([...parent.aliases, ...node.aliases])] })
+          .eq("id", parent.id);
+        if (aliasErr) throw aliasErr;
+      }
+      const { error: moveErr } = await supabase.from("film_locations").update({ parent_id: parent?.id ?? null }).eq("parent_id", node.id);
+      if (moveErr) throw moveErr;
+      const { error } = await supabase.from("film_locations").delete().eq("id", node.id);
+      if (error) throw error;
+      return filmId;
+    },
+    onSuccess: (filmId) => invalidate(qc, filmId),
+  });
+};
@@ -0,0 +1,113 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useFilmId } from "@/hooks/useFilm";
+import type { Database } from "@/integrations/supabase/types";
+import { propRefCode } from "@/lib/props-master";
+
+type PropRow = Database["public"]["Tables"]["props_master"]["Row"];
+export type PropsMasterEntry = Omit<PropRow, "scene_states"> & { scene_states: Record<string, string> };
+type PropPatch = Partial<Omit<PropsMasterEntry, "id" | "film_id" | "created_at" | "updated_at">>;
+
+/** Props master list of the current version, alphabetical */
+export const usePropsMaster = () => {
+  const filmId = useFilmId();
+  return useQuery({
+    queryKey: ["props-master", filmId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("props_master")
+        .select("*")
+        .eq("film_id", filmId!)
+        .order("name");
+      if (error) throw error;
+      return (data ?? []).map((p) => ({ ...p, scene_states: (p.scene_states ?? {}) as Record<string, string> })) as PropsMasterEntry[];
+    },
+    enabled: !!filmId,
+  });
+};
+
+/** Add props to the master list; names already on it are left alone */
+export const useAddProps = () => {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ filmId, props }: { filmId: string; props: { name: string; scene_numbers: number[]; character_name?: string | null }[] }) => {
+      const { error } = await supabase
+        .from("props_master")
+        .upsert(props.map((p) => ({ film_id: filmId, ...p })), { onConflict: "film_id,name", ignoreDuplicates: true });
+      if (error) throw error;
+    },
+    onSuccess: (_, vars) => {
+      qc.invalidateQueries({ queryKey: ["props-master", vars.filmId] });
+    },
+  });
+};
+
+/**
+ * Update a prop. Changing where or in what state it appears marks its identity
+ * token dirty, so shots generated with the old state are flagged for regeneration.
+ */
+export const useUpdateProp = () => {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ filmId, prop, patch }: { filmId: string; prop: PropsMasterEntry; patch: PropPatch }) => {
+      const { error } = await supabase.from("props_master").update(patch).eq("id", prop.id);
+      if (error) throw error;
+      if (prop.identity_id && ("scene_states" in patch || "scene_numbers" in patch)) {
+        await supabase.from("asset_identity_registry").update({ is_dirty: true }).eq("id", prop.identity_id);
+      }
+      return filmId;
+    },
+    onSuccess: (filmId) => {
+      qc.invalidateQueries({ queryKey: ["props-master", filmId] });
+    },
+  });
+};
+
+export const useDeleteProp = () => {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ filmId, id }: { filmId: string; id: string }) => {
+      const { error } = await supabase.from("props_master").delete().eq("id", id);
+      if (error) throw error;
+      return filmId;
+    },
+    onSuccess: (filmId) => {
+      qc.invalidateQueries({ queryKey: ["props-master", filmId] });
+    },
+  });
+};
+
+/** Link a prop to its identity token, registering {{PROP_…}} when the film has none yet */
+export const useLinkPropIdentity = () => {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ filmId, prop }: { filmId: string; prop: PropsMasterEntry }) => {
+      const refCode = propRefCode(prop.name);
+      const { data: existing, error: findErr } = await supabase
+        .from("asset_identity_registry")
+        .select("id")
+        .eq("film_id", filmId)
+        .eq("internal_ref_code", refCode)
+        .maybeSingle();
+      if (findErr) throw findErr;
+
+      let identityId = existing?.id;
+      if (!identityId) {
+        const { data: created, error: insertErr } = await supabase
+          .from("asset_identity_registry")
+          .insert({ film_id: filmId, asset_type: "prop", display_name: prop.name, internal_ref_code: refCode, description: prop.notes })
+          .select("id")
+          .single();
+        if (insertErr) throw insertErr;
+        identityId = created.id;
+      }
+
+      const { error } = await supabase.from("props_master").update({ identity_id: identityId }).eq("id", prop.id);
+      if (error) throw error;
+      return { filmId, refCode };
+    },
+    onSuccess: ({ filmId }) => {
+      qc.invalidateQueries({ queryKey: ["props-master", filmId] });
+    },
+  });
+};
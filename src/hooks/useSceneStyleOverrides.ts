@@ -0,0 +1,49 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useFilmId } from "@/hooks/useFilm";
+import type { TablesUpdate } from "@/integrations/supabase/types";
+import type { OverrideField } from "@/lib/scene-style-overrides";
+
+/** The compiled (and hand-tuned) style override row of one scene */
+export const useSceneStyleOverride = (sceneNumber: number | undefined) => {
+  const filmId = useFilmId();
+  return useQuery({
+    queryKey: ["scene-style-overrides", filmId, sceneNumber],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("scene_style_overrides")
+        .select("*")
+        .eq("film_id", filmId!)
+        .eq("scene_number", sceneNumber!)
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!filmId && sceneNumber != null,
+  });
+};
+
+/**
+ * Save a scene's override fields and locks. A scene the style contract has
+ * not compiled yet gets its row created here.
+ */
+export const useSaveSceneStyleOverride = () => {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ filmId, sceneNumber, id, values, lockedFields }: {
+      filmId: string;
+      sceneNumber: number;
+      id?: string;
+      values: Pick<TablesUpdate<"scene_style_overrides">, OverrideField>;
+      lockedFields: OverrideField[];
+    }) => {
+      const row = { ...values, locked_fields: lockedFields };
+      const { error } = id
+        ? await supabase.from("scene_style_overrides").update(row).eq("id", id)
+        : await supabase.from("scene_style_overrides").insert({ ...row, film_id: filmId, scene_number: sceneNumber });
+      if (error) throw error;
+      return filmId;
+    },
+    onSuccess: (filmId) => qc.invalidateQueries({ queryKey: ["scene-style-overrides", filmId] }),
+  });
+};
@@ -0,0 +1,53 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useFilmId } from "@/hooks/useFilm";
+import type { Json } from "@/integrations/supabase/types";
+import type { ShootDay } from "@/lib/stripboard";
+
+/** The saved stripboard for the current version (null until first saved) */
+export const useShootingSchedule = () => {
+  const filmId = useFilmId();
+  return useQuery({
+    queryKey: ["shooting-schedule", filmId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("shooting_schedules")
+        .select("*")
+        .eq("film_id", filmId!)
+        .maybeSingle();
+      if (error) throw error;
+      if (!data) return null;
+      return { ...data, days: (data.days as unknown as ShootDay[]) ?? [] };
+    },
+    enabled: !!filmId,
+  });
+};
+
+/** Upsert the stripboard for a version */
+export const useSaveShootingSchedule = () => {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async ({
+      filmId,
+      days,
+      startDate,
+      eighthsPerDay,
+    }: {
+      filmId: string;
+      days: ShootDay[];
+      startDate: string | null;
+      eighthsPerDay: number;
+    }) => {
+      const { error } = await supabase
+        .from("shooting_schedules")
+        .upsert(
+          { film_id: filmId, days: days as unknown as Json, start_date: startDate, eighths_per_day: eighthsPerDay },
+          { onConflict: "film_id" }
+        );
+      if (error) throw error;
+    },
+    onSuccess: (_, vars) => {
+      qc.invalidateQueries({ queryKey: ["shooting-schedule", vars.filmId] });
+    },
+  });
+};
@@ -0,0 +1,31 @@
+import { useMemo } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useParsedScenes } from "@/hooks/useFilm";
+import { inferStoryDays, type StoryDay } from "@/lib/story-days";
+
+/** Story day of every scene of the current version, keyed by scene ordinal */
+export const useStoryDays = () => {
+  const { data: scenes } = useParsedScenes();
+  return useMemo(
+    () => new Map<number, StoryDay>(inferStoryDays(scenes ?? []).map((d) => [d.sceneNumber, d])),
+    [scenes]
+  );
+};
+
+/** Correct a scene's story day; null goes back to the inferred day */
+export const useSetStoryDay = () => {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ filmId, sceneId, storyDay }: { filmId: string; sceneId: string; storyDay: number | null }) => {
+      const { error } = await supabase
+        .from("parsed_scenes")
+        .update({ story_day: storyDay })
+        .eq("id", sceneId);
+      if (error) throw error;
+    },
+    onSuccess: (_, vars) => {
+      qc.invalidateQueries({ queryKey: ["parsed-scenes", vars.filmId] });
+    },
+  });
+};
@@ -1,6 +1,8 @@
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useFilmId } from "@/hooks/useFilm";
+import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
+import { contractContent, type StyleContractVersion } from "@/lib/style-contract-history";
 
 export const useStyleContract = () => {
   const filmId = useFilmId();
@@ -20,3 +22,78 @@ export const useStyleContract = () => {
     enabled: !!filmId,
   });
 };
+
+/** Every recorded version of the film's style contract, newest first */
+export const useStyleContractVersions = () => {
+  const filmId = useFilmId();
+  return useQuery({
+    queryKey: ["style-contract-versions", filmId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("style_contract_versions")
+        .select("*")
+        .eq("film_id", filmId!)
+        .order("version", { ascending: false });
+      if (error) throw error;
+      return data ?? [];
+    },
+    enabled: !!filmId,
+  });
+};
+
+/**
+ * Make an older version current again. History is never rewritten: the
+ * restored content is recorded as a new version that points back at `target`.
+ */
+export const useRollbackStyleContract = () => {
+  const qc = useQueryClient();
+  const { user } = useAuth();
+  return useMutation({
+    mutationFn: async ({ filmId, target }: { filmId: string; target: StyleContractVersion }) => {
+      const { data: latest, error: latestErr } = await supabase
+        .from("style_contract_versions")
+        .select("version")
+        .eq("film_id", filmId)
+        .order("version", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (latestErr) throw latestErr;
+      const { data: profile } = await supabase
+        .from("user_profiles")
+        .select("full_name")
+        .eq("user_id", user!.id)
+        .maybeSingle();
+
+      const version = (latest?.version ?? 0) + 1;
+      const content = { ...contractContent(target), source_hash: target.source_hash };
+
+      const { error: versionErr } = await supabase.from("style_contract_versions").insert({
+        film_id: filmId,
+        version,
+        ...content,
+        created_by: user!.id,
+        author_name: profile?.full_name || user!.email || null,
+        rolled_back_from: target.version,
+      });
+      if (versionErr) throw versionErr;
+
+      const { data: current } = await supabase
+        .from("film_style_contracts")
+        .select("id")
+        .eq("film_id", filmId)
+        .maybeSingle();
+      const { error } = current
+        ? await supabase
+            .from("film_style_contracts")
+            .update({ ...content, version, updated_at: new Date().toISOString() })
+            .eq("id", current.id)
+        : await supabase.from("film_style_contracts").insert({ film_id: filmId, ...content, version });
+      if (error) throw error;
+      return { filmId, version };
+    },
+    onSuccess: ({ filmId }) => {
+      qc.invalidateQueries({ queryKey: ["style-contract", filmId] });
+      qc.invalidateQueries({ queryKey: ["style-contract-versions", filmId] });
+    },
+  });
+};
@@ -0,0 +1,104 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useFilmId } from "@/hooks/useFilm";
+import type { Database } from "@/integrations/supabase/types";
+import type { VfxShotDraft } from "@/lib/vfx-breakdown";
+
+export type VfxShot = Database["public"]["Tables"]["vfx_shots"]["Row"];
+export type VfxRepair = Database["public"]["Tables"]["vfx_repairs"]["Row"];
+type VfxShotPatch = Database["public"]["Tables"]["vfx_shots"]["Update"];
+
+/** VFX breakdown of the current version, in scene then ID order */
+export const useVfxShots = () => {
+  const filmId = useFilmId();
+  return useQuery({
+    queryKey: ["vfx-shots", filmId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("vfx_shots")
+        .select("*")
+        .eq("film_id", filmId!)
+        .order("scene_number")
+        .order("vfx_id");
+      if (error) throw error;
+      return data ?? [];
+    },
+    enabled: !!filmId,
+  });
+};
+
+/** Fix-It Bay repairs of the current version, newest first */
+export const useVfxRepairs = () => {
+  const filmId = useFilmId();
+  return useQuery({
+    queryKey: ["vfx-repairs", filmId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("vfx_repairs")
+        .select("*")
+        .eq("film_id", filmId!)
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+      return data ?? [];
+    },
+    enabled: !!filmId,
+  });
+};
+
+export const useAddVfxShots = () => {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ filmId, drafts }: { filmId: string; drafts: VfxShotDraft[] }) => {
+      const { error } = await supabase.from("vfx_shots").insert(drafts.map((d) => ({ film_id: filmId, ...d })));
+      if (error) throw error;
+      return filmId;
+    },
+    onSuccess: (filmId) => {
+      qc.invalidateQueries({ queryKey: ["vfx-shots", filmId] });
+    },
+  });
+};
+
+export const useUpdateVfxShot = () => {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ filmId, id, patch }: { filmId: string; id: string; patch: VfxShotPatch }) => {
+      const { error } = await supabase.from("vfx_shots").update(patch).eq("id", id);
+      if (error) throw error;
+      return filmId;
+    },
+    onSuccess: (filmId) => {
+      qc.invalidateQueries({ queryKey: ["vfx-shots", filmId] });
+    },
+  });
+};
+
+export const useDeleteVfxShot = () => {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ filmId, id }: { filmId: string; id: string }) => {
+      const { error } = await supabase.from("vfx_shots").delete().eq("id", id);
+      if (error) throw error;
+      return filmId;
+    },
+    onSuccess: (filmId) => {
+      qc.invalidateQueries({ queryKey: ["vfx-shots", filmId] });
+      qc.invalidateQueries({ queryKey: ["vfx-repairs", filmId] });
+    },
+  });
+};
+
+/** Record a Fix-It Bay repair, optionally against a VFX shot */
+export const useLogVfxRepair = () => {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async (repair: Database["public"]["Tables"]["vfx_repairs"]["Insert"]) => {
+      const { error } = await supabase.from("vfx_repairs").insert(repair);
+      if (error) throw error;
+      return repair.film_id;
+    },
+    onSuccess: (filmId) => {
+      qc.invalidateQueries({ queryKey: ["vfx-repairs", filmId] });
+    },
+  });
+};
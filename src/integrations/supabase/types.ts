@@ -468,6 +468,42 @@ export type Database = {
         }
         Relationships: []
       }
+      custom_director_profiles: {
+        Row: {
+          cluster: string
+          created_at: string
+          id: string
+          known_for: string[]
+          name: string
+          updated_at: string
+          user_id: string
+          vector: Json
+          visual_mandate: Json
+        }
+        Insert: {
+          cluster: string
+          created_at?: string
+          id?: string
+          known_for?: string[]
+          name: string
+          updated_at?: string
+          user_id: string
+          vector: Json
+          visual_mandate?: Json
+        }
+        Update: {
+          cluster?: string
+          created_at?: string
+          id?: string
+          known_for?: string[]
+          name?: string
+          updated_at?: string
+          user_id?: string
+          vector?: Json
+          visual_mandate?: Json
+        }
+        Relationships: []
+      }
       film_assets: {
         Row: {
           asset_name: string
@@ -525,6 +561,7 @@ export type Database = {
       film_director_profiles: {
         Row: {
           auto_matched: boolean | null
+          blend_directors: Json
           blend_weight: number | null
           cluster: string | null
           computed_vector: Json
@@ -532,6 +569,7 @@ export type Database = {
           emotional_depth: string | null
           film_id: string
           id: string
+          mandate_sources: Json
           match_distance: number | null
           primary_director_id: string
           primary_director_name: string
@@ -543,6 +581,7 @@ export type Database = {
         }
         Insert: {
           auto_matched?: boolean | null
+          blend_directors?: Json
           blend_weight?: number | null
           cluster?: string | null
           computed_vector?: Json
@@ -550,6 +589,7 @@ export type Database = {
           emotional_depth?: string | null
           film_id: string
           id?: string
+          mandate_sources?: Json
           match_distance?: number | null
           primary_director_id: string
           primary_director_name: string
@@ -561,6 +601,7 @@ export type Database = {
         }
         Update: {
           auto_matched?: boolean | null
+          blend_directors?: Json
           blend_weight?: number | null
           cluster?: string | null
           computed_vector?: Json
@@ -568,6 +609,7 @@ export type Database = {
           emotional_depth?: string | null
           film_id?: string
           id?: string
+          mandate_sources?: Json
           match_distance?: number | null
           primary_director_id?: string
           primary_director_name?: string
@@ -587,6 +629,54 @@ export type Database = {
           },
         ]
       }
+      film_locations: {
+        Row: {
+          aliases: string[]
+          created_at: string
+          film_id: string
+          id: string
+          name: string
+          parent_id: string | null
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          aliases?: string[]
+          created_at?: string
+          film_id: string
+          id?: string
+          name: string
+          parent_id?: string | null
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          aliases?: string[]
+          created_at?: string
+          film_id?: string
+          id?: string
+          name?: string
+          parent_id?: string | null
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "film_locations_film_id_fkey"
+            columns: ["film_id"]
+            isOneToOne: false
+            referencedRelation: "films"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "film_locations_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "film_locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       film_style_contracts: {
         Row: {
           character_directives: Json | null
@@ -827,6 +917,74 @@ export type Database = {
           },
         ]
       }
+      genre_profile_versions: {
+        Row: {
+          created_at: string
+          genre_profile_id: string
+          id: string
+          name: string
+          profile: Json
+          user_id: string
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          genre_profile_id: string
+          id?: string
+          name: string
+          profile: Json
+          user_id: string
+          version: number
+        }
+        Update: {
+          created_at?: string
+          genre_profile_id?: string
+          id?: string
+          name?: string
+          profile?: Json
+          user_id?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "genre_profile_versions_genre_profile_id_fkey"
+            columns: ["genre_profile_id"]
+            isOneToOne: false
+            referencedRelation: "genre_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      genre_profiles: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          profile: Json
+          updated_at: string
+          user_id: string
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          profile: Json
+          updated_at?: string
+          user_id: string
+          version?: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          profile?: Json
+          updated_at?: string
+          user_id?: string
+          version?: number
+        }
+        Relationships: []
+      }
       integrations: {
         Row: {
           api_key_encrypted: string | null
@@ -866,34 +1024,49 @@ export type Database = {
       parse_jobs: {
         Row: {
           analysis_id: string | null
+          change_report: Json | null
           created_at: string
           error_message: string | null
+          file_name: string | null
           film_id: string
           id: string
+          revision_color: string
+          revision_number: number
           scene_count: number | null
           scenes_enriched: number
+          slugline_locale: string
           status: string
           updated_at: string
         }
         Insert: {
           analysis_id?: string | null
+          change_report?: Json | null
           created_at?: string
           error_message?: string | null
+          file_name?: string | null
           film_id: string
           id?: string
+          revision_color?: string
+          revision_number?: number
           scene_count?: number | null
           scenes_enriched?: number
+          slugline_locale?: string
           status?: string
           updated_at?: string
         }
         Update: {
           analysis_id?: string | null
+          change_report?: Json | null
           created_at?: string
           error_message?: string | null
+          file_name?: string | null
           film_id?: string
           id?: string
+          revision_color?: string
+          revision_number?: number
           scene_count?: number | null
           scenes_enriched?: number
+          slugline_locale?: string
           status?: string
           updated_at?: string
         }
@@ -926,6 +1099,7 @@ export type Database = {
           description: string | null
           dialogue_density: number | null
           dialogue_line_count: number | null
+          dialogue_lines: Json | null
           dialogue_word_count: number | null
           enriched: boolean
           environment_details: string | null
@@ -942,13 +1116,23 @@ export type Database = {
           line_count: number | null
           location_name: string | null
           mood: string | null
+          page_end: number | null
+          page_eighths: number | null
+          page_start: number | null
+          paragraphs: Json | null
           phase1_locked: boolean
           picture_vehicles: string[] | null
+          previous_scene_number: number | null
+          production_scene_number: string | null
           raw_text: string
+          revised_lines: Json | null
+          revision_color: string | null
+          revision_status: string
           scene_number: number
           sfx: string[] | null
           sound_cues: string[] | null
           special_makeup: string[] | null
+          story_day: number | null
           stunts: string[] | null
           sublocation: string | null
           vfx: string[] | null
@@ -966,6 +1150,7 @@ export type Database = {
           description?: string | null
           dialogue_density?: number | null
           dialogue_line_count?: number | null
+          dialogue_lines?: Json | null
           dialogue_word_count?: number | null
           enriched?: boolean
           environment_details?: string | null
@@ -982,13 +1167,23 @@ export type Database = {
           line_count?: number | null
           location_name?: string | null
           mood?: string | null
+          page_end?: number | null
+          page_eighths?: number | null
+          page_start?: number | null
+          paragraphs?: Json | null
           phase1_locked?: boolean
           picture_vehicles?: string[] | null
+          previous_scene_number?: number | null
+          production_scene_number?: string | null
           raw_text: string
+          revised_lines?: Json | null
+          revision_color?: string | null
+          revision_status?: string
           scene_number: number
           sfx?: string[] | null
           sound_cues?: string[] | null
           special_makeup?: string[] | null
+          story_day?: number | null
           stunts?: string[] | null
           sublocation?: string | null
           vfx?: string[] | null
@@ -1006,6 +1201,7 @@ export type Database = {
           description?: string | null
           dialogue_density?: number | null
           dialogue_line_count?: number | null
+          dialogue_lines?: Json | null
           dialogue_word_count?: number | null
           enriched?: boolean
           environment_details?: string | null
@@ -1022,13 +1218,23 @@ export type Database = {
           line_count?: number | null
           location_name?: string | null
           mood?: string | null
+          page_end?: number | null
+          page_eighths?: number | null
+          page_start?: number | null
+          paragraphs?: Json | null
           phase1_locked?: boolean
           picture_vehicles?: string[] | null
+          previous_scene_number?: number | null
+          production_scene_number?: string | null
           raw_text?: string
+          revised_lines?: Json | null
+          revision_color?: string | null
+          revision_status?: string
           scene_number?: number
           sfx?: string[] | null
           sound_cues?: string[] | null
           special_makeup?: string[] | null
+          story_day?: number | null
           stunts?: string[] | null
           sublocation?: string | null
           vfx?: string[] | null
@@ -1192,6 +1398,72 @@ export type Database = {
         }
         Relationships: []
       }
+      props_master: {
+        Row: {
+          character_name: string | null
+          created_at: string
+          designation: string
+          duplicate_notes: string | null
+          duplicates: number
+          film_id: string
+          id: string
+          identity_id: string | null
+          name: string
+          notes: string | null
+          quantity: number
+          scene_numbers: number[]
+          scene_states: Json
+          updated_at: string
+        }
+        Insert: {
+          character_name?: string | null
+          created_at?: string
+          designation?: string
+          duplicate_notes?: string | null
+          duplicates?: number
+          film_id: string
+          id?: string
+          identity_id?: string | null
+          name: string
+          notes?: string | null
+          quantity?: number
+          scene_numbers?: number[]
+          scene_states?: Json
+          updated_at?: string
+        }
+        Update: {
+          character_name?: string | null
+          created_at?: string
+          designation?: string
+          duplicate_notes?: string | null
+          duplicates?: number
+          film_id?: string
+          id?: string
+          identity_id?: string | null
+          name?: string
+          notes?: string | null
+          quantity?: number
+          scene_numbers?: number[]
+          scene_states?: Json
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "props_master_film_id_fkey"
+            columns: ["film_id"]
+            isOneToOne: false
+            referencedRelation: "films"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "props_master_identity_id_fkey"
+            columns: ["identity_id"]
+            isOneToOne: false
+            referencedRelation: "asset_identity_registry"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       scene_entity_links: {
         Row: {
           context: Json
@@ -1245,12 +1517,14 @@ export type Database = {
         Row: {
           camera_feel: string | null
           color_shift: Json | null
+          compiled_values: Json
           created_at: string
           custom_negative: string | null
           environment_texture: string | null
           film_id: string
           id: string
           lighting_override: string | null
+          locked_fields: string[]
           mood_override: string | null
           scene_number: number
           shot_suggestions: Json | null
@@ -1259,12 +1533,14 @@ export type Database = {
         Insert: {
           camera_feel?: string | null
           color_shift?: Json | null
+          compiled_values?: Json
           created_at?: string
           custom_negative?: string | null
           environment_texture?: string | null
           film_id: string
           id?: string
           lighting_override?: string | null
+          locked_fields?: string[]
           mood_override?: string | null
           scene_number: number
           shot_suggestions?: Json | null
@@ -1273,12 +1549,14 @@ export type Database = {
         Update: {
           camera_feel?: string | null
           color_shift?: Json | null
+          compiled_values?: Json
           created_at?: string
           custom_negative?: string | null
           environment_texture?: string | null
           film_id?: string
           id?: string
           lighting_override?: string | null
+          locked_fields?: string[]
           mood_override?: string | null
           scene_number?: number
           shot_suggestions?: Json | null
@@ -1314,6 +1592,7 @@ export type Database = {
           status: string
           storage_path: string
           time_period_approved: boolean
+          title_page: Json | null
           updated_at: string
           visual_summary: string | null
           visual_summary_approved: boolean
@@ -1337,6 +1616,7 @@ export type Database = {
           status?: string
           storage_path: string
           time_period_approved?: boolean
+          title_page?: Json | null
           updated_at?: string
           visual_summary?: string | null
           visual_summary_approved?: boolean
@@ -1360,6 +1640,7 @@ export type Database = {
           status?: string
           storage_path?: string
           time_period_approved?: boolean
+          title_page?: Json | null
           updated_at?: string
           visual_summary?: string | null
           visual_summary_approved?: boolean
@@ -1427,6 +1708,44 @@ export type Database = {
           },
         ]
       }
+      shooting_schedules: {
+        Row: {
+          created_at: string
+          days: Json
+          eighths_per_day: number
+          film_id: string
+          id: string
+          start_date: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          days?: Json
+          eighths_per_day?: number
+          film_id: string
+          id?: string
+          start_date?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          days?: Json
+          eighths_per_day?: number
+          film_id?: string
+          id?: string
+          start_date?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shooting_schedules_film_id_fkey"
+            columns: ["film_id"]
+            isOneToOne: true
+            referencedRelation: "films"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       shots: {
         Row: {
           camera_angle: string | null
@@ -1468,6 +1787,80 @@ export type Database = {
           },
         ]
       }
+      style_contract_versions: {
+        Row: {
+          author_name: string | null
+          character_directives: Json | null
+          color_mandate: Json | null
+          content_guardrails: Json | null
+          created_at: string
+          created_by: string | null
+          film_id: string
+          genre_visual_profile: Json | null
+          id: string
+          lens_philosophy: Json | null
+          lighting_doctrine: Json | null
+          negative_prompt_base: string | null
+          rolled_back_from: number | null
+          source_hash: string | null
+          temporal_rules: Json | null
+          texture_mandate: Json | null
+          version: number
+          visual_dna: string | null
+          world_rules: string | null
+        }
+        Insert: {
+          author_name?: string | null
+          character_directives?: Json | null
+          color_mandate?: Json | null
+          content_guardrails?: Json | null
+          created_at?: string
+          created_by?: string | null
+          film_id: string
+          genre_visual_profile?: Json | null
+          id?: string
+          lens_philosophy?: Json | null
+          lighting_doctrine?: Json | null
+          negative_prompt_base?: string | null
+          rolled_back_from?: number | null
+          source_hash?: string | null
+          temporal_rules?: Json | null
+          texture_mandate?: Json | null
+          version: number
+          visual_dna?: string | null
+          world_rules?: string | null
+        }
+        Update: {
+          author_name?: string | null
+          character_directives?: Json | null
+          color_mandate?: Json | null
+          content_guardrails?: Json | null
+          created_at?: string
+          created_by?: string | null
+          film_id?: string
+          genre_visual_profile?: Json | null
+          id?: string
+          lens_philosophy?: Json | null
+          lighting_doctrine?: Json | null
+          negative_prompt_base?: string | null
+          rolled_back_from?: number | null
+          source_hash?: string | null
+          temporal_rules?: Json | null
+          texture_mandate?: Json | null
+          version?: number
+          visual_dna?: string | null
+          world_rules?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "style_contract_versions_film_id_fkey"
+            columns: ["film_id"]
+            isOneToOne: false
+            referencedRelation: "films"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_access_controls: {
         Row: {
           access_development: boolean
@@ -1590,6 +1983,118 @@ export type Database = {
           },
         ]
       }
+      vfx_repairs: {
+        Row: {
+          asset_id: string | null
+          clip_id: string | null
+          clip_label: string
+          created_at: string
+          film_id: string
+          id: string
+          prompt: string | null
+          vfx_shot_id: string | null
+        }
+        Insert: {
+          asset_id?: string | null
+          clip_id?: string | null
+          clip_label: string
+          created_at?: string
+          film_id: string
+          id?: string
+          prompt?: string | null
+          vfx_shot_id?: string | null
+        }
+        Update: {
+          asset_id?: string | null
+          clip_id?: string | null
+          clip_label?: string
+          created_at?: string
+          film_id?: string
+          id?: string
+          prompt?: string | null
+          vfx_shot_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "vfx_repairs_asset_id_fkey"
+            columns: ["asset_id"]
+            isOneToOne: false
+            referencedRelation: "asset_identity_registry"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "vfx_repairs_clip_id_fkey"
+            columns: ["clip_id"]
+            isOneToOne: false
+            referencedRelation: "post_production_clips"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "vfx_repairs_film_id_fkey"
+            columns: ["film_id"]
+            isOneToOne: false
+            referencedRelation: "films"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "vfx_repairs_vfx_shot_id_fkey"
+            columns: ["vfx_shot_id"]
+            isOneToOne: false
+            referencedRelation: "vfx_shots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      vfx_shots: {
+        Row: {
+          complexity: string
+          created_at: string
+          description: string
+          estimated_shots: number
+          film_id: string
+          id: string
+          notes: string | null
+          scene_number: number
+          shot_ids: string[]
+          updated_at: string
+          vfx_id: string
+        }
+        Insert: {
+          complexity?: string
+          created_at?: string
+          description: string
+          estimated_shots?: number
+          film_id: string
+          id?: string
+          notes?: string | null
+          scene_number: number
+          shot_ids?: string[]
+          updated_at?: string
+          vfx_id: string
+        }
+        Update: {
+          complexity?: string
+          created_at?: string
+          description?: string
+          estimated_shots?: number
+          film_id?: string
+          id?: string
+          notes?: string | null
+          scene_number?: number
+          shot_ids?: string[]
+          updated_at?: string
+          vfx_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "vfx_shots_film_id_fkey"
+            columns: ["film_id"]
+            isOneToOne: false
+            referencedRelation: "films"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       vice_conflicts: {
         Row: {
           conflict_type: string
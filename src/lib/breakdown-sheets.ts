@@ -0,0 +1,255 @@
+import {
+  PdfLayoutBuilder, CONTENT_W, MARGIN_L, PAGE_H, MARGIN_B, C_BORDER, C_MUTED, C_TEXT,
+} from "@/lib/production-bible-pdf";
+import { formatEighths } from "@/lib/page-count";
+import { sceneNumberLabel } from "@/lib/scene-numbers";
+import { hexToRgb } from "@/lib/revision-colors";
+import { sceneEighths, stripColor, stripPeriod, stripSide } from "@/lib/stripboard";
+import { csvCell, saveBlob } from "@/lib/download";
+import type { Json } from "@/integrations/supabase/types";
+
+/**
+ * Scene breakdown sheets — one page per scene with the standard element
+ * categories, banded in the scene's stripboard colour.
+ */
+
+/** parsed_scenes fields a breakdown sheet reads */
+export interface BreakdownScene {
+  scene_number: number;
+  production_scene_number: string | null;
+  heading: string;
+  description: string | null;
+  int_ext: string | null;
+  day_night: string | null;
+  location_name: string | null;
+  estimated_page_count: number | null;
+  page_eighths: number | null;
+  characters: string[] | null;
+  extras: string | null;
+  key_objects: string[] | null;
+  wardrobe: Json | null;
+  picture_vehicles: string[] | null;
+  stunts: string[] | null;
+  sfx: string[] | null;
+  vfx: string[] | null;
+  special_makeup: string[] | null;
+  animals: string[] | null;
+  sound_cues: string[] | null;
+  revision_status: string;
+}
+
+export type BreakdownCategoryKey =
+  | "cast" | "extras" | "stunts" | "sfx" | "props" | "vehicles"
+  | "animals" | "wardrobe" | "makeup" | "sound" | "vfx";
+
+/** Standard breakdown categories with their conventional underline colours */
+export const BREAKDOWN_CATEGORIES: { key: BreakdownCategoryKey; label: string; rgb: [number, number, number] }[] = [
+  { key: "cast", label: "Cast Members", rgb: [214, 48, 49] },
+  { key: "extras", label: "Extras / Background", rgb: [39, 160, 80] },
+  { key: "stunts", label: "Stunts", rgb: [235, 130, 30] },
+  { key: "sfx", label: "Special Effects", rgb: [45, 100, 210] },
+  { key: "props", label: "Props", rgb: [140, 80, 190] },
+  { key: "vehicles", label: "Vehicles", rgb: [225, 100, 165] },
+  { key: "animals", label: "Animals", rgb: [160, 110, 60] },
+  { key: "wardrobe", label: "Wardrobe", rgb: [40, 150, 170] },
+  { key: "makeup", label: "Makeup / Hair", rgb: [215, 175, 40] },
+  { key: "sound", label: "Sound", rgb: [120, 90, 60] },
+  { key: "vfx", label: "Visual Effects", rgb: [95, 100, 115] },
+];
+
+const clean = (items: (string | null | undefined)[] | null | undefined) =>
+  [...new Set((items || []).map((i) => (i || "").trim()).filter(Boolean))];
+
+/** Wardrobe entries are either plain strings or { character, clothing_style } objects */
+function wardrobeItems(wardrobe: Json | null): string[] {
+  if (!Array.isArray(wardrobe)) return [];
+  return clean(
+    wardrobe.map((w) => {
+      if (typeof w === "string") return w;
+      if (!w || typeof w !== "object" || Array.isArray(w)) return null;
+      const pick = (...keys: string[]) => keys.map((k) => w[k]).find((v): v is string => typeof v === "string" && !!v) ?? "";
+      const character = pick("character", "name");
+      const clothing = pick("clothing_style", "condition");
+      return clothing ? (character ? `${character}: ${clothing}` : clothing) : null;
+    }),
+  );
+}
+
+/** Elements of one scene per category; cast members carry their cast ID when one is known */
+export function breakdownElements(
+  scene: BreakdownScene,
+  castIds?: Map<string, number>,
+): Record<BreakdownCategoryKey, string[]> {
+  const cast = clean(scene.characters).map((c) => {
+    const id = castIds?.get(c.toUpperCase());
+    return id ? `${id}. ${c.toUpperCase()}` : c.toUpperCase();
+  });
+  return {
+    cast,
+    extras: clean(scene.extras ? scene.extras.split(/[;\n]/) : []),
+    stunts: clean(scene.stunts),
+    sfx: clean(scene.sfx),
+    props: clean(scene.key_objects),
+    vehicles: clean(scene.picture_vehicles),
+    animals: clean(scene.animals),
+    wardrobe: wardrobeItems(scene.wardrobe),
+    makeup: clean(scene.special_makeup),
+    sound: clean(scene.sound_cues),
+    vfx: clean(scene.vfx),
+  };
+}
+
+const periodLabel = (scene: BreakdownScene) => {
+  const period = stripPeriod(scene.day_night);
+  return period === "twilight" ? (scene.day_night || "DAWN/DUSK").toUpperCase() : period.toUpperCase();
+};
+
+// ── CSV (per department, or every department) ──
+
+export function buildBreakdownCsv(
+  scenes: BreakdownScene[],
+  category: BreakdownCategoryKey | "all",
+  castIds?: Map<string, number>,
+): string {
+  const categories = BREAKDOWN_CATEGORIES.filter((c) => category === "all" || c.key === category);
+  const rows = [["Scene", "Int/Ext", "Day/Night", "Location", "Pages", ...(category === "all" ? ["Department"] : []), "Element"]];
+  for (const scene of scenes) {
+    if (scene.revision_status === "omitted") continue;
+    const elements = breakdownElements(scene, castIds);
+    for (const c of categories) {
+      for (const item of elements[c.key]) {
+        rows.push([
+          sceneNumberLabel(scene),
+          stripSide(scene.int_ext),
+          periodLabel(scene),
+          scene.location_name || "",
+          formatEighths(sceneEighths(scene)),
+          ...(category === "all" ? [c.label] : []),
+          item,
+        ]);
+      }
+    }
+  }
+  return rows.map((r) => r.map(csvCell).join(",")).join("\n");
+}
+
+// ── PDF ──
+
+const COL_GAP = 4;
+const COL_W = (CONTENT_W - COL_GAP) / 2;
+const ITEM_H = 3.8;
+const BOTTOM = PAGE_H - MARGIN_B - 10;
+
+class BreakdownPdfBuilder extends PdfLayoutBuilder {
+  constructor(filmTitle: string) {
+    super(filmTitle, "Breakdown Sheets");
+  }
+
+  private renderHeader(scene: BreakdownScene, index: number, total: number) {
+    const [r, g, b] = hexToRgb(stripColor(scene).hex);
+    this.doc.setFont("helvetica", "italic");
+    this.doc.setFontSize(8);
+    const synopsis = scene.description ? this.doc.splitTextToSize(scene.description, CONTENT_W - 8).slice(0, 3) : [];
+    const height = 30 + synopsis.length * 3.8;
+
+    this.doc.setFillColor(r, g, b);
+    this.doc.setDrawColor(...C_BORDER);
+    this.doc.setLineWidth(0.3);
+    this.doc.rect(MARGIN_L, this.y, CONTENT_W, height, "FD");
+
+    this.doc.setFont("helvetica", "bold");
+    this.doc.setFontSize(7);
+    this.doc.setTextColor(...C_MUTED);
+    this.doc.text("BREAKDOWN SHEET", MARGIN_L + 4, this.y + 5);
+    this.doc.text(`${index + 1} of ${total}`, MARGIN_L + CONTENT_W - 4, this.y + 5, { align: "right" });
+
+    this.doc.setFontSize(20);
+    this.doc.setTextColor(...C_TEXT);
+    this.doc.text(sceneNumberLabel(scene), MARGIN_L + 4, this.y + 15);
+
+    this.doc.setFontSize(9);
+    const meta = `${stripSide(scene.int_ext)}  ·  ${periodLabel(scene)}  ·  ${formatEighths(sceneEighths(scene))} pgs`;
+    this.doc.text(meta, MARGIN_L + CONTENT_W - 4, this.y + 15, { align: "right" });
+
+    this.doc.setFontSize(10);
+    const heading = this.doc.splitTextToSize(scene.heading.toUpperCase(), CONTENT_W - 8)[0];
+    this.doc.text(heading, MARGIN_L + 4, this.y + 22);
+
+    if (synopsis.length) {
+      this.doc.setFont("helvetica", "italic");
+      this.doc.setFontSize(8);
+      this.doc.text(synopsis, MARGIN_L + 4, this.y + 28);
+    }
+    this.y += height + 6;
+  }
+
+  /** Category boxes flow into whichever of the two columns is shorter */
+  private renderCategories(elements: Record<BreakdownCategoryKey, string[]>) {
+    let columns = [this.y, this.y];
+    for (const c of BREAKDOWN_CATEGORIES) {
+      this.doc.setFont("helvetica", "normal");
+      this.doc.setFontSize(8);
+      const lines = elements[c.key].flatMap((item) => this.doc.splitTextToSize(item, COL_W - 6) as string[]);
+      const height = 9 + Math.max(lines.length, 1) * ITEM_H;
+
+      let col = columns[0] <= columns[1] ? 0 : 1;
+      if (columns[col] + height > BOTTOM) {
+        this.newPage();
+        columns = [this.y, this.y];
+        col = 0;
+      }
+      const x = MARGIN_L + col * (COL_W + COL_GAP);
+      const y = columns[col];
+
+      this.doc.setDrawColor(...C_BORDER);
+      this.doc.setLineWidth(0.2);
+      this.doc.rect(x, y, COL_W, height);
+      this.doc.setFillColor(...c.rgb);
+      this.doc.rect(x, y, COL_W, 1.2, "F");
+
+      this.doc.setFont("helvetica", "bold");
+      this.doc.setFontSize(7);
+      this.doc.setTextColor(...c.rgb);
+      this.doc.text(c.label.toUpperCase(), x + 3, y + 5);
+
+      this.doc.setFont("helvetica", "normal");
+      this.doc.setFontSize(8);
+      if (lines.length) {
+        this.doc.setTextColor(...C_TEXT);
+        this.doc.text(lines, x + 3, y + 9.5);
+      } else {
+        this.doc.setTextColor(...C_MUTED);
+        this.doc.text("—", x + 3, y + 9.5);
+      }
+      columns[col] = y + height + COL_GAP;
+    }
+    this.y = Math.max(...columns);
+  }
+
+  generate(scenes: BreakdownScene[], castIds?: Map<string, number>) {
+    scenes.forEach((scene, i) => {
+      if (i > 0) this.newPage();
+      this.renderHeader(scene, i, scenes.length);
+      this.renderCategories(breakdownElements(scene, castIds));
+    });
+    return this.doc;
+  }
+}
+
+// ── Download ──
+
+/** Omitted scenes are left out; scenes print in script order */
+export function downloadBreakdownSheets(
+  format: "pdf" | BreakdownCategoryKey | "all",
+  scenes: BreakdownScene[],
+  filmTitle: string,
+  castIds?: Map<string, number>,
+) {
+  const active = scenes.filter((s) => s.revision_status !== "omitted").sort((a, b) => a.scene_number - b.scene_number);
+  const baseName = `${(filmTitle || "film").replace(/[^a-zA-Z0-9]/g, "_").toLowerCase()}_breakdown`;
+  if (format === "pdf") {
+    new BreakdownPdfBuilder(filmTitle || "Untitled Film").generate(active, castIds).save(`${baseName}.pdf`);
+  } else {
+    saveBlob(buildBreakdownCsv(active, format, castIds), `${baseName}_${format}.csv`, "text/csv");
+  }
+}
@@ -0,0 +1,358 @@
+import {
+  PdfLayoutBuilder, CONTENT_W, MARGIN_L, PAGE_W, MARGIN_R, C_BORDER, C_CARD, C_MUTED, C_PRIMARY, C_TEXT,
+} from "@/lib/production-bible-pdf";
+import { formatEighths } from "@/lib/page-count";
+import { sceneNumberLabel } from "@/lib/scene-numbers";
+import { sceneEighths, stripCast, stripPeriod, stripSide, type ShootDay, type StripScene } from "@/lib/stripboard";
+
+/**
+ * Call sheet for one shoot day of the stripboard: the day's scenes, cast calls,
+ * locations, special requirements and the advance schedule for the next day.
+ */
+
+/** Scene fields a call sheet reads (a stripboard strip plus its synopsis) */
+export interface CallSheetScene extends StripScene {
+  production_scene_number: string | null;
+  description: string | null;
+  animals: string[] | null;
+  sfx: string[] | null;
+}
+
+export type RequirementKey = "stunts" | "vehicles" | "animals" | "sfx";
+
+export const REQUIREMENT_LABELS: Record<RequirementKey, string> = {
+  stunts: "Stunts",
+  vehicles: "Picture Vehicles",
+  animals: "Animals",
+  sfx: "Special Effects",
+};
+
+/** Who a copy of the call sheet is prepared for */
+export type CallSheetRecipient =
+  | { kind: "crew" }
+  | { kind: "cast"; character: string }
+  | { kind: "department"; department: RequirementKey };
+
+export interface CallSheetCastRow {
+  castId: number | null;
+  character: string;
+  call: string | null;
+  scenes: string[];
+}
+
+export interface CallSheet {
+  dayNumber: number;
+  totalDays: number;
+  date: Date | null;
+  crewCall: string | null;
+  shootingCall: string | null;
+  scenes: CallSheetScene[];
+  cast: CallSheetCastRow[];
+  locations: { name: string; address: string | null }[];
+  requirements: Record<RequirementKey, { scene: string; item: string }[]>;
+  notes: string | null;
+  advance: { dayNumber: number; date: Date | null; scenes: CallSheetScene[] } | null;
+}
+
+const sceneRequirements = (scene: CallSheetScene): Record<RequirementKey, string[]> => ({
+  stunts: scene.stunts || [],
+  vehicles: scene.picture_vehicles || [],
+  animals: scene.animals || [],
+  sfx: scene.sfx || [],
+});
+
+export function buildCallSheet(
+  dayIndex: number,
+  days: ShootDay[],
+  sceneById: Map<string, CallSheetScene>,
+  castIds: Map<string, number>,
+  dates: (Date | null)[],
+): CallSheet {
+  const scenesOf = (day: ShootDay | undefined) =>
+    (day?.scene_ids ?? []).map((id) => sceneById.get(id)).filter((s): s is CallSheetScene => !!s);
+  const day = days[dayIndex];
+  const scenes = scenesOf(day);
+  const call = day.call ?? {};
+
+  const castScenes = new Map<string, string[]>();
+  for (const s of scenes) {
+    for (const c of stripCast(s)) {
+      if (!castScenes.has(c)) castScenes.set(c, []);
+      castScenes.get(c)!.push(sceneNumberLabel(s));
+    }
+  }
+  const cast = [...castScenes.entries()]
+    .map(([character, list]) => ({
+      castId: castIds.get(character) ?? null,
+      character,
+      call: call.cast_calls?.[character] || null,
+      scenes: list,
+    }))
+    .sort((a, b) => (a.castId ?? 9999) - (b.castId ?? 9999));
+
+  const locationNames = [...new Set(scenes.map((s) => (s.location_name || s.heading).toUpperCase()))];
+  const locations = locationNames.map((name) => ({ name, address: call.addresses?.[name] || null }));
+
+  const requirements: CallSheet["requirements"] = { stunts: [], vehicles: [], animals: [], sfx: [] };
+  for (const s of scenes) {
+    const reqs = sceneRequirements(s);
+    for (const key of Object.keys(requirements) as RequirementKey[]) {
+      for (const item of reqs[key]) requirements[key].push({ scene: sceneNumberLabel(s), item });
+    }
+  }
+
+  const next = days[dayIndex + 1];
+  return {
+    dayNumber: dayIndex + 1,
+    totalDays: days.length,
+    date: dates[dayIndex] ?? null,
+    crewCall: call.crew_call || null,
+    shootingCall: call.shooting_call || null,
+    scenes,
+    cast,
+    locations,
+    requirements,
+    notes: call.notes || day.note || null,
+    advance: next ? { dayNumber: dayIndex + 2, date: dates[dayIndex + 1] ?? null, scenes: scenesOf(next) } : null,
+  };
+}
+
+export function recipientLabel(recipient: CallSheetRecipient): string {
+  if (recipient.kind === "cast") return recipient.character;
+  if (recipient.kind === "department") return REQUIREMENT_LABELS[recipient.department];
+  return "Full Crew";
+}
+
+// ── PDF ──
+
+const ROW_PAD = 1.6;
+/** Rows that concern the recipient (their scenes, their cast line) */
+const C_HIGHLIGHT = [255, 243, 166] as const;
+const LINE_H = 3.6;
+
+interface Column {
+  label: string;
+  width: number;
+  align?: "left" | "center" | "right";
+  /** Lines after the cell's first (a synopsis under its set) print in italics */
+  notes?: boolean;
+}
+
+const SCENE_COLUMNS: Column[] = [
+  { label: "Sc", width: 14 },
+  { label: "Set / Synopsis", width: CONTENT_W - 14 - 22 - 38 - 16, notes: true },
+  { label: "I/E · D/N", width: 22 },
+  { label: "Cast", width: 38 },
+  { label: "Pgs", width: 16, align: "right" },
+];
+
+const periodShort = (scene: StripScene) => {
+  const period = stripPeriod(scene.day_night);
+  return period === "night" ? "N" : period === "twilight" ? "D/D" : "D";
+};
+
+class CallSheetPdfBuilder extends PdfLayoutBuilder {
+  private castIds: Map<string, number>;
+
+  constructor(filmTitle: string, castIds: Map<string, number>) {
+    super(filmTitle, "Call Sheet");
+    this.castIds = castIds;
+  }
+
+  /** One table row; cells wrap and the row grows to the tallest cell */
+  private tableRow(columns: Column[], cells: string[][], opts: { header?: boolean; highlight?: boolean } = {}) {
+    this.doc.setFont("helvetica", opts.header ? "bold" : "normal");
+    this.doc.setFontSize(opts.header ? 6.5 : 7.5);
+    const wrapped = cells.map((lines, i) =>
+      lines.flatMap((l, k) =>
+        (this.doc.splitTextToSize(l, columns[i].width - 2) as string[]).map((text) => ({ text, note: !!columns[i].notes && k > 0 })),
+      ),
+    );
+    const height = Math.max(...wrapped.map((w) => Math.max(w.length, 1))) * LINE_H + ROW_PAD * 2;
+    this.checkPage(height);
+
+    if (opts.header || opts.highlight) {
+      const fill: readonly [number, number, number] = opts.header ? C_CARD : C_HIGHLIGHT;
+      this.doc.setFillColor(...fill);
+      this.doc.rect(MARGIN_L, this.y, CONTENT_W, height, "F");
+    }
+    this.doc.setDrawColor(...C_BORDER);
+    this.doc.setLineWidth(0.2);
+    this.doc.line(MARGIN_L, this.y + height, MARGIN_L + CONTENT_W, this.y + height);
+
+    const color: readonly [number, number, number] = opts.header ? C_MUTED : C_TEXT;
+    let x = MARGIN_L;
+    wrapped.forEach((lines, i) => {
+      const col = columns[i];
+      this.doc.setTextColor(...color);
+      lines.forEach((line, j) => {
+        if (!opts.header) this.doc.setFont("helvetica", line.note ? "italic" : opts.highlight ? "bold" : "normal");
+        const tx = col.align === "right" ? x + col.width - 1 : col.align === "center" ? x + col.width / 2 : x + 1;
+        this.doc.text(opts.header ? line.text.toUpperCase() : line.text, tx, this.y + ROW_PAD + 2.6 + j * LINE_H, { align: col.align ?? "left" });
+      });
+      x += col.width;
+    });
+    this.y += height;
+  }
+
+  private castCell(scene: StripScene) {
+    return stripCast(scene)
+      .map((c) => this.castIds.get(c))
+      .filter((id): id is number => id !== undefined)
+      .sort((a, b) => a - b)
+      .join(", ");
+  }
+
+  private renderSceneTable(scenes: CallSheetScene[], marked: (s: CallSheetScene) => boolean, withSynopsis: boolean) {
+    this.tableRow(SCENE_COLUMNS, SCENE_COLUMNS.map((c) => [c.label]), { header: true });
+    for (const s of scenes) {
+      const set = [s.heading.toUpperCase(), ...(withSynopsis && s.description ? [s.description] : [])];
+      this.tableRow(
+        SCENE_COLUMNS,
+        [[sceneNumberLabel(s)], set, [`${stripSide(s.int_ext)} · ${periodShort(s)}`], [this.castCell(s)], [formatEighths(sceneEighths(s))]],
+        { highlight: marked(s) },
+      );
+    }
+    const total = scenes.reduce((sum, s) => sum + sceneEighths(s), 0);
+    this.doc.setFont("helvetica", "bold");
+    this.doc.setFontSize(7.5);
+    this.doc.setTextColor(...C_TEXT);
+    this.doc.text(`Total ${formatEighths(total)} pgs`, MARGIN_L + CONTENT_W - 1, this.y + 4, { align: "right" });
+    this.y += 8;
+  }
+
+  private renderHeader(sheet: CallSheet, recipient: CallSheetRecipient) {
+    this.doc.setFont("helvetica", "bold");
+    this.doc.setFontSize(16);
+    this.doc.setTextColor(...C_TEXT);
+    this.doc.text(this.filmTitle.toUpperCase(), MARGIN_L, this.y + 4);
+    this.doc.setFontSize(10);
+    this.doc.setTextColor(...C_PRIMARY);
+    this.doc.text("CALL SHEET", MARGIN_L, this.y + 10);
+
+    this.doc.setFontSize(9);
+    this.doc.setTextColor(...C_TEXT);
+    this.doc.text(`Day ${sheet.dayNumber} of ${sheet.totalDays}`, PAGE_W - MARGIN_R, this.y + 4, { align: "right" });
+    if (sheet.date) {
+      this.doc.setFont("helvetica", "normal");
+      this.doc.text(
+        sheet.date.toLocaleDateString("en-US", { weekday: "long", year: "numeric", month: "long", day: "numeric" }),
+        PAGE_W - MARGIN_R, this.y + 10, { align: "right" },
+      );
+    }
+    this.y += 16;
+
+    // Call times
+    const boxW = (CONTENT_W - 4) / 2;
+    [["Crew Call", sheet.crewCall], ["Shooting Call", sheet.shootingCall]].forEach(([label, time], i) => {
+      const x = MARGIN_L + i * (boxW + 4);
+      this.doc.setFillColor(...C_CARD);
+      this.doc.setDrawColor(...C_BORDER);
+      this.doc.rect(x, this.y, boxW, 14, "FD");
+      this.doc.setFont("helvetica", "bold");
+      this.doc.setFontSize(7);
+      this.doc.setTextColor(...C_MUTED);
+      this.doc.text((label as string).toUpperCase(), x + boxW / 2, this.y + 4.5, { align: "center" });
+      this.doc.setFontSize(14);
+      this.doc.setTextColor(...C_TEXT);
+      this.doc.text(time || "TBA", x + boxW / 2, this.y + 11.5, { align: "center" });
+    });
+    this.y += 18;
+
+    if (recipient.kind !== "crew") {
+      this.doc.setFont("helvetica", "bold");
+      this.doc.setFontSize(8);
+      this.doc.setTextColor(...C_PRIMARY);
+      this.doc.text(`PREPARED FOR: ${recipientLabel(recipient).toUpperCase()}`, MARGIN_L, this.y + 2);
+      this.y += 6;
+    }
+  }
+
+  private renderCast(sheet: CallSheet, recipient: CallSheetRecipient) {
+    const columns: Column[] = [
+      { label: "#", width: 10 },
+      { label: "Character", width: 70 },
+      { label: "Call", width: 22 },
+      { label: "Scenes", width: CONTENT_W - 102 },
+    ];
+    this.sectionTitle("Cast");
+    this.tableRow(columns, columns.map((c) => [c.label]), { header: true });
+    for (const c of sheet.cast) {
+      this.tableRow(
+        columns,
+        [[c.castId ? String(c.castId) : "—"], [c.character], [c.call || sheet.crewCall || "TBA"], [c.scenes.join(", ")]],
+        { highlight: recipient.kind === "cast" && recipient.character === c.character },
+      );
+    }
+    if (sheet.cast.length === 0) this.value("No cast called.");
+    this.y += 4;
+  }
+
+  private renderLocations(sheet: CallSheet) {
+    this.sectionTitle("Locations");
+    for (const l of sheet.locations) {
+      this.fieldRow(l.name, l.address || "Address to follow");
+    }
+    this.y += 2;
+  }
+
+  private renderRequirements(sheet: CallSheet, recipient: CallSheetRecipient) {
+    const keys = (Object.keys(REQUIREMENT_LABELS) as RequirementKey[]).filter(
+      (k) => recipient.kind !== "department" || recipient.department === k,
+    );
+    const present = keys.filter((k) => sheet.requirements[k].length > 0);
+    this.sectionTitle("Special Requirements");
+    if (present.length === 0) {
+      this.value("None.");
+      this.y += 4;
+      return;
+    }
+    for (const k of present) {
+      this.subHeading(REQUIREMENT_LABELS[k]);
+      this.bulletList(sheet.requirements[k].map((r) => `Sc ${r.scene}: ${r.item}`));
+      this.y += 2;
+    }
+  }
+
+  generate(sheet: CallSheet, recipient: CallSheetRecipient) {
+    this.renderHeader(sheet, recipient);
+
+    const marked = (s: CallSheetScene) => {
+      if (recipient.kind === "cast") return stripCast(s).includes(recipient.character);
+      if (recipient.kind === "department") return sceneRequirements(s)[recipient.department].length > 0;
+      return false;
+    };
+
+    this.sectionTitle("Scenes");
+    this.renderSceneTable(sheet.scenes, marked, true);
+    this.renderCast(sheet, recipient);
+    this.renderLocations(sheet);
+    this.renderRequirements(sheet, recipient);
+
+    if (sheet.notes) {
+      this.sectionTitle("Notes");
+      this.value(sheet.notes);
+      this.y += 4;
+    }
+
+    this.sectionTitle(sheet.advance ? `Advance Schedule — Day ${sheet.advance.dayNumber}` : "Advance Schedule");
+    if (sheet.advance) {
+      if (sheet.advance.date) {
+        this.label(sheet.advance.date.toLocaleDateString("en-US", { weekday: "long", month: "long", day: "numeric" }));
+        this.y += 4;
+      }
+      this.renderSceneTable(sheet.advance.scenes, marked, false);
+    } else {
+      this.value("Last day of principal photography.");
+    }
+    return this.doc;
+  }
+}
+
+// ── Download ──
+
+export function downloadCallSheet(sheet: CallSheet, recipient: CallSheetRecipient, filmTitle: string, castIds: Map<string, number>) {
+  const recipientSuffix = recipient.kind === "crew" ? "" : `_${recipientLabel(recipient).replace(/[^a-zA-Z0-9]/g, "_").toLowerCase()}`;
+  const baseName = `${(filmTitle || "film").replace(/[^a-zA-Z0-9]/g, "_").toLowerCase()}_call_sheet_day_${sheet.dayNumber}${recipientSuffix}`;
+  new CallSheetPdfBuilder(filmTitle || "Untitled Film", castIds).generate(sheet, recipient).save(`${baseName}.pdf`);
+}
@@ -0,0 +1,218 @@
+import {
+  PdfLayoutBuilder, CONTENT_W, MARGIN_L, C_BORDER, C_DANGER, C_MUTED, C_TEXT,
+} from "@/lib/production-bible-pdf";
+import { storyDayLabel, type StoryDay, type WardrobeAssignment } from "@/lib/story-days";
+
+/**
+ * Costume plot — each character's costume changes across their scenes in
+ * script order. A change number belongs to a costume (numbered by first
+ * appearance), so a character returning to an earlier outfit keeps its number.
+ */
+
+export interface CostumeChange {
+  number: number;
+  item: string;
+  scenes: number[];
+  /** Story days the change is worn on, in order ("Day 1", "Night 1") */
+  storyDays: string[];
+}
+
+export interface CostumePlotCell {
+  sceneNumber: number;
+  storyDay: StoryDay | undefined;
+  item: string | null;
+  change: number | null;
+}
+
+export interface CostumePlot {
+  character: string;
+  changes: CostumeChange[];
+  cells: CostumePlotCell[];
+  /** Scenes the character is in with no costume assigned */
+  unassigned: number[];
+}
+
+export function buildCostumePlot(
+  character: string,
+  sceneNumbers: number[],
+  assignments: WardrobeAssignment[],
+  storyDays: Map<number, StoryDay>,
+): CostumePlot {
+  const name = character.toUpperCase();
+  const itemByScene = new Map(
+    assignments.filter((a) => a.character_name.toUpperCase() === name).map((a) => [a.scene_number, a.clothing_item]),
+  );
+  const changeByItem = new Map<string, CostumeChange>();
+  const cells: CostumePlotCell[] = [];
+
+  for (const sceneNumber of [...new Set(sceneNumbers)].sort((a, b) => a - b)) {
+    const storyDay = storyDays.get(sceneNumber);
+    const item = itemByScene.get(sceneNumber) ?? null;
+    let change: CostumeChange | undefined;
+    if (item) {
+      change = changeByItem.get(item);
+      if (!change) {
+        change = { number: changeByItem.size + 1, item, scenes: [], storyDays: [] };
+        changeByItem.set(item, change);
+      }
+      change.scenes.push(sceneNumber);
+      const label = storyDayLabel(storyDay);
+      if (label && !change.storyDays.includes(label)) change.storyDays.push(label);
+    }
+    cells.push({ sceneNumber, storyDay, item, change: change?.number ?? null });
+  }
+
+  return {
+    character,
+    changes: [...changeByItem.values()],
+    cells,
+    unassigned: cells.filter((c) => !c.item).map((c) => c.sceneNumber),
+  };
+}
+
+/** Costume thumbnail as a data URL for the PDF; null when it cannot be fetched */
+async function loadImageData(url: string): Promise<string | null> {
+  try {
+    const res = await fetch(url);
+    if (!res.ok) return null;
+    const blob = await res.blob();
+    return await new Promise((resolve) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(typeof reader.result === "string" ? reader.result : null);
+      reader.onerror = () => resolve(null);
+      reader.readAsDataURL(blob);
+    });
+  } catch {
+    return null;
+  }
+}
+
+// ── PDF ──
+
+const THUMB_W = 18;
+const THUMB_H = 24;
+const ROW_H = 6;
+const COLS = { scene: 14, day: 22, change: 18 };
+
+class CostumePlotPdfBuilder extends PdfLayoutBuilder {
+  private sceneLabel: (sceneNumber: number) => string;
+
+  constructor(filmTitle: string, sceneLabel: (sceneNumber: number) => string) {
+    super(filmTitle, "Costume Plot");
+    this.sceneLabel = sceneLabel;
+  }
+
+  private renderChanges(plot: CostumePlot, images: Map<string, string>) {
+    this.subHeading(`Changes (${plot.changes.length})`);
+    for (const change of plot.changes) {
+      const image = images.get(change.item);
+      const height = image ? THUMB_H + 3 : 12;
+      this.checkPage(height);
+      const textX = MARGIN_L + 4 + (image ? THUMB_W + 4 : 0);
+      if (image) {
+        try {
+          this.doc.addImage(image, MARGIN_L + 4, this.y, THUMB_W, THUMB_H);
+        } catch {
+          // Unsupported image formats print without a thumbnail
+        }
+        this.doc.setDrawColor(...C_BORDER);
+        this.doc.setLineWidth(0.2);
+        this.doc.rect(MARGIN_L + 4, this.y, THUMB_W, THUMB_H);
+      }
+      this.doc.setFont("helvetica", "bold");
+      this.doc.setFontSize(9);
+      this.doc.setTextColor(...C_TEXT);
+      this.doc.text(`Change ${change.number} — ${change.item}`, textX, this.y + 4);
+      this.doc.setFont("helvetica", "normal");
+      this.doc.setFontSize(7.5);
+      this.doc.setTextColor(...C_MUTED);
+      const detail = `Sc ${change.scenes.map(this.sceneLabel).join(", ")}${change.storyDays.length ? `  ·  ${change.storyDays.join(", ")}` : ""}`;
+      this.doc.text(this.doc.splitTextToSize(detail, CONTENT_W - (textX - MARGIN_L) - 4), textX, this.y + 8.5);
+      this.y += height;
+    }
+    if (plot.changes.length === 0) this.bulletList(["No costumes assigned yet."], C_MUTED);
+    this.y += 2;
+  }
+
+  private renderGrid(plot: CostumePlot, headings: Record<number, string>) {
+    this.subHeading("Scene by scene");
+    const headingW = CONTENT_W - COLS.scene - COLS.day - COLS.change - 8;
+    let previousDay = "";
+    for (const cell of plot.cells) {
+      this.checkPage(ROW_H);
+      const day = storyDayLabel(cell.storyDay);
+      const x = MARGIN_L + 4;
+      if (!cell.item) {
+        this.doc.setFillColor(252, 232, 235);
+        this.doc.rect(x, this.y, CONTENT_W - 8, ROW_H, "F");
+      }
+      this.doc.setDrawColor(...C_BORDER);
+      this.doc.setLineWidth(day !== previousDay ? 0.5 : 0.1);
+      this.doc.line(x, this.y, x + CONTENT_W - 8, this.y);
+      this.doc.setFont("helvetica", "bold");
+      this.doc.setFontSize(8);
+      this.doc.setTextColor(...C_TEXT);
+      this.doc.text(this.sceneLabel(cell.sceneNumber), x + 1, this.y + 4.2);
+      this.doc.setFont("helvetica", "normal");
+      this.doc.text(day !== previousDay ? day : "", x + COLS.scene, this.y + 4.2);
+      const heading = this.doc.splitTextToSize((headings[cell.sceneNumber] || "").toUpperCase(), headingW - 2)[0] ?? "";
+      this.doc.text(heading, x + COLS.scene + COLS.day, this.y + 4.2);
+      const changeX = x + COLS.scene + COLS.day + headingW;
+      if (cell.change !== null) {
+        this.doc.setFont("helvetica", "bold");
+        this.doc.text(`Change ${cell.change}`, changeX, this.y + 4.2);
+      } else {
+        this.doc.setFont("helvetica", "bold");
+        this.doc.setTextColor(...C_DANGER);
+        this.doc.text("NO COSTUME", changeX, this.y + 4.2);
+      }
+      previousDay = day;
+      this.y += ROW_H;
+    }
+    this.y += 4;
+  }
+
+  generate(plots: CostumePlot[], images: Map<string, string>, headings: Record<number, string>) {
+    plots.forEach((plot, i) => {
+      if (i > 0) this.newPage();
+      this.sectionTitle(plot.character);
+      this.doc.setFont("helvetica", "normal");
+      this.doc.setFontSize(8);
+      const color: readonly [number, number, number] = plot.unassigned.length ? C_DANGER : C_MUTED;
+      this.doc.setTextColor(...color);
+      const summary = this.doc.splitTextToSize(
+        `${plot.cells.length} scene${plot.cells.length !== 1 ? "s" : ""} · ${plot.changes.length} change${plot.changes.length !== 1 ? "s" : ""}` +
+          (plot.unassigned.length ? ` · ${plot.unassigned.length} without a costume (Sc ${plot.unassigned.map(this.sceneLabel).join(", ")})` : ""),
+        CONTENT_W - 8,
+      );
+      this.doc.text(summary, MARGIN_L + 4, this.y);
+      this.y += summary.length * 3.8 + 2;
+      this.renderChanges(plot, images);
+      this.renderGrid(plot, headings);
+    });
+    return this.doc;
+  }
+}
+
+// ── Download ──
+
+/** One section per character; thumbnails (clothing item → image URL) are embedded when they load */
+export async function downloadCostumePlot(
+  plots: CostumePlot[],
+  thumbnails: Map<string, string>,
+  headings: Record<number, string>,
+  sceneLabel: (sceneNumber: number) => string,
+  filmTitle: string,
+) {
+  const items = [...new Set(plots.flatMap((p) => p.changes.map((c) => c.item)))].filter((item) => thumbnails.has(item));
+  const images = new Map<string, string>();
+  await Promise.all(
+    items.map(async (item) => {
+      const data = await loadImageData(thumbnails.get(item)!);
+      if (data) images.set(item, data);
+    }),
+  );
+  const suffix = plots.length === 1 ? `_${plots[0].character.replace(/[^a-zA-Z0-9]/g, "_").toLowerCase()}` : "";
+  const baseName = `${(filmTitle || "film").replace(/[^a-zA-Z0-9]/g, "_").toLowerCase()}_costume_plot${suffix}`;
+  new CostumePlotPdfBuilder(filmTitle || "Untitled Film", sceneLabel).generate(plots, images, headings).save(`${baseName}.pdf`);
+}
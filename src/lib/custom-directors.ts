@@ -0,0 +1,167 @@
+/**
+ * Custom Director Profiles — a workspace's own directors and house styles.
+ *
+ * Stored per user in custom_director_profiles and merged into the built-in
+ * catalog (see useDirectorCatalog), so nearest-director matching, the
+ * constellation map and analyze-director-fit treat them like any other
+ * director. Quadrant and emotional depth are derived from the vector.
+ *
+ * Profiles travel between workspaces as JSON:
+ *   { "format": "director-profiles", "version": 1, "profiles": [...] }
+ */
+
+import {
+  CLUSTER_LABELS,
+  STYLE_AXES,
+  emotionTier,
+  vectorToQuadrant,
+  type ClusterId,
+  type DirectorProfile,
+  type StyleVector,
+  type VisualMandate,
+} from "@/lib/director-styles";
+import { saveBlob } from "@/lib/download";
+
+// ── Types ──────────────────────────────────────────────
+
+/** custom_director_profiles row fields the catalog reads */
+export interface CustomDirectorRow {
+  id: string;
+  name: string;
+  known_for: string[];
+  vector: unknown;
+  cluster: string;
+  visual_mandate: unknown;
+}
+
+/** Editable part of a profile; also the shape of one exported entry */
+export interface CustomDirectorDraft {
+  name: string;
+  knownFor: string[];
+  vector: StyleVector;
+  cluster: ClusterId;
+  visualMandate: VisualMandate;
+}
+
+export const DIRECTOR_PROFILES_FORMAT = "director-profiles";
+export const DIRECTOR_PROFILES_VERSION = 1;
+
+export const emptyDirectorDraft = (): CustomDirectorDraft => ({
+  name: "",
+  knownFor: [],
+  vector: { scale: 5, structure: 5, visual: 5, darkness: 5, dialogue: 5, spectacle: 5, genreFluidity: 5, emotion: 5 },
+  cluster: "intimate-humanists",
+  visualMandate: { lighting: "", lens: "", texture: "", color: "", negativeHints: "" },
+});
+
+// ── Row mapping ────────────────────────────────────────
+
+const clampAxis = (v: number) => Math.max(0, Math.min(10, Math.round(v * 10) / 10));
+
+const isCluster = (v: unknown): v is ClusterId => typeof v === "string" && v in CLUSTER_LABELS;
+
+function toVector(raw: unknown): StyleVector {
+  const src = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const v = {} as StyleVector;
+  for (const axis of STYLE_AXES) v[axis] = clampAxis(typeof src[axis] === "number" ? (src[axis] as number) : 5);
+  return v;
+}
+
+function toMandate(raw: unknown): VisualMandate {
+  const src = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const text = (key: keyof VisualMandate) => (typeof src[key] === "string" ? (src[key] as string) : "");
+  return { lighting: text("lighting"), lens: text("lens"), texture: text("texture"), color: text("color"), negativeHints: text("negativeHints") };
+}
+
+export function toDirectorProfile(row: CustomDirectorRow): DirectorProfile {
+  const vector = toVector(row.vector);
+  return {
+    id: row.id,
+    name: row.name,
+    knownFor: row.known_for ?? [],
+    vector,
+    cluster: isCluster(row.cluster) ? row.cluster : "intimate-humanists",
+    quadrant: vectorToQuadrant(vector),
+    emotionalDepth: emotionTier(vector.emotion),
+    visualMandate: toMandate(row.visual_mandate),
+    custom: true,
+  };
+}
+
+export const toDirectorDraft = (d: DirectorProfile): CustomDirectorDraft => ({
+  name: d.name,
+  knownFor: d.knownFor,
+  vector: d.vector,
+  cluster: d.cluster,
+  visualMandate: d.visualMandate,
+});
+
+/** Column values for an insert or update */
+export const draftToRow = (draft: CustomDirectorDraft) => ({
+  name: draft.name.trim(),
+  known_for: draft.knownFor.map((g) => g.trim()).filter(Boolean),
+  vector: toVector(draft.vector) as unknown as Record<string, number>,
+  cluster: draft.cluster,
+  visual_mandate: toMandate(draft.visualMandate) as unknown as Record<string, string>,
+});
+
+// ── JSON import / export ───────────────────────────────
+
+export function exportDirectorProfiles(profiles: DirectorProfile[]): string {
+  return JSON.stringify(
+    {
+      format: DIRECTOR_PROFILES_FORMAT,
+      version: DIRECTOR_PROFILES_VERSION,
+      profiles: profiles.map(toDirectorDraft),
+    },
+    null,
+    2,
+  );
+}
+
+/**
+ * Validate an exported file (or a bare array of profiles). Every axis must be
+ * a number and the cluster one of the known clusters; a bad entry rejects the
+ * whole file with a message naming it.
+ */
+export function parseDirectorProfiles(text: string): CustomDirectorDraft[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Not a valid JSON file");
+  }
+  const wrapper = data as { format?: unknown; version?: unknown; profiles?: unknown };
+  if (!Array.isArray(data) && wrapper?.format !== DIRECTOR_PROFILES_FORMAT) {
+    throw new Error("Not a director profiles export");
+  }
+  if (!Array.isArray(data) && typeof wrapper.version === "number" && wrapper.version > DIRECTOR_PROFILES_VERSION) {
+    throw new Error(`Export version ${wrapper.version} is newer than this app supports`);
+  }
+  const entries = Array.isArray(data) ? data : wrapper.profiles;
+  if (!Array.isArray(entries) || entries.length === 0) throw new Error("The file contains no profiles");
+
+  return entries.map((entry, i) => {
+    const e = (entry ?? {}) as Record<string, unknown>;
+    const label = typeof e.name === "string" && e.name.trim() ? `"${e.name.trim()}"` : `Profile ${i + 1}`;
+    if (typeof e.name !== "string" || !e.name.trim()) throw new Error(`${label} has no name`);
+    const vector = (e.vector ?? {}) as Record<string, unknown>;
+    const missing = STYLE_AXES.filter((axis) => typeof vector[axis] !== "number" || Number.isNaN(vector[axis]));
+    if (missing.length > 0) throw new Error(`${label} is missing style axes: ${missing.join(", ")}`);
+    if (!isCluster(e.cluster)) throw new Error(`${label} has an unknown cluster "${String(e.cluster)}"`);
+    return {
+      name: e.name.trim(),
+      knownFor: Array.isArray(e.knownFor) ? e.knownFor.filter((g): g is string => typeof g === "string") : [],
+      vector: toVector(vector),
+      cluster: e.cluster,
+      visualMandate: toMandate(e.visualMandate),
+    };
+  });
+}
+
+export function downloadDirectorProfiles(profiles: DirectorProfile[]) {
+  const baseName = profiles.length === 1
+    ? profiles[0].name.replace(/[^a-zA-Z0-9]/g, "_").toLowerCase()
+    : "director_profiles";
+  saveBlob(exportDirectorProfiles(profiles), `${baseName}.json`, "application/json");
+}
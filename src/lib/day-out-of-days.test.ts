@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import type { CharacterRanking } from "@/hooks/useCharacterRanking";
+import { computeDayOutOfDays } from "@/lib/day-out-of-days";
+import type { ShootDay } from "@/lib/stripboard";
+
+/** One scene per shoot day: scene n is shot on day n - 1 */
+const schedule = (count: number) => {
+  const days: ShootDay[] = Array.from({ length: count }, (_, i) => ({ id: `d${i}`, scene_ids: [`s${i + 1}`] }));
+  const sceneNumberById = new Map(Array.from({ length: count }, (_, i) => [`s${i + 1}`, i + 1]));
+  return { days, sceneNumberById };
+};
+
+const cast = (rank: number, name: string, sceneNumbers: number[]) => ({ rank, name, sceneNumbers }) as CharacterRanking;
+
+describe("computeDayOutOfDays", () => {
+  it("marks a single day of work as start-work-finish", () => {
+    const { days, sceneNumberById } = schedule(3);
+    const [row] = computeDayOutOfDays(days, sceneNumberById, [cast(1, "ANNA", [2])]);
+    expect(row).toMatchObject({ codes: ["", "SWF", ""], work: 1, hold: 0, start: 1, finish: 1 });
+  });
+
+  it("holds an actor over gaps shorter than the drop threshold", () => {
+    const { days, sceneNumberById } = schedule(4);
+    const [row] = computeDayOutOfDays(days, sceneNumberById, [cast(1, "ANNA", [1, 4])], [], 3);
+    expect(row).toMatchObject({ codes: ["SW", "H", "H", "WF"], work: 2, hold: 2 });
+  });
+
+  it("drops and picks up an actor once the gap reaches the threshold", () => {
+    const { days, sceneNumberById } = schedule(6);
+    const [row] = computeDayOutOfDays(days, sceneNumberById, [cast(1, "ANNA", [1, 2, 5, 6])], [], 2);
+    expect(row).toMatchObject({ codes: ["SW", "WD", "", "", "PW", "WF"], work: 4, hold: 0 });
+  });
+
+  it("measures the gap in calendar days when the schedule is dated", () => {
+    const { days, sceneNumberById } = schedule(2);
+    const dates = [new Date(2026, 0, 5), new Date(2026, 0, 26)];
+    const [dropped] = computeDayOutOfDays(days, sceneNumberById, [cast(1, "ANNA", [1, 2])], dates, 10);
+    expect(dropped.codes).toEqual(["SW", "PWF"]);
+    const [held] = computeDayOutOfDays(days, sceneNumberById, [cast(1, "ANNA", [1, 2])], [], 10);
+    expect(held.codes).toEqual(["SW", "WF"]);
+  });
+
+  it("sorts rows by cast ID and leaves out characters who never work", () => {
+    const { days, sceneNumberById } = schedule(2);
+    const rows = computeDayOutOfDays(days, sceneNumberById, [cast(2, "BEN", [2]), cast(3, "CARL", [9]), cast(1, "ANNA", [1])]);
+    expect(rows.map((r) => r.name)).toEqual(["ANNA", "BEN"]);
+  });
+});
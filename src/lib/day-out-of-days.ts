@@ -0,0 +1,229 @@
+import jsPDF from "jspdf";
+import type { CharacterRanking } from "@/hooks/useCharacterRanking";
+import type { ShootDay } from "@/lib/stripboard";
+import { csvCell, saveBlob } from "@/lib/download";
+
+/**
+ * Day Out of Days — per-character status on every shoot day of the stripboard.
+ * SW start-work, W work, WF work-finish, SWF start-work-finish, H hold,
+ * WD work then drop, PW pickup-work, PWF pickup-work-finish, blank = off the show.
+ */
+
+export type DoodCode = "SW" | "W" | "WF" | "SWF" | "H" | "WD" | "PW" | "PWF" | "";
+
+export interface DoodRow {
+  castId: number;
+  name: string;
+  codes: DoodCode[];
+  work: number;
+  hold: number;
+  /** Shoot-day index (0-based) of the first and last work day */
+  start: number;
+  finish: number;
+}
+
+/** Idle stretch (calendar days when the schedule is dated, shoot days otherwise) that allows a drop/pickup instead of holding */
+export const DEFAULT_DROP_THRESHOLD = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function computeDayOutOfDays(
+  days: ShootDay[],
+  sceneNumberById: Map<string, number>,
+  rankings: CharacterRanking[],
+  dates: (Date | null)[] = [],
+  dropThreshold = DEFAULT_DROP_THRESHOLD,
+): DoodRow[] {
+  const dayScenes = days.map((d) => new Set(d.scene_ids.map((id) => sceneNumberById.get(id)).filter((n): n is number => n !== undefined)));
+
+  const idleBetween = (a: number, b: number) => {
+    const da = dates[a];
+    const db = dates[b];
+    if (da && db) return Math.round((db.getTime() - da.getTime()) / DAY_MS) - 1;
+    return b - a - 1;
+  };
+
+  const rows: DoodRow[] = [];
+  for (const r of rankings) {
+    const workDays = dayScenes.flatMap((scenes, i) => (r.sceneNumbers.some((n) => scenes.has(n)) ? [i] : []));
+    if (workDays.length === 0) continue;
+
+    const codes: DoodCode[] = new Array(days.length).fill("");
+    const start = workDays[0];
+    const finish = workDays[workDays.length - 1];
+    let hold = 0;
+    let pickedUp = false;
+
+    for (let k = 0; k < workDays.length; k++) {
+      const i = workDays[k];
+      if (i === start && i === finish) codes[i] = "SWF";
+      else if (i === start) codes[i] = "SW";
+      else if (pickedUp) codes[i] = i === finish ? "PWF" : "PW";
+      else codes[i] = i === finish ? "WF" : "W";
+      pickedUp = false;
+
+      const next = workDays[k + 1];
+      if (next === undefined) break;
+      if (idleBetween(i, next) >= dropThreshold) {
+        // Drop after this day: keep its start/pickup meaning, the idle days stay blank
+        if (codes[i] === "W") codes[i] = "WD";
+        pickedUp = true;
+      } else {
+        for (let h = i + 1; h < next; h++) {
+          codes[h] = "H";
+          hold++;
+        }
+      }
+    }
+
+    rows.push({ castId: r.rank, name: r.name, codes, work: workDays.length, hold, start, finish });
+  }
+  return rows.sort((a, b) => a.castId - b.castId);
+}
+
+const dayLabel = (i: number, dates: (Date | null)[]) =>
+  dates[i] ? dates[i]!.toLocaleDateString(undefined, { month: "numeric", day: "numeric" }) : "";
+
+// ── CSV ──
+
+export function buildDayOutOfDaysCsv(rows: DoodRow[], dayCount: number, dates: (Date | null)[] = []): string {
+  const header = ["Cast ID", "Character", ...Array.from({ length: dayCount }, (_, i) => `Day ${i + 1}${dates[i] ? ` (${dayLabel(i, dates)})` : ""}`), "Work", "Hold", "Start", "Finish", "Total"];
+  const lines = [header];
+  for (const r of rows) {
+    lines.push([
+      String(r.castId),
+      r.name,
+      ...r.codes,
+      String(r.work),
+      String(r.hold),
+      `Day ${r.start + 1}`,
+      `Day ${r.finish + 1}`,
+      String(r.work + r.hold),
+    ]);
+  }
+  return lines.map((l) => l.map(csvCell).join(",")).join("\n");
+}
+
+// ── PDF (US Letter landscape) ──
+
+const PAGE_W = 279.4;
+const PAGE_H = 215.9;
+const MARGIN = 12;
+const ROW_H = 6;
+const NAME_W = 52;
+const DAY_W = 9;
+const TOTAL_W = 11;
+const TOTAL_LABELS = ["Work", "Hold", "Start", "Finish", "Total"];
+const HEADER_H = 12;
+
+const CODE_FILL: Partial<Record<DoodCode, [number, number, number]>> = {
+  SW: [198, 239, 193],
+  SWF: [198, 239, 193],
+  WF: [255, 200, 220],
+  PWF: [255, 200, 220],
+  H: [235, 235, 235],
+  WD: [255, 243, 166],
+  PW: [191, 217, 255],
+};
+
+function buildDayOutOfDaysPdf(rows: DoodRow[], dayCount: number, dates: (Date | null)[], filmTitle: string): jsPDF {
+  const doc = new jsPDF({ orientation: "landscape", unit: "mm", format: "letter" });
+  const daysPerPage = Math.max(1, Math.floor((PAGE_W - 2 * MARGIN - NAME_W - TOTAL_LABELS.length * TOTAL_W) / DAY_W));
+  const rowsPerPage = Math.max(1, Math.floor((PAGE_H - 2 * MARGIN - 10 - HEADER_H) / ROW_H));
+  let first = true;
+
+  for (let d0 = 0; d0 < Math.max(dayCount, 1); d0 += daysPerPage) {
+    const dayIdx = Array.from({ length: Math.min(daysPerPage, dayCount - d0) }, (_, k) => d0 + k);
+    for (let r0 = 0; r0 < Math.max(rows.length, 1); r0 += rowsPerPage) {
+      if (!first) doc.addPage("letter", "landscape");
+      first = false;
+
+      doc.setFont("helvetica", "bold");
+      doc.setFontSize(11);
+      doc.setTextColor(20, 25, 35);
+      doc.text(`${filmTitle.toUpperCase()} — DAY OUT OF DAYS`, MARGIN, MARGIN + 2);
+      doc.setFont("helvetica", "normal");
+      doc.setFontSize(7);
+      doc.setTextColor(100, 110, 130);
+      doc.text(`${dayCount} shoot day${dayCount !== 1 ? "s" : ""} · ${rows.length} cast`, PAGE_W - MARGIN, MARGIN + 2, { align: "right" });
+
+      // Column headers
+      let y = MARGIN + 10;
+      doc.setDrawColor(200, 205, 215);
+      doc.setLineWidth(0.2);
+      doc.setFont("helvetica", "bold");
+      doc.setTextColor(20, 25, 35);
+      doc.text("CAST", MARGIN + 1, y + 7);
+      let x = MARGIN + NAME_W;
+      for (const i of dayIdx) {
+        doc.rect(x, y, DAY_W, HEADER_H);
+        doc.text(String(i + 1), x + DAY_W / 2, y + 5, { align: "center" });
+        const label = dayLabel(i, dates);
+        if (label) {
+          doc.setFont("helvetica", "normal");
+          doc.setFontSize(5.5);
+          doc.text(label, x + DAY_W / 2, y + 9.5, { align: "center" });
+          doc.setFont("helvetica", "bold");
+          doc.setFontSize(7);
+        }
+        x += DAY_W;
+      }
+      for (const t of TOTAL_LABELS) {
+        doc.rect(x, y, TOTAL_W, HEADER_H);
+        doc.text(t.toUpperCase(), x + TOTAL_W / 2, y + 7, { align: "center" });
+        x += TOTAL_W;
+      }
+      y += HEADER_H;
+
+      // Rows
+      for (const r of rows.slice(r0, r0 + rowsPerPage)) {
+        doc.setFont("helvetica", "normal");
+        doc.setFontSize(7);
+        doc.setTextColor(20, 25, 35);
+        doc.rect(MARGIN, y, NAME_W, ROW_H);
+        const name = doc.splitTextToSize(`${r.castId}. ${r.name}`, NAME_W - 2)[0];
+        doc.text(name, MARGIN + 1, y + 4);
+        x = MARGIN + NAME_W;
+        for (const i of dayIdx) {
+          const code = r.codes[i];
+          const fill = CODE_FILL[code];
+          if (fill) {
+            doc.setFillColor(...fill);
+            doc.rect(x, y, DAY_W, ROW_H, "FD");
+          } else {
+            doc.rect(x, y, DAY_W, ROW_H);
+          }
+          if (code) doc.text(code, x + DAY_W / 2, y + 4, { align: "center" });
+          x += DAY_W;
+        }
+        const totals = [r.work, r.hold, r.start + 1, r.finish + 1, r.work + r.hold];
+        for (const v of totals) {
+          doc.rect(x, y, TOTAL_W, ROW_H);
+          doc.text(String(v), x + TOTAL_W / 2, y + 4, { align: "center" });
+          x += TOTAL_W;
+        }
+        y += ROW_H;
+      }
+
+      doc.setFontSize(6);
+      doc.setTextColor(100, 110, 130);
+      doc.text(
+        "SW Start/Work · W Work · WF Work/Finish · SWF Start/Work/Finish · H Hold · WD Work/Drop · PW Pickup/Work · PWF Pickup/Work/Finish",
+        MARGIN,
+        PAGE_H - MARGIN + 4,
+      );
+    }
+  }
+  return doc;
+}
+
+// ── Download ──
+
+export function downloadDayOutOfDays(format: "pdf" | "csv", rows: DoodRow[], dayCount: number, dates: (Date | null)[], filmTitle: string) {
+  const baseName = `${(filmTitle || "film").replace(/[^a-zA-Z0-9]/g, "_").toLowerCase()}_day_out_of_days`;
+  if (format === "csv") {
+    saveBlob(buildDayOutOfDaysCsv(rows, dayCount, dates), `${baseName}.csv`, "text/csv");
+  } else {
+    buildDayOutOfDaysPdf(rows, dayCount, dates, filmTitle || "Untitled Film").save(`${baseName}.pdf`);
+  }
+}
@@ -89,6 +89,16 @@ export interface VisualMandate {
   negativeHints: string;
 }
 
+export type MandateDimension = keyof VisualMandate;
+
+export const VISUAL_MANDATE_FIELDS: { key: MandateDimension; label: string }[] = [
+  { key: "lighting", label: "Lighting" },
+  { key: "lens", label: "Lens" },
+  { key: "texture", label: "Texture" },
+  { key: "color", label: "Colour" },
+  { key: "negativeHints", label: "Avoid" },
+];
+
 export interface DirectorProfile {
   id: string;
   name: string;
@@ -98,6 +108,8 @@ export interface DirectorProfile {
   quadrant: QuadrantId;
   emotionalDepth: "cool" | "warm" | "operatic";
   visualMandate: VisualMandate;
+  /** User-authored profile (custom_director_profiles), not part of the built-in catalog */
+  custom?: boolean;
 }
 
 // ── Utility ────────────────────────────────────────────
@@ -125,12 +137,58 @@ export function blendVectors(
   return result;
 }
 
-/** Find the N nearest directors to a target vector */
+/** A director's share of an N-way blend (weights need not sum to 1) */
+export interface BlendMember {
+  director: DirectorProfile;
+  weight: number;
+}
+
+/** Weights scaled to sum to 1; equal shares when they are all zero */
+export function normalizeWeights(weights: number[]): number[] {
+  const total = weights.reduce((sum, w) => sum + Math.max(0, w), 0);
+  if (total <= 0) return weights.map(() => 1 / weights.length);
+  return weights.map((w) => Math.max(0, w) / total);
+}
+
+/** Weighted blend of any number of style vectors */
+export function blendManyVectors(parts: Array<{ vector: StyleVector; weight: number }>): StyleVector {
+  const shares = normalizeWeights(parts.map((p) => p.weight));
+  const result = {} as StyleVector;
+  for (const axis of STYLE_AXES) {
+    result[axis] = Math.round(parts.reduce((sum, p, i) => sum + p.vector[axis] * shares[i], 0) * 10) / 10;
+  }
+  return result;
+}
+
+/** The most heavily weighted member (first on ties) */
+export function leadDirector(members: BlendMember[]): BlendMember | undefined {
+  return members.reduce<BlendMember | undefined>((best, m) => (!best || m.weight > best.weight ? m : best), undefined);
+}
+
+/**
+ * Visual mandate of a blend, one dimension at a time: each dimension comes
+ * from the director chosen in `sources`, else from the lead director.
+ */
+export function mergeMandates(
+  members: BlendMember[],
+  sources: Partial<Record<MandateDimension, string>>,
+): VisualMandate {
+  const lead = leadDirector(members);
+  const mandate = { lighting: "", lens: "", texture: "", color: "", negativeHints: "" } as VisualMandate;
+  for (const { key } of VISUAL_MANDATE_FIELDS) {
+    const source = members.find((m) => m.director.id === sources[key]) ?? lead;
+    mandate[key] = source?.director.visualMandate[key] ?? "";
+  }
+  return mandate;
+}
+
+/** Find the N nearest directors to a target vector (pass a catalog that includes custom profiles) */
 export function nearestDirectors(
   target: StyleVector,
   n = 3,
+  catalog: DirectorProfile[] = DIRECTORS,
 ): Array<{ director: DirectorProfile; distance: number }> {
-  return DIRECTORS
+  return catalog
     .map((d) => ({ director: d, distance: styleDistance(target, d.vector) }))
     .sort((a, b) => a.distance - b.distance)
     .slice(0, n);
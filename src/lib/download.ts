@@ -0,0 +1,19 @@
+/**
+ * Browser download helpers shared by the PDF and CSV exports.
+ */
+
+/** Quote a CSV cell when it holds a comma, quote or newline */
+export const csvCell = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/** Save text content as a file through a temporary link */
+export function saveBlob(content: string, fileName: string, type: string) {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,58 @@
+/**
+ * Page count helpers.
+ * page_start / page_end / page_eighths come from the parser's deterministic
+ * pagination (55-line pages); older imports only have AI estimates.
+ */
+
+// Page layout — the client-side mirror of supabase/functions/_shared/pagination.ts,
+// so exported PDFs break pages where the parser counted them.
+
+export const LINES_PER_PAGE = 55;
+
+/** Characters per line for each element (10 characters per inch) */
+export const ELEMENT_WIDTH: Record<string, number> = {
+  "Scene Heading": 60,
+  Action: 60,
+  Character: 38,
+  Parenthetical: 25,
+  Dialogue: 35,
+  Lyrics: 35,
+  Transition: 60,
+  Centered: 60,
+};
+
+/** Blank lines before each element when it is not at the top of a page */
+export const SPACE_BEFORE: Record<string, number> = {
+  "Scene Heading": 1,
+  Character: 1,
+  Parenthetical: 0,
+  Dialogue: 0,
+  Lyrics: 0,
+};
+
+export interface ScenePaged {
+  page_start?: number | null;
+  page_end?: number | null;
+  page_eighths?: number | null;
+}
+
+/** "2 3/8", "7/8", "1" — the way stripboards and breakdowns print scene length. */
+export function formatEighths(eighths: number): string {
+  const whole = Math.floor(eighths / 8);
+  const rest = eighths % 8;
+  if (rest === 0) return String(whole);
+  return whole > 0 ? `${whole} ${rest}/8` : `${rest}/8`;
+}
+
+/** Printed pages a scene covers, or null when the scene was never paginated. */
+export function scenePageRange(scene: ScenePaged): number[] | null {
+  if (scene.page_start == null) return null;
+  const end = Math.max(scene.page_end ?? scene.page_start, scene.page_start);
+  return Array.from({ length: end - scene.page_start + 1 }, (_, i) => scene.page_start! + i);
+}
+
+/** Script length in pages from paginated scenes, or null if none are paginated. */
+export function totalPageCount(scenes: ScenePaged[]): number | null {
+  const ends = scenes.map((s) => s.page_end ?? s.page_start).filter((p): p is number => p != null);
+  return ends.length > 0 ? Math.max(...ends) : null;
+}
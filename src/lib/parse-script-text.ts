@@ -5,22 +5,67 @@
  *   - After a CHARACTER cue, subsequent lines are DIALOGUE
  *     unless they are parentheticals like "(continuing)"
  *   - ALL-CAPS short lines are CHARACTER cues
- *   - Lines starting with INT./EXT. are scene headings
+ *   - Lines starting with INT./EXT. (or the script's localised slugline
+ *     prefixes, e.g. "INNEN/TAG") are scene headings
  *   - Lines like "CUT TO:" are transitions
  *   - Everything else is action/description
  */
 
+import { detectSluglineLocale, isSceneHeadingLine, type SluglineLocale } from "@/lib/slugline-locales";
+
 export interface ScriptParagraph {
   type: string;
   text: string;
+  /** Changed in the latest revision (margin asterisk) */
+  revised?: boolean;
+  /** Character cue of the second speaker in a dual-dialogue pair */
+  dual?: boolean;
+}
+
+/* ── Character cues ── */
+
+const CUE_EXTENSION_PATTERNS: [RegExp, string][] = [
+  [/^V\.?\s*O\.?$|^VOICE[\s-]?OVER$/, "V.O."],
+  [/^O\.?\s*S\.?$|^OFF[\s-]?SCREEN$/, "O.S."],
+  [/^O\.?\s*C\.?$|^OFF[\s-]?CAMERA$/, "O.C."],
+  [/^PRE[\s-]?LAP$/, "PRE-LAP"],
+  [/^FILTER(?:ED)?$|^(?:ON|OVER|THROUGH|INTO) (?:THE )?(?:PHONE|RADIO|SPEAKER|INTERCOM|TV|COMMS?)$/, "FILTERED"],
+  [/^CONT'?D\.?$|^CONT\.$|^CONTINUED$|^CONTINUING$/, "CONT'D"],
+];
+
+/** Extensions for lines not recorded on camera — the sound / ADR list */
+export const OFFSCREEN_EXTENSIONS = ["V.O.", "O.S.", "O.C.", "PRE-LAP", "FILTERED"];
+
+/**
+ * Split a cue like "BOB (V.O.) (CONT'D) ^" into the name, normalised
+ * extensions and the dual-dialogue caret. Mirrors parseCharacterCue in
+ * supabase/functions/_shared/entity-normalization.ts.
+ */
+export function parseCue(cue: string): { name: string; extensions: string[]; dual: boolean } {
+  let text = cue.trim();
+  const dual = /\^$/.test(text);
+  if (dual) text = text.replace(/\s*\^$/, "");
+
+  const extensions: string[] = [];
+  const name = text.replace(/\s*\(([^)]*)\)\s*/g, (_, ext: string) => {
+    const raw = ext.replace(/[\u2018\u2019`´]/g, "'").trim().toUpperCase();
+    if (!raw) return " ";
+    const value = CUE_EXTENSION_PATTERNS.find(([re]) => re.test(raw))?.[1] ?? raw;
+    if (!extensions.includes(value)) extensions.push(value);
+    return " ";
+  }).replace(/\s+/g, " ").trim();
+
+  return { name, extensions, dual };
 }
 
 /**
  * Classify an array of screenplay lines into typed paragraphs.
- * Works with both full scenes and isolated blocks.
+ * Works with both full scenes and isolated blocks. The slugline locale is
+ * detected from the lines unless given.
  */
-export function classifyScreenplayLines(lines: string[]): ScriptParagraph[] {
+export function classifyScreenplayLines(lines: string[], locale?: SluglineLocale): ScriptParagraph[] {
   const result: ScriptParagraph[] = [];
+  const lang = locale ?? detectSluglineLocale(lines.join("\n"));
   let lastType = "";
 
   for (let i = 0; i < lines.length; i++) {
@@ -29,7 +74,7 @@ export function classifyScreenplayLines(lines: string[]): ScriptParagraph[] {
     if (!trimmed) continue;
 
     // Scene heading
-    if (/^(INT\.|EXT\.|INT\.\/EXT\.|I\/E\.)/i.test(trimmed)) {
+    if (isSceneHeadingLine(trimmed, lang)) {
       result.push({ type: "Scene Heading", text: trimmed });
       lastType = "Scene Heading";
       continue;
@@ -52,11 +97,13 @@ export function classifyScreenplayLines(lines: string[]): ScriptParagraph[] {
     // Character cue — ALL CAPS, short, may include (V.O.), (O.S.), (CONT'D), etc.
     // Must NOT look like action text (which can also be caps but tends to be longer
     // or contain lowercase). We require at least 2 chars and no lowercase letters.
-    const isAllCaps = /^[A-Z][A-Z\s'.()\-/]+$/.test(trimmed);
+    // A trailing "^" marks the second speaker of dual dialogue.
+    const isAllCaps = /^[A-Z][A-Z\s'.()\-/]+\^?$/.test(trimmed);
     const isShort = trimmed.length < 45;
     const hasLower = /[a-z]/.test(trimmed);
     if (isAllCaps && isShort && !hasLower) {
-      result.push({ type: "Character", text: trimmed });
+      const dual = trimmed.endsWith("^");
+      result.push(dual ? { type: "Character", text: trimmed.replace(/\s*\^$/, ""), dual } : { type: "Character", text: trimmed });
       lastType = "Character";
       continue;
     }
@@ -93,14 +140,127 @@ export function parseSceneFromPlainText(
     return [{ type: "Action", text: fullText }];
   }
 
+  const locale = detectSluglineLocale(fullText);
   const sIdx = startMatch.index;
-  const afterHeading = fullText.substring(sIdx + startMatch[0].length);
-  const nextScene = afterHeading.match(/\n\s*((?:INT\.|EXT\.|INT\.\/EXT\.|I\/E\.).+)/i);
-  const eIdx = nextScene?.index !== undefined
-    ? sIdx + startMatch[0].length + nextScene.index
-    : fullText.length;
+  const afterStart = sIdx + startMatch[0].length;
+  const afterHeading = fullText.substring(afterStart);
+
+  // Scene ends at the newline before the next heading
+  let eIdx = fullText.length;
+  let offset = 0;
+  for (const line of afterHeading.split("\n")) {
+    if (offset > 0 && isSceneHeadingLine(line, locale)) {
+      eIdx = afterStart + offset - 1;
+      break;
+    }
+    offset += line.length + 1;
+  }
 
   const sceneText = fullText.substring(sIdx, eIdx).trim();
   const lines = sceneText.split("\n");
-  return classifyScreenplayLines(lines);
+  return classifyScreenplayLines(lines, locale);
+}
+
+/** Whitespace-insensitive line form, as parse-script stores revised_lines */
+export function normalizeScriptLine(line: string): string {
+  return line.trim().replace(/\s+/g, " ");
+}
+
+/** Revised-line lookup from parsed_scenes.revised_lines */
+export function revisedLineSet(revisedLines: unknown): Set<string> {
+  return new Set(Array.isArray(revisedLines) ? (revisedLines as string[]) : []);
+}
+
+/**
+ * Typed paragraphs for a parsed scene. Structured imports (Fountain, PDF)
+ * store their paragraphs on the scene; everything else is classified from raw_text.
+ * Paragraphs containing a line changed by the latest revision are marked revised.
+ */
+export function sceneParagraphs(scene: { paragraphs?: unknown; raw_text?: string | null; revised_lines?: unknown }): ScriptParagraph[] {
+  const paragraphs = Array.isArray(scene.paragraphs) && scene.paragraphs.length > 0
+    ? scene.paragraphs as ScriptParagraph[]
+    : classifyScreenplayLines((scene.raw_text || "").split("\n"));
+
+  const revised = revisedLineSet(scene.revised_lines);
+  if (revised.size === 0) return paragraphs;
+  const lines = [...revised];
+  return paragraphs.map((p) => {
+    const text = normalizeScriptLine(p.text);
+    // Short lines (cues, "BANG.") only count as an exact match
+    const hit = lines.some((l) => text === l || (l.length >= 12 && text.includes(l)));
+    return p.revised || hit ? { ...p, revised: true } : p;
+  });
+}
+
+/* ── Dialogue lines (parsed_scenes.dialogue_lines, written by parse-script) ── */
+
+export interface DialogueLine {
+  character: string;
+  extensions: string[];
+  /** Spoken simultaneously with another character's speech */
+  dual: boolean;
+  dual_with: string | null;
+  parenthetical: string | null;
+  text: string;
+  word_count: number;
+  scene: number;
+}
+
+/**
+ * Per-line dialogue for a scene. Scenes parsed before dialogue_lines existed
+ * are derived from their paragraphs the same way.
+ */
+export function sceneDialogueLines(scene: {
+  scene_number: number;
+  dialogue_lines?: unknown;
+  paragraphs?: unknown;
+  raw_text?: string | null;
+}): DialogueLine[] {
+  if (Array.isArray(scene.dialogue_lines)) return scene.dialogue_lines as DialogueLine[];
+
+  const result: DialogueLine[] = [];
+  let cue: ReturnType<typeof parseCue> | null = null;
+  let speechStart = 0;
+  let prev: { start: number; end: number; name: string } | null = null;
+  let parenthetical: string | null = null;
+  // Classified raw text has one paragraph per printed line; wrapped speech is joined
+  let lastType = "";
+
+  for (const p of sceneParagraphs(scene)) {
+    const previousType = lastType;
+    lastType = p.type;
+    if (p.type === "Character") {
+      if (cue && result.length > speechStart) prev = { start: speechStart, end: result.length, name: cue.name };
+      cue = parseCue(p.text + (p.dual ? " ^" : ""));
+      speechStart = result.length;
+      parenthetical = null;
+      if (cue.dual && prev) {
+        for (let i = prev.start; i < prev.end; i++) Object.assign(result[i], { dual: true, dual_with: cue.name });
+      }
+    } else if (p.type === "Parenthetical" && cue) {
+      parenthetical = p.text;
+    } else if ((p.type === "Dialogue" || p.type === "Lyrics") && cue) {
+      const last = result[result.length - 1];
+      if (previousType === p.type && last && result.length > speechStart) {
+        last.text += " " + p.text;
+        last.word_count += p.text.split(/\s+/).filter(Boolean).length;
+        continue;
+      }
+      result.push({
+        character: cue.name,
+        extensions: cue.extensions,
+        dual: cue.dual,
+        dual_with: cue.dual ? prev?.name ?? null : null,
+        parenthetical,
+        text: p.text,
+        word_count: p.text.split(/\s+/).filter(Boolean).length,
+        scene: scene.scene_number,
+      });
+      parenthetical = null;
+    } else if (p.type !== "Parenthetical" && p.type !== "Dialogue") {
+      cue = null;
+      prev = null;
+    }
+  }
+  return result;
 }
@@ -168,63 +168,70 @@ const ENGINE_LABELS: Record<string, string> = {
 };
 
 // ── Layout constants (US Letter in mm) ──
-const PAGE_W = 215.9;
-const PAGE_H = 279.4;
-const MARGIN_L = 20;
-const MARGIN_R = 20;
-const MARGIN_T = 25;
-const MARGIN_B = 20;
-const CONTENT_W = PAGE_W - MARGIN_L - MARGIN_R;
-const FOOTER_Y = PAGE_H - 12;
+export const PAGE_W = 215.9;
+export const PAGE_H = 279.4;
+export const MARGIN_L = 20;
+export const MARGIN_R = 20;
+export const MARGIN_T = 25;
+export const MARGIN_B = 20;
+export const CONTENT_W = PAGE_W - MARGIN_L - MARGIN_R;
+export const FOOTER_Y = PAGE_H - 12;
 
 // ── Colors (print-friendly white background) ──
-const C_BG = [255, 255, 255] as const;
-const C_CARD = [245, 247, 250] as const;
-const C_PRIMARY = [25, 80, 180] as const;
-const C_TEXT = [20, 25, 35] as const;
-const C_MUTED = [100, 110, 130] as const;
-const C_BORDER = [200, 205, 215] as const;
-const C_DANGER = [180, 30, 50] as const;
-const C_SUCCESS = [20, 140, 60] as const;
-
-class BiblePdfBuilder {
-  private doc: jsPDF;
-  private y = MARGIN_T;
-  private pageNum = 1;
-  private filmTitle: string;
-
-  constructor(filmTitle: string) {
+export const C_BG = [255, 255, 255] as const;
+export const C_CARD = [245, 247, 250] as const;
+export const C_PRIMARY = [25, 80, 180] as const;
+export const C_TEXT = [20, 25, 35] as const;
+export const C_MUTED = [100, 110, 130] as const;
+export const C_BORDER = [200, 205, 215] as const;
+export const C_DANGER = [180, 30, 50] as const;
+export const C_SUCCESS = [20, 140, 60] as const;
+
+/**
+ * Page management and drawing primitives shared by the printable documents
+ * (Production Bible, breakdown sheets, call sheets, costume plots). Subclasses
+ * render their own sections.
+ */
+export class PdfLayoutBuilder {
+  protected doc: jsPDF;
+  protected y = MARGIN_T;
+  protected pageNum = 1;
+  protected filmTitle: string;
+  private documentLabel: string;
+
+  constructor(filmTitle: string, documentLabel: string) {
     this.filmTitle = filmTitle;
+    this.documentLabel = documentLabel;
     this.doc = new jsPDF({ orientation: "portrait", unit: "mm", format: "letter" });
     this.setBackground();
   }
 
   // ── Page management ──
 
-  private setBackground() {
+  protected setBackground() {
     this.doc.setFillColor(...C_BG);
     this.doc.rect(0, 0, PAGE_W, PAGE_H, "F");
     this.drawFooter();
   }
 
-  private drawFooter() {
+  protected drawFooter() {
     this.doc.setFont("helvetica", "normal");
     this.doc.setFontSize(7);
     this.doc.setTextColor(...C_MUTED);
-    this.doc.text(`${this.filmTitle} — Production Bible`, MARGIN_L, FOOTER_Y);
+    this.doc.text(`${this.filmTitle} — ${this.documentLabel}`, MARGIN_L, FOOTER_Y);
     this.doc.text(`Page ${this.pageNum}`, PAGE_W - MARGIN_R, FOOTER_Y, { align: "right" });
     this.doc.setDrawColor(...C_BORDER);
     this.doc.setLineWidth(0.3);
     this.doc.line(MARGIN_L, FOOTER_Y - 4, PAGE_W - MARGIN_R, FOOTER_Y - 4);
   }
 
-  private checkPage(needed: number) {
+  protected checkPage(needed: number) {
     if (this.y + needed > PAGE_H - MARGIN_B - 10) {
       this.newPage();
     }
   }
 
-  private newPage() {
+  protected newPage() {
     this.doc.addPage("letter", "portrait");
     this.pageNum++;
     this.y = MARGIN_T;
@@ -233,7 +240,7 @@ class BiblePdfBuilder {
 
   // ── Drawing primitives ──
 
-  private sectionTitle(title: string) {
+  protected sectionTitle(title: string) {
     this.checkPage(16);
     this.doc.setFillColor(...C_PRIMARY);
     this.doc.rect(MARGIN_L, this.y, 3, 8, "F");
@@ -244,7 +251,7 @@ class BiblePdfBuilder {
     this.y += 14;
   }
 
-  private subHeading(text: string) {
+  protected subHeading(text: string) {
     this.checkPage(10);
     this.doc.setFont("helvetica", "bold");
     this.doc.setFontSize(9);
@@ -253,14 +260,14 @@ class BiblePdfBuilder {
     this.y += 8;
   }
 
-  private label(text: string) {
+  protected label(text: string) {
     this.doc.setFont("helvetica", "bold");
     this.doc.setFontSize(7);
     this.doc.setTextColor(...C_MUTED);
     this.doc.text(text.toUpperCase(), MARGIN_L + 4, this.y);
   }
 
-  private value(text: string, x?: number) {
+  protected value(text: string, x?: number) {
     this.doc.setFont("helvetica", "normal");
     this.doc.setFontSize(8.5);
     this.doc.setTextColor(...C_TEXT);
@@ -269,7 +276,7 @@ class BiblePdfBuilder {
     this.y += lines.length * 4;
   }
 
-  private fieldRow(lbl: string, val: string | boolean | number | null | undefined) {
+  protected fieldRow(lbl: string, val: string | boolean | number | null | undefined) {
     if (val === undefined || val === null || val === "") return;
     this.checkPage(10);
     this.label(lbl);
@@ -278,7 +285,7 @@ class BiblePdfBuilder {
     this.y += 2;
   }
 
-  private bulletList(items: string[], color: readonly [number, number, number] = C_TEXT) {
+  protected bulletList(items: string[], color: readonly [number, number, number] = C_TEXT) {
     for (const item of items) {
       this.checkPage(8);
       this.doc.setFont("helvetica", "normal");
@@ -290,13 +297,19 @@ class BiblePdfBuilder {
     }
   }
 
-  private separator() {
+  protected separator() {
     this.y += 2;
     this.doc.setDrawColor(...C_BORDER);
     this.doc.setLineWidth(0.2);
     this.doc.line(MARGIN_L + 4, this.y, PAGE_W - MARGIN_R - 4, this.y);
     this.y += 4;
   }
+}
+
+class BiblePdfBuilder extends PdfLayoutBuilder {
+  constructor(filmTitle: string) {
+    super(filmTitle, "Production Bible");
+  }
 
   // ── Cover page ──
 
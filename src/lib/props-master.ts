@@ -0,0 +1,45 @@
+/**
+ * Props master list — the props department's record of every tracked prop:
+ * scenes, owner, hero / stunt / background designation, quantities and the
+ * prop's state scene by scene.
+ */
+
+export type PropDesignation = "hero" | "stunt" | "background";
+
+export const PROP_DESIGNATIONS: { value: PropDesignation; label: string }[] = [
+  { value: "hero", label: "Hero" },
+  { value: "stunt", label: "Stunt" },
+  { value: "background", label: "Background" },
+];
+
+/** Suggested per-scene states; any other text is kept as written */
+export const PROP_STATES = ["intact", "damaged", "broken", "bloodied", "wet", "dirty", "burnt", "open", "empty"] as const;
+
+export const DEFAULT_PROP_STATE = "intact";
+
+/** A prop's state in one scene; scenes without an entry are intact */
+export const propStateIn = (sceneStates: Record<string, string> | null | undefined, sceneNumber: number) =>
+  sceneStates?.[String(sceneNumber)] || DEFAULT_PROP_STATE;
+
+/** Scenes whose key_objects mention the prop (either name containing the other, case-insensitively) */
+export function propSceneNumbers(
+  name: string,
+  scenes: { scene_number: number; key_objects: string[] | null; revision_status: string }[],
+): number[] {
+  const target = name.trim().toLowerCase();
+  return scenes
+    .filter(
+      (s) =>
+        s.revision_status !== "omitted" &&
+        (s.key_objects || []).some((o) => {
+          const object = o.trim().toLowerCase();
+          return object === target || object.includes(target) || target.includes(object);
+        }),
+    )
+    .map((s) => s.scene_number)
+    .sort((a, b) => a - b);
+}
+
+/** Identity token code for a prop, e.g. "PROP_BREAKAWAY_BOTTLE" */
+export const propRefCode = (name: string) =>
+  `PROP_${name.toUpperCase().replace(/[^A-Z0-9]+/g, "_").replace(/^_+|_+$/g, "")}`;
@@ -0,0 +1,43 @@
+/**
+ * Standard shooting-script revision colours, in issue order.
+ * The first locked draft is White; each later revision set takes the next colour.
+ * Mirrored for parse-script in supabase/functions/_shared/revision-colors.ts.
+ */
+
+export interface RevisionColor {
+  name: string;
+  /** Page tint used for headers and UI swatches */
+  hex: string;
+}
+
+export const REVISION_COLORS: RevisionColor[] = [
+  { name: "White", hex: "#FFFFFF" },
+  { name: "Blue", hex: "#BFD9FF" },
+  { name: "Pink", hex: "#FFC8DC" },
+  { name: "Yellow", hex: "#FFF3A6" },
+  { name: "Green", hex: "#C6EFC1" },
+  { name: "Goldenrod", hex: "#F2D27A" },
+  { name: "Buff", hex: "#F0E0C0" },
+  { name: "Salmon", hex: "#FFB9A0" },
+  { name: "Cherry", hex: "#E8707E" },
+];
+
+/** Colour for the nth revision set (0 = White), cycling after Cherry as Double White, Double Blue, … */
+export function revisionColor(index: number): RevisionColor {
+  const base = REVISION_COLORS[index % REVISION_COLORS.length];
+  const cycle = Math.floor(index / REVISION_COLORS.length);
+  if (cycle === 0) return base;
+  return { ...base, name: `${cycle === 1 ? "Double" : cycle === 2 ? "Triple" : `${cycle + 1}×`} ${base.name}` };
+}
+
+export function hexToRgb(hex: string): [number, number, number] {
+  const n = parseInt(hex.replace("#", ""), 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+}
+
+/** Swatch for a stored colour name, including cycled names like "Double Blue" */
+export function revisionColorHex(name: string | null | undefined): string | null {
+  if (!name) return null;
+  const base = name.split(" ").pop();
+  return REVISION_COLORS.find((c) => c.name === base)?.hex ?? null;
+}
@@ -0,0 +1,20 @@
+/**
+ * Scene number display helpers.
+ * scene_number is the 1..N ordinal every scene-keyed table joins on;
+ * production_scene_number is what a locked shooting script prints ("12A").
+ */
+
+export interface SceneNumbered {
+  scene_number: number;
+  production_scene_number?: string | null;
+}
+
+/** Printed scene number, falling back to the ordinal for unnumbered scripts. */
+export function sceneNumberLabel(scene: SceneNumbered): string {
+  return scene.production_scene_number || String(scene.scene_number);
+}
+
+/** Ordinal → printed number lookup for rows that only carry scene_number (shots, conflicts). */
+export function buildSceneLabelMap(scenes: SceneNumbered[]): Map<number, string> {
+  return new Map(scenes.map((s) => [s.scene_number, sceneNumberLabel(s)]));
+}
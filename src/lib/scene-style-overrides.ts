@@ -0,0 +1,88 @@
+/**
+ * Scene Style Overrides — per-scene adjustments layered on the film's style
+ * contract, compiled from the scene breakdown by compile-style-contract.
+ *
+ * A field edited by hand is locked (scene_style_overrides.locked_fields) and a
+ * recompile leaves it alone; unlocked fields are rebuilt from the scene data.
+ * compiled_values keeps the last compile's output so unlocking can restore it.
+ * An empty field adds nothing, and the scene inherits the film contract.
+ */
+
+import type { Tables } from "@/integrations/supabase/types";
+
+export type SceneStyleOverride = Tables<"scene_style_overrides">;
+export type StyleContract = Tables<"film_style_contracts">;
+
+export type OverrideField =
+  | "mood_override"
+  | "lighting_override"
+  | "color_shift"
+  | "environment_texture"
+  | "time_of_day_grade"
+  | "camera_feel"
+  | "custom_negative";
+
+/** Editable fields with the film contract field each one refines */
+export const OVERRIDE_FIELDS: { key: OverrideField; label: string; inherits: keyof StyleContract; inheritsLabel: string }[] = [
+  { key: "mood_override", label: "Mood", inherits: "visual_dna", inheritsLabel: "Visual DNA" },
+  { key: "lighting_override", label: "Lighting", inherits: "lighting_doctrine", inheritsLabel: "Lighting Doctrine" },
+  { key: "color_shift", label: "Colour Shift", inherits: "color_mandate", inheritsLabel: "Color Mandate" },
+  { key: "time_of_day_grade", label: "Time-of-Day Grade", inherits: "lighting_doctrine", inheritsLabel: "Lighting Doctrine" },
+  { key: "environment_texture", label: "Environment Texture", inherits: "texture_mandate", inheritsLabel: "Texture Mandate" },
+  { key: "camera_feel", label: "Camera Feel", inherits: "lens_philosophy", inheritsLabel: "Lens Philosophy" },
+  { key: "custom_negative", label: "Extra Negative", inherits: "negative_prompt_base", inheritsLabel: "Negative Prompt" },
+];
+
+/** The color_shift keys compile-style-contract writes */
+export interface ColorShift {
+  saturate?: number;
+  desaturate?: number;
+  push_warm?: boolean;
+  push_cool?: boolean;
+}
+
+export type OverrideFieldState = "locked" | "compiled" | "inherits";
+
+export function isEmptyOverride(value: unknown): boolean {
+  if (value === null || value === undefined) return true;
+  if (typeof value === "string") return value.trim() === "";
+  if (typeof value === "object") return Object.keys(value as object).length === 0;
+  return false;
+}
+
+export function overrideFieldState(value: unknown, locked: boolean): OverrideFieldState {
+  if (locked) return "locked";
+  return isEmptyOverride(value) ? "inherits" : "compiled";
+}
+
+export function toColorShift(value: unknown): ColorShift {
+  const src = (value && typeof value === "object" && !Array.isArray(value) ? value : {}) as Record<string, unknown>;
+  const shift: ColorShift = {};
+  if (typeof src.saturate === "number" && src.saturate > 0) shift.saturate = src.saturate;
+  if (typeof src.desaturate === "number" && src.desaturate > 0) shift.desaturate = src.desaturate;
+  if (src.push_warm === true) shift.push_warm = true;
+  if (src.push_cool === true) shift.push_cool = true;
+  return shift;
+}
+
+export function describeColorShift(value: unknown): string {
+  const shift = toColorShift(value);
+  const parts = [
+    shift.saturate ? `saturate +${shift.saturate}%` : "",
+    shift.desaturate ? `desaturate −${shift.desaturate}%` : "",
+    shift.push_warm ? "push warm" : "",
+    shift.push_cool ? "push cool" : "",
+  ].filter(Boolean);
+  return parts.join(", ");
+}
+
+/** One line for a contract or override value: text as is, objects as "key: value" pairs */
+export function describeStyleValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value !== "object") return String(value);
+  if (Array.isArray(value)) return value.map(describeStyleValue).filter(Boolean).join(", ");
+  return Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== null && v !== "" && typeof v !== "object")
+    .map(([k, v]) => `${k.replace(/_/g, " ")}: ${String(v)}`)
+    .join(" · ");
+}
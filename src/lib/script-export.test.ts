@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { selectSides, type ExportScene, type SidesOptions } from "@/lib/script-export";
+
+const scene = (sceneNumber: number, characters: string[], pages: [number, number] | null, fields: Partial<ExportScene> = {}): ExportScene => ({
+  scene_number: sceneNumber,
+  heading: `INT. ROOM ${sceneNumber} - DAY`,
+  characters,
+  page_start: pages?.[0] ?? null,
+  page_end: pages?.[1] ?? null,
+  ...fields,
+});
+
+const sides = (options: Partial<SidesOptions>): SidesOptions => ({
+  character: "ANNA",
+  highlight: false,
+  others: "strike",
+  label: "ANNA",
+  ...options,
+});
+
+const numbers = (scenes: ExportScene[]) => scenes.map((s) => s.scene_number);
+
+describe("selectSides", () => {
+  const script = [
+    scene(1, ["BEN"], [1, 1]),
+    scene(2, ["Anna "], [1, 2]),
+    scene(3, ["BEN"], [2, 2]),
+    scene(4, ["BEN"], [3, 3]),
+    scene(5, ["ANNA"], [4, 4]),
+  ];
+
+  it("brings in the scenes sharing a page with the character's scenes, struck through", () => {
+    const { scenes, struck } = selectSides(script, sides({}));
+    expect(numbers(scenes)).toEqual([1, 2, 3, 5]);
+    expect(numbers([...struck])).toEqual([1, 3]);
+  });
+
+  it("prints only the character's scenes when the others are removed", () => {
+    const { scenes, struck } = selectSides(script, sides({ others: "remove" }));
+    expect(numbers(scenes)).toEqual([2, 5]);
+    expect(struck.size).toBe(0);
+  });
+
+  it("keeps a shoot day's scenes in shooting order without repeating shared pages", () => {
+    const { scenes, struck } = selectSides(script, sides({ character: null, sceneNumbers: [5, 1, 2] }));
+    expect(numbers(scenes)).toEqual([5, 1, 2, 3]);
+    expect(numbers([...struck])).toEqual([3]);
+  });
+
+  it("uses neighbouring scenes when the script was never paginated, skipping omitted ones", () => {
+    const unpaginated = [
+      scene(1, ["BEN"], null, { revision_status: "omitted" }),
+      scene(2, ["ANNA"], null),
+      scene(3, ["BEN"], null),
+      scene(4, ["BEN"], null),
+    ];
+    const { scenes, struck } = selectSides(unpaginated, sides({}));
+    expect(numbers(scenes)).toEqual([2, 3]);
+    expect(numbers([...struck])).toEqual([3]);
+  });
+});
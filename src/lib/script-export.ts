@@ -0,0 +1,518 @@
+import jsPDF from "jspdf";
+import { sceneParagraphs } from "@/lib/parse-script-text";
+import { ELEMENT_WIDTH, LINES_PER_PAGE, SPACE_BEFORE } from "@/lib/page-count";
+import { sceneNumberLabel } from "@/lib/scene-numbers";
+import { hexToRgb, type RevisionColor } from "@/lib/revision-colors";
+import { saveBlob } from "@/lib/download";
+
+// ═══════════════════════════════════════════════════════════
+// Script Export — Fountain, Final Draft (FDX) and screenplay PDF
+// Rebuilt from parsed_scenes, so renumbered, omitted and revised
+// scenes export as they stand now rather than as first uploaded.
+// ═══════════════════════════════════════════════════════════
+
+export type ScriptExportFormat = "fountain" | "fdx" | "pdf";
+
+export interface ExportScene {
+  scene_number: number;
+  production_scene_number?: string | null;
+  heading: string;
+  raw_text?: string | null;
+  paragraphs?: unknown;
+  revision_status?: string | null;
+  characters?: string[] | null;
+  page_start?: number | null;
+  page_end?: number | null;
+}
+
+export interface ScriptExportOptions {
+  title: string;
+  writers?: string | null;
+  /** Print scene numbers on headings (both margins in the PDF) */
+  sceneNumbers: boolean;
+  /** Revision set named in the page header, tinted with its colour */
+  revision?: { color: RevisionColor; date: string } | null;
+}
+
+/** Sides: only the scenes an actor (or a shoot day) needs, with neighbouring scenes on shared pages struck through or dropped */
+export interface SidesOptions {
+  /** Upper-cased character; null keeps every selected scene (shoot-day sides) */
+  character: string | null;
+  /** Restrict to these scene ordinals, in this order (a shoot day's strips); all scenes otherwise */
+  sceneNumbers?: number[] | null;
+  /** Highlight the character's cues, parentheticals and dialogue */
+  highlight: boolean;
+  /** Other scenes sharing a page: printed struck through, or left out */
+  others: "strike" | "remove";
+  /** Cover line, e.g. "ANNA" or "Day 3 — Tue 4 Nov" */
+  label: string;
+}
+
+interface ExportParagraph {
+  type: string;
+  text: string;
+  dual?: boolean;
+  depth?: number;
+  revised?: boolean;
+}
+
+const SCENE_NUMBER_MARKER_RE = /\s*#[^#\s]+#\s*$/;
+const STANDARD_HEADING_RE = /^(?:INT|EXT|EST|INT\.?\/EXT|I\/E)[.\s]/i;
+const NON_PRINTING_TYPES = new Set(["Section", "Synopsis", "Note", "Page Break"]);
+const SPEECH_TYPES = new Set(["Character", "Parenthetical", "Dialogue", "Lyrics"]);
+
+/** Paragraphs of one scene, always led by its heading; omitted scenes export as a numbered OMITTED */
+function exportParagraphs(scene: ExportScene): ExportParagraph[] {
+  if (scene.revision_status === "omitted") return [{ type: "Scene Heading", text: "OMITTED" }];
+  const paragraphs = (sceneParagraphs(scene) as ExportParagraph[]).map((p) =>
+    p.type === "Scene Heading" ? { ...p, text: p.text.replace(SCENE_NUMBER_MARKER_RE, "") } : p
+  );
+  if (paragraphs[0]?.type !== "Scene Heading") {
+    paragraphs.unshift({ type: "Scene Heading", text: scene.heading.replace(SCENE_NUMBER_MARKER_RE, "") });
+  }
+  return paragraphs;
+}
+
+function revisionLabel(options: ScriptExportOptions): string | null {
+  return options.revision ? `${options.revision.color.name} Revision (${options.revision.date})` : null;
+}
+
+function isAllCaps(text: string): boolean {
+  return /[A-Z]/.test(text) && text === text.toUpperCase();
+}
+
+// ── Fountain ──
+
+export function buildFountain(scenes: ExportScene[], options: ScriptExportOptions): string {
+  const blocks: string[] = [];
+  const titlePage = [`Title: ${options.title}`];
+  if (options.writers) titlePage.push("Credit: Written by", `Author: ${options.writers}`);
+  const revision = revisionLabel(options);
+  if (revision) titlePage.push(`Draft date: ${revision}`);
+  blocks.push(titlePage.join("\n"));
+
+  for (const scene of scenes) {
+    let speech: string[] | null = null;
+    const flushSpeech = () => {
+      if (speech) blocks.push(speech.join("\n"));
+      speech = null;
+    };
+
+    for (const p of exportParagraphs(scene)) {
+      const text = p.text.trim();
+      switch (p.type) {
+        case "Scene Heading": {
+          flushSpeech();
+          const number = options.sceneNumbers ? ` #${sceneNumberLabel(scene)}#` : "";
+          blocks.push(`${STANDARD_HEADING_RE.test(text) ? "" : "."}${text.toUpperCase()}${number}`);
+          break;
+        }
+        case "Character":
+          flushSpeech();
+          speech = [`${text.toUpperCase()}${p.dual ? " ^" : ""}`];
+          break;
+        case "Parenthetical":
+        case "Dialogue":
+        case "Lyrics":
+          if (!speech) speech = [];
+          speech.push(...text.split("\n").map((l) => (p.type === "Lyrics" ? `~${l}` : l)));
+          break;
+        case "Transition":
+          flushSpeech();
+          blocks.push(/TO:$/.test(text) && isAllCaps(text) ? text : `> ${text.toUpperCase()}`);
+          break;
+        case "Centered":
+          flushSpeech();
+          blocks.push(`> ${text} <`);
+          break;
+        case "Section":
+          flushSpeech();
+          blocks.push(`${"#".repeat(p.depth || 1)} ${text}`);
+          break;
+        case "Synopsis":
+          flushSpeech();
+          blocks.push(`= ${text}`);
+          break;
+        case "Note":
+          flushSpeech();
+          blocks.push(`[[${text}]]`);
+          break;
+        case "Page Break":
+          flushSpeech();
+          blocks.push("===");
+          break;
+        default:
+          flushSpeech();
+          // Upper-case action lines would read back as cues or headings
+          blocks.push(isAllCaps(text) && !text.includes("\n") ? `!${text}` : text);
+          break;
+      }
+    }
+    flushSpeech();
+  }
+
+  return blocks.join("\n\n") + "\n";
+}
+
+// ── Final Draft ──
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+const FDX_TYPES = new Set(["Scene Heading", "Action", "Character", "Parenthetical", "Dialogue", "Transition", "Lyrics"]);
+
+export function buildFdx(scenes: ExportScene[], options: ScriptExportOptions): string {
+  const revision = options.revision;
+  const out: string[] = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no" ?>',
+    '<FinalDraft DocumentType="Script" Template="No" Version="5">',
+    "  <Content>",
+  ];
+
+  for (const scene of scenes) {
+    // Dual dialogue wraps both speeches in <Paragraph><DualDialogue>…</DualDialogue></Paragraph>
+    let speechStart = -1;
+    let inDual = false;
+    const closeDual = () => {
+      if (!inDual) return;
+      out.push("    </DualDialogue>", "    </Paragraph>");
+      inDual = false;
+      speechStart = -1;
+    };
+    for (const p of exportParagraphs(scene)) {
+      if (NON_PRINTING_TYPES.has(p.type)) continue;
+      const type = p.type === "Centered" ? "Action" : FDX_TYPES.has(p.type) ? p.type : "Action";
+      if (type === "Character") {
+        closeDual();
+        if (p.dual && speechStart >= 0) {
+          out.splice(speechStart, 0, "    <Paragraph>", "    <DualDialogue>");
+          inDual = true;
+        }
+        speechStart = out.length;
+      } else if (type !== "Parenthetical" && type !== "Dialogue") {
+        closeDual();
+        speechStart = -1;
+      }
+      const number = type === "Scene Heading" && options.sceneNumbers ? ` Number="${escapeXml(sceneNumberLabel(scene))}"` : "";
+      const align = p.type === "Centered" ? ' Alignment="Center"' : "";
+      const mark = p.revised && revision ? ' RevisionID="1"' : "";
+      const text = type === "Scene Heading" || type === "Character" || type === "Transition" ? p.text.toUpperCase() : p.text;
+      out.push(`    <Paragraph Type="${type}"${number}${align}>`, `      <Text${mark}>${escapeXml(text)}</Text>`, "    </Paragraph>");
+    }
+    closeDual();
+  }
+  out.push("  </Content>");
+
+  out.push("  <TitlePage>", "    <Content>");
+  const titleLines = [options.title.toUpperCase(), "", "Written by", "", options.writers || ""];
+  for (const line of titleLines) {
+    out.push('      <Paragraph Alignment="Center" Type="Action">', `        <Text>${escapeXml(line)}</Text>`, "      </Paragraph>");
+  }
+  out.push("    </Content>", "  </TitlePage>");
+
+  if (revision) {
+    out.push(
+      '  <Revisions ActiveSet="1" Location="7.75" RevisionMode="OffMode" ShowAllMarks="No" ShowAllSets="Yes">',
+      `    <Revision Color="${revision.color.hex}" FullRevision="No" ID="1" Mark="*" Name="${escapeXml(revision.color.name)} Revision" Style=""/>`,
+      "  </Revisions>"
+    );
+  }
+  out.push("</FinalDraft>");
+  return out.join("\n") + "\n";
+}
+
+// ── Screenplay PDF ──
+// US Letter, 12pt Courier, 55 body lines per page — the same layout the
+// parser's pagination counts, so page numbers agree with the breakdown.
+
+const PAGE_W = 612;
+const TOP = 72;
+const LINE_H = 12;
+const HEADER_Y = 42;
+
+const X_ACTION = 108;
+const X_DIALOGUE = 180;
+const X_PARENTHETICAL = 223;
+const X_CHARACTER = 266;
+const X_RIGHT = 540;
+const X_NUMBER_LEFT = 72;
+const X_REVISION_MARK = 570;
+
+function wrapWords(text: string, width: number): string[] {
+  const lines: string[] = [];
+  for (const hardLine of text.split("\n")) {
+    let line = "";
+    for (let word of hardLine.split(/\s+/).filter(Boolean)) {
+      while (word.length > width) {
+        if (line) lines.push(line);
+        lines.push(word.slice(0, width));
+        word = word.slice(width);
+        line = "";
+      }
+      if (!line) line = word;
+      else if (line.length + 1 + word.length <= width) line += " " + word;
+      else {
+        lines.push(line);
+        line = word;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+class ScriptPdfBuilder {
+  private doc: jsPDF;
+  private line = 0;
+  private pageNum = 0;
+  private blank = true;
+  private options: ScriptExportOptions;
+  private struck = false;
+  private highlighted = false;
+
+  constructor(options: ScriptExportOptions) {
+    this.options = options;
+    this.doc = new jsPDF({ orientation: "portrait", unit: "pt", format: "letter" });
+    this.doc.setFont("courier", "normal");
+    this.doc.setFontSize(12);
+  }
+
+  // ── Page management ──
+
+  private drawHeader() {
+    this.doc.setTextColor(0, 0, 0);
+    const revision = this.options.revision;
+    const label = revisionLabel(this.options);
+    if (revision && label) {
+      // Colour band marks which revision set the page belongs to
+      this.doc.setFillColor(...hexToRgb(revision.color.hex));
+      this.doc.rect(0, 0, PAGE_W, 14, "F");
+      this.doc.setFontSize(10);
+      this.doc.text(label.toUpperCase(), X_ACTION, HEADER_Y);
+      this.doc.setFontSize(12);
+    }
+    // Page one is unnumbered by convention
+    if (this.pageNum > 1) this.doc.text(`${this.pageNum}.`, X_RIGHT, HEADER_Y, { align: "right" });
+  }
+
+  private newPage() {
+    if (!this.blank) this.doc.addPage("letter", "portrait");
+    this.blank = false;
+    this.pageNum++;
+    this.line = 0;
+    this.drawHeader();
+  }
+
+  private remaining(): number {
+    return LINES_PER_PAGE - this.line;
+  }
+
+  private print(text: string, x: number, opts?: { align?: "right" | "center" }) {
+    const y = TOP + this.line * LINE_H;
+    // Courier 12pt is 7.2pt per character
+    const width = text.length * 7.2;
+    const left = opts?.align === "right" ? x - width : opts?.align === "center" ? x - width / 2 : x;
+    if (this.highlighted && text) {
+      this.doc.setFillColor(255, 236, 120);
+      this.doc.rect(left - 2, y - 9.5, width + 4, LINE_H, "F");
+    }
+    if (this.struck) this.doc.setTextColor(150, 150, 150);
+    else this.doc.setTextColor(0, 0, 0);
+    this.doc.text(text, x, y, opts);
+    if (this.struck && text) {
+      this.doc.setDrawColor(120, 120, 120);
+      this.doc.setLineWidth(0.8);
+      this.doc.line(left, y - 3.5, left + width, y - 3.5);
+    }
+    this.line++;
+  }
+
+  // ── Elements ──
+
+  private elementX(type: string): number {
+    switch (type) {
+      case "Character": return X_CHARACTER;
+      case "Parenthetical": return X_PARENTHETICAL;
+      case "Dialogue":
+      case "Lyrics": return X_DIALOGUE;
+      default: return X_ACTION;
+    }
+  }
+
+  private printLines(p: ExportParagraph, lines: string[]) {
+    const startLine = this.line;
+    for (const l of lines) {
+      if (p.type === "Transition") this.print(l, X_RIGHT, { align: "right" });
+      else if (p.type === "Centered") this.print(l, PAGE_W / 2, { align: "center" });
+      else this.print(l, this.elementX(p.type));
+    }
+    if (p.revised && this.options.revision) {
+      for (let i = startLine; i < this.line; i++) this.doc.text("*", X_REVISION_MARK, TOP + i * LINE_H);
+    }
+  }
+
+  private renderParagraph(p: ExportParagraph, next: ExportParagraph | undefined, cue: string, number: string | null) {
+    const upper = p.type === "Scene Heading" || p.type === "Character" || p.type === "Transition";
+    const lines = wrapWords(upper ? p.text.toUpperCase() : p.text, ELEMENT_WIDTH[p.type] ?? 60);
+    const before = this.line === 0 ? 0 : SPACE_BEFORE[p.type] ?? 1;
+    const keepWithNext = (p.type === "Scene Heading" || p.type === "Character") && next ? 1 + (SPACE_BEFORE[next.type] ?? 1) : 0;
+
+    if (before + lines.length + keepWithNext <= this.remaining()) {
+      this.line += before;
+    } else if ((p.type === "Dialogue" || p.type === "Action") && this.remaining() - before >= 3 && lines.length > 2) {
+      // Split across the page
+      this.line += before;
+      this.printAcrossPages(p, lines, cue);
+      return;
+    } else {
+      this.newPage();
+    }
+
+    if (p.type === "Scene Heading" && number) {
+      const y = TOP + this.line * LINE_H;
+      this.doc.text(number, X_NUMBER_LEFT, y);
+      this.doc.text(number, X_RIGHT, y);
+    }
+    this.printAcrossPages(p, lines, cue);
+  }
+
+  /** Print from the current line on, breaking onto as many pages as needed — speeches carry (MORE) and a (CONT'D) cue at each break */
+  private printAcrossPages(p: ExportParagraph, lines: string[], cue: string) {
+    const isDialogue = p.type === "Dialogue";
+    let rest = lines;
+    while (rest.length > this.remaining()) {
+      const fit = this.remaining() - (isDialogue ? 1 : 0);
+      this.printLines(p, rest.slice(0, fit));
+      rest = rest.slice(fit);
+      if (isDialogue) this.print("(MORE)", X_CHARACTER);
+      this.newPage();
+      if (isDialogue) this.print(`${cue} (CONT'D)`, X_CHARACTER);
+    }
+    this.printLines(p, rest);
+  }
+
+  // ── Title page ──
+
+  private renderTitlePage() {
+    this.newPage();
+    const { title, writers } = this.options;
+    this.doc.text(title.toUpperCase(), PAGE_W / 2, 288, { align: "center" });
+    if (writers) {
+      this.doc.text("Written by", PAGE_W / 2, 336, { align: "center" });
+      this.doc.text(writers, PAGE_W / 2, 360, { align: "center" });
+    }
+  }
+
+  private renderSidesCover(sides: SidesOptions, scenes: ExportScene[]) {
+    this.newPage();
+    this.doc.text(this.options.title.toUpperCase(), PAGE_W / 2, 216, { align: "center" });
+    this.doc.text("SIDES", PAGE_W / 2, 252, { align: "center" });
+    this.doc.text(sides.label.toUpperCase(), PAGE_W / 2, 276, { align: "center" });
+    this.doc.setFontSize(10);
+    // The list fills the cover down to the bottom margin; the rest are counted
+    const rows = Math.floor((TOP + LINES_PER_PAGE * LINE_H - 336) / LINE_H);
+    const listed = scenes.length > rows ? scenes.slice(0, rows - 1) : scenes;
+    listed.forEach((scene, i) => {
+      const heading = scene.heading.replace(SCENE_NUMBER_MARKER_RE, "").toUpperCase();
+      this.doc.text(`${sceneNumberLabel(scene).padStart(4)}  ${heading}`.slice(0, 72), X_ACTION, 336 + i * LINE_H);
+    });
+    if (listed.length < scenes.length) {
+      this.doc.text(`      +${scenes.length - listed.length} more scenes`, X_ACTION, 336 + listed.length * LINE_H);
+    }
+    this.doc.setFontSize(12);
+  }
+
+  /** Full script, or sides when `sides` is given (`struck` scenes print struck through) */
+  generate(scenes: ExportScene[], sides?: { options: SidesOptions; struck: Set<ExportScene> }) {
+    if (sides) this.renderSidesCover(sides.options, scenes.filter((s) => !sides.struck.has(s)));
+    else this.renderTitlePage();
+    // Script pages number from 1 after the title page
+    this.pageNum = 0;
+    this.newPage();
+
+    for (const scene of scenes) {
+      const paragraphs = exportParagraphs(scene).filter((p) => !NON_PRINTING_TYPES.has(p.type) || p.type === "Page Break");
+      const number = this.options.sceneNumbers ? sceneNumberLabel(scene) : null;
+      this.struck = !!sides?.struck.has(scene);
+      let cue = "";
+      paragraphs.forEach((p, i) => {
+        if (p.type === "Page Break") {
+          if (this.line > 0) this.newPage();
+          return;
+        }
+        if (p.type === "Character") cue = p.text.replace(/\s*\(.*?\)\s*$/, "").replace(/\s*\^$/, "").toUpperCase();
+        else if (!SPEECH_TYPES.has(p.type)) cue = "";
+        const character = sides?.options.highlight ? sides.options.character : null;
+        this.highlighted = !this.struck && !!character && cue === character && SPEECH_TYPES.has(p.type);
+        this.renderParagraph(p, paragraphs[i + 1], cue, number);
+      });
+    }
+    this.struck = false;
+    this.highlighted = false;
+    return this.doc;
+  }
+}
+
+// ── Download ──
+
+export function downloadScript(format: ScriptExportFormat, scenes: ExportScene[], options: ScriptExportOptions) {
+  const sorted = [...scenes].sort((a, b) => a.scene_number - b.scene_number);
+  const revision = options.revision ? `_${options.revision.color.name.replace(/\s+/g, "_").toLowerCase()}` : "";
+  const baseName = `${(options.title || "script").replace(/[^a-zA-Z0-9]/g, "_").toLowerCase()}${revision}`;
+
+  if (format === "fountain") {
+    saveBlob(buildFountain(sorted, options), `${baseName}.fountain`, "text/plain");
+  } else if (format === "fdx") {
+    saveBlob(buildFdx(sorted, options), `${baseName}.fdx`, "application/xml");
+  } else {
+    new ScriptPdfBuilder(options).generate(sorted).save(`${baseName}.pdf`);
+  }
+}
+
+/**
+ * Scenes for a set of sides, in print order, and which of them print struck through.
+ * Each selected scene brings along the other scenes on its pages (by page range,
+ * or its neighbours when the script was never paginated) so the pages read as cut sides.
+ */
+export function selectSides(scenes: ExportScene[], sides: SidesOptions): { scenes: ExportScene[]; struck: Set<ExportScene> } {
+  const ordered = [...scenes].sort((a, b) => a.scene_number - b.scene_number);
+  const byNumber = new Map(ordered.map((s) => [s.scene_number, s]));
+  const pool = sides.sceneNumbers
+    ? sides.sceneNumbers.map((n) => byNumber.get(n)).filter((s): s is ExportScene => !!s)
+    : ordered;
+  const targets = pool.filter(
+    (s) =>
+      s.revision_status !== "omitted" &&
+      (!sides.character || (s.characters || []).some((c) => c.trim().toUpperCase() === sides.character)),
+  );
+  const targetSet = new Set(targets);
+  if (sides.others === "remove") return { scenes: targets, struck: new Set() };
+
+  const out: ExportScene[] = [];
+  const emitted = new Set<ExportScene>();
+  const struck = new Set<ExportScene>();
+  for (const target of targets) {
+    const index = ordered.indexOf(target);
+    const sharesPage = (s: ExportScene) =>
+      target.page_start != null && s.page_start != null
+        ? s.page_start <= (target.page_end ?? target.page_start) && (s.page_end ?? s.page_start) >= target.page_start
+        : Math.abs(ordered.indexOf(s) - index) <= 1;
+    const group = ordered.filter((s) => s === target || (s.revision_status !== "omitted" && sharesPage(s)));
+    for (const s of group) {
+      if (emitted.has(s)) continue;
+      // Shoot-day sides list targets in shooting order; context scenes only pad their own target
+      if (targetSet.has(s) && s !== target) continue;
+      emitted.add(s);
+      out.push(s);
+      if (!targetSet.has(s)) struck.add(s);
+    }
+  }
+  return { scenes: out, struck };
+}
+
+export function downloadSides(scenes: ExportScene[], sides: SidesOptions, options: ScriptExportOptions) {
+  const selection = selectSides(scenes, sides);
+  const baseName = `${(options.title || "script").replace(/[^a-zA-Z0-9]/g, "_").toLowerCase()}_sides_${sides.label.replace(/[^a-zA-Z0-9]/g, "_").toLowerCase()}`;
+  new ScriptPdfBuilder(options).generate(selection.scenes, { options: sides, struck: selection.struck }).save(`${baseName}.pdf`);
+}
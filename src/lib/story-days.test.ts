@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { inferStoryDays, storyDayLabel, type StoryDayScene } from "@/lib/story-days";
+
+const scene = (sceneNumber: number, dayNight: string | null, fields: Partial<StoryDayScene> = {}): StoryDayScene => ({
+  id: `s${sceneNumber}`,
+  scene_number: sceneNumber,
+  day_night: dayNight,
+  continuity_marker: null,
+  is_flashback: false,
+  is_dream: false,
+  story_day: null,
+  revision_status: "original",
+  ...fields,
+});
+
+const labels = (scenes: StoryDayScene[]) => inferStoryDays(scenes).map((d) => storyDayLabel(d));
+
+describe("inferStoryDays", () => {
+  it("rolls over to the next day when a NIGHT scene is followed by a DAY scene", () => {
+    const days = inferStoryDays([scene(1, "DAY"), scene(2, "NIGHT"), scene(3, "DAY")]);
+    expect(days.map((d) => [d.day, d.night, d.reason])).toEqual([
+      [1, false, "first"],
+      [1, true, "same-day"],
+      [2, false, "time-jump"],
+    ]);
+  });
+
+  it("stays on the same day as the time of day moves forward", () => {
+    expect(labels([scene(1, "MORNING"), scene(2, "AFTERNOON"), scene(3, "DUSK"), scene(4, "NIGHT")])).toEqual([
+      "Day 1", "Day 1", "Day 1", "Night 1",
+    ]);
+  });
+
+  it("follows NEXT DAY and CONTINUOUS markers over the time of day", () => {
+    expect(labels([
+      scene(1, "DAY"),
+      scene(2, "DAY", { continuity_marker: "NEXT DAY" }),
+      scene(3, "MORNING", { continuity_marker: "CONTINUOUS" }),
+    ])).toEqual(["Day 1", "Day 2", "Day 2"]);
+  });
+
+  it("keeps flashbacks and dreams off the timeline", () => {
+    const days = inferStoryDays([scene(1, "NIGHT"), scene(2, "DAY", { is_flashback: true }), scene(3, "NIGHT")]);
+    expect(days.map((d) => d.day)).toEqual([1, null, 1]);
+    expect(storyDayLabel(days[1], true)).toBe("FB");
+  });
+
+  it("carries on from a corrected day and skips omitted scenes", () => {
+    expect(labels([
+      scene(1, "DAY"),
+      scene(2, "DAY", { story_day: 4 }),
+      scene(3, "DAY", { revision_status: "omitted" }),
+      scene(4, "NIGHT"),
+      scene(5, "DAY"),
+    ])).toEqual(["Day 1", "Day 4", "Night 4", "Day 5"]);
+  });
+});
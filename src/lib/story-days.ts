@@ -0,0 +1,137 @@
+/**
+ * Story days — which day of the story each scene happens on ("Day 1",
+ * "Night 1", "Day 2"), the client-side mirror of
+ * supabase/functions/_shared/story-days.ts used by detect-continuity-conflicts.
+ *
+ * Days are inferred in script order from the canonical continuity_marker and
+ * day_night values parse-script stores: NEXT DAY / NEXT MORNING start a new
+ * day, CONTINUOUS / LATER / SAME keep the current one, and a scene earlier in
+ * the day than the one before it (NIGHT → DAY) starts the next. Flashbacks and
+ * dreams sit outside the timeline. parsed_scenes.story_day corrects a scene,
+ * and inference carries on from the corrected day.
+ */
+
+export interface StoryDayScene {
+  id: string;
+  scene_number: number;
+  day_night: string | null;
+  continuity_marker: string | null;
+  is_flashback: boolean;
+  is_dream: boolean;
+  story_day: number | null;
+  revision_status: string;
+}
+
+export type StoryDayReason =
+  | "first" | "same-day" | "continuous" | "next-day" | "time-jump" | "corrected" | "flashback" | "dream";
+
+export interface StoryDay {
+  sceneId: string;
+  sceneNumber: number;
+  /** null for flashback and dream scenes that have not been corrected onto a day */
+  day: number | null;
+  night: boolean;
+  reason: StoryDayReason;
+}
+
+const CONTINUOUS_MARKERS = new Set(["CONTINUOUS", "SAME", "SAME TIME", "SAME DAY", "LATER", "MOMENTS LATER", "A MOMENT LATER"]);
+const NEXT_DAY_MARKERS = new Set(["NEXT DAY", "NEXT MORNING"]);
+
+/** Coarse position in the day: morning, day, dusk, night */
+const PHASES: Record<string, number> = {
+  DAWN: 0, SUNRISE: 0, MORNING: 0,
+  DAY: 1, AFTERNOON: 1,
+  DUSK: 2, SUNSET: 2,
+  EVENING: 3, NIGHT: 3,
+};
+const NIGHT_PHASE = 3;
+
+const phaseOf = (dayNight: string | null) => PHASES[(dayNight || "").trim().toUpperCase()];
+
+export function inferStoryDays(scenes: StoryDayScene[]): StoryDay[] {
+  const ordered = scenes
+    .filter((s) => s.revision_status !== "omitted")
+    .sort((a, b) => a.scene_number - b.scene_number);
+
+  const out: StoryDay[] = [];
+  let day = 0;
+  let phase: number | undefined;
+
+  for (const scene of ordered) {
+    const scenePhase = phaseOf(scene.day_night);
+    const base = { sceneId: scene.id, sceneNumber: scene.scene_number };
+
+    if (scene.story_day != null) {
+      day = scene.story_day;
+      if (scenePhase !== undefined) phase = scenePhase;
+      out.push({ ...base, day, night: (scenePhase ?? phase) === NIGHT_PHASE, reason: "corrected" });
+      continue;
+    }
+    if (scene.is_flashback || scene.is_dream) {
+      out.push({ ...base, day: null, night: scenePhase === NIGHT_PHASE, reason: scene.is_flashback ? "flashback" : "dream" });
+      continue;
+    }
+
+    const marker = (scene.continuity_marker || "").toUpperCase();
+    let reason: StoryDayReason;
+    if (day === 0) {
+      day = 1;
+      reason = "first";
+    } else if (NEXT_DAY_MARKERS.has(marker)) {
+      day++;
+      reason = "next-day";
+    } else if (CONTINUOUS_MARKERS.has(marker)) {
+      reason = "continuous";
+    } else if (scenePhase !== undefined && phase !== undefined && scenePhase < phase) {
+      day++;
+      reason = "time-jump";
+    } else {
+      reason = "same-day";
+    }
+    if (scenePhase !== undefined) phase = scenePhase;
+    else if (marker === "NEXT MORNING") phase = 0;
+    out.push({ ...base, day, night: phase === NIGHT_PHASE, reason });
+  }
+  return out;
+}
+
+export function storyDayLabel(storyDay: Pick<StoryDay, "day" | "night" | "reason"> | undefined, short = false): string {
+  if (!storyDay) return "";
+  if (storyDay.day === null) {
+    if (short) return storyDay.reason === "dream" ? "DRM" : "FB";
+    return storyDay.reason === "dream" ? "Dream" : "Flashback";
+  }
+  if (short) return `${storyDay.night ? "N" : "D"}${storyDay.day}`;
+  return `${storyDay.night ? "Night" : "Day"} ${storyDay.day}`;
+}
+
+export interface WardrobeAssignment {
+  character_name: string;
+  clothing_item: string;
+  scene_number: number;
+}
+
+export interface WardrobeStoryDayChange {
+  character: string;
+  day: number;
+  /** Clothing item → scenes of that story day it is assigned to */
+  items: Map<string, number[]>;
+}
+
+/** Characters whose costume changes within a story day; flashbacks and dreams are free to differ */
+export function wardrobeStoryDayChanges(
+  assignments: WardrobeAssignment[],
+  storyDays: Map<number, StoryDay>,
+): WardrobeStoryDayChange[] {
+  const groups = new Map<string, WardrobeStoryDayChange>();
+  for (const a of assignments) {
+    const day = storyDays.get(a.scene_number)?.day;
+    if (day == null) continue;
+    const key = `${a.character_name.toUpperCase()}::${day}`;
+    if (!groups.has(key)) groups.set(key, { character: a.character_name, day, items: new Map() });
+    const items = groups.get(key)!.items;
+    if (!items.has(a.clothing_item)) items.set(a.clothing_item, []);
+    items.get(a.clothing_item)!.push(a.scene_number);
+  }
+  return [...groups.values()].filter((g) => g.items.size > 1).sort((a, b) => a.day - b.day);
+}
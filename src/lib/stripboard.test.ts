@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { proposeSchedule, type StripScene } from "@/lib/stripboard";
+
+const strip = (sceneNumber: number, fields: Partial<StripScene> = {}): StripScene => ({
+  id: `s${sceneNumber}`,
+  scene_number: sceneNumber,
+  heading: "",
+  int_ext: "INT",
+  day_night: "DAY",
+  location_name: "HOUSE",
+  characters: ["ANNA"],
+  estimated_page_count: null,
+  page_eighths: 8,
+  stunts: null,
+  picture_vehicles: null,
+  revision_status: "original",
+  ...fields,
+});
+
+describe("proposeSchedule", () => {
+  it("shoots each location together, day work before night work", () => {
+    const days = proposeSchedule([
+      strip(1, { day_night: "NIGHT" }),
+      strip(2, { location_name: "PARK" }),
+      strip(3),
+      strip(4, { location_name: "PARK", day_night: "NIGHT" }),
+    ], 100);
+    expect(days.map((d) => d.scene_ids)).toEqual([["s3", "s1"], ["s2", "s4"]]);
+  });
+
+  it("breaks the day when the company would go from night work back to day work", () => {
+    const days = proposeSchedule([
+      strip(1, { day_night: "NIGHT" }),
+      strip(2, { location_name: "PARK" }),
+    ], 100);
+    expect(days.map((d) => d.scene_ids)).toEqual([["s1"], ["s2"]]);
+  });
+
+  it("fills days up to the page budget", () => {
+    const days = proposeSchedule([strip(1), strip(2), strip(3, { page_eighths: 4 }), strip(4)], 20);
+    expect(days.map((d) => d.scene_ids)).toEqual([["s1", "s2", "s3"], ["s4"]]);
+  });
+
+  it("chains scenes in a block by shared cast and leaves omitted scenes out", () => {
+    const days = proposeSchedule([
+      strip(1, { characters: ["ANNA", "BEN", "CARL"] }),
+      strip(2, { characters: ["DORA"] }),
+      strip(3, { characters: ["BEN", "CARL"] }),
+      strip(4, { revision_status: "omitted" }),
+    ], 100);
+    expect(days.map((d) => d.scene_ids)).toEqual([["s1", "s3", "s2"]]);
+  });
+
+  it("groups by the given location, such as the location tree's top level", () => {
+    const days = proposeSchedule(
+      [strip(1, { location_name: "KITCHEN" }), strip(2, { location_name: "PARK" }), strip(3, { location_name: "BEDROOM" })],
+      100,
+      (s) => (s.location_name === "PARK" ? "PARK" : "HOUSE"),
+    );
+    expect(days[0].scene_ids.slice(0, 2).sort()).toEqual(["s1", "s3"]);
+  });
+});
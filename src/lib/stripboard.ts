@@ -0,0 +1,193 @@
+/**
+ * Stripboard model: scenes as colour-coded strips, grouped into shoot days.
+ * The proposed order is deterministic — no AI involved.
+ */
+
+/** Scene fields a strip needs (a subset of a parsed_scenes row) */
+export interface StripScene {
+  id: string;
+  scene_number: number;
+  heading: string;
+  int_ext: string | null;
+  day_night: string | null;
+  location_name: string | null;
+  characters: string[] | null;
+  estimated_page_count: number | null;
+  page_eighths: number | null;
+  stunts: string[] | null;
+  picture_vehicles: string[] | null;
+  revision_status: string;
+}
+
+/** Call sheet details entered for a shoot day (times are "HH:MM") */
+export interface CallSheetDetails {
+  crew_call?: string;
+  shooting_call?: string;
+  /** Upper-cased character name → call time */
+  cast_calls?: Record<string, string>;
+  /** Location name → address / parking / basecamp notes */
+  addresses?: Record<string, string>;
+  notes?: string;
+}
+
+/** One shoot day in shooting_schedules.days */
+export interface ShootDay {
+  id: string;
+  scene_ids: string[];
+  note?: string;
+  call?: CallSheetDetails;
+}
+
+export type StripPeriod = "day" | "twilight" | "night";
+
+/** Conventional strip colours: white INT day, yellow EXT day, blue INT night, green EXT night, pink dawn/dusk */
+export const STRIP_COLORS: Record<string, { label: string; hex: string }> = {
+  "INT-day": { label: "Int. Day", hex: "#FFFFFF" },
+  "EXT-day": { label: "Ext. Day", hex: "#FFF3A6" },
+  "INT-night": { label: "Int. Night", hex: "#BFD9FF" },
+  "EXT-night": { label: "Ext. Night", hex: "#C6EFC1" },
+  twilight: { label: "Dawn / Dusk", hex: "#FFC8DC" },
+};
+
+export const DEFAULT_EIGHTHS_PER_DAY = 40;
+
+export function stripPeriod(dayNight: string | null): StripPeriod {
+  const t = (dayNight || "").toUpperCase();
+  if (/NIGHT|EVENING|MIDNIGHT/.test(t)) return "night";
+  if (/DAWN|DUSK|SUNRISE|SUNSET|MAGIC HOUR|TWILIGHT/.test(t)) return "twilight";
+  return "day";
+}
+
+/** INT/EXT scenes are shot on the exterior, so they strip as EXT */
+export function stripSide(intExt: string | null): "INT" | "EXT" {
+  return /EXT/i.test(intExt || "") ? "EXT" : "INT";
+}
+
+export function stripColor(scene: Pick<StripScene, "int_ext" | "day_night">): { label: string; hex: string } {
+  const period = stripPeriod(scene.day_night);
+  if (period === "twilight") return STRIP_COLORS.twilight;
+  return STRIP_COLORS[`${stripSide(scene.int_ext)}-${period}`];
+}
+
+/** Scene length in eighths of a page (a scene is never shorter than 1/8) */
+export function sceneEighths(scene: Pick<StripScene, "page_eighths" | "estimated_page_count">): number {
+  if (scene.page_eighths && scene.page_eighths > 0) return scene.page_eighths;
+  if (scene.estimated_page_count && scene.estimated_page_count > 0) return Math.max(1, Math.round(scene.estimated_page_count * 8));
+  return 1;
+}
+
+export function stripCast(scene: Pick<StripScene, "characters">): string[] {
+  return [...new Set((scene.characters || []).map((c) => c.trim().toUpperCase()).filter(Boolean))];
+}
+
+/** The scene's location as written, falling back to the heading when parse-script found none */
+export function sceneLocationName(scene: Pick<StripScene, "heading" | "location_name">): string {
+  return (scene.location_name || scene.heading.replace(/^[^ ]+\s+/, "").split(/\s+-\s+/)[0] || "").trim();
+}
+
+const locationKey = (scene: StripScene) => sceneLocationName(scene).toUpperCase();
+
+/** Jaccard overlap of two casts — 1 when both are empty, so cast-less scenes stay together */
+function castOverlap(a: string[], b: string[]): number {
+  if (a.length === 0 && b.length === 0) return 1;
+  const setB = new Set(b);
+  const shared = a.filter((c) => setB.has(c)).length;
+  return shared / (a.length + b.length - shared);
+}
+
+/** Greedy nearest-neighbour chain: start from the largest cast, then always take the closest remaining cast */
+function chainByCast<T>(items: T[], castOf: (item: T) => string[]): T[] {
+  const rest = [...items].sort((a, b) => castOf(b).length - castOf(a).length);
+  const out: T[] = [];
+  let current = rest.shift();
+  while (current) {
+    out.push(current);
+    const currentCast = castOf(current);
+    let best = 0;
+    for (let i = 1; i < rest.length; i++) {
+      if (castOverlap(currentCast, castOf(rest[i])) > castOverlap(currentCast, castOf(rest[best]))) best = i;
+    }
+    current = rest.splice(best, 1)[0];
+  }
+  return out;
+}
+
+const PERIOD_ORDER: Record<StripPeriod, number> = { day: 0, twilight: 1, night: 2 };
+
+/**
+ * Proposed shooting order, broken into days.
+ * Scenes are grouped by location, then day/night (day work before night work),
+ * then chained by shared cast. Location blocks follow each other by cast overlap
+ * so actors carry over between company moves. Days fill up to `eighthsPerDay`
+ * and always break when the company would go from night work back to day work.
+ * `locationOf` names the location a scene is shot at — the location tree's
+ * top-level location when the film has one, else the slugline location.
+ */
+export function proposeSchedule(
+  scenes: StripScene[],
+  eighthsPerDay = DEFAULT_EIGHTHS_PER_DAY,
+  locationOf: (scene: StripScene) => string = locationKey,
+): ShootDay[] {
+  const active = scenes.filter((s) => s.revision_status !== "omitted");
+
+  const byLocation = new Map<string, StripScene[]>();
+  for (const s of active) {
+    const key = locationOf(s);
+    if (!byLocation.has(key)) byLocation.set(key, []);
+    byLocation.get(key)!.push(s);
+  }
+
+  const blocks = [...byLocation.values()].map((group) => {
+    const byPeriod = new Map<string, StripScene[]>();
+    for (const s of group) {
+      const key = `${PERIOD_ORDER[stripPeriod(s.day_night)]}-${stripSide(s.int_ext)}`;
+      if (!byPeriod.has(key)) byPeriod.set(key, []);
+      byPeriod.get(key)!.push(s);
+    }
+    const ordered = [...byPeriod.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .flatMap(([, list]) => chainByCast<StripScene>(list.sort((a, b) => a.scene_number - b.scene_number), stripCast));
+    return { scenes: ordered, cast: [...new Set(ordered.flatMap(stripCast))] };
+  });
+
+  const order = chainByCast(blocks, (b) => b.cast).flatMap((b) => b.scenes);
+
+  const days: ShootDay[] = [];
+  let current: StripScene[] = [];
+  let used = 0;
+  const flush = () => {
+    if (current.length === 0) return;
+    days.push({ id: crypto.randomUUID(), scene_ids: current.map((s) => s.id) });
+    current = [];
+    used = 0;
+  };
+  for (const s of order) {
+    const eighths = sceneEighths(s);
+    const last = current[current.length - 1];
+    const backToDay = last && stripPeriod(last.day_night) === "night" && stripPeriod(s.day_night) !== "night";
+    if (current.length > 0 && (used + eighths > eighthsPerDay || backToDay)) flush();
+    current.push(s);
+    used += eighths;
+  }
+  flush();
+  return days;
+}
+
+/** Drop scenes that no longer exist from saved days (scenes added since then show as unscheduled) */
+export function reconcileSchedule(days: ShootDay[], scenes: Pick<StripScene, "id" | "revision_status">[]): ShootDay[] {
+  const live = new Set(scenes.filter((s) => s.revision_status !== "omitted").map((s) => s.id));
+  return days.map((d) => ({ ...d, scene_ids: d.scene_ids.filter((id) => live.has(id)) }));
+}
+
+/** Calendar date of each shoot day, counting working days (Mon–Fri) from the start date */
+export function shootDayDates(startDate: string | null, dayCount: number): (Date | null)[] {
+  if (!startDate) return new Array(dayCount).fill(null);
+  const dates: Date[] = [];
+  const cursor = new Date(`${startDate}T00:00:00`);
+  while (dates.length < dayCount) {
+    const weekday = cursor.getDay();
+    if (weekday !== 0 && weekday !== 6) dates.push(new Date(cursor));
+    cursor.setDate(cursor.getDate() + 1);
+  }
+  return dates;
+}
@@ -0,0 +1,97 @@
+/**
+ * Style Contract History — field-by-field comparison of contract versions.
+ *
+ * Every compile and rollback leaves an immutable row in style_contract_versions.
+ * Two versions are compared per contract field; JSON fields are flattened to
+ * dotted paths ("blended_profile.lighting.key") so a change deep inside the
+ * genre profile shows up as one line rather than a whole-object replacement.
+ */
+
+import type { Tables } from "@/integrations/supabase/types";
+
+export type StyleContractVersion = Tables<"style_contract_versions">;
+
+export const STYLE_CONTRACT_FIELDS = [
+  { key: "visual_dna", label: "Visual DNA" },
+  { key: "color_mandate", label: "Color Mandate" },
+  { key: "lighting_doctrine", label: "Lighting Doctrine" },
+  { key: "lens_philosophy", label: "Lens Philosophy" },
+  { key: "texture_mandate", label: "Texture Mandate" },
+  { key: "temporal_rules", label: "Temporal Rules" },
+  { key: "content_guardrails", label: "Content Guardrails" },
+  { key: "genre_visual_profile", label: "Genre Visual Profile" },
+  { key: "world_rules", label: "World Rules" },
+  { key: "negative_prompt_base", label: "Negative Prompt" },
+  { key: "character_directives", label: "Character Directives" },
+] as const;
+
+export type StyleContractField = (typeof STYLE_CONTRACT_FIELDS)[number]["key"];
+
+export type StyleContractContent = Pick<StyleContractVersion, StyleContractField>;
+
+export interface ContractChange {
+  /** Dotted path inside the field; empty for a plain text field */
+  path: string;
+  kind: "added" | "removed" | "changed";
+  before?: string;
+  after?: string;
+}
+
+export interface ContractFieldDiff {
+  field: StyleContractField;
+  label: string;
+  changes: ContractChange[];
+}
+
+const isPrimitive = (v: unknown) => v === null || typeof v !== "object";
+
+function flatten(value: unknown, path: string, out: Map<string, string>) {
+  if (value === null || value === undefined || value === "") return;
+  if (Array.isArray(value)) {
+    if (value.every(isPrimitive)) {
+      if (value.length > 0) out.set(path, value.map(String).join(", "));
+      return;
+    }
+    value.forEach((item, i) => flatten(item, `${path}[${i}]`, out));
+    return;
+  }
+  if (typeof value === "object") {
+    for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+      flatten(child, path ? `${path}.${key}` : key, out);
+    }
+    return;
+  }
+  out.set(path, String(value));
+}
+
+function diffValues(before: unknown, after: unknown): ContractChange[] {
+  const a = new Map<string, string>();
+  const b = new Map<string, string>();
+  flatten(before, "", a);
+  flatten(after, "", b);
+
+  const changes: ContractChange[] = [];
+  for (const path of [...new Set([...a.keys(), ...b.keys()])].sort()) {
+    const was = a.get(path);
+    const now = b.get(path);
+    if (was === now) continue;
+    if (was === undefined) changes.push({ path, kind: "added", after: now });
+    else if (now === undefined) changes.push({ path, kind: "removed", before: was });
+    else changes.push({ path, kind: "changed", before: was, after: now });
+  }
+  return changes;
+}
+
+/** Fields that differ between two versions, in contract order */
+export function diffStyleContracts(from: StyleContractContent, to: StyleContractContent): ContractFieldDiff[] {
+  return STYLE_CONTRACT_FIELDS
+    .map(({ key, label }) => ({ field: key, label, changes: diffValues(from[key], to[key]) }))
+    .filter((d) => d.changes.length > 0);
+}
+
+/** The contract columns of a version, for copying it forward */
+export function contractContent(version: StyleContractContent): StyleContractContent {
+  const content = {} as Record<StyleContractField, unknown>;
+  for (const { key } of STYLE_CONTRACT_FIELDS) content[key] = version[key];
+  return content as StyleContractContent;
+}
@@ -0,0 +1,258 @@
+import {
+  PdfLayoutBuilder, CONTENT_W, MARGIN_L, PAGE_H, MARGIN_B, C_BORDER, C_MUTED, C_TEXT,
+} from "@/lib/production-bible-pdf";
+import { csvCell, saveBlob } from "@/lib/download";
+
+/**
+ * VFX breakdown — every visual effect in the script as a VFX shot ID with a
+ * complexity class and an estimated shot count, linked to the Production
+ * shots it covers. Exports as a vendor bid sheet.
+ */
+
+export type VfxComplexity = "cleanup" | "comp" | "cg_creature" | "environment" | "sim";
+
+/** Ordered simplest to heaviest; baseShots is the estimate before any shots are linked */
+export const VFX_COMPLEXITIES: { value: VfxComplexity; label: string; baseShots: number; rgb: [number, number, number] }[] = [
+  { value: "cleanup", label: "Cleanup", baseShots: 1, rgb: [110, 120, 135] },
+  { value: "comp", label: "Comp", baseShots: 2, rgb: [40, 110, 190] },
+  { value: "environment", label: "Environment", baseShots: 2, rgb: [30, 140, 90] },
+  { value: "sim", label: "Sim / FX", baseShots: 3, rgb: [200, 110, 20] },
+  { value: "cg_creature", label: "CG Creature", baseShots: 4, rgb: [170, 40, 120] },
+];
+
+export const vfxComplexity = (value: string) => VFX_COMPLEXITIES.find((c) => c.value === value) ?? VFX_COMPLEXITIES[1];
+
+/** Keyword rules, heaviest first — the first match wins, anything else is a comp */
+const COMPLEXITY_RULES: [VfxComplexity, RegExp][] = [
+  ["cg_creature", /\b(creature|monster|dragon|alien|beast|digital double|cg (?:animal|character|human)|zombie|ghost|robot)s?\b/i],
+  ["sim", /\b(explosion|explodes?|fire|flames?|smoke|water|flood|wave|rain|snow|storm|debris|destruction|collapses?|crumbles?|shatter|particles?|dust|blood spray|magic|energy|lightning|tornado)\b/i],
+  ["environment", /\b(set extension|matte|skyline|cityscape|landscape|environment|sky replacement|background replacement|establishing|vista|digital (?:set|environment))\b/i],
+  ["cleanup", /\b(clean ?up|wire removal|rig removal|paint ?out|remove|removal|beauty|de-?ag(?:e|ing)|logo|stabili[sz]e)\b/i],
+];
+
+export function classifyVfx(description: string): VfxComplexity {
+  return COMPLEXITY_RULES.find(([, re]) => re.test(description))?.[0] ?? "comp";
+}
+
+/** Estimated VFX shot count — at least the linked Production shots, otherwise the class baseline */
+export const estimateVfxShots = (complexity: string, linkedShots: number) =>
+  Math.max(linkedShots, vfxComplexity(complexity).baseShots);
+
+/** VFX shot ID, e.g. "VFX-012-01" or "VFX-012A-02" */
+export function vfxShotId(sceneLabel: string, index: number): string {
+  const match = sceneLabel.match(/^(\d+)(.*)$/);
+  const scene = match ? `${match[1].padStart(3, "0")}${match[2]}` : sceneLabel;
+  return `VFX-${scene}-${String(index).padStart(2, "0")}`;
+}
+
+const STOP_WORDS = new Set(["with", "from", "into", "that", "this", "their", "over", "through", "shot", "shots", "scene", "effect", "effects"]);
+
+const keywords = (text: string) =>
+  (text.toLowerCase().match(/[a-z]{4,}/g) ?? []).filter((w) => !STOP_WORDS.has(w));
+
+/** Production shots of the scene whose action mentions one of the effect's keywords */
+export function matchVfxShots(description: string, shots: { id: string; prompt_text: string | null }[]): string[] {
+  const words = keywords(description);
+  if (words.length === 0) return [];
+  return shots
+    .filter((s) => {
+      const prompt = (s.prompt_text || "").toLowerCase();
+      return words.some((w) => prompt.includes(w));
+    })
+    .map((s) => s.id);
+}
+
+export interface VfxSourceScene {
+  scene_number: number;
+  vfx: string[] | null;
+  revision_status: string;
+}
+
+export interface VfxShotDraft {
+  vfx_id: string;
+  scene_number: number;
+  description: string;
+  complexity: VfxComplexity;
+  estimated_shots: number;
+  shot_ids: string[];
+}
+
+/**
+ * New breakdown rows for script VFX not yet in the breakdown (same scene and
+ * description). Numbering continues after a scene's existing IDs.
+ */
+export function buildVfxBreakdown(
+  scenes: VfxSourceScene[],
+  shotsByScene: Map<number, { id: string; prompt_text: string | null }[]>,
+  sceneLabel: (sceneNumber: number) => string,
+  existing: { vfx_id: string; scene_number: number; description: string }[],
+): VfxShotDraft[] {
+  const known = new Set(existing.map((e) => `${e.scene_number}:${e.description.trim().toLowerCase()}`));
+  const taken = new Set(existing.map((e) => e.vfx_id));
+  const drafts: VfxShotDraft[] = [];
+
+  for (const scene of [...scenes].sort((a, b) => a.scene_number - b.scene_number)) {
+    if (scene.revision_status === "omitted") continue;
+    let index = 0;
+    for (const raw of scene.vfx || []) {
+      const description = raw.trim();
+      const key = `${scene.scene_number}:${description.toLowerCase()}`;
+      if (!description || known.has(key)) continue;
+      known.add(key);
+
+      let id: string;
+      do id = vfxShotId(sceneLabel(scene.scene_number), ++index);
+      while (taken.has(id));
+      taken.add(id);
+
+      const complexity = classifyVfx(description);
+      const shotIds = matchVfxShots(description, shotsByScene.get(scene.scene_number) ?? []);
+      drafts.push({
+        vfx_id: id,
+        scene_number: scene.scene_number,
+        description,
+        complexity,
+        estimated_shots: estimateVfxShots(complexity, shotIds.length),
+        shot_ids: shotIds,
+      });
+    }
+  }
+  return drafts;
+}
+
+// ── Bid sheet ──
+
+export interface VfxBidRow {
+  vfxId: string;
+  scene: string;
+  heading: string;
+  description: string;
+  complexity: string;
+  estimatedShots: number;
+  /** Linked Production shots, e.g. "12.3" */
+  shots: string[];
+  repairs: number;
+  notes: string;
+}
+
+export function buildVfxBidCsv(rows: VfxBidRow[]): string {
+  const lines = [["VFX ID", "Scene", "Heading", "Description", "Complexity", "Est. Shots", "Linked Shots", "Repairs", "Notes", "Bid"]];
+  for (const r of rows) {
+    lines.push([
+      r.vfxId, r.scene, r.heading, r.description, r.complexity, String(r.estimatedShots),
+      r.shots.join(" "), String(r.repairs), r.notes, "",
+    ]);
+  }
+  return lines.map((l) => l.map(csvCell).join(",")).join("\n");
+}
+
+/** Estimated shot totals per complexity class, in VFX_COMPLEXITIES order */
+export function vfxBidTotals(rows: VfxBidRow[]) {
+  return VFX_COMPLEXITIES.map((c) => {
+    const matching = rows.filter((r) => r.complexity === c.label);
+    return { ...c, items: matching.length, shots: matching.reduce((n, r) => n + r.estimatedShots, 0) };
+  }).filter((t) => t.items > 0);
+}
+
+const COLS = { id: 26, scene: 12, complexity: 24, shots: 12, linked: 26 };
+const LINE_H = 3.6;
+const BOTTOM = PAGE_H - MARGIN_B - 10;
+
+class VfxBidPdfBuilder extends PdfLayoutBuilder {
+  constructor(filmTitle: string) {
+    super(filmTitle, "VFX Bid Sheet");
+  }
+
+  private renderSummary(rows: VfxBidRow[]) {
+    this.sectionTitle("VFX Bid Sheet");
+    const totals = vfxBidTotals(rows);
+    this.fieldRow("VFX items", rows.length);
+    this.fieldRow("Estimated shots", rows.reduce((n, r) => n + r.estimatedShots, 0));
+    for (const t of totals) this.fieldRow(t.label, `${t.items} item${t.items !== 1 ? "s" : ""} · ${t.shots} shot${t.shots !== 1 ? "s" : ""}`);
+    this.y += 4;
+  }
+
+  private renderTableHeader() {
+    const x = MARGIN_L;
+    this.doc.setFont("helvetica", "bold");
+    this.doc.setFontSize(7);
+    this.doc.setTextColor(...C_MUTED);
+    let cx = x + 1;
+    for (const [label, w] of [["VFX ID", COLS.id], ["SC", COLS.scene], ["DESCRIPTION", this.descriptionW()], ["CLASS", COLS.complexity], ["EST.", COLS.shots], ["SHOTS", COLS.linked]] as const) {
+      this.doc.text(label, cx, this.y + 3);
+      cx += w;
+    }
+    this.y += 4.5;
+    this.doc.setDrawColor(...C_BORDER);
+    this.doc.setLineWidth(0.4);
+    this.doc.line(x, this.y, x + CONTENT_W, this.y);
+    this.y += 1;
+  }
+
+  private descriptionW() {
+    return CONTENT_W - COLS.id - COLS.scene - COLS.complexity - COLS.shots - COLS.linked;
+  }
+
+  private renderRow(row: VfxBidRow) {
+    this.doc.setFont("helvetica", "normal");
+    this.doc.setFontSize(7.5);
+    const description = this.doc.splitTextToSize(
+      row.description + (row.notes ? ` — ${row.notes}` : "") + (row.repairs ? ` (${row.repairs} repair${row.repairs !== 1 ? "s" : ""})` : ""),
+      this.descriptionW() - 3,
+    ) as string[];
+    const linked = this.doc.splitTextToSize(row.shots.join(", ") || "—", COLS.linked - 2) as string[];
+    const height = Math.max(description.length, linked.length, 1) * LINE_H + 2;
+    if (this.y + height > BOTTOM) {
+      this.newPage();
+      this.renderTableHeader();
+    }
+
+    let x = MARGIN_L + 1;
+    const top = this.y + 3;
+    this.doc.setFont("helvetica", "bold");
+    this.doc.setTextColor(...C_TEXT);
+    this.doc.text(row.vfxId, x, top);
+    x += COLS.id;
+    this.doc.text(row.scene, x, top);
+    x += COLS.scene;
+    this.doc.setFont("helvetica", "normal");
+    this.doc.text(description, x, top);
+    x += this.descriptionW();
+    const complexity = VFX_COMPLEXITIES.find((c) => c.label === row.complexity);
+    const color: readonly [number, number, number] = complexity?.rgb ?? C_TEXT;
+    this.doc.setTextColor(...color);
+    this.doc.text(row.complexity, x, top);
+    x += COLS.complexity;
+    this.doc.setTextColor(...C_TEXT);
+    this.doc.text(String(row.estimatedShots), x, top);
+    x += COLS.shots;
+    this.doc.setTextColor(...C_MUTED);
+    this.doc.text(linked, x, top);
+
+    this.y += height;
+    this.doc.setDrawColor(...C_BORDER);
+    this.doc.setLineWidth(0.1);
+    this.doc.line(MARGIN_L, this.y, MARGIN_L + CONTENT_W, this.y);
+  }
+
+  generate(rows: VfxBidRow[]) {
+    this.renderSummary(rows);
+    this.subHeading("Breakdown");
+    this.renderTableHeader();
+    rows.forEach((row) => this.renderRow(row));
+    if (rows.length === 0) this.bulletList(["No VFX in the breakdown yet."], C_MUTED);
+    return this.doc;
+  }
+}
+
+// ── Download ──
+
+/** Vendor bid sheet; the CSV leaves a blank Bid column for vendors to fill in */
+export function downloadVfxBidSheet(format: "pdf" | "csv", rows: VfxBidRow[], filmTitle: string) {
+  const baseName = `${(filmTitle || "film").replace(/[^a-zA-Z0-9]/g, "_").toLowerCase()}_vfx_bid`;
+  if (format === "pdf") {
+    new VfxBidPdfBuilder(filmTitle || "Untitled Film").generate(rows).save(`${baseName}.pdf`);
+  } else {
+    saveBlob(buildVfxBidCsv(rows), `${baseName}.csv`, "text/csv");
+  }
+}
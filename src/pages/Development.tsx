@@ -1,6 +1,9 @@
 import { useEffect, useState, useRef, useCallback, useMemo } from "react";
 import { useSearchParams } from "react-router-dom";
-import { parseSceneFromPlainText } from "@/lib/parse-script-text";
+import { normalizeScriptLine, parseSceneFromPlainText, revisedLineSet, sceneParagraphs } from "@/lib/parse-script-text";
+import { formatEighths } from "@/lib/page-count";
+import { revisionColorHex } from "@/lib/revision-colors";
+import { sceneNumberLabel } from "@/lib/scene-numbers";
 import {
   Upload, Type, CheckCircle, FileText, Sparkles, Loader2, Film, Eye,
   Camera, Palette, MapPin, Users, ChevronDown, ChevronUp, ThumbsUp, ThumbsDown,
@@ -27,18 +30,22 @@ import {
   AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { useContentSafety, useFilm, useFilmId, useParsedScenes } from "@/hooks/useFilm";
+import { useGenreProfiles } from "@/hooks/useGenreProfiles";
 import { supabase } from "@/integrations/supabase/client";
 import GlobalElementsManager from "@/components/development/GlobalElementsManager";
 import TypewriterSceneFeed from "@/components/development/TypewriterSceneFeed";
 import DirectorVisionPanel from "@/components/development/DirectorVisionPanel";
 import ProductionBiblePanel from "@/components/development/ProductionBiblePanel";
+import ScriptExportMenu from "@/components/development/ScriptExportMenu";
+import ScriptRevisionsDialog from "@/components/development/ScriptRevisionsDialog";
+import GenreProfilesDialog from "@/components/development/GenreProfilesDialog";
 import DraggableScriptPopup from "@/components/DraggableScriptPopup";
 import { useToast } from "@/hooks/use-toast";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 
 /* ── Constants ── */
-const ACCEPTED_EXTENSIONS = [".fdx"];
-const ACCEPTED_LABEL = ".fdx only (more formats coming soon)";
+const ACCEPTED_EXTENSIONS = [".fdx", ".fountain", ".pdf", ".fadein", ".highland", ".osf", ".wdz"];
+const ACCEPTED_LABEL = ".fdx, .fountain, .pdf, Fade In, Highland or WriterDuet/OSF";
 
 const FORMAT_PRESETS: { value: string; label: string; width: number; height: number; fps: number; aspect: string; fourK?: { width: number; height: number }; category: string }[] = [
   // Live-Action
@@ -265,7 +272,7 @@ const PropagationProgress = ({ filmId, onComplete }: { filmId: string; onComplet
         .eq("enriched", true);
       const { data: recentScenes } = await supabase
         .from("parsed_scenes")
-        .select("scene_number, heading")
+        .select("scene_number, production_scene_number, heading")
         .eq("film_id", filmId)
         .eq("enriched", true)
         .order("scene_number", { ascending: false })
@@ -346,7 +353,7 @@ const PropagationProgress = ({ filmId, onComplete }: { filmId: string; onComplet
                 {progress.recentScenes.map((s: any) => (
                   <div key={s.scene_number} className="flex items-center gap-2 text-xs animate-fade-in">
                     <CheckCircle className="h-3.5 w-3.5 text-green-500 shrink-0" />
-                    <span className="text-muted-foreground">Scene {s.scene_number}</span>
+                    <span className="text-muted-foreground">Scene {sceneNumberLabel(s)}</span>
                     <span className="text-foreground/70 truncate">{(s.heading || "").split("\n")[0].substring(0, 60)}</span>
                   </div>
                 ))}
@@ -447,6 +454,7 @@ const Development = () => {
   const [uploadedPath, setUploadedPath] = useState<string | null>(null);
   const [dragOver, setDragOver] = useState(false);
    const fileInputRef = useRef<HTMLInputElement>(null);
+   const revisionInputRef = useRef<HTMLInputElement>(null);
    const uploadAbortRef = useRef<AbortController | null>(null);
   const { toast } = useToast();
   const [allScenesApproved, setAllScenesApproved] = useState(false);
@@ -474,6 +482,7 @@ const Development = () => {
   const [fourKEnabled, setFourKEnabled] = useState(false);
   const [genres, setGenres] = useState<string[]>([]);
   const [genreDropdownOpen, setGenreDropdownOpen] = useState(false);
+  const { data: customGenres = [] } = useGenreProfiles();
   const [filmTitle, setFilmTitle] = useState("");
   const [versionName, setVersionName] = useState("");
   const [writers, setWriters] = useState("");
@@ -953,6 +962,69 @@ const Development = () => {
     queryClient.invalidateQueries({ queryKey: ["script-entities", filmId] });
   };
 
+  /** Import a revised draft: scenes are reconciled against the current ones instead of wiped */
+  const handleImportRevision = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || !filmId || !analysis?.id) return;
+    const ext = file.name.substring(file.name.lastIndexOf(".")).toLowerCase();
+    if (!ACCEPTED_EXTENSIONS.includes(ext)) {
+      toast({ title: "Unsupported format", description: `Supported: ${ACCEPTED_LABEL}`, variant: "destructive" });
+      return;
+    }
+    setAnalyzing(true);
+
+    const path = `${filmId}/${Date.now()}_${file.name}`;
+    const { error: uploadErr } = await supabase.storage.from("scripts").upload(path, file);
+    if (uploadErr) {
+      setAnalyzing(false);
+      toast({ title: "Upload failed", description: uploadErr.message, variant: "destructive" });
+      return;
+    }
+
+    await supabase
+      .from("script_analyses")
+      .update({ file_name: file.name, storage_path: path, status: "pending", error_message: null })
+      .eq("id", analysis.id);
+
+    const { data: parseResult, error: invokeErr } = await supabase.functions.invoke("parse-script", {
+      body: { analysis_id: analysis.id },
+    });
+
+    if (invokeErr) {
+      setAnalyzing(false);
+      toast({ title: "Revision import failed", description: invokeErr.message, variant: "destructive" });
+      return;
+    }
+
+    // Only changed and added scenes need Phase 1 entity extraction again
+    const reparseIds = (parseResult?.reparse_scene_ids ?? []) as string[];
+    const CONCURRENCY = 5;
+    for (let i = 0; i < reparseIds.length; i += CONCURRENCY) {
+      await Promise.allSettled(
+        reparseIds.slice(i, i + CONCURRENCY).map((sid) =>
+          supabase.functions.invoke("extract-entities", { body: { film_id: filmId, scene_id: sid } })
+        )
+      );
+    }
+
+    setAnalyzing(false);
+    const rev = parseResult?.revision;
+    toast({
+      title: parseResult?.revision_color ? `${parseResult.revision_color} revision imported` : "Revision imported",
+      description: rev
+        ? `${rev.changed} changed · ${rev.added} added · ${rev.omitted} omitted · ${rev.unchanged} unchanged`
+        : `${parseResult?.scene_count ?? 0} scenes parsed`,
+    });
+    queryClient.invalidateQueries({ queryKey: ["script-analysis", filmId] });
+    queryClient.invalidateQueries({ queryKey: ["parsed-scenes"] });
+    queryClient.invalidateQueries({ queryKey: ["shots"] });
+    queryClient.invalidateQueries({ queryKey: ["vice-dirty-queue"] });
+    queryClient.invalidateQueries({ queryKey: ["scene-style-overrides"] });
+    queryClient.invalidateQueries({ queryKey: ["wardrobe-scene-assignments"] });
+    queryClient.invalidateQueries({ queryKey: ["script-revisions"] });
+  };
+
   useEffect(() => {
     if (safety) {
       setLanguage(safety.language);
@@ -1123,7 +1195,7 @@ const Development = () => {
   }, [temporalAnalysis]);
 
   /* State for script text preview dialog */
-  const [scriptPreview, setScriptPreview] = useState<{ heading: string; text: string; highlight?: string } | null>(null);
+  const [scriptPreview, setScriptPreview] = useState<{ heading: string; text: string; highlight?: string; revisedLines?: Set<string> } | null>(null);
 
   /* Fallback: keyword-based detection if AI didn't provide temporal_analysis */
   const timeShifts = useMemo(() => {
@@ -1243,12 +1315,12 @@ const Development = () => {
     if (!filmId) return;
     const { data } = await supabase
       .from("parsed_scenes")
-      .select("heading, raw_text")
+      .select("heading, raw_text, revised_lines")
       .eq("film_id", filmId)
       .eq("scene_number", sceneNumber)
       .limit(1)
       .maybeSingle();
-    if (data) setScriptPreview({ heading: data.heading, text: data.raw_text, highlight });
+    if (data) setScriptPreview({ heading: data.heading, text: data.raw_text, highlight, revisedLines: revisedLineSet(data.revised_lines) });
   }, [filmId]);
 
   return (
@@ -1368,6 +1440,23 @@ const Development = () => {
                                 {analysis.status === "complete" ? "Analysis complete" : analysis.status === "error" ? "Analysis failed" : "Analyzing…"}
                               </p>
                             </div>
+                            {analysis.status === "complete" && (
+                              <>
+                                <input ref={revisionInputRef} type="file" accept={ACCEPTED_EXTENSIONS.join(",")} className="hidden" onChange={handleImportRevision} />
+                                <Button
+                                  onClick={() => revisionInputRef.current?.click()}
+                                  disabled={isAnalyzing}
+                                  variant="outline"
+                                  size="sm"
+                                  className="gap-1.5 shrink-0"
+                                >
+                                  {isAnalyzing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+                                  Import Revision
+                                </Button>
+                                <ScriptRevisionsDialog disabled={isAnalyzing} />
+                                <ScriptExportMenu disabled={isAnalyzing} />
+                              </>
+                            )}
                             {analysis.status === "complete" && !scriptLocked && (
                               <Button
                                 onClick={() => setReanalyzeDialogOpen(true)}
@@ -1397,7 +1486,7 @@ const Development = () => {
                                       The entire pipeline will start from scratch.
                                     </p>
                                     <p className="rounded-lg bg-muted p-3 text-sm">
-                                      <strong>Recommendation:</strong> Duplicate this version first and import the updated script there instead. This preserves your current work as a backup.
+                                      <strong>Recommendation:</strong> To bring in a new draft of the same script, use <strong>Import Revision</strong> instead — it keeps enrichment for unchanged scenes and flags affected shots. Otherwise, duplicate this version first to preserve your current work as a backup.
                                     </p>
                                   </AlertDialogDescription>
                                 </AlertDialogHeader>
@@ -2044,7 +2133,9 @@ const Development = () => {
 
                       {/* ── Genre ── */}
                       {(() => {
-                        const GENRE_OPTIONS = ["Action", "Comedy", "Docu-drama", "Drama", "Horror", "Sci-Fi", "Fantasy", "Animation", "Thriller", "Romance", "Documentary", "Musical", "Western", "Mystery", "Crime", "Adventure", "War", "Biographical", "Historical", "Noir", "Satire", "Supernatural"];
+                        const BUILT_IN_GENRE_OPTIONS = ["Action", "Comedy", "Docu-drama", "Drama", "Horror", "Sci-Fi", "Fantasy", "Animation", "Thriller", "Romance", "Documentary", "Musical", "Western", "Mystery", "Crime", "Adventure", "War", "Biographical", "Historical", "Noir", "Satire", "Supernatural"];
+                        // Workspace genres ("Folk Horror") follow the built-ins
+                        const GENRE_OPTIONS = [...new Set([...BUILT_IN_GENRE_OPTIONS, ...customGenres.map((g) => g.name)])];
                         const availableGenres = GENRE_OPTIONS.filter((g) => !genres.includes(g));
                         const removeGenre = (g: string) => {
                           const next = genres.filter((x) => x !== g);
@@ -2121,7 +2212,8 @@ const Development = () => {
                                 {genres.length === 0 && (
                                   <p className="text-xs text-muted-foreground/50 italic">No genres set — run script analysis to auto-detect</p>
                                 )}
-                                <div className="flex justify-end pt-4 border-t border-border mt-4">
+                                <div className="flex justify-between pt-4 border-t border-border mt-4">
+                                  <GenreProfilesDialog />
                                   <Button
                                     size="sm"
                                     variant={genreApproved ? "default" : "outline"}
@@ -2701,7 +2793,7 @@ const Development = () => {
                 );
               };
 
-              return scriptPreview?.text.split("\n").map((line, i) => {
+              const renderLine = (line: string, i: number) => {
                 const trimmed = line.trim();
                 const isHeading = /^(INT\.|EXT\.|INT\/EXT\.|I\/E\.)/i.test(trimmed);
                 const isCharacter = trimmed === trimmed.toUpperCase() && trimmed.length > 1 && trimmed.length < 40 && !isHeading && !/^\(/.test(trimmed);
@@ -2722,7 +2814,17 @@ const Development = () => {
                 }
                 if (!trimmed) return <div key={i} style={{ height: 12 }} />;
                 return <p key={i} style={{ marginTop: 12, marginBottom: 0 }}>{renderHighlighted(trimmed)}</p>;
-              });
+              };
+
+              // Lines changed by the latest revision get a right-margin asterisk
+              return scriptPreview?.text.split("\n").map((line, i) =>
+                line.trim() && scriptPreview.revisedLines?.has(normalizeScriptLine(line)) ? (
+                  <div key={i} style={{ position: "relative" }}>
+                    {renderLine(line, i)}
+                    <span style={{ position: "absolute", right: -36, bottom: 0, fontWeight: "bold" }}>*</span>
+                  </div>
+                ) : renderLine(line, i)
+              );
             })()}
           </div>
         </div>
@@ -2768,6 +2870,7 @@ const SceneBreakdownFromDB = ({ filmId, storagePath, breakdownOpen, setBreakdown
         }
         return {
         scene_number: s.scene_number,
+        production_scene_number: s.production_scene_number || null,
         scene_heading: slugLine,
         description: s.description || "",
         characters: s.characters || [],
@@ -2788,8 +2891,15 @@ const SceneBreakdownFromDB = ({ filmId, storagePath, breakdownOpen, setBreakdown
         day_night: s.day_night || "",
         location_name: s.location_name || "",
         estimated_page_count: s.estimated_page_count || 0,
+        page_start: s.page_start ?? null,
+        page_end: s.page_end ?? null,
+        page_eighths: s.page_eighths ?? null,
         cinematic_elements: s.cinematic_elements || {},
         visual_design: s.visual_design || {},
+        revision_status: s.revision_status || "original",
+        revision_color: s.revision_color || null,
+        revised_lines: s.revised_lines || null,
+        paragraphs: s.paragraphs || null,
       };
       });
     },
@@ -2923,6 +3033,13 @@ const SceneBreakdownSection = ({ scenes, storagePath, onAllApprovedChange, onRev
   );
 };
 
+/** Badge per parsed_scenes.revision_status after a revised draft is imported */
+const REVISION_BADGES: Record<string, { label: string; className: string }> = {
+  changed: { label: "Revised", className: "bg-amber-500/15 text-amber-500" },
+  added: { label: "New", className: "bg-green-500/15 text-green-500" },
+  omitted: { label: "Omitted", className: "bg-muted text-muted-foreground line-through" },
+};
+
 const SceneReviewCard = ({ scene, index, storagePath, approved, rejected, onToggleApproved, onToggleRejected }: { scene: any; index: number; storagePath: string; approved: boolean; rejected: boolean; onToggleApproved: () => void; onToggleRejected: () => void }) => {
   const [expanded, setExpanded] = useState(false);
   const [scriptParagraphs, setScriptParagraphs] = useState<{ type: string; text: string }[] | null>(null);
@@ -3074,6 +3191,18 @@ const SceneReviewCard = ({ scene, index, storagePath, approved, rejected, onTogg
     const sceneNum = scene.scene_number ?? index + 1;
     const title = scene.scene_heading || `Scene ${sceneNum}`;
 
+    // Structured imports (Fountain, PDF) already carry typed paragraphs
+    if (scriptParagraphs === null && scene.paragraphs) {
+      const stored = sceneParagraphs(scene);
+      setScriptParagraphs(stored);
+      openScriptViewer({
+        title,
+        description: "Original screenplay formatting",
+        scenes: [{ sceneNum, heading: title, paragraphs: stored }],
+      });
+      return;
+    }
+
     if (scriptParagraphs !== null) {
       openScriptViewer({
         title,
@@ -3102,6 +3231,8 @@ const SceneReviewCard = ({ scene, index, storagePath, approved, rejected, onTogg
         parsed = isFdx ? parseFdxScene(full) : parsePlainTextScene(full);
       }
 
+      // Asterisk what the latest revision changed
+      parsed = sceneParagraphs({ paragraphs: parsed, revised_lines: scene.revised_lines });
       setScriptParagraphs(parsed);
       setScriptViewerScenes([{ sceneNum, heading: title, paragraphs: parsed }]);
     } catch {
@@ -3122,7 +3253,7 @@ const SceneReviewCard = ({ scene, index, storagePath, approved, rejected, onTogg
           className="flex items-center gap-3 flex-1 hover:opacity-80 transition-opacity text-left"
         >
           <span className="flex h-8 w-8 min-w-8 items-center justify-center rounded-lg bg-primary/10 text-primary text-xs font-bold font-mono shrink-0">
-            {scene.scene_number ?? index + 1}
+            {sceneNumberLabel({ ...scene, scene_number: scene.scene_number ?? index + 1 })}
           </span>
           <div>
             <p className="font-display font-semibold text-sm">{scene.scene_heading || "Untitled Scene"}</p>
@@ -3132,6 +3263,17 @@ const SceneReviewCard = ({ scene, index, storagePath, approved, rejected, onTogg
           </div>
         </button>
         <div className="flex items-center gap-2">
+          {REVISION_BADGES[scene.revision_status] && (
+            <span
+              className={cn("flex items-center gap-1 text-[10px] font-mono uppercase tracking-wider px-1.5 py-0.5 rounded", REVISION_BADGES[scene.revision_status].className)}
+              title={scene.revision_color ? `${scene.revision_color} revision` : undefined}
+            >
+              {revisionColorHex(scene.revision_color) && (
+                <span className="h-2 w-2 rounded-full border border-border" style={{ backgroundColor: revisionColorHex(scene.revision_color)! }} />
+              )}
+              {REVISION_BADGES[scene.revision_status].label}
+            </span>
+          )}
           {rejected && <span className="text-xs text-destructive font-medium">Needs Work</span>}
           {approved && <span className="text-xs text-primary font-medium">Approved</span>}
           <Button data-script-btn variant="ghost" size="sm" className="gap-1 text-xs h-7 px-2" onClick={loadScript}>
@@ -3489,7 +3631,14 @@ const EditableSceneContent = ({
           </Section>
         )}
 
-        {scene.estimated_page_count > 0 && (
+        {scene.page_eighths > 0 ? (
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <ScrollText className="h-3.5 w-3.5" />
+            <span>
+              {formatEighths(scene.page_eighths)} pg · {scene.page_end > scene.page_start ? `pp. ${scene.page_start}–${scene.page_end}` : `p. ${scene.page_start}`}
+            </span>
+          </div>
+        ) : scene.estimated_page_count > 0 && (
           <div className="flex items-center gap-2 text-xs text-muted-foreground">
             <ScrollText className="h-3.5 w-3.5" />
             <span>Est. {scene.estimated_page_count} page{scene.estimated_page_count !== 1 ? "s" : ""}</span>
@@ -4080,7 +4229,7 @@ const ContentSafetyMatrix = ({
               <div key={i} className="flex items-center gap-2 text-xs" style={{ animationDelay: `${i * 80}ms` }}>
                 <Loader2 className="h-3 w-3 animate-spin text-primary" />
                 <span className="text-muted-foreground truncate">
-                  Scene {s.scene_number ?? i + 1}: {s.heading || `Scene ${i + 1}`}
+                  Scene {sceneNumberLabel({ ...s, scene_number: s.scene_number ?? i + 1 })}: {s.heading || `Scene ${i + 1}`}
                 </span>
               </div>
             ))}
@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback, useRef, useMemo } from "react";
-import { useShots, useTimelineClips, useFilmId } from "@/hooks/useFilm";
+import { useShots, useTimelineClips, useFilmId, useSceneLabel } from "@/hooks/useFilm";
 import { useStyleContract } from "@/hooks/useStyleContract";
 import { supabase } from "@/integrations/supabase/client";
 import StyleDriftDetector from "@/components/post-production/StyleDriftDetector";
@@ -169,6 +169,7 @@ function DraggableShot({ shot, index }: { shot: Shot; index: number }) {
     id: `media-shot-${shot.id}`,
     data: { type: "media-shot", shot },
   });
+  const sceneLabel = useSceneLabel();
 
   const [selected, setSelected] = useState(false);
   const [trimLeft, setTrimLeft] = useState(0);
@@ -243,7 +244,7 @@ function DraggableShot({ shot, index }: { shot: Shot; index: number }) {
         <div className="absolute top-1.5 left-1.5 z-10">
           <span className="px-1.5 py-0.5 rounded text-[9px] font-mono font-bold leading-none"
             style={{ color: "#FFD600", background: "hsla(0, 0%, 0%, 0.65)" }}>
-            SC{shot.scene_number} / SH{index + 1} / T1
+            SC{sceneLabel(shot.scene_number)} / SH{index + 1} / T1
           </span>
         </div>
 
@@ -300,6 +301,7 @@ function DroppableTrack({ track, children, isOver }: { track: Track; children: R
 /* ── Collapsible Scene Folder ── */
 function SceneShotFolder({ sceneNumber, shots, globalIndex }: { sceneNumber: number; shots: Shot[]; globalIndex: number }) {
   const [open, setOpen] = useState(false);
+  const sceneLabel = useSceneLabel();
   return (
     <div className="rounded-lg border border-border/60 overflow-hidden">
       <button
@@ -309,7 +311,7 @@ function SceneShotFolder({ sceneNumber, shots, globalIndex }: { sceneNumber: num
         {open ? <ChevronDown className="h-3 w-3 text-muted-foreground" /> : <ChevronRight className="h-3 w-3 text-muted-foreground" />}
         {open ? <FolderOpen className="h-3.5 w-3.5 text-primary/70" /> : <Folder className="h-3.5 w-3.5 text-primary/70" />}
         <span className="text-[10px] font-mono font-bold" style={{ color: "#FFD600" }}>
-          Scene {sceneNumber}
+          Scene {sceneLabel(sceneNumber)}
         </span>
         <span className="text-[9px] font-mono text-muted-foreground/60 ml-auto">
           {shots.length} shot{shots.length !== 1 ? "s" : ""}
@@ -387,6 +389,7 @@ const PostProduction = () => {
   const { data: clipsData, isLoading: clipsLoading } = useTimelineClips();
   const filmId = useFilmId();
   const { data: styleContract } = useStyleContract();
+  const sceneLabel = useSceneLabel();
   const [vfxClip, setVfxClip] = useState<Clip | null>(null);
   const [deleteConfirm, setDeleteConfirm] = useState<Track | null>(null);
   const [importedFiles, setImportedFiles] = useState<ImportedFile[]>([]);
@@ -471,9 +474,9 @@ const PostProduction = () => {
       setActiveDrag({ id: event.active.id as string, label: d.clip?.label ?? "Clip", track: d.clip?.track });
     } else if (d?.type === "media-shot") {
       const shot = d.shot as Shot;
-      setActiveDrag({ id: event.active.id as string, label: `SC${shot.scene_number} – ${shot.camera_angle || "Shot"}` });
+      setActiveDrag({ id: event.active.id as string, label: `SC${sceneLabel(shot.scene_number)} – ${shot.camera_angle || "Shot"}` });
     }
-  }, []);
+  }, [sceneLabel]);
 
   const handleTrimClip = useCallback((id: string, newLeft: number, newWidth: number) => {
     setState((prev) => ({
@@ -506,7 +509,7 @@ const PostProduction = () => {
       const newClip: Clip = {
         id: `local-${Date.now()}`,
         film_id: shot.film_id,
-        label: `SC${shot.scene_number} – ${shot.camera_angle || shot.prompt_text?.slice(0, 25) || "Shot"}`,
+        label: `SC${sceneLabel(shot.scene_number)} – ${shot.camera_angle || shot.prompt_text?.slice(0, 25) || "Shot"}`,
         track: targetTrack,
         left_pos: maxRight + 8,
         width: 200,
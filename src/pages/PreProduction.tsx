@@ -18,7 +18,7 @@ import { toast } from "sonner";
 import {
   Users, MapPin, Shirt, Mic, Film, Lock, Sparkles, Loader2, Check, User, Pencil,
   Save, AudioWaveform, Package, Car, ChevronDown, ChevronRight, Upload, Eye, ScrollText, Star,
-  RotateCcw, Layers, UserCheck,
+  RotateCcw, Layers, UserCheck, CalendarDays, Wand2,
 } from "lucide-react";
 import {
   AlertDialog, AlertDialogContent, AlertDialogHeader, AlertDialogTitle,
@@ -29,6 +29,12 @@ import { useGenerationManager } from "@/hooks/useGenerationManager";
 
 import DnDGroupPane from "@/components/pre-production/DnDGroupPane";
 import VoiceAuditionPlayer from "@/components/pre-production/VoiceAuditionPlayer";
+import StripboardPanel from "@/components/pre-production/StripboardPanel";
+import PropsMasterPanel from "@/components/pre-production/PropsMasterPanel";
+import VfxBreakdownPanel from "@/components/pre-production/VfxBreakdownPanel";
+import LocationTreePanel from "@/components/pre-production/LocationTreePanel";
+import { useLocationTree } from "@/hooks/useLocationTree";
+import { sceneLocationName } from "@/lib/stripboard";
 
 /* ── Audition card type ── */
 interface AuditionCard {
@@ -189,6 +195,9 @@ const PreProduction = () => {
     return set;
   }, [viewsByCharacter]);
 
+  const [propsView, setPropsView] = useState<"design" | "master">("design");
+  const [locationsView, setLocationsView] = useState<"design" | "tree">("design");
+
   // Reclassified/dismissed props (persisted per film)
   const [reclassified, setReclassified] = useState<Record<string, string>>({});
   useEffect(() => {
@@ -325,6 +334,33 @@ const PreProduction = () => {
       }));
   }, [scriptAnalysis?.global_elements]);
 
+  // Once the location tree is built, its top-level locations group the Locations sidebar
+  const locationTree = useLocationTree();
+  const locationTreeGroups = useMemo(() => {
+    if (!locationTree.hasTree || !parsedScenes) return undefined;
+    const items = new Map(augmentedLocations.map((l) => [l.toUpperCase(), l]));
+    const sceneByNumber = new Map(parsedScenes.map((s) => [s.scene_number, s]));
+    // Each sidebar item goes to the location holding most of its scenes
+    const votes = new Map<string, Map<string, number>>();
+    for (const root of locationTree.roots) {
+      for (const n of root.totalSceneNumbers) {
+        const scene = sceneByNumber.get(n);
+        const item = scene && items.get(sceneLocationName(scene).toUpperCase());
+        if (!item) continue;
+        if (!votes.has(item)) votes.set(item, new Map());
+        votes.get(item)!.set(root.node.id, (votes.get(item)!.get(root.node.id) ?? 0) + 1);
+      }
+    }
+    const owner = new Map([...votes].map(([item, counts]) => [item, [...counts].sort((a, b) => b[1] - a[1])[0][0]]));
+    return locationTree.roots
+      .map((root) => ({
+        id: `location-tree-${root.node.id}`,
+        name: root.node.name,
+        children: [...owner].filter(([, id]) => id === root.node.id).map(([item]) => item),
+      }))
+      .filter((g) => g.children.length > 0);
+  }, [locationTree, parsedScenes, augmentedLocations]);
+
   // Script viewer state
   const [scriptDialogOpen, setScriptDialogOpen] = useState(false);
   const [scriptDialogScene, setScriptDialogScene] = useState<any>(null);
@@ -842,6 +878,8 @@ const PreProduction = () => {
             <PreProductionTab value="props" icon={Package} label="Props" status={tabStatusMap.props} />
             <PreProductionTab value="wardrobe" icon={Shirt} label="Wardrobe" status={tabStatusMap.wardrobe} />
             <PreProductionTab value="vehicles" icon={Car} label="Picture Vehicles" status={tabStatusMap.vehicles} />
+            <PreProductionTab value="vfx" icon={Wand2} label="VFX" />
+            <PreProductionTab value="schedule" icon={CalendarDays} label="Schedule" />
           </TabsList>
         </div>
 
@@ -1502,25 +1540,65 @@ const PreProduction = () => {
         </TabsContent>
 
         {/* ═══ OTHER TABS ═══ */}
-        <TabsContent value="locations" className="flex-1 flex overflow-hidden m-0" data-help-id="preprod-locations">
-          <DnDGroupPane items={augmentedLocations} filmId={filmId} storagePrefix="locations" icon={MapPin} title="Locations" emptyMessage="No locations extracted yet. Lock your script in Development." subtitles={breakdownAssets?.locationDescriptions} expandableSubtitles sceneBreakdown={parsedScenes as any[] | undefined} storagePath={scriptAnalysis?.storage_path as string | undefined} initialGroups={globalElementsLocationGroups} itemSceneCounts={breakdownAssets?.locationSceneCounts} />
+        <TabsContent value="locations" className="flex-1 flex flex-col overflow-hidden m-0" data-help-id="preprod-locations">
+          <div className="flex shrink-0 items-center gap-1 border-b border-border px-6 py-1.5">
+            {([["design", "Design"], ["tree", "Location Tree"]] as const).map(([value, label]) => (
+              <button
+                key={value}
+                onClick={() => setLocationsView(value)}
+                className={cn(
+                  "rounded-md px-2.5 py-1 text-[10px] font-mono uppercase tracking-wider transition-colors",
+                  locationsView === value ? "bg-primary/15 text-primary" : "text-muted-foreground hover:text-foreground"
+                )}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {locationsView === "tree" ? (
+            <LocationTreePanel />
+          ) : (
+            <div className="flex flex-1 overflow-hidden">
+              <DnDGroupPane items={augmentedLocations} filmId={filmId} storagePrefix="locations" icon={MapPin} title="Locations" emptyMessage="No locations extracted yet. Lock your script in Development." subtitles={breakdownAssets?.locationDescriptions} expandableSubtitles sceneBreakdown={parsedScenes as any[] | undefined} storagePath={scriptAnalysis?.storage_path as string | undefined} initialGroups={globalElementsLocationGroups} managedGroups={locationTreeGroups} itemSceneCounts={breakdownAssets?.locationSceneCounts} />
+            </div>
+          )}
         </TabsContent>
-        <TabsContent value="props" className="flex-1 flex overflow-hidden m-0" data-help-id="preprod-props">
-          <DnDGroupPane
-            items={filteredProps} filmId={filmId} storagePrefix="props" icon={Package} title="Props"
-            emptyMessage="No props extracted yet. Lock your script in Development."
-            subtitles={breakdownAssets?.propDescriptions}
-            expandableSubtitles
-            sceneBreakdown={parsedScenes as any[] | undefined}
-            storagePath={scriptAnalysis?.storage_path as string | undefined}
-            excludeFromKeyObjects={augmentedVehicles}
-            initialGroups={breakdownAssets?.propInitialGroups}
-            reclassifyOptions={[
-              { label: "Locations", value: "locations", icon: MapPin },
-              { label: "Picture Vehicles", value: "vehicles", icon: Car },
-            ]}
-            onReclassify={handleReclassify}
-          />
+        <TabsContent value="props" className="flex-1 flex flex-col overflow-hidden m-0" data-help-id="preprod-props">
+          <div className="flex shrink-0 items-center gap-1 border-b border-border px-6 py-1.5">
+            {([["design", "Design"], ["master", "Master List"]] as const).map(([value, label]) => (
+              <button
+                key={value}
+                onClick={() => setPropsView(value)}
+                className={cn(
+                  "rounded-md px-2.5 py-1 text-[10px] font-mono uppercase tracking-wider transition-colors",
+                  propsView === value ? "bg-primary/15 text-primary" : "text-muted-foreground hover:text-foreground"
+                )}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {propsView === "master" ? (
+            <PropsMasterPanel breakdownProps={filteredProps} />
+          ) : (
+            <div className="flex flex-1 overflow-hidden">
+              <DnDGroupPane
+                items={filteredProps} filmId={filmId} storagePrefix="props" icon={Package} title="Props"
+                emptyMessage="No props extracted yet. Lock your script in Development."
+                subtitles={breakdownAssets?.propDescriptions}
+                expandableSubtitles
+                sceneBreakdown={parsedScenes as any[] | undefined}
+                storagePath={scriptAnalysis?.storage_path as string | undefined}
+                excludeFromKeyObjects={augmentedVehicles}
+                initialGroups={breakdownAssets?.propInitialGroups}
+                reclassifyOptions={[
+                  { label: "Locations", value: "locations", icon: MapPin },
+                  { label: "Picture Vehicles", value: "vehicles", icon: Car },
+                ]}
+                onReclassify={handleReclassify}
+              />
+            </div>
+          )}
         </TabsContent>
         <TabsContent value="wardrobe" className="flex-1 flex overflow-hidden m-0" data-help-id="preprod-wardrobe">
           {(() => {
@@ -1589,6 +1667,12 @@ const PreProduction = () => {
         <TabsContent value="vehicles" className="flex-1 flex overflow-hidden m-0" data-help-id="preprod-vehicles">
           <DnDGroupPane items={augmentedVehicles} filmId={filmId} storagePrefix="vehicles" icon={Car} title="Picture Vehicles" emptyMessage="No vehicles identified in the script breakdown yet." subtitles={breakdownAssets?.vehicleDescriptions} expandableSubtitles sceneBreakdown={parsedScenes as any[] | undefined} storagePath={scriptAnalysis?.storage_path as string | undefined} />
         </TabsContent>
+        <TabsContent value="vfx" className="flex-1 flex overflow-hidden m-0" data-help-id="preprod-vfx">
+          <VfxBreakdownPanel />
+        </TabsContent>
+        <TabsContent value="schedule" className="flex-1 flex overflow-hidden m-0" data-help-id="preprod-schedule">
+          <StripboardPanel />
+        </TabsContent>
       </Tabs>
 
       {/* ═══ SCRIPT VIEWER DIALOG ═══ */}
@@ -1,5 +1,6 @@
 import { useState, useCallback, useRef, useEffect } from "react";
-import { parseSceneFromPlainText, classifyScreenplayLines } from "@/lib/parse-script-text";
+import { parseSceneFromPlainText, sceneParagraphs } from "@/lib/parse-script-text";
+import { sceneNumberLabel } from "@/lib/scene-numbers";
 import { Camera, Film, ChevronRight, ChevronLeft } from "lucide-react";
 import { useFilmId, useParsedScenes } from "@/hooks/useFilm";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
@@ -20,6 +21,7 @@ import OpticsSuitePanel from "@/components/production/OpticsSuitePanel";
 import type { AnchorScore } from "@/components/production/AnchorPicker";
 import type { DiffPair } from "@/components/production/DiffOverlay";
 import ViceStatusBadge from "@/components/production/ViceStatusBadge";
+import SceneStyleOverridesDialog from "@/components/production/SceneStyleOverridesDialog";
 import VicePanel from "@/components/production/VicePanel";
 import { useScriptViewer } from "@/components/ScriptViewerDialog";
 
@@ -79,7 +81,7 @@ const Production = () => {
   const { startGeneration, getGenerationsForShot } = useGenerationManager();
   const { openScriptViewer, setScriptViewerScenes } = useScriptViewer();
   const { data: analysis } = useLatestAnalysis(filmId);
-  const { data: productionParsedScenes } = useParsedScenes();
+  const { data: productionParsedScenes } = useParsedScenes({ excludeOmitted: true });
   const { data: allShots = [] } = useShotsForFilm(filmId);
 
   const [activeSceneIdx, setActiveSceneIdx] = useState<number | null>(null);
@@ -138,6 +140,9 @@ const Production = () => {
 
   const activeScene = activeSceneIdx !== null ? scenes[activeSceneIdx] : null;
   const activeSceneNumber = activeScene?.scene_number ?? (activeSceneIdx !== null ? activeSceneIdx + 1 : undefined);
+  const activeSceneLabel = activeSceneNumber != null
+    ? sceneNumberLabel({ scene_number: activeSceneNumber, production_scene_number: activeScene?.production_scene_number })
+    : undefined;
 
   const { data: sceneTextData } = useSceneText(filmId, activeSceneNumber);
 
@@ -494,15 +499,14 @@ const Production = () => {
     if (!scene) return;
 
     const sceneNum = scene.scene_number ?? sceneIdx + 1;
-    const title = scene.scene_heading || `Scene ${sceneNum}`;
+    const title = scene.scene_heading || `Scene ${sceneNumberLabel({ ...scene, scene_number: sceneNum })}`;
 
     openScriptViewer({ title, description: "Original screenplay formatting" });
 
     try {
-      // Prefer raw_text already on the parsed scene — avoids a storage download
-      if (scene.raw_text) {
-        const lines = scene.raw_text.split("\n");
-        const parsed = classifyScreenplayLines(lines);
+      // Prefer paragraphs / raw_text already on the parsed scene — avoids a storage download
+      if (scene.paragraphs || scene.raw_text) {
+        const parsed = sceneParagraphs(scene);
         setScriptViewerScenes([{ sceneNum, heading: title, paragraphs: parsed }]);
         return;
       }
@@ -602,8 +606,8 @@ const Production = () => {
                     <span>Scenes</span>
                   </button>
                 )}
-                <span className="flex h-8 w-8 items-center justify-center rounded-lg bg-primary/15 text-primary text-sm font-mono font-bold">
-                  {activeSceneNumber}
+                <span className="flex h-8 min-w-8 px-1.5 items-center justify-center rounded-lg bg-primary/15 text-primary text-sm font-mono font-bold">
+                  {activeSceneLabel}
                 </span>
                 <div className="min-w-0">
                   <h1 className="font-display text-base font-bold text-foreground truncate">
@@ -616,6 +620,7 @@ const Production = () => {
                 </div>
                 <div className="ml-auto flex items-center gap-2 shrink-0">
                   <ViceStatusBadge onClick={() => setVicePanelOpen(true)} />
+                  <SceneStyleOverridesDialog sceneNumber={activeSceneNumber} sceneLabel={activeSceneLabel} />
                   <div className="flex items-center gap-1.5 px-2 py-1 rounded bg-secondary/80 border border-border/50">
                     <span className="text-[9px] font-mono font-bold text-muted-foreground uppercase tracking-wider">
                       {viewportAspect > 2 ? "2.39:1" : "16:9"}
@@ -691,6 +696,7 @@ const Production = () => {
                   <div data-help-id="prod-shot-list">
                   <ShotList
                     shots={sceneShots}
+                    sceneLabel={activeSceneLabel}
                     activeShotId={activeShotId}
                     onSelectShot={handleSelectShot}
                     onAddShot={() => createShot.mutate({ text: "", characters: [] })}
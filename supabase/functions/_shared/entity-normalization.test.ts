@@ -0,0 +1,32 @@
+import { describe, it, expect } from "vitest";
+import { parseSceneHeading } from "./entity-normalization.ts";
+import { detectSluglineLocale, getSluglineLocale } from "./slugline-locales.ts";
+
+describe("parseSceneHeading with a slugline locale", () => {
+  it("reads French, Spanish and German headings into canonical English", () => {
+    expect(parseSceneHeading("INT. APPARTEMENT - JOUR")).toMatchObject({ int_ext: "INT", location: "APPARTEMENT", time_of_day: "DAY" });
+    expect(parseSceneHeading("EXT. CALLE - NOCHE")).toMatchObject({ int_ext: "EXT", location: "CALLE", time_of_day: "NIGHT" });
+    expect(parseSceneHeading("INNEN/TAG - KÜCHE")).toMatchObject({ int_ext: "INT", location: "KÜCHE", time_of_day: "DAY" });
+  });
+
+  it("keeps English when a heading scores equally for every locale", () => {
+    expect(detectSluglineLocale("INT. HOUSE").code).toBe("en");
+  });
+
+  it("breaks a tie between two locales in registration order", () => {
+    // ALBA is dawn in both Spanish and Italian; Spanish is registered first
+    expect(detectSluglineLocale("EXT. PLAZA - ALBA").code).toBe("es");
+    // TARDE and INTERIOR are both Spanish and Portuguese
+    expect(detectSluglineLocale("INTERIOR CASA - TARDE").code).toBe("es");
+  });
+
+  it("uses the script's locale over a tied detection from the heading alone", () => {
+    const italian = getSluglineLocale("it");
+    // "EST." is Italian for exterior; detection alone would pick Spanish, which lacks it
+    expect(parseSceneHeading("EST. PIAZZA - ALBA", italian)).toMatchObject({ int_ext: "EXT", location: "PIAZZA", time_of_day: "DAWN" });
+  });
+
+  it("takes the last time word, so a location containing one keeps it", () => {
+    expect(parseSceneHeading("INT. NIGHT CLUB - DAY", getSluglineLocale("en"))).toMatchObject({ location: "NIGHT CLUB", time_of_day: "DAY" });
+  });
+});
@@ -5,6 +5,18 @@
  * Handles canonicalization, alias resolution, and cross-category validation.
  */
 
+import {
+  canonicalContinuity,
+  canonicalTime,
+  continuityWordsSource,
+  detectSluglineLocale,
+  isSceneHeadingLine,
+  matchHeadingPrefix,
+  timeWordsSource,
+  WORD_END,
+  type SluglineLocale,
+} from "./slugline-locales.ts";
+
 const APOSTROPHE_RE = /[''`´]/g;
 
 // ─── Entity type constants ───────────────────────────────────────
@@ -417,8 +429,6 @@ export function classifyEntity(name: string, aiSuggestedType?: string): EntityTy
 
 // ─── Location normalization ──────────────────────────────────────
 
-const HEADING_PREFIX_RE = /^(?:INT\.?\/EXT\.?|I\/E\.?|INT\.?|EXT\.?)\s*[-–—.\s]*/i;
-
 /** Time-of-day and continuity markers — broad patterns to strip from location names */
 const TIME_PATTERNS = [
   // Standard time-of-day with dash
@@ -440,7 +450,38 @@ const TIME_PATTERNS = [
   /\s*[-–—]?\s*ANNIVERSARY\s+(?:NIGHT|DAY|EVENING)\.?\s*$/i,
 ];
 
-const CONTINUITY_RE = /[-–—]\s*(CONTINUOUS|LATER|SAME TIME|MOMENTS LATER|A MOMENT LATER|SAME|NEXT MORNING|NEXT DAY|SAME DAY)\s*$/i;
+/** Locale-specific heading patterns, compiled once per slugline locale */
+interface HeadingPatterns {
+  /** "INNEN/TAG" — time of day straight after the prefix */
+  leadingTime: RegExp;
+  time: RegExp;
+  continuity: RegExp;
+  /** Time and continuity suffixes in the locale's words */
+  suffixes: RegExp[];
+  /** A dash-separated part that is only a time or continuity word */
+  bareMarker: RegExp;
+}
+
+const headingPatternCache = new WeakMap<SluglineLocale, HeadingPatterns>();
+
+function headingPatterns(locale: SluglineLocale): HeadingPatterns {
+  const cached = headingPatternCache.get(locale);
+  if (cached) return cached;
+  const times = timeWordsSource(locale);
+  const continuity = continuityWordsSource(locale);
+  const patterns: HeadingPatterns = {
+    leadingTime: new RegExp(`^\\s*\\/\\s*(${times})${WORD_END}\\s*[-–—.,]?\\s*`, "i"),
+    time: new RegExp(`[-–—.,/]\\s*(${times})${WORD_END}`, "gi"),
+    continuity: new RegExp(`[-–—]\\s*(${continuity})\\s*$`, "i"),
+    suffixes: [
+      new RegExp(`\\s*[-–—.,/]\\s*(?:${times})\\s*$`, "i"),
+      new RegExp(`\\s*[-–—]\\s*(?:${continuity})\\s*$`, "i"),
+    ],
+    bareMarker: new RegExp(`^(?:${times}|${continuity})$`, "i"),
+  };
+  headingPatternCache.set(locale, patterns);
+  return patterns;
+}
 
 export interface ParsedHeading {
   int_ext: string;
@@ -456,14 +497,14 @@ export interface ParsedHeading {
 /**
  * Strip all time/continuity suffixes from a location string, iteratively.
  */
-function stripTimeSuffixes(value: string): string {
+function stripTimeSuffixes(value: string, localePatterns: RegExp[] = []): string {
   let result = value;
   let changed = true;
   let passes = 0;
   while (changed && passes < 5) {
     changed = false;
     passes++;
-    for (const pattern of TIME_PATTERNS) {
+    for (const pattern of [...TIME_PATTERNS, ...localePatterns]) {
       const stripped = result.replace(pattern, "").trim();
       if (stripped !== result && stripped.length > 0) {
         result = stripped;
@@ -479,40 +520,51 @@ function stripTimeSuffixes(value: string): string {
 /**
  * Parse a scene heading deterministically into structured data.
  * No AI involved — pure regex extraction.
+ *
+ * Slugline words follow the script's locale ("INT. APPARTEMENT - JOUR",
+ * "INNEN/TAG - KÜCHE"); int_ext, time_of_day and continuity_marker always come
+ * out in canonical English. Without a locale it is detected from the heading.
  */
-export function parseSceneHeading(heading: string): ParsedHeading {
+export function parseSceneHeading(heading: string, locale?: SluglineLocale | null): ParsedHeading {
+  const lang = locale ?? detectSluglineLocale(heading);
+  const patterns = headingPatterns(lang);
+
   // Pre-clean: normalize period-separated compound headings 
   // e.g., "WELLS' HOME. BEDROOM. LATER" → "WELLS' HOME - BEDROOM - LATER"
   let normalized = normalizeApostrophes(heading).trim();
   
   // Replace period-separated parts (but not INT./EXT. prefixes)
   // First, protect INT./EXT. prefixes
-  const prefixMatch = normalized.match(/^(INT\.?\/EXT\.?|I\/E\.?|INT\.?|EXT\.?)\s*/i);
-  const prefix = prefixMatch ? prefixMatch[0] : "";
-  let body = prefixMatch ? normalized.slice(prefix.length) : normalized;
+  const prefixMatch = matchHeadingPrefix(normalized, lang);
+  const prefix = prefixMatch ? prefixMatch.prefix : "";
+  let body = normalized.slice(prefix.length);
+
+  // "INNEN/TAG - KÜCHE": time of day attached to the prefix
+  const leadingTime = body.match(patterns.leadingTime);
+  if (leadingTime) body = body.slice(leadingTime[0].length);
+  body = body.replace(/^[-–—.\s]+/, "");
   
   // Convert period separators to dash separators for uniform parsing
   body = body.replace(/\.\s+/g, " - ").replace(/\.\s*$/, "");
-  normalized = prefix + body;
+  normalized = prefix ? `${prefix} ${body}` : body;
 
-  // Extract INT/EXT
-  const intExtMatch = normalized.match(/^(INT\.?\/EXT\.?|I\/E\.?|INT\.?|EXT\.?)/i);
-  const int_ext = intExtMatch ? intExtMatch[1].replace(".", "").replace("/", "/").toUpperCase() : "";
+  // Canonical INT / EXT / INT/EXT
+  const int_ext = prefixMatch ? prefixMatch.int_ext : "";
 
   // Extract continuity marker before stripping time
-  const contMatch = normalized.match(CONTINUITY_RE);
-  const continuity_marker = contMatch ? contMatch[1].toUpperCase() : null;
+  const contMatch = body.match(patterns.continuity);
+  const continuity_marker = contMatch ? canonicalContinuity(contMatch[1], lang) : null;
 
   // Extract time of day
-  const timeMatch = normalized.match(/[-–—.]\s*(DAY|NIGHT|DAWN|DUSK|MORNING|EVENING|AFTERNOON|SUNRISE|SUNSET)\b/i);
-  const time_of_day = timeMatch ? timeMatch[1].toUpperCase() : "";
+  // The last time word wins, so "NIGHT CLUB - DAY" is a day scene
+  const timeMatch = leadingTime ?? [...(" - " + body).matchAll(patterns.time)].pop();
+  const time_of_day = timeMatch ? canonicalTime(timeMatch[1], lang) : "";
 
   // Extract location (strip prefix and all time suffixes)
-  let location = normalized.replace(HEADING_PREFIX_RE, "").trim();
-  location = stripTimeSuffixes(location);
+  let location = stripTimeSuffixes(body.trim(), patterns.suffixes);
 
   // Also strip CONTINUITY markers
-  location = location.replace(CONTINUITY_RE, "").trim();
+  location = location.replace(patterns.continuity, "").trim();
   location = location.replace(/[.\s]+$/, "").trim();
 
   // Check for sublocation (dash-separated)
@@ -526,11 +578,12 @@ export function parseSceneHeading(heading: string): ParsedHeading {
       const upper = part.toUpperCase();
       // Filter out parts that are just time markers
       if (/^(?:DAY|NIGHT|DAWN|DUSK|MORNING|EVENING|AFTERNOON|SUNRISE|SUNSET|CONTINUOUS|LATER|SAME|SAME TIME|PRESENT DAY|PRESENT|NIGHT\s+LATER|EARLY MORNING|LATE NIGHT)$/i.test(upper)) return false;
+      if (patterns.bareMarker.test(upper)) return false;
       if (/^\d{4}$/.test(upper)) return false; // Year only
       if (/^\d+\s+(?:DAYS?|YEARS?|MONTHS?|WEEKS?)\s+(?:EARLIER|LATER|AGO|BEFORE|AFTER)$/i.test(upper)) return false;
       if (/^(?:ONE|TWO|THREE|FOUR|FIVE|SIX|SEVEN|EIGHT|NINE|TEN|SEVERAL|A FEW|MANY)\s+(?:DAYS?|YEARS?|MONTHS?|WEEKS?)\s+(?:EARLIER|LATER|AGO|BEFORE|AFTER)$/i.test(upper)) return false;
       // Filter out INT./EXT. fragments that leaked into sublocations
-      if (/^(?:INT|EXT)\.?\s*/i.test(upper)) return false;
+      if (/^(?:INT|EXT)\.?\s*/i.test(upper) || matchHeadingPrefix(upper, lang)) return false;
       return true;
     });
 
@@ -598,7 +651,11 @@ function locationBaseKey(value: string): string {
  * Groups sublocations under parent locations.
  * Filters out vehicle-only locations (they become VEHICLE entities).
  */
-export function canonicalizeLocations(headings: { heading: string; scene: number }[]): CanonicalEntity[] {
+export function canonicalizeLocations(
+  headings: { heading: string; scene: number }[],
+  locale?: SluglineLocale | null
+): CanonicalEntity[] {
+  const lang = locale ?? detectSluglineLocale(headings.map((h) => h.heading).join("\n"));
   const locationGroups = new Map<string, {
     canonical: string;
     sublocations: Set<string>;
@@ -607,7 +664,7 @@ export function canonicalizeLocations(headings: { heading: string; scene: number
   }>();
 
   for (const { heading, scene } of headings) {
-    const parsed = parseSceneHeading(heading);
+    const parsed = parseSceneHeading(heading, lang);
     if (!parsed.location) continue;
 
     // Skip pure vehicle locations (e.g., "CAR", "HOWARD'S CAR", "CORVETTE")
@@ -729,7 +786,7 @@ export function computeDialogueMetrics(rawText: string): DialogueMetrics {
     if (!trimmed) continue;
 
     // Scene heading
-    if (/^(INT\.|EXT\.|INT\.\/EXT\.|I\/E\.)/i.test(trimmed)) {
+    if (isSceneHeadingLine(trimmed)) {
       lastType = "heading";
       continue;
     }
@@ -740,8 +797,8 @@ export function computeDialogueMetrics(rawText: string): DialogueMetrics {
       continue;
     }
 
-    // Character cue
-    const isAllCaps = /^[A-Z][A-Z\s'.()\-/]+$/.test(trimmed);
+    // Character cue (a trailing ^ marks the second speaker of dual dialogue)
+    const isAllCaps = /^[A-Z][A-Z\s'.()\-/]+\^?$/.test(trimmed);
     const isShort = trimmed.length < 45;
     const hasLower = /[a-z]/.test(trimmed);
     if (isAllCaps && isShort && !hasLower) {
@@ -791,8 +848,8 @@ export function extractCharacterCues(rawText: string, sceneNumber: number): { na
     const trimmed = line.trim();
     if (!trimmed || trimmed.length < 2 || trimmed.length > 45) continue;
 
-    // Remove parenthetical extensions
-    const withoutExt = trimmed.replace(/\s*\(.*?\)\s*/g, "").trim();
+    // Remove parenthetical extensions and the dual-dialogue caret
+    const withoutExt = trimmed.replace(/\s*\^$/, "").replace(/\s*\(.*?\)\s*/g, "").trim();
     if (!withoutExt || withoutExt.length < 2) continue;
 
     // Must be all uppercase
@@ -813,3 +870,153 @@ export function extractCharacterCues(rawText: string, sceneNumber: number): { na
 
   return results;
 }
+
+// ─── Cue extensions and dual dialogue ────────────────────────────
+
+/** Standard cue extensions, normalised from the spellings writers use */
+export const CUE_EXTENSIONS = ["V.O.", "O.S.", "O.C.", "PRE-LAP", "FILTERED", "CONT'D"] as const;
+
+const CUE_EXTENSION_PATTERNS: [RegExp, string][] = [
+  [/^V\.?\s*O\.?$|^VOICE[\s-]?OVER$/, "V.O."],
+  [/^O\.?\s*S\.?$|^OFF[\s-]?SCREEN$/, "O.S."],
+  [/^O\.?\s*C\.?$|^OFF[\s-]?CAMERA$/, "O.C."],
+  [/^PRE[\s-]?LAP$/, "PRE-LAP"],
+  [/^FILTER(?:ED)?$|^(?:ON|OVER|THROUGH|INTO) (?:THE )?(?:PHONE|RADIO|SPEAKER|INTERCOM|TV|COMMS?)$/, "FILTERED"],
+  [/^CONT'?D\.?$|^CONT\.$|^CONTINUED$|^CONTINUING$/, "CONT'D"],
+];
+
+export interface ParsedCue {
+  /** Character name without extensions */
+  name: string;
+  /** Normalised extensions in cue order; unrecognised ones are kept upper-cased */
+  extensions: string[];
+  /** Second speaker of a dual-dialogue pair (Fountain "^") */
+  dual: boolean;
+}
+
+/** Split a character cue like "BOB (V.O.) (CONT'D) ^" into name, extensions and dual flag */
+export function parseCharacterCue(cue: string): ParsedCue {
+  let text = cue.trim();
+  const dual = /\^$/.test(text);
+  if (dual) text = text.replace(/\s*\^$/, "");
+
+  const extensions: string[] = [];
+  const name = text.replace(/\s*\(([^)]*)\)\s*/g, (_, ext: string) => {
+    const raw = ext.replace(/[\u2018\u2019`´]/g, "'").trim().toUpperCase();
+    if (!raw) return " ";
+    const known = CUE_EXTENSION_PATTERNS.find(([re]) => re.test(raw));
+    const value = known ? known[1] : raw;
+    if (!extensions.includes(value)) extensions.push(value);
+    return " ";
+  }).replace(/\s+/g, " ").trim();
+
+  return { name, extensions, dual };
+}
+
+export interface DialogueLine {
+  character: string;
+  extensions: string[];
+  /** Spoken simultaneously with another character's speech */
+  dual: boolean;
+  /** The other speaker of a dual-dialogue pair */
+  dual_with: string | null;
+  /** Parenthetical direction given just before this line, e.g. "(whispering)" */
+  parenthetical: string | null;
+  text: string;
+  word_count: number;
+  scene: number;
+}
+
+/**
+ * Structured dialogue for one scene: one entry per speech line, with the
+ * speaker's cue extensions and dual-dialogue pairing. Uses the same line
+ * classifier as computeDialogueMetrics; wrapped lines of one speech are joined.
+ */
+export function extractDialogueLines(rawText: string, sceneNumber: number): DialogueLine[] {
+  const result: DialogueLine[] = [];
+  let cue: ParsedCue | null = null;
+  /** Index of the first line spoken under the current cue */
+  let speechStart = 0;
+  let prevSpeech: { start: number; end: number; name: string } | null = null;
+  let parenthetical: string | null = null;
+  let joinable = false;
+
+  for (const line of rawText.split("\n")) {
+    const trimmed = line.trim();
+    if (!trimmed) {
+      joinable = false;
+      // A blank line ends the speech (FDX and Fountain both separate blocks this way)
+      if (cue && result.length > speechStart) {
+        prevSpeech = { start: speechStart, end: result.length, name: cue.name };
+        cue = null;
+      }
+      continue;
+    }
+
+    if (isSceneHeadingLine(trimmed)) {
+      cue = null;
+      prevSpeech = null;
+      continue;
+    }
+
+    if (/^\(.*\)$/.test(trimmed)) {
+      if (cue) parenthetical = trimmed;
+      joinable = false;
+      continue;
+    }
+
+    const isCue = /^[A-Z][A-Z\s'.()\-/]+\^?$/.test(trimmed) && trimmed.length < 45 && !/[a-z]/.test(trimmed);
+    if (isCue) {
+      if (cue && result.length > speechStart) {
+        prevSpeech = { start: speechStart, end: result.length, name: cue.name };
+      }
+      const parsed = parseCharacterCue(trimmed);
+      const upper = parsed.name.toUpperCase();
+      if (!parsed.name || NON_CHARACTER_CUES.has(upper) || upper.endsWith(":")) {
+        cue = null;
+        prevSpeech = null;
+        continue;
+      }
+      cue = parsed;
+      speechStart = result.length;
+      parenthetical = null;
+      joinable = false;
+
+      // The caret cue pairs with the speech immediately before it
+      if (cue.dual && prevSpeech) {
+        for (let i = prevSpeech.start; i < prevSpeech.end; i++) {
+          result[i].dual = true;
+          result[i].dual_with = cue.name;
+        }
+      }
+      continue;
+    }
+
+    if (!cue) {
+      prevSpeech = null;
+      continue;
+    }
+
+    const last = result[result.length - 1];
+    if (joinable && last) {
+      last.text += " " + trimmed;
+      last.word_count += trimmed.split(/\s+/).length;
+      continue;
+    }
+
+    result.push({
+      character: cue.name,
+      extensions: cue.extensions,
+      dual: cue.dual,
+      dual_with: cue.dual ? prevSpeech?.name ?? null : null,
+      parenthetical,
+      text: trimmed,
+      word_count: trimmed.split(/\s+/).length,
+      scene: sceneNumber,
+    });
+    parenthetical = null;
+    joinable = true;
+  }
+
+  return result;
+}
@@ -0,0 +1,201 @@
+/**
+ * Fountain 1.1 tokenizer.
+ *
+ * Turns a .fountain document into the same typed paragraphs the script
+ * viewer uses ("Scene Heading", "Action", "Character", "Dialogue",
+ * "Parenthetical", "Transition") plus the Fountain-only elements
+ * (centered text, lyrics, sections, synopses, notes, page breaks).
+ * Deterministic — no AI involved.
+ */
+
+import type { ScriptParagraph } from "./script-paragraphs.ts";
+import { isSceneHeadingLine } from "./slugline-locales.ts";
+
+export interface FountainDocument {
+  /** Title page keys, lower-cased ("title", "credit", "author", "draft date", …) */
+  titlePage: Record<string, string>;
+  paragraphs: ScriptParagraph[];
+}
+
+const SCENE_HEADING_RE = /^(?:INT|EXT|EST|INT\.?\/EXT|INT\/EXT|I\/E)[.\s]/i;
+const SCENE_NUMBER_RE = /\s*#([\w.-]+)#\s*$/;
+const TITLE_KEY_RE = /^([A-Za-z][A-Za-z ]*):(.*)$/;
+
+/** Strip *italic*, **bold**, _underline_ markers, keeping escaped characters */
+function stripEmphasis(text: string): string {
+  return text
+    .replace(/\\\*/g, "\uE000")
+    .replace(/\\_/g, "\uE001")
+    .replace(/(\*{1,3})(?=\S)([\s\S]*?\S)\1/g, "$2")
+    .replace(/_(?=\S)([\s\S]*?\S)_/g, "$1")
+    .replace(/\uE000/g, "*")
+    .replace(/\uE001/g, "_");
+}
+
+function parseTitlePage(lines: string[]): { titlePage: Record<string, string>; bodyStart: number } {
+  const titlePage: Record<string, string> = {};
+  if (!TITLE_KEY_RE.test(lines[0] ?? "")) return { titlePage, bodyStart: 0 };
+
+  let key = "";
+  let i = 0;
+  for (; i < lines.length; i++) {
+    const line = lines[i];
+    if (!line.trim()) break;
+    const km = line.match(TITLE_KEY_RE);
+    if (km && !/^(?:\s{3,}|\t)/.test(line)) {
+      key = km[1].trim().toLowerCase();
+      titlePage[key] = km[2].trim();
+    } else if (key) {
+      // Indented continuation lines (multi-line values)
+      titlePage[key] = [titlePage[key], line.trim()].filter(Boolean).join("\n");
+    } else {
+      // Not a title page after all
+      return { titlePage: {}, bodyStart: 0 };
+    }
+  }
+  for (const k of Object.keys(titlePage)) titlePage[k] = stripEmphasis(titlePage[k]);
+  return { titlePage, bodyStart: i };
+}
+
+function isCharacterCue(line: string): boolean {
+  // Cue name (before any extension) must be upper-case with at least one letter
+  const name = line.replace(/\s*\^$/, "").replace(/\s*\(.*$/, "").trim();
+  return /[A-Z]/.test(name) && name === name.toUpperCase() && !/[!?]$/.test(name);
+}
+
+/** Tokenize a Fountain document into title page + typed paragraphs */
+export function parseFountain(source: string): FountainDocument {
+  const cleaned = source
+    .replace(/\r\n?/g, "\n")
+    .replace(/\/\*[\s\S]*?\*\//g, "")            // boneyard
+    .replace(/\t/g, "    ");
+  const lines = cleaned.split("\n");
+  const { titlePage, bodyStart } = parseTitlePage(lines);
+
+  const paragraphs: ScriptParagraph[] = [];
+  const push = (p: ScriptParagraph) => {
+    if (p.type !== "Page Break" && !p.text) return;
+    paragraphs.push(p);
+  };
+
+  let inDialogue = false;
+  let i = bodyStart;
+  while (i < lines.length && !lines[i].trim()) i++;
+
+  for (; i < lines.length; i++) {
+    const raw = lines[i];
+    const line = raw.trim();
+    const prevBlank = i === bodyStart || !(lines[i - 1] ?? "").trim();
+    const nextBlank = !(lines[i + 1] ?? "").trim();
+
+    if (!line) {
+      // Two spaces keep a dialogue block going across an intentional blank line
+      if (inDialogue && raw === "  ") continue;
+      inDialogue = false;
+      continue;
+    }
+
+    // Standalone notes [[ ... ]] (possibly multi-line)
+    if (line.startsWith("[[") && !inDialogue) {
+      let note = line;
+      while (!note.includes("]]") && i + 1 < lines.length) note += "\n" + lines[++i].trim();
+      if (/^\[\[[\s\S]*\]\]$/.test(note)) {
+        push({ type: "Note", text: note.slice(2, -2).trim() });
+        continue;
+      }
+    }
+
+    const text = stripEmphasis(line.replace(/\[\[[\s\S]*?\]\]/g, "").trim());
+    if (!text && line.includes("[[")) continue;
+
+    if (inDialogue) {
+      if (/^\(.*\)$/.test(text)) push({ type: "Parenthetical", text });
+      else if (text.startsWith("~")) push({ type: "Lyrics", text: text.slice(1).trim() });
+      else push({ type: "Dialogue", text });
+      continue;
+    }
+
+    // Page break
+    if (/^={3,}$/.test(line)) {
+      push({ type: "Page Break", text: "" });
+      continue;
+    }
+
+    // Section / synopsis
+    const section = line.match(/^(#+)\s*(.*)$/);
+    if (section) {
+      push({ type: "Section", text: section[2].trim(), depth: section[1].length });
+      continue;
+    }
+    if (/^=(?!=)/.test(line)) {
+      push({ type: "Synopsis", text: line.slice(1).trim() });
+      continue;
+    }
+
+    // Centered text > like this <
+    if (/^>.*<$/.test(line)) {
+      push({ type: "Centered", text: stripEmphasis(line.slice(1, -1).trim()) });
+      continue;
+    }
+
+    // Scene heading — forced with a single leading "." or a standard prefix
+    const forcedHeading = /^\.(?!\.)/.test(line);
+    // Localised sluglines ("INNEN/TAG", "EXT. CALLE - NOCHE") count as standard prefixes too
+    if (forcedHeading || (prevBlank && (SCENE_HEADING_RE.test(line) || isSceneHeadingLine(line)))) {
+      const body = forcedHeading ? text.slice(1) : text;
+      const num = body.match(SCENE_NUMBER_RE)?.[1];
+      push({
+        type: "Scene Heading",
+        text: body.replace(SCENE_NUMBER_RE, "").trim().toUpperCase(),
+        ...(num ? { scene_number: num.toUpperCase() } : {}),
+      });
+      continue;
+    }
+
+    // Transition — forced with ">" or an upper-case line ending in TO:
+    if (line.startsWith(">")) {
+      push({ type: "Transition", text: text.slice(1).trim().toUpperCase() });
+      continue;
+    }
+    if (prevBlank && nextBlank && /TO:$/.test(line) && line === line.toUpperCase()) {
+      push({ type: "Transition", text });
+      continue;
+    }
+
+    // Lyrics
+    if (line.startsWith("~")) {
+      push({ type: "Lyrics", text: text.slice(1).trim() });
+      continue;
+    }
+
+    // Character cue — forced with "@", or upper-case line followed by dialogue
+    const forcedCharacter = line.startsWith("@");
+    if (prevBlank && !nextBlank && (forcedCharacter || isCharacterCue(line))) {
+      const cue = forcedCharacter ? text.slice(1).trim() : text;
+      const dual = /\^$/.test(cue);
+      push({ type: "Character", text: cue.replace(/\s*\^$/, ""), ...(dual ? { dual } : {}) });
+      inDialogue = true;
+      continue;
+    }
+
+    // Action — "!" forces action; consecutive lines join into one paragraph
+    const action = line.startsWith("!") ? text.slice(1) : text;
+    const last = paragraphs[paragraphs.length - 1];
+    if (!prevBlank && last?.type === "Action") last.text += "\n" + action;
+    else push({ type: "Action", text: action });
+  }
+
+  return { titlePage, paragraphs };
+}
+
+/** films.title / films.writers from a Fountain title page */
+export function titlePageMetadata(titlePage: Record<string, string>): { title: string | null; writers: string | null } {
+  const title = titlePage["title"]?.replace(/\s*\n\s*/g, " ").trim() || null;
+  const authors = titlePage["authors"] ?? titlePage["author"] ?? titlePage["writers"] ?? titlePage["writer"];
+  const writers = authors
+    ?.split("\n")
+    .map((a) => a.trim())
+    .filter(Boolean)
+    .join(" & ") || null;
+  return { title, writers };
+}
@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { diffLines, revisedLines } from "./line-diff.ts";
+
+describe("diffLines", () => {
+  it("marks identical drafts as unchanged, ignoring whitespace and blank lines", () => {
+    expect(diffLines("ANNA\n  Hello   there.\n\n", "ANNA\nHello there.")).toEqual([
+      { op: "=", text: "ANNA" },
+      { op: "=", text: "Hello there." },
+    ]);
+  });
+
+  it("reports a rewritten line as a removal followed by an addition", () => {
+    expect(diffLines("ANNA\nHello.\nBEN\nHi.", "ANNA\nGoodbye.\nBEN\nHi.")).toEqual([
+      { op: "=", text: "ANNA" },
+      { op: "-", text: "Hello." },
+      { op: "+", text: "Goodbye." },
+      { op: "=", text: "BEN" },
+      { op: "=", text: "Hi." },
+    ]);
+  });
+
+  it("handles lines added at the end and removed from the start", () => {
+    const ops = diffLines("One.\nTwo.", "Two.\nThree.");
+    expect(ops).toEqual([
+      { op: "-", text: "One." },
+      { op: "=", text: "Two." },
+      { op: "+", text: "Three." },
+    ]);
+    expect(revisedLines(ops)).toEqual(["Three."]);
+  });
+
+  it("diffs against an empty draft", () => {
+    expect(diffLines("", "New.")).toEqual([{ op: "+", text: "New." }]);
+    expect(diffLines("Old.", "")).toEqual([{ op: "-", text: "Old." }]);
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Line-level diff between two drafts of a scene. Deterministic — no AI involved.
+ */
+
+export interface LineDiffOp {
+  /** "=" unchanged, "+" added in the new draft, "-" removed from the old one */
+  op: "=" | "+" | "-";
+  text: string;
+}
+
+/** Whitespace-insensitive form used to compare and later match lines */
+export function normalizeLine(line: string): string {
+  return line.trim().replace(/\s+/g, " ");
+}
+
+/** LCS diff over non-blank lines (scenes are short, so O(n·m) is fine) */
+export function diffLines(oldText: string, newText: string): LineDiffOp[] {
+  const a = oldText.split("\n").map(normalizeLine).filter(Boolean);
+  const b = newText.split("\n").map(normalizeLine).filter(Boolean);
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: LineDiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ op: "=", text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      ops.push({ op: "-", text: a[i++] });
+    } else {
+      ops.push({ op: "+", text: b[j++] });
+    }
+  }
+  while (i < a.length) ops.push({ op: "-", text: a[i++] });
+  while (j < b.length) ops.push({ op: "+", text: b[j++] });
+  return ops;
+}
+
+/** Lines new or rewritten in the latest draft — the ones that get a margin asterisk */
+export function revisedLines(ops: LineDiffOp[]): string[] {
+  return ops.filter((o) => o.op === "+").map((o) => o.text);
+}
@@ -0,0 +1,154 @@
+import { normalizeLocationKey } from "./location-normalization.ts";
+
+/**
+ * Location tree — each film's editable hierarchy of locations and the sets
+ * inside them ("SMITH HOUSE" → "KITCHEN"), stored in film_locations.
+ *
+ * A node's aliases are the normalized slugline locations it stands for
+ * ("SMITH HOME - KITCHEN"); a scene belongs to the node whose alias matches
+ * its location and sublocation, else the node matching its location alone.
+ * Totals roll up from sets to their parents.
+ */
+
+export interface LocationNode {
+  id: string;
+  parent_id: string | null;
+  name: string;
+  aliases: string[];
+  sort_order: number;
+}
+
+/** parsed_scenes fields the tree reads */
+export interface LocationScene {
+  scene_number: number;
+  heading: string;
+  location_name: string | null;
+  sublocation: string | null;
+  int_ext: string | null;
+  day_night: string | null;
+  page_eighths: number | null;
+  estimated_page_count: number | null;
+  revision_status: string;
+}
+
+export type LocationSide = "INT" | "EXT";
+export type LocationPeriod = "DAY" | "NIGHT" | "DAWN/DUSK";
+
+export interface LocationTreeEntry {
+  node: LocationNode;
+  depth: number;
+  /** Names from the root down to this node */
+  path: string[];
+  /** Scenes assigned to this node itself */
+  sceneNumbers: number[];
+  /** Scenes of this node and everything below it */
+  totalSceneNumbers: number[];
+  eighths: number;
+  intExt: LocationSide[];
+  periods: LocationPeriod[];
+  children: LocationTreeEntry[];
+}
+
+/** The scene's location as written, falling back to the heading when parse-script found none */
+export function sceneLocationName(scene: Pick<LocationScene, "heading" | "location_name">): string {
+  return (scene.location_name || scene.heading.replace(/^[^ ]+\s+/, "").split(/\s+-\s+/)[0] || "").trim();
+}
+
+/** Alias key of the scene's set: location plus sublocation, normalized */
+export function sceneLocationKey(scene: Pick<LocationScene, "heading" | "location_name" | "sublocation">): string {
+  const location = sceneLocationName(scene);
+  return normalizeLocationKey(scene.sublocation ? `${location} - ${scene.sublocation}` : location);
+}
+
+export function resolveSceneLocation(
+  nodes: LocationNode[],
+  scene: Pick<LocationScene, "heading" | "location_name" | "sublocation">,
+): LocationNode | null {
+  const full = sceneLocationKey(scene);
+  const location = normalizeLocationKey(sceneLocationName(scene));
+  return nodes.find((n) => n.aliases.includes(full)) ?? nodes.find((n) => n.aliases.includes(location)) ?? null;
+}
+
+/** Top-level location a node sits under (the node itself for a root) */
+export function locationRoot(nodes: LocationNode[], node: LocationNode): LocationNode {
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  let current = node;
+  const seen = new Set<string>();
+  while (current.parent_id && byId.has(current.parent_id) && !seen.has(current.id)) {
+    seen.add(current.id);
+    current = byId.get(current.parent_id)!;
+  }
+  return current;
+}
+
+const sceneEighths = (scene: LocationScene) =>
+  scene.page_eighths && scene.page_eighths > 0
+    ? scene.page_eighths
+    : scene.estimated_page_count && scene.estimated_page_count > 0
+      ? Math.max(1, Math.round(scene.estimated_page_count * 8))
+      : 1;
+
+const sceneSide = (scene: LocationScene): LocationSide[] => {
+  const t = (scene.int_ext || "").toUpperCase();
+  if (/INT/.test(t) && /EXT/.test(t)) return ["INT", "EXT"];
+  return [/EXT/.test(t) ? "EXT" : "INT"];
+};
+
+const scenePeriod = (scene: LocationScene): LocationPeriod => {
+  const t = (scene.day_night || "").toUpperCase();
+  if (/NIGHT|EVENING|MIDNIGHT/.test(t)) return "NIGHT";
+  if (/DAWN|DUSK|SUNRISE|SUNSET|MAGIC HOUR|TWILIGHT/.test(t)) return "DAWN/DUSK";
+  return "DAY";
+};
+
+const SIDE_ORDER: LocationSide[] = ["INT", "EXT"];
+const PERIOD_ORDER: LocationPeriod[] = ["DAY", "DAWN/DUSK", "NIGHT"];
+
+/** Nested tree with scene counts, page totals and INT/EXT and day/night coverage; omitted scenes are left out */
+export function buildLocationTree(
+  nodes: LocationNode[],
+  scenes: LocationScene[],
+): { roots: LocationTreeEntry[]; unassigned: number[] } {
+  const active = scenes.filter((s) => s.revision_status !== "omitted");
+  const scenesByNode = new Map<string, LocationScene[]>();
+  const unassigned: number[] = [];
+  for (const scene of active) {
+    const node = resolveSceneLocation(nodes, scene);
+    if (!node) {
+      unassigned.push(scene.scene_number);
+      continue;
+    }
+    if (!scenesByNode.has(node.id)) scenesByNode.set(node.id, []);
+    scenesByNode.get(node.id)!.push(scene);
+  }
+
+  const ids = new Set(nodes.map((n) => n.id));
+  const childrenOf = (parentId: string | null) =>
+    nodes
+      .filter((n) => (parentId === null ? !n.parent_id || !ids.has(n.parent_id) : n.parent_id === parentId))
+      .sort((a, b) => a.sort_order - b.sort_order || a.name.localeCompare(b.name));
+
+  const visit = (node: LocationNode, depth: number, path: string[], seen: Set<string>): LocationTreeEntry => {
+    seen.add(node.id);
+    const own = scenesByNode.get(node.id) ?? [];
+    const children = childrenOf(node.id)
+      .filter((c) => !seen.has(c.id))
+      .map((c) => visit(c, depth + 1, [...path, node.name], seen));
+    const sides = new Set([...own.flatMap(sceneSide), ...children.flatMap((c) => c.intExt)]);
+    const periods = new Set([...own.map(scenePeriod), ...children.flatMap((c) => c.periods)]);
+    return {
+      node,
+      depth,
+      path: [...path, node.name],
+      sceneNumbers: own.map((s) => s.scene_number).sort((a, b) => a - b),
+      totalSceneNumbers: [...own.map((s) => s.scene_number), ...children.flatMap((c) => c.totalSceneNumbers)].sort((a, b) => a - b),
+      eighths: own.reduce((sum, s) => sum + sceneEighths(s), 0) + children.reduce((sum, c) => sum + c.eighths, 0),
+      intExt: SIDE_ORDER.filter((s) => sides.has(s)),
+      periods: PERIOD_ORDER.filter((p) => periods.has(p)),
+      children,
+    };
+  };
+
+  const seen = new Set<string>();
+  return { roots: childrenOf(null).map((n) => visit(n, 0, [], seen)), unassigned: unassigned.sort((a, b) => a - b) };
+}
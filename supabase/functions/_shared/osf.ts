@@ -0,0 +1,93 @@
+/**
+ * Open Screenplay Format (OSF) reader.
+ *
+ * OSF is the XML inside Fade In (.fadein) documents and one of WriterDuet's
+ * export formats. Each <para> names its base style ("Scene Heading",
+ * "Action", "Character", …) and holds one or more <text> runs.
+ * Deterministic — no AI involved.
+ */
+
+import type { ScriptParagraph } from "./script-paragraphs.ts";
+
+export interface OsfDocument {
+  /** Title page lines in the same keys Fountain uses ("title", "author") */
+  titlePage: Record<string, string>;
+  paragraphs: ScriptParagraph[];
+}
+
+/** OSF base style → script viewer paragraph type */
+const STYLE_TYPES: Record<string, string> = {
+  "scene heading": "Scene Heading",
+  action: "Action",
+  general: "Action",
+  shot: "Action",
+  character: "Character",
+  parenthetical: "Parenthetical",
+  dialogue: "Dialogue",
+  transition: "Transition",
+  lyrics: "Lyrics",
+};
+
+const PARA_RE = /<para\b([^>]*)>([\s\S]*?)<\/para>/gi;
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
+
+function attr(attrs: string, name: string): string | undefined {
+  return attrs.match(new RegExp(`\\b${name}="([^"]*)"`, "i"))?.[1];
+}
+
+/** Paragraph text: all <text> runs joined, markup stripped */
+function paraText(inner: string): string {
+  const runs = [...inner.matchAll(/<text\b[^>]*>([\s\S]*?)<\/text>/gi)].map((m) => m[1]);
+  const raw = runs.length > 0 ? runs.join("") : inner.replace(/<style\b[^>]*\/>/gi, "");
+  return decodeXmlEntities(raw.replace(/<br\s*\/?>/gi, "\n").replace(/<[^>]+>/g, "")).trim();
+}
+
+/** Whether an XML document is Open Screenplay Format */
+export function isOsfDocument(xml: string): boolean {
+  return /<document\b[^>]*>/i.test(xml) && /<paragraphs\b/i.test(xml);
+}
+
+/** Read OSF XML (any version) into title page + typed paragraphs */
+export function parseOsf(xml: string): OsfDocument {
+  const titlePage: Record<string, string> = {};
+  const titleXml = xml.match(/<titlepage\b[^>]*>([\s\S]*?)<\/titlepage>/i)?.[1] ?? "";
+  const titleLines = [...titleXml.matchAll(PARA_RE)].map((m) => paraText(m[2])).filter(Boolean);
+  if (titleLines.length > 0) {
+    titlePage.title = titleLines[0];
+    // "Written by" / "by" is followed by the author line(s)
+    const by = titleLines.findIndex((l) => /^(?:written\s+)?by$/i.test(l));
+    if (by >= 0 && titleLines[by + 1]) titlePage.author = titleLines[by + 1];
+  }
+
+  const body = xml.match(/<paragraphs\b[^>]*>([\s\S]*?)<\/paragraphs>/i)?.[1] ?? "";
+  const paragraphs: ScriptParagraph[] = [];
+
+  for (const m of body.matchAll(PARA_RE)) {
+    const [, paraAttrs, inner] = m;
+    const styleAttrs = inner.match(/<style\b([^>]*)\/?>/i)?.[1] ?? "";
+    // OSF 2.x uses basestyle, Fade In / OSF 1.x basestylename
+    const style = (attr(styleAttrs, "basestyle") ?? attr(styleAttrs, "basestylename") ?? attr(paraAttrs, "style") ?? "Action").toLowerCase();
+    const text = paraText(inner);
+    if (!text) continue;
+
+    const type = STYLE_TYPES[style] ?? "Action";
+    const sceneNumber = attr(paraAttrs, "number") ?? attr(styleAttrs, "number");
+    paragraphs.push({
+      type,
+      text: type === "Scene Heading" || type === "Character" || type === "Transition" ? text.toUpperCase() : text,
+      ...(type === "Scene Heading" && sceneNumber ? { scene_number: sceneNumber.trim() } : {}),
+    });
+  }
+
+  return { titlePage, paragraphs };
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import { LINES_PER_PAGE, paginateScenes } from "./pagination.ts";
+import type { ScriptParagraph } from "./script-paragraphs.ts";
+
+const lines = (count: number, word = "Line") => Array.from({ length: count }, (_, i) => `${word} ${i + 1}.`).join("\n");
+
+const scene = (heading: string, ...paragraphs: ScriptParagraph[]) => ({
+  text: "",
+  paragraphs: [{ type: "Scene Heading", text: heading }, ...paragraphs],
+});
+
+describe("paginateScenes", () => {
+  it("lays short scenes out on the same page", () => {
+    const layouts = paginateScenes([
+      scene("INT. KITCHEN - DAY", { type: "Action", text: "Anna pours coffee." }),
+      scene("EXT. GARDEN - DAY", { type: "Action", text: "Ben mows the lawn." }),
+    ]);
+    expect(layouts).toEqual([
+      { page_start: 1, page_end: 1, page_eighths: 1 },
+      { page_start: 1, page_end: 1, page_eighths: 1 },
+    ]);
+  });
+
+  it("breaks an action block longer than a page across every page it fills", () => {
+    const layouts = paginateScenes([
+      scene("INT. KITCHEN - DAY", { type: "Action", text: lines(185) }),
+      scene("EXT. GARDEN - DAY", { type: "Action", text: "Ben mows the lawn." }),
+    ]);
+    // 1 heading line + 1 blank + 185 action lines = 187 lines: pages 1–4
+    expect(layouts[0]).toMatchObject({ page_start: 1, page_end: 4 });
+    expect(layouts[0].page_eighths).toBe(Math.round((187 * 8) / LINES_PER_PAGE));
+    expect(layouts[1].page_start).toBe(4);
+  });
+
+  it("spends (MORE) and (CONT'D) lines on every page break of a long speech", () => {
+    const speech = scene(
+      "INT. COURTROOM - DAY",
+      { type: "Character", text: "ANNA" },
+      { type: "Dialogue", text: lines(120, "Word") },
+    );
+    const [layout] = paginateScenes([speech]);
+    // 51 + 53 + 16 dialogue lines, with (MORE) before and (CONT'D) after each break
+    expect(layout).toMatchObject({ page_start: 1, page_end: 3 });
+    expect(layout.page_eighths).toBe(Math.round(((LINES_PER_PAGE * 2 + 17) * 8) / LINES_PER_PAGE));
+  });
+
+  it("starts a scene on the next page when its heading would be left alone at the foot", () => {
+    const layouts = paginateScenes([
+      scene("INT. KITCHEN - DAY", { type: "Action", text: lines(LINES_PER_PAGE - 3) }),
+      scene("EXT. GARDEN - DAY", { type: "Action", text: "Ben mows the lawn." }),
+    ]);
+    expect(layouts[0]).toMatchObject({ page_start: 1, page_end: 1 });
+    expect(layouts[1]).toMatchObject({ page_start: 2, page_end: 2 });
+  });
+
+  it("honours explicit page breaks", () => {
+    const layouts = paginateScenes([
+      scene("INT. KITCHEN - DAY", { type: "Action", text: "Anna pours coffee." }, { type: "Page Break", text: "" }),
+      scene("EXT. GARDEN - DAY", { type: "Action", text: "Ben mows the lawn." }),
+    ]);
+    expect(layouts[1].page_start).toBe(2);
+  });
+
+  it("keeps the page numbers printed on PDF pages", () => {
+    const [layout] = paginateScenes([
+      {
+        text: "",
+        paragraphs: [
+          { type: "Scene Heading", text: "INT. KITCHEN - DAY", page: "12" },
+          { type: "Action", text: "Anna pours coffee.", page: "13A" },
+        ],
+      },
+    ]);
+    expect(layout).toMatchObject({ page_start: 12, page_end: 13 });
+  });
+});
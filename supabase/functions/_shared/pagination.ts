@@ -0,0 +1,144 @@
+/**
+ * Deterministic screenplay pagination.
+ *
+ * Lays typed paragraphs out the way a screenplay prints — 12pt Courier at
+ * 10 characters per inch, standard element widths and 55-line pages — and
+ * reports where each scene starts and ends and its length in eighths of a
+ * page (the scheduling unit). No AI involved.
+ */
+
+import { NON_PRINTING_TYPES, paragraphsFromPlainText, type ScriptParagraph } from "./script-paragraphs.ts";
+
+export const LINES_PER_PAGE = 55;
+
+/** Characters per line for each element (standard screenplay margins) */
+const ELEMENT_WIDTH: Record<string, number> = {
+  "Scene Heading": 60,
+  Action: 60,
+  Character: 38,
+  Parenthetical: 25,
+  Dialogue: 35,
+  Lyrics: 35,
+  Transition: 60,
+  Centered: 60,
+};
+
+/** Blank lines before each element when it is not at the top of a page */
+const SPACE_BEFORE: Record<string, number> = {
+  "Scene Heading": 1,
+  Character: 1,
+  Parenthetical: 0,
+  Dialogue: 0,
+  Lyrics: 0,
+};
+
+export interface SceneLayout {
+  page_start: number;
+  page_end: number;
+  /** Scene length in eighths of a page, at least 1 */
+  page_eighths: number;
+}
+
+/** Greedy word wrap — number of printed lines for a paragraph */
+function wrappedLineCount(text: string, width: number): number {
+  let count = 0;
+  for (const hardLine of text.split("\n")) {
+    let lineLen = 0;
+    count++;
+    for (const word of hardLine.split(/\s+/).filter(Boolean)) {
+      if (lineLen === 0) {
+        lineLen = word.length;
+        // Words longer than the line break mid-word
+        while (lineLen > width) {
+          count++;
+          lineLen -= width;
+        }
+      } else if (lineLen + 1 + word.length <= width) {
+        lineLen += 1 + word.length;
+      } else {
+        count++;
+        lineLen = Math.min(word.length, width);
+      }
+    }
+  }
+  return count;
+}
+
+/** Printed page number from a PDF paragraph ("12", "12A" → 12) */
+function printedPage(p: ScriptParagraph): number | null {
+  const n = p.page ? parseInt(p.page, 10) : NaN;
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+/**
+ * Paginate a script scene by scene. Scene headings and character cues are
+ * never left alone at the foot of a page; speeches that break across pages
+ * pay for their (MORE) and (CONT'D) lines. Scenes read from a PDF keep the
+ * page numbers printed on the page.
+ */
+export function paginateScenes(scenes: { paragraphs?: ScriptParagraph[] | null; text: string }[]): SceneLayout[] {
+  let page = 1;
+  let line = 0;
+  const layouts: SceneLayout[] = [];
+
+  for (const scene of scenes) {
+    const source = scene.paragraphs?.length ? scene.paragraphs : paragraphsFromPlainText(scene.text);
+    let startPage = page;
+    let linesUsed = 0;
+    let first = true;
+
+    source.forEach((p, i) => {
+      if (p.type === "Page Break") {
+        if (line > 0) {
+          page++;
+          line = 0;
+        }
+        return;
+      }
+      if (NON_PRINTING_TYPES.has(p.type)) return;
+
+      const n = wrappedLineCount(p.text, ELEMENT_WIDTH[p.type] ?? 60);
+      const before = line === 0 ? 0 : SPACE_BEFORE[p.type] ?? 1;
+      const next = source.slice(i + 1).find((q) => !NON_PRINTING_TYPES.has(q.type));
+      // Headings and cues need at least one line of what follows on the same page
+      const keepWithNext = (p.type === "Scene Heading" || p.type === "Character") && next ? 1 + (SPACE_BEFORE[next.type] ?? 1) : 0;
+      const remaining = LINES_PER_PAGE - line;
+      // Dialogue spends a line on (MORE) before each page break and a (CONT'D) cue after it
+      const extra = p.type === "Dialogue" ? 1 : 0;
+
+      if (before + n + keepWithNext <= remaining) {
+        line += before + n;
+        linesUsed += before + n;
+      } else {
+        if ((p.type === "Dialogue" || p.type === "Action") && remaining - before >= 3 && n > 2) {
+          // Split across the page
+          linesUsed += remaining;
+          line = n - (remaining - before - extra) + extra;
+        } else {
+          // Push the whole paragraph to the next page; the scene starts there if it is the heading
+          if (first) startPage = page + 1;
+          else linesUsed += remaining;
+          line = n;
+        }
+        page++;
+        // Paragraphs longer than a page keep breaking onto the pages after
+        while (line > LINES_PER_PAGE) {
+          linesUsed += LINES_PER_PAGE;
+          line -= LINES_PER_PAGE - 2 * extra;
+          page++;
+        }
+        linesUsed += line;
+      }
+      first = false;
+    });
+
+    const pdfPages = source.map(printedPage).filter((n): n is number => n !== null);
+    layouts.push({
+      page_start: pdfPages.length ? pdfPages[0] : startPage,
+      page_end: pdfPages.length ? Math.max(...pdfPages) : Math.max(startPage, page),
+      page_eighths: Math.max(1, Math.round((linesUsed * 8) / LINES_PER_PAGE)),
+    });
+  }
+
+  return layouts;
+}
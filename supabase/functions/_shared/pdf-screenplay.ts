@@ -0,0 +1,276 @@
+/**
+ * Layout-aware screenplay PDF reader.
+ *
+ * Uses pdfjs text positions (via unpdf) instead of merged plain text:
+ * paragraph types come from the standard screenplay indents, page headers
+ * give the printed page numbers, margin numbers give production scene
+ * numbers, right-margin asterisks mark revised lines and (MORE)/(CONT'D)
+ * pairs are stitched back into a single speech across page breaks.
+ * Deterministic — no AI involved.
+ */
+
+import { getDocumentProxy } from "https://esm.sh/unpdf@0.12.1";
+import type { ScriptParagraph } from "./script-paragraphs.ts";
+import { isSceneHeadingLine } from "./slugline-locales.ts";
+
+interface PdfCell {
+  text: string;
+  x: number;
+  width: number;
+}
+
+interface PdfLine {
+  text: string;
+  x: number;
+  y: number;
+  pdfPage: number;
+  printedPage: string | null;
+  revised: boolean;
+  sceneNumber: string | null;
+}
+
+export interface PdfScreenplay {
+  paragraphs: ScriptParagraph[];
+  /** Body lines as plain text, for the regex fallback when no headings are found */
+  text: string;
+}
+
+// Indents relative to the action margin, in points (US Letter, 12pt Courier)
+const DIALOGUE_INDENT = 50;       // dialogue ≈ +1.0"
+const PARENTHETICAL_INDENT = 90;  // parenthetical ≈ +1.6"
+const CHARACTER_INDENT = 130;     // character cue ≈ +2.2"
+const TRANSITION_INDENT = 250;    // transitions sit near the right margin
+
+/** Header/footer bands (points from the page edge) holding page numbers and CONTINUED */
+const HEADER_BAND = 60;
+const FOOTER_BAND = 45;
+const LINE_HEIGHT = 12;
+
+const SCENE_NUMBER_RE = /^(\d{1,4}[A-Z]{0,3})\.?$/;
+const CONTINUED_RE = /^\(?(?:\d+[A-Z]*\s+)?CONTINUED:?\)?(?:\s*\(\d+\))?(?:\s+\d+[A-Z]*)?$/i;
+const MORE_RE = /^\(\s*MORE\s*\)$/i;
+const INLINE_SCENE_NUMBER_RE = /^(\d{1,4}[A-Z]{0,3})\.?\s+(\S.*?)(?:\s+\1\.?)?$/i;
+const CONTD_RE = /\s*\((?:CONT'?D|CONTINUED|CONT\.)\)\s*$/i;
+
+/** Group text items into visual rows, top to bottom, cells left to right */
+function buildRows(items: { str: string; transform: number[]; width: number }[]): { y: number; cells: PdfCell[] }[] {
+  const sorted = items
+    .filter((it) => it.str && it.str.trim())
+    .map((it) => ({ text: it.str, x: it.transform[4], y: it.transform[5], width: it.width || 0 }))
+    .sort((a, b) => b.y - a.y || a.x - b.x);
+
+  const rows: { y: number; cells: PdfCell[] }[] = [];
+  for (const item of sorted) {
+    const row = rows[rows.length - 1];
+    if (row && Math.abs(row.y - item.y) <= 2) row.cells.push(item);
+    else rows.push({ y: item.y, cells: [item] });
+  }
+  for (const row of rows) row.cells.sort((a, b) => a.x - b.x);
+  return rows;
+}
+
+function joinCells(cells: PdfCell[]): string {
+  let text = "";
+  let end = -Infinity;
+  for (const c of cells) {
+    if (text && c.x - end > 1.5 && !/\s$/.test(text) && !/^\s/.test(c.text)) text += " ";
+    text += c.text;
+    end = c.x + c.width;
+  }
+  return text.replace(/\s+/g, " ").trim();
+}
+
+async function readPdfLines(data: ArrayBuffer): Promise<PdfLine[]> {
+  const pdf = await getDocumentProxy(new Uint8Array(data));
+  const pages: PdfLine[][] = [];
+  const printedPages: (string | null)[] = [];
+
+  for (let p = 1; p <= pdf.numPages; p++) {
+    const page = await pdf.getPage(p);
+    const { width, height } = page.getViewport({ scale: 1 });
+    const content = await page.getTextContent();
+    const rows = buildRows(content.items as unknown as { str: string; transform: number[]; width: number }[]);
+    let printedPage: string | null = null;
+    const body: PdfLine[] = [];
+
+    for (const row of rows) {
+      const text = joinCells(row.cells);
+      const inBand = row.y > height - HEADER_BAND || row.y < FOOTER_BAND;
+      if (inBand) {
+        // Page number at the top right or bottom centre ("12." / "12A.") — revision headers and CONTINUED are dropped
+        const last = row.cells[row.cells.length - 1];
+        const num = last.text.trim().match(SCENE_NUMBER_RE);
+        if (num && (row.y < height / 2 || last.x > width / 2)) printedPage = num[1];
+        continue;
+      }
+      if (CONTINUED_RE.test(text)) continue;
+
+      let cells = row.cells;
+      // Revision asterisks in the right margin
+      const revised = cells.some((c) => c.text.trim() === "*" && c.x > width * 0.8);
+      cells = cells.filter((c) => !(c.text.trim() === "*" && c.x > width * 0.8));
+      if (cells.length === 0) continue;
+
+      // Scene numbers printed in the left and/or right margin
+      let sceneNumber: string | null = null;
+      const first = cells[0].text.trim().match(SCENE_NUMBER_RE);
+      if (first && cells.length > 1 && cells[1].x - cells[0].x > 20) {
+        sceneNumber = first[1];
+        cells = cells.slice(1);
+      }
+      const lastCell = cells[cells.length - 1];
+      const right = lastCell.text.trim().match(SCENE_NUMBER_RE);
+      if (right && cells.length > 1 && lastCell.x > width * 0.75) {
+        sceneNumber = sceneNumber ?? right[1];
+        cells = cells.slice(0, -1);
+      }
+
+      let lineText = joinCells(cells);
+      // Margin numbers that came through in the same text run as the heading
+      const inline = lineText.match(INLINE_SCENE_NUMBER_RE);
+      if (!sceneNumber && inline && (isSceneHeadingLine(inline[2]) || /^OMIT/i.test(inline[2]))) {
+        sceneNumber = inline[1];
+        lineText = inline[2];
+      }
+
+      body.push({
+        text: lineText,
+        x: cells[0].x,
+        y: row.y,
+        pdfPage: p,
+        printedPage: null,
+        revised,
+        sceneNumber,
+      });
+    }
+
+    pages.push(body);
+    printedPages.push(printedPage);
+  }
+
+  // Unnumbered pages (page one, by convention) count on from the nearest numbered page
+  pages.forEach((body, i) => {
+    let label = printedPages[i];
+    if (!label) {
+      let j = -1;
+      printedPages.forEach((n, k) => {
+        if (n && /^\d+$/.test(n) && (j < 0 || Math.abs(k - i) < Math.abs(j - i))) j = k;
+      });
+      const n = j >= 0 ? parseInt(printedPages[j]!, 10) - (j - i) : 0;
+      label = n >= 1 ? String(n) : null;
+    }
+    for (const line of body) line.printedPage = label;
+  });
+  return pages.flat();
+}
+
+/** Action margin: where scene headings start, else the leftmost common indent */
+function findActionMargin(lines: PdfLine[]): number {
+  const headingXs = lines.filter((l) => isSceneHeadingLine(l.text)).map((l) => l.x).sort((a, b) => a - b);
+  if (headingXs.length > 0) return headingXs[Math.floor(headingXs.length / 2)];
+  const xs = lines.map((l) => l.x).sort((a, b) => a - b);
+  return xs[Math.floor(xs.length * 0.1)] ?? 0;
+}
+
+function isUpperCue(text: string): boolean {
+  const name = text.replace(/\s*\(.*?\)\s*/g, "").trim();
+  return /[A-Z]/.test(name) && name === name.toUpperCase() && name.length < 45;
+}
+
+/** Read a screenplay PDF into typed paragraphs with printed page and revision marks */
+export async function parsePdfScreenplay(data: ArrayBuffer): Promise<PdfScreenplay> {
+  const lines = await readPdfLines(data);
+  const margin = findActionMargin(lines);
+  const paragraphs: ScriptParagraph[] = [];
+
+  let prev: PdfLine | null = null;
+  let inDialogue = false;
+  let openParen = false;
+  let pendingMore = false;
+  let lastCue = "";
+
+  const last = (): ScriptParagraph | undefined => paragraphs[paragraphs.length - 1];
+  const start = (line: PdfLine, type: string, text: string, extra: Partial<ScriptParagraph> = {}) => {
+    paragraphs.push({
+      type,
+      text,
+      page: line.printedPage ?? String(line.pdfPage),
+      ...(line.revised ? { revised: true } : {}),
+      ...extra,
+    });
+  };
+  /** Wrapped line of the paragraph in progress */
+  const append = (line: PdfLine, text: string) => {
+    const p = last()!;
+    p.text += " " + text;
+    if (line.revised) p.revised = true;
+  };
+
+  for (const line of lines) {
+    const text = line.text;
+    const indent = line.x - margin;
+    const newPage = !prev || prev.pdfPage !== line.pdfPage;
+    const gap = prev && !newPage ? prev.y - line.y : 0;
+    const blankBefore = newPage || gap > LINE_HEIGHT * 1.6;
+    prev = line;
+
+    if (MORE_RE.test(text)) {
+      pendingMore = true;
+      continue;
+    }
+
+    if (indent < DIALOGUE_INDENT && (isSceneHeadingLine(text) || (line.sceneNumber && /^OMIT(?:TED)?$/i.test(text)))) {
+      start(line, "Scene Heading", text.toUpperCase(), line.sceneNumber ? { scene_number: line.sceneNumber } : {});
+      inDialogue = false;
+      pendingMore = false;
+      continue;
+    }
+
+    if (indent >= TRANSITION_INDENT && text === text.toUpperCase()) {
+      start(line, "Transition", text);
+      inDialogue = false;
+      continue;
+    }
+
+    if (indent >= CHARACTER_INDENT && blankBefore && isUpperCue(text)) {
+      const cue = text.replace(CONTD_RE, "").trim();
+      // "NAME (CONT'D)" after a (MORE) page break continues the same speech
+      if (pendingMore && newPage && cue === lastCue) {
+        pendingMore = false;
+        inDialogue = true;
+        continue;
+      }
+      start(line, "Character", text);
+      lastCue = cue;
+      inDialogue = true;
+      openParen = false;
+      pendingMore = false;
+      continue;
+    }
+
+    if (inDialogue && indent >= DIALOGUE_INDENT && indent < CHARACTER_INDENT + 40) {
+      if (openParen) {
+        append(line, text);
+        openParen = !text.includes(")");
+      } else if (text.startsWith("(") && indent >= PARENTHETICAL_INDENT - 20) {
+        start(line, "Parenthetical", text);
+        openParen = !text.includes(")");
+      } else if (last()?.type === "Dialogue" && !blankBefore) {
+        append(line, text);
+      } else {
+        start(line, "Dialogue", text);
+      }
+      continue;
+    }
+
+    inDialogue = false;
+    openParen = false;
+    if (last()?.type === "Action" && !blankBefore) append(line, text);
+    else start(line, "Action", text);
+  }
+
+  return {
+    paragraphs,
+    text: lines.map((l) => (l.sceneNumber ? `${l.text} #${l.sceneNumber}#` : l.text)).join("\n"),
+  };
+}
@@ -0,0 +1,11 @@
+import { describe, it, expect } from "vitest";
+import { revisionColorName } from "./revision-colors.ts";
+
+describe("revisionColorName", () => {
+  it("cycles through the colours as Double and Triple revisions", () => {
+    expect(revisionColorName(0)).toBe("White");
+    expect(revisionColorName(1)).toBe("Blue");
+    expect(revisionColorName(9)).toBe("Double White");
+    expect(revisionColorName(19)).toBe("Triple Blue");
+  });
+});
@@ -0,0 +1,16 @@
+/**
+ * Standard shooting-script revision colours, in issue order — the server
+ * mirror of src/lib/revision-colors.ts. parse-script stores only the colour
+ * name on each numbered revision, so the page tints stay client-side.
+ */
+
+/** Shooting-script revision colours in issue order (first draft is White) */
+export const REVISION_COLOR_NAMES = ["White", "Blue", "Pink", "Yellow", "Green", "Goldenrod", "Buff", "Salmon", "Cherry"];
+
+/** Colour name for the nth import of a script (0 = original White; cycles as Double White, …) */
+export function revisionColorName(revisionNumber: number): string {
+  const base = REVISION_COLOR_NAMES[revisionNumber % REVISION_COLOR_NAMES.length];
+  const cycle = Math.floor(revisionNumber / REVISION_COLOR_NAMES.length);
+  if (cycle === 0) return base;
+  return `${cycle === 1 ? "Double" : cycle === 2 ? "Triple" : `${cycle + 1}×`} ${base}`;
+}
@@ -0,0 +1,150 @@
+import { describe, it, expect } from "vitest";
+import { matchRevisedScenes, type IncomingScene, type StoredScene } from "./scene-revision.ts";
+
+const BODIES: Record<string, string> = {
+  A: "Anna pours coffee and reads the letter twice before folding it away.",
+  B: "Ben waits at the bus stop in the rain, checking his watch again and again.",
+  C: "The two of them argue about the letter until the kettle starts to whistle.",
+  D: "A courier leaves a parcel on the doorstep and rings the bell once.",
+};
+const HEADINGS: Record<string, string> = {
+  A: "INT. KITCHEN - DAY",
+  B: "EXT. BUS STOP - NIGHT",
+  C: "INT. KITCHEN - NIGHT",
+  D: "EXT. FRONT DOOR - DAY",
+};
+
+const stored = (key: string, sceneNumber: number, extra: Partial<StoredScene> = {}): StoredScene => ({
+  id: `scene-${key}`,
+  scene_number: sceneNumber,
+  heading: HEADINGS[key],
+  raw_text: `${HEADINGS[key]}\n${BODIES[key]}`,
+  ...extra,
+});
+
+const incoming = (key: string, sceneNumber: number, extra: Partial<IncomingScene> = {}): IncomingScene => ({
+  scene_number: sceneNumber,
+  heading: HEADINGS[key],
+  text: `${HEADINGS[key]}\n${BODIES[key]}`,
+  ...extra,
+});
+
+const summarize = (entries: ReturnType<typeof matchRevisedScenes>) =>
+  entries.map((e) => [e.scene_number, e.status, e.previous?.id ?? null, e.carried ?? false]);
+
+describe("matchRevisedScenes", () => {
+  it("keeps every scene matched when an inserted scene renumbers the rest", () => {
+    const entries = matchRevisedScenes(
+      [stored("A", 1), stored("B", 2), stored("C", 3)],
+      [incoming("A", 1), incoming("D", 2), incoming("B", 3), incoming("C", 4)],
+    );
+    expect(summarize(entries)).toEqual([
+      [1, "unchanged", "scene-A", false],
+      [2, "added", null, false],
+      [3, "unchanged", "scene-B", false],
+      [4, "unchanged", "scene-C", false],
+    ]);
+  });
+
+  it("reports a rewritten scene as changed", () => {
+    const entries = matchRevisedScenes(
+      [stored("A", 1), stored("B", 2)],
+      [incoming("A", 1), incoming("B", 2, { text: `${HEADINGS.B}\n${BODIES.B} The bus finally arrives.` })],
+    );
+    expect(entries.map((e) => e.status)).toEqual(["unchanged", "changed"]);
+  });
+
+  it("compares scene text written outside the English alphabet", () => {
+    const kitchen = (id: string, sceneNumber: number, body: string): StoredScene => ({
+      id,
+      scene_number: sceneNumber,
+      heading: HEADINGS.A,
+      raw_text: `${HEADINGS.A}\n${body}`,
+    });
+    const morning = "Анна наливает кофе и дважды перечитывает письмо.";
+    const evening = "Вечером Борис моет посуду и молчит.";
+    const entries = matchRevisedScenes(
+      [kitchen("scene-morning", 1, morning), kitchen("scene-evening", 2, evening)],
+      [
+        { scene_number: 1, heading: HEADINGS.A, text: `${HEADINGS.A}\n${evening}` },
+        { scene_number: 2, heading: HEADINGS.A, text: `${HEADINGS.A}\n${morning}` },
+      ],
+    );
+    expect(entries.map((e) => e.previous?.id)).toEqual(["scene-evening", "scene-morning"]);
+  });
+
+  it("leaves a dropped scene behind as an omitted placeholder in its old slot", () => {
+    const entries = matchRevisedScenes(
+      [stored("A", 1), stored("B", 2), stored("C", 3)],
+      [incoming("A", 1), incoming("C", 2)],
+    );
+    expect(summarize(entries)).toEqual([
+      [1, "unchanged", "scene-A", false],
+      [2, "omitted", "scene-B", false],
+      [3, "unchanged", "scene-C", false],
+    ]);
+    expect(entries[1].incoming).toBeNull();
+  });
+
+  it("lets a numbered OMITTED placeholder take over the scene with that number", () => {
+    const entries = matchRevisedScenes(
+      [
+        stored("A", 1, { production_scene_number: "1" }),
+        stored("B", 2, { production_scene_number: "2" }),
+        stored("C", 3, { production_scene_number: "3" }),
+      ],
+      [
+        incoming("A", 1, { production_scene_number: "1" }),
+        { scene_number: 2, heading: "OMITTED", text: "OMITTED", production_scene_number: "2", omitted: true },
+        incoming("C", 3, { production_scene_number: "3" }),
+      ],
+    );
+    expect(summarize(entries)).toEqual([
+      [1, "unchanged", "scene-A", false],
+      [2, "omitted", "scene-B", false],
+      [3, "unchanged", "scene-C", false],
+    ]);
+  });
+
+  it("carries an earlier placeholder through without reporting it again", () => {
+    const entries = matchRevisedScenes(
+      [stored("A", 1), stored("B", 2, { revision_status: "omitted" }), stored("C", 3)],
+      [incoming("A", 1), incoming("C", 2)],
+    );
+    expect(summarize(entries)).toEqual([
+      [1, "unchanged", "scene-A", false],
+      [2, "omitted", "scene-B", true],
+      [3, "unchanged", "scene-C", false],
+    ]);
+  });
+
+  it("adds a re-instated scene as new instead of reviving its placeholder", () => {
+    const entries = matchRevisedScenes(
+      [stored("A", 1), stored("B", 2, { revision_status: "omitted" }), stored("C", 3)],
+      [incoming("A", 1), incoming("B", 2), incoming("C", 3)],
+    );
+    expect(summarize(entries)).toEqual([
+      [1, "unchanged", "scene-A", false],
+      [2, "omitted", "scene-B", true],
+      [3, "added", null, false],
+      [4, "unchanged", "scene-C", false],
+    ]);
+  });
+
+  it("lets the new draft's placeholder claim the earlier one with the same number", () => {
+    const entries = matchRevisedScenes(
+      [
+        stored("A", 1, { production_scene_number: "1" }),
+        stored("B", 2, { production_scene_number: "2", revision_status: "omitted" }),
+      ],
+      [
+        incoming("A", 1, { production_scene_number: "1" }),
+        { scene_number: 2, heading: "OMITTED", text: "OMITTED", production_scene_number: "2", omitted: true },
+      ],
+    );
+    expect(summarize(entries)).toEqual([
+      [1, "unchanged", "scene-A", false],
+      [2, "omitted", "scene-B", true],
+    ]);
+  });
+});
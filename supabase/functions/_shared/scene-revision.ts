@@ -0,0 +1,208 @@
+/**
+ * Scene revision matching for script re-imports.
+ *
+ * Aligns the scenes of a revised draft with the scenes already stored in
+ * parsed_scenes so enrichment, approvals and shots survive a new draft.
+ * Deterministic — no AI involved.
+ */
+
+import { normalizeApostrophes, parseSceneHeading } from "./entity-normalization.ts";
+import type { ScriptParagraph } from "./script-paragraphs.ts";
+
+export type SceneRevisionStatus = "original" | "unchanged" | "changed" | "added" | "omitted";
+
+export interface StoredScene {
+  id: string;
+  scene_number: number;
+  heading: string;
+  raw_text: string;
+  production_scene_number?: string | null;
+  revision_status?: string | null;
+}
+
+export interface IncomingScene {
+  scene_number: number;
+  heading: string;
+  text: string;
+  /** Scene number printed in the script ("12A"), if any */
+  production_scene_number?: string | null;
+  /** Numbered OMITTED placeholder from a locked script */
+  omitted?: boolean;
+  /** Typed paragraphs when the source format is structured */
+  paragraphs?: ScriptParagraph[];
+  /** Page layout from the pagination engine */
+  page_start?: number;
+  page_end?: number;
+  page_eighths?: number;
+}
+
+export interface SceneRevisionEntry {
+  /** Final ordinal in the revised script (omitted scenes keep a placeholder slot) */
+  scene_number: number;
+  status: Exclude<SceneRevisionStatus, "original">;
+  /** Existing parsed_scenes row, if this scene was matched or omitted */
+  previous: StoredScene | null;
+  /** Scene from the new draft — null for scenes dropped without a placeholder */
+  incoming: IncomingScene | null;
+  similarity: number;
+  /** OMITTED placeholder from an earlier revision, carried over as is */
+  carried?: boolean;
+}
+
+/** Minimum combined score for a new scene to be treated as a revision of an old one */
+const MATCH_THRESHOLD = 0.45;
+
+/** Bonus when both drafts print the same production scene number */
+const PRODUCTION_NUMBER_BONUS = 0.2;
+
+function headingKey(heading: string): string {
+  const parsed = parseSceneHeading(heading);
+  return [parsed.int_ext, parsed.location, parsed.sublocation || "", parsed.time_of_day]
+    .join("|")
+    .toUpperCase();
+}
+
+/** Rows an earlier revision already turned into OMITTED placeholders */
+function isPlaceholder(scene: StoredScene): boolean {
+  return scene.revision_status === "omitted";
+}
+
+/** Scene body without its heading line, whitespace-collapsed */
+function sceneBody(text: string): string {
+  // Drop the heading before normalizing, which collapses the line breaks
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+  return normalizeApostrophes(lines.slice(1).join("\n"));
+}
+
+/** Word counts over the letters and digits of any script */
+function tokenize(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}']+/gu) || []) {
+    counts.set(word, (counts.get(word) || 0) + 1);
+  }
+  return counts;
+}
+
+/** Dice coefficient over word multisets (0–1) */
+function textSimilarity(a: Map<string, number>, b: Map<string, number>): number {
+  let sizeA = 0;
+  let sizeB = 0;
+  let shared = 0;
+  for (const n of a.values()) sizeA += n;
+  for (const n of b.values()) sizeB += n;
+  if (sizeA === 0 && sizeB === 0) return 1;
+  if (sizeA === 0 || sizeB === 0) return 0;
+  for (const [word, n] of a) {
+    const m = b.get(word);
+    if (m) shared += Math.min(n, m);
+  }
+  return (2 * shared) / (sizeA + sizeB);
+}
+
+function headingSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const [intA, locA, subA, timeA] = a.split("|");
+  const [intB, locB, subB, timeB] = b.split("|");
+  let score = 0;
+  if (locA && locA === locB) score += 0.6;
+  if (subA === subB) score += 0.15;
+  if (intA === intB) score += 0.15;
+  if (timeA === timeB) score += 0.1;
+  return score;
+}
+
+/**
+ * Match the scenes of a revised draft against the stored scenes.
+ *
+ * Pairs are scored on heading (40%) and body text (60%) similarity, with a
+ * small bonus for staying near the same position, then assigned greedily
+ * best-first; a shared production scene number ("12A") adds a bonus. A
+ * numbered OMITTED placeholder takes over the old scene with that number.
+ * Placeholders left by earlier revisions never match live scenes: they are
+ * carried through in place, or claimed by the new draft's placeholder with
+ * the same number, and either way reported as carried. Unmatched old scenes
+ * are returned as "omitted" and slotted in after the scene that preceded
+ * them, so the final ordinals keep a placeholder where the scene used to be.
+ */
+export function matchRevisedScenes(previous: StoredScene[], incoming: IncomingScene[]): SceneRevisionEntry[] {
+  const oldSorted = [...previous].sort((a, b) => a.scene_number - b.scene_number);
+  const oldKeys = oldSorted.map((s) => headingKey(s.heading));
+  const newKeys = incoming.map((s) => headingKey(s.heading));
+  const oldTokens = oldSorted.map((s) => tokenize(sceneBody(s.raw_text)));
+  const newTokens = incoming.map((s) => tokenize(sceneBody(s.text)));
+
+  const candidates: { oi: number; ni: number; score: number }[] = [];
+  for (let ni = 0; ni < incoming.length; ni++) {
+    for (let oi = 0; oi < oldSorted.length; oi++) {
+      const hs = headingSimilarity(oldKeys[oi], newKeys[ni]);
+      const ts = textSimilarity(oldTokens[oi], newTokens[ni]);
+      const relOld = oldSorted.length > 1 ? oi / (oldSorted.length - 1) : 0;
+      const relNew = incoming.length > 1 ? ni / (incoming.length - 1) : 0;
+      const proximity = 1 - Math.abs(relOld - relNew);
+      const sameNumber = !!incoming[ni].production_scene_number &&
+        incoming[ni].production_scene_number === oldSorted[oi].production_scene_number;
+      // An earlier placeholder's stale text must not revive it
+      if (isPlaceholder(oldSorted[oi]) && !(incoming[ni].omitted && sameNumber)) continue;
+      // A numbered OMITTED placeholder always claims the scene it replaces
+      const score = incoming[ni].omitted
+        ? (sameNumber ? 2 : 0)
+        : 0.4 * hs + 0.6 * ts + 0.05 * proximity + (sameNumber ? PRODUCTION_NUMBER_BONUS : 0);
+      if (score >= MATCH_THRESHOLD) candidates.push({ oi, ni, score });
+    }
+  }
+  candidates.sort((a, b) => b.score - a.score);
+
+  const oldToNew = new Map<number, { ni: number; score: number }>();
+  const newToOld = new Map<number, number>();
+  for (const c of candidates) {
+    if (oldToNew.has(c.oi) || newToOld.has(c.ni)) continue;
+    oldToNew.set(c.oi, { ni: c.ni, score: c.score });
+    newToOld.set(c.ni, c.oi);
+  }
+
+  // Omitted scenes are anchored after the incoming scene matched to their
+  // closest preceding old scene (-1 = before the first scene)
+  const omittedAfter = new Map<number, number[]>();
+  for (let oi = 0; oi < oldSorted.length; oi++) {
+    if (oldToNew.has(oi)) continue;
+    let anchor = -1;
+    for (let p = oi - 1; p >= 0; p--) {
+      const m = oldToNew.get(p);
+      if (m) { anchor = m.ni; break; }
+    }
+    if (!omittedAfter.has(anchor)) omittedAfter.set(anchor, []);
+    omittedAfter.get(anchor)!.push(oi);
+  }
+
+  const entries: SceneRevisionEntry[] = [];
+  const pushOmitted = (anchor: number) => {
+    for (const oi of omittedAfter.get(anchor) || []) {
+      const carried = isPlaceholder(oldSorted[oi]);
+      entries.push({ scene_number: 0, status: "omitted", previous: oldSorted[oi], incoming: null, similarity: 0, ...(carried ? { carried } : {}) });
+    }
+  };
+
+  pushOmitted(-1);
+  for (let ni = 0; ni < incoming.length; ni++) {
+    const oi = newToOld.get(ni);
+    if (oi === undefined) {
+      const status = incoming[ni].omitted ? "omitted" : "added";
+      entries.push({ scene_number: 0, status, previous: null, incoming: incoming[ni], similarity: 0 });
+    } else {
+      const old = oldSorted[oi];
+      const same = sceneBody(old.raw_text) === sceneBody(incoming[ni].text) && oldKeys[oi] === newKeys[ni];
+      entries.push({
+        scene_number: 0,
+        status: incoming[ni].omitted ? "omitted" : same ? "unchanged" : "changed",
+        previous: old,
+        incoming: incoming[ni],
+        similarity: Math.round(oldToNew.get(oi)!.score * 100) / 100,
+        ...(isPlaceholder(old) ? { carried: true } : {}),
+      });
+    }
+    pushOmitted(ni);
+  }
+
+  entries.forEach((e, i) => { e.scene_number = i + 1; });
+  return entries;
+}
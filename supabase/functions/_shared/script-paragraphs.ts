@@ -0,0 +1,141 @@
+/**
+ * Typed screenplay paragraphs shared by the format parsers.
+ *
+ * Paragraph types match the script viewer and Final Draft
+ * ("Scene Heading", "Action", "Character", "Parenthetical", "Dialogue",
+ * "Transition"), plus the Fountain-only "Centered", "Lyrics", "Section",
+ * "Synopsis", "Note" and "Page Break". Fountain and PDF imports produce them.
+ */
+
+import { isSceneHeadingLine } from "./slugline-locales.ts";
+
+export interface ScriptParagraph {
+  type: string;
+  text: string;
+  /** Scene number printed on a heading ("12A") */
+  scene_number?: string;
+  /** Character cue marked for dual dialogue */
+  dual?: boolean;
+  /** Section depth (number of leading #) */
+  depth?: number;
+  /** Printed page the paragraph starts on (PDF imports) */
+  page?: string;
+  /** Marked with a revision asterisk in the margin */
+  revised?: boolean;
+}
+
+/** Writer-only elements that never appear on the printed page */
+export const NON_PRINTING_TYPES = new Set(["Section", "Synopsis", "Note", "Page Break"]);
+
+/**
+ * Render paragraphs in the plain-text layout the line-based heuristics
+ * (dialogue metrics, character cues) expect — same shape as the FDX converter.
+ */
+export function paragraphsToPlainText(paragraphs: ScriptParagraph[]): string {
+  const lines: string[] = [];
+  for (const p of paragraphs) {
+    if (NON_PRINTING_TYPES.has(p.type)) continue;
+    switch (p.type) {
+      case "Scene Heading":
+      case "Transition":
+        lines.push("", p.text.toUpperCase(), "");
+        break;
+      case "Character":
+        // Fountain's "^" keeps dual dialogue visible to the line-based parsers
+        lines.push("", "    " + p.text.toUpperCase() + (p.dual ? " ^" : ""));
+        break;
+      case "Parenthetical":
+        lines.push("    " + p.text);
+        break;
+      case "Dialogue":
+      case "Lyrics":
+        lines.push(...p.text.split("\n").map((l) => "  " + l));
+        break;
+      default:
+        lines.push(...p.text.split("\n"));
+        break;
+    }
+  }
+  return lines.join("\n").replace(/\n{3,}/g, "\n\n").trim();
+}
+
+/**
+ * Best-effort paragraphs for plain-text scenes (FDX and text imports keep
+ * only raw_text). Same line classifier as computeDialogueMetrics; consecutive
+ * lines of one type without a blank line between them form one paragraph.
+ */
+export function paragraphsFromPlainText(text: string): ScriptParagraph[] {
+  const paragraphs: ScriptParagraph[] = [];
+  let lastType = "";
+  let blank = true;
+
+  for (const line of text.split("\n")) {
+    const trimmed = line.trim();
+    if (!trimmed) {
+      blank = true;
+      continue;
+    }
+
+    let type: string;
+    if (isSceneHeadingLine(trimmed)) type = "Scene Heading";
+    else if (/^(CUT TO:|FADE OUT\.?|FADE IN:?|DISSOLVE TO:|SMASH CUT|MATCH CUT)/i.test(trimmed)) type = "Transition";
+    else if (/^\(.*\)$/.test(trimmed)) type = "Parenthetical";
+    else if (/^[A-Z][A-Z\s'.()\-/]+\^?$/.test(trimmed) && trimmed.length < 45) type = "Character";
+    else if (["Character", "Dialogue", "Parenthetical"].includes(lastType) && !(blank && lastType === "Dialogue")) type = "Dialogue";
+    else type = "Action";
+
+    const last = paragraphs[paragraphs.length - 1];
+    if (last && !blank && type === lastType && (type === "Action" || type === "Dialogue")) {
+      last.text += " " + trimmed;
+    } else if (type === "Character" && trimmed.endsWith("^")) {
+      paragraphs.push({ type, text: trimmed.replace(/\s*\^$/, ""), dual: true });
+    } else {
+      paragraphs.push({ type, text: trimmed });
+    }
+    lastType = type;
+    blank = false;
+  }
+  return paragraphs;
+}
+
+export interface ParagraphScene {
+  scene_number: number;
+  production_scene_number: string | null;
+  omitted: boolean;
+  heading: string;
+  text: string;
+  paragraphs: ScriptParagraph[];
+}
+
+/**
+ * Split typed paragraphs into scenes at each Scene Heading. Anything before
+ * the first heading (title cards, opening sections) is not a scene.
+ */
+export function splitParagraphsIntoScenes(paragraphs: ScriptParagraph[]): ParagraphScene[] {
+  const scenes: ParagraphScene[] = [];
+  let current: ScriptParagraph[] | null = null;
+
+  const flush = () => {
+    if (!current) return;
+    const heading = current[0];
+    scenes.push({
+      scene_number: scenes.length + 1,
+      production_scene_number: heading.scene_number ?? null,
+      omitted: /^OMIT(?:TED)?$/i.test(heading.text.trim()),
+      heading: heading.text,
+      text: paragraphsToPlainText(current),
+      paragraphs: current,
+    });
+  };
+
+  for (const p of paragraphs) {
+    if (p.type === "Scene Heading") {
+      flush();
+      current = [p];
+    } else if (current) {
+      current.push(p);
+    }
+  }
+  flush();
+  return scenes;
+}
@@ -0,0 +1,310 @@
+/**
+ * Slugline vocabulary per script language.
+ *
+ * Scene headings in co-productions use local words for interior/exterior and
+ * time of day ("INT. APPARTEMENT - JOUR", "EXT. CALLE - NOCHE", "INNEN/TAG").
+ * Each locale maps its spellings onto the canonical English values stored in
+ * parsed_scenes (int_ext INT / EXT / INT/EXT, day_night DAY / NIGHT / …), so
+ * every downstream department reads the same vocabulary.
+ */
+
+export type IntExt = "INT" | "EXT" | "INT/EXT";
+
+export interface SluglineLocale {
+  code: string;
+  name: string;
+  /**
+   * Heading prefixes per canonical int_ext. Abbreviations end in "." (matched
+   * case-insensitively, like "INT."); whole words ("INNEN") must be upper-case.
+   */
+  prefixes: Record<IntExt, string[]>;
+  /** Local time-of-day words → canonical English time of day */
+  times: Record<string, string>;
+  /** Local continuity markers → canonical English marker */
+  continuity: Record<string, string>;
+}
+
+const ENGLISH: SluglineLocale = {
+  code: "en",
+  name: "English",
+  prefixes: {
+    INT: ["INT."],
+    EXT: ["EXT.", "EST."],
+    "INT/EXT": ["INT./EXT.", "INT/EXT.", "EXT./INT.", "EXT/INT.", "I/E."],
+  },
+  times: {
+    DAY: "DAY", NIGHT: "NIGHT", DAWN: "DAWN", DUSK: "DUSK", MORNING: "MORNING",
+    EVENING: "EVENING", AFTERNOON: "AFTERNOON", SUNRISE: "SUNRISE", SUNSET: "SUNSET",
+  },
+  continuity: {
+    CONTINUOUS: "CONTINUOUS", LATER: "LATER", "SAME TIME": "SAME TIME", "MOMENTS LATER": "MOMENTS LATER",
+    "A MOMENT LATER": "A MOMENT LATER", SAME: "SAME", "NEXT MORNING": "NEXT MORNING", "NEXT DAY": "NEXT DAY",
+    "SAME DAY": "SAME DAY",
+  },
+};
+
+const FRENCH: SluglineLocale = {
+  code: "fr",
+  name: "Français",
+  prefixes: {
+    INT: ["INT.", "INTÉRIEUR", "INTERIEUR"],
+    EXT: ["EXT.", "EXTÉRIEUR", "EXTERIEUR"],
+    "INT/EXT": ["INT./EXT.", "INT/EXT.", "EXT./INT."],
+  },
+  times: {
+    JOUR: "DAY", NUIT: "NIGHT", AUBE: "DAWN", "CRÉPUSCULE": "DUSK", CREPUSCULE: "DUSK",
+    MATIN: "MORNING", SOIR: "EVENING", "SOIRÉE": "EVENING", SOIREE: "EVENING",
+    "APRÈS-MIDI": "AFTERNOON", "APRES-MIDI": "AFTERNOON",
+    "LEVER DU SOLEIL": "SUNRISE", "COUCHER DU SOLEIL": "SUNSET",
+  },
+  continuity: {
+    SUITE: "CONTINUOUS", CONTINU: "CONTINUOUS", "PLUS TARD": "LATER", "MÊME MOMENT": "SAME TIME",
+    "MEME MOMENT": "SAME TIME", "LENDEMAIN MATIN": "NEXT MORNING", LENDEMAIN: "NEXT DAY",
+  },
+};
+
+const SPANISH: SluglineLocale = {
+  code: "es",
+  name: "Español",
+  prefixes: {
+    INT: ["INT.", "INTERIOR"],
+    EXT: ["EXT.", "EXTERIOR"],
+    "INT/EXT": ["INT./EXT.", "INT/EXT.", "EXT./INT."],
+  },
+  times: {
+    "DÍA": "DAY", DIA: "DAY", NOCHE: "NIGHT", AMANECER: "DAWN", ALBA: "DAWN", ATARDECER: "DUSK",
+    ANOCHECER: "DUSK", "MAÑANA": "MORNING", MANANA: "MORNING", TARDE: "AFTERNOON",
+  },
+  continuity: {
+    CONTINUO: "CONTINUOUS", "CONTINUACIÓN": "CONTINUOUS", CONTINUACION: "CONTINUOUS",
+    "MÁS TARDE": "LATER", "MAS TARDE": "LATER", "MISMO MOMENTO": "SAME TIME",
+  },
+};
+
+const GERMAN: SluglineLocale = {
+  code: "de",
+  name: "Deutsch",
+  prefixes: {
+    INT: ["INT.", "INNEN"],
+    EXT: ["EXT.", "AUSSEN", "AUẞEN", "AUßEN"],
+    "INT/EXT": ["INT./EXT.", "INT/EXT.", "INNEN/AUSSEN", "INNEN/AUẞEN", "INNEN/AUßEN", "AUSSEN/INNEN"],
+  },
+  times: {
+    TAG: "DAY", NACHT: "NIGHT", MORGENGRAUEN: "DAWN", "DÄMMERUNG": "DUSK", DAEMMERUNG: "DUSK",
+    MORGEN: "MORNING", ABEND: "EVENING", NACHMITTAG: "AFTERNOON",
+    SONNENAUFGANG: "SUNRISE", SONNENUNTERGANG: "SUNSET",
+  },
+  continuity: {
+    FORTLAUFEND: "CONTINUOUS", KONTINUIERLICH: "CONTINUOUS", "SPÄTER": "LATER", SPAETER: "LATER",
+    "GLEICHZEITIG": "SAME TIME", "NÄCHSTER TAG": "NEXT DAY", "NÄCHSTER MORGEN": "NEXT MORNING",
+  },
+};
+
+const ITALIAN: SluglineLocale = {
+  code: "it",
+  name: "Italiano",
+  prefixes: {
+    INT: ["INT.", "INTERNO"],
+    EXT: ["EST.", "EXT.", "ESTERNO"],
+    "INT/EXT": ["INT./EST.", "INT/EST.", "EST./INT.", "INT./EXT."],
+  },
+  times: {
+    GIORNO: "DAY", NOTTE: "NIGHT", ALBA: "DAWN", CREPUSCOLO: "DUSK", TRAMONTO: "SUNSET",
+    MATTINA: "MORNING", MATTINO: "MORNING", SERA: "EVENING", POMERIGGIO: "AFTERNOON",
+  },
+  continuity: {
+    CONTINUA: "CONTINUOUS", "PIÙ TARDI": "LATER", "PIU TARDI": "LATER", "STESSO MOMENTO": "SAME TIME",
+    "GIORNO DOPO": "NEXT DAY", "MATTINA DOPO": "NEXT MORNING",
+  },
+};
+
+const PORTUGUESE: SluglineLocale = {
+  code: "pt",
+  name: "Português",
+  prefixes: {
+    INT: ["INT.", "INTERIOR"],
+    EXT: ["EXT.", "EXTERIOR"],
+    "INT/EXT": ["INT./EXT.", "INT/EXT.", "EXT./INT."],
+  },
+  times: {
+    DIA: "DAY", NOITE: "NIGHT", AMANHECER: "DAWN", ALVORADA: "DAWN", ENTARDECER: "DUSK",
+    ANOITECER: "DUSK", "CREPÚSCULO": "DUSK", "MANHÃ": "MORNING", MANHA: "MORNING", TARDE: "AFTERNOON",
+    "NASCER DO SOL": "SUNRISE", "PÔR DO SOL": "SUNSET", "POR DO SOL": "SUNSET",
+  },
+  continuity: {
+    "CONTÍNUO": "CONTINUOUS", CONTINUO: "CONTINUOUS", "CONTINUAÇÃO": "CONTINUOUS", CONTINUACAO: "CONTINUOUS",
+    "MAIS TARDE": "LATER", "MESMO MOMENTO": "SAME TIME",
+  },
+};
+
+/** Registered locales, English first (the default and the tie-breaker) */
+export const SLUGLINE_LOCALES: SluglineLocale[] = [ENGLISH, FRENCH, SPANISH, GERMAN, ITALIAN, PORTUGUESE];
+
+/** Add or replace a locale by code, so further languages can be plugged in */
+export function registerSluglineLocale(locale: SluglineLocale): void {
+  const index = SLUGLINE_LOCALES.findIndex((l) => l.code === locale.code);
+  if (index >= 0) SLUGLINE_LOCALES[index] = locale;
+  else SLUGLINE_LOCALES.push(locale);
+  lineMatchers.clear();
+}
+
+export function getSluglineLocale(code: string | null | undefined): SluglineLocale | null {
+  return SLUGLINE_LOCALES.find((l) => l.code === code) ?? null;
+}
+
+// ─── Pattern building ────────────────────────────────────────────
+
+const escapeRe = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/** Word end that also works after accented letters, where \b does not */
+export const WORD_END = "(?=$|[\\s.,:;/)\\-–—])";
+
+const byLengthDesc = (a: string, b: string) => b.length - a.length;
+
+function allPrefixes(locales: SluglineLocale[]): { prefix: string; int_ext: IntExt }[] {
+  const seen = new Set<string>();
+  const result: { prefix: string; int_ext: IntExt }[] = [];
+  for (const locale of locales) {
+    for (const [int_ext, prefixes] of Object.entries(locale.prefixes) as [IntExt, string[]][]) {
+      for (const prefix of prefixes) {
+        if (seen.has(prefix)) continue;
+        seen.add(prefix);
+        result.push({ prefix, int_ext });
+      }
+    }
+  }
+  return result.sort((a, b) => byLengthDesc(a.prefix, b.prefix));
+}
+
+/** English abbreviations stay recognised in every locale — international scripts mix them freely */
+function withEnglish(locale: SluglineLocale | null | undefined): SluglineLocale[] {
+  if (!locale) return SLUGLINE_LOCALES;
+  return locale.code === "en" ? [locale] : [locale, ENGLISH];
+}
+
+/**
+ * Regex source for the start of a scene heading line, separator included:
+ * abbreviations need a following space ("INT. "), whole words a space,
+ * period or slash ("INNEN/TAG", "INTÉRIEUR. CUISINE"). Case-sensitive.
+ */
+export function headingPrefixSource(locale?: SluglineLocale | null): string {
+  const prefixes = allPrefixes(withEnglish(locale)).map((p) => p.prefix);
+  const abbreviations = prefixes.filter((p) => p.endsWith(".")).map(escapeRe);
+  const words = prefixes.filter((p) => !p.endsWith(".")).map(escapeRe);
+  const parts = [`(?:${abbreviations.join("|")})[ \\t]`];
+  if (words.length > 0) parts.push(`(?:${words.join("|")})[ \\t./]`);
+  return `(?:${parts.join("|")})`;
+}
+
+/**
+ * Regex source for abbreviated prefixes only ("INT. ", "EST. "). Used where a
+ * heading may be glued mid-line, where whole words would split ordinary text.
+ */
+export function abbreviatedPrefixSource(locale?: SluglineLocale | null): string {
+  const abbreviations = allPrefixes(withEnglish(locale)).map((p) => p.prefix).filter((p) => p.endsWith("."));
+  return `(?:${abbreviations.map(escapeRe).join("|")})\\s`;
+}
+
+const lineMatchers = new Map<string, { abbreviated: RegExp; any: RegExp }>();
+
+/** True when a line opens a scene heading in the given locale (all locales when omitted) */
+export function isSceneHeadingLine(line: string, locale?: SluglineLocale | null): boolean {
+  const key = locale?.code ?? "*";
+  let matcher = lineMatchers.get(key);
+  if (!matcher) {
+    matcher = {
+      abbreviated: new RegExp(`^${abbreviatedPrefixSource(locale)}`, "i"),
+      any: new RegExp(`^${headingPrefixSource(locale)}`),
+    };
+    lineMatchers.set(key, matcher);
+  }
+  const trimmed = line.trim() + " ";
+  if (matcher.abbreviated.test(trimmed)) return true;
+  return trimmed === trimmed.toUpperCase() && matcher.any.test(trimmed);
+}
+
+/**
+ * Leading INT/EXT prefix of a heading, lenient about the periods ("INT KITCHEN")
+ * but never matching inside a longer word ("INTERCUT").
+ */
+export function matchHeadingPrefix(
+  heading: string,
+  locale?: SluglineLocale | null
+): { prefix: string; int_ext: IntExt } | null {
+  for (const { prefix, int_ext } of allPrefixes(withEnglish(locale))) {
+    const source = escapeRe(prefix).replace(/\\\./g, "\\.?");
+    const match = heading.match(new RegExp(`^${source}(?![A-Za-zÀ-ÿ])`, "i"));
+    if (match && match[0].length > 0) return { prefix: match[0], int_ext };
+  }
+  return null;
+}
+
+/** Alternation of the locale's time words (English included), longest first */
+export function timeWordsSource(locale?: SluglineLocale | null): string {
+  const words = new Set<string>();
+  for (const l of withEnglish(locale)) Object.keys(l.times).forEach((w) => words.add(w));
+  return [...words].sort(byLengthDesc).map(escapeRe).join("|");
+}
+
+/** Alternation of the locale's continuity markers (English included), longest first */
+export function continuityWordsSource(locale?: SluglineLocale | null): string {
+  const words = new Set<string>();
+  for (const l of withEnglish(locale)) Object.keys(l.continuity).forEach((w) => words.add(w));
+  return [...words].sort(byLengthDesc).map(escapeRe).join("|");
+}
+
+/** Canonical English value for a local time-of-day word */
+export function canonicalTime(word: string, locale?: SluglineLocale | null): string {
+  const upper = word.toUpperCase();
+  for (const l of withEnglish(locale)) if (l.times[upper]) return l.times[upper];
+  return upper;
+}
+
+/** Canonical English value for a local continuity marker */
+export function canonicalContinuity(word: string, locale?: SluglineLocale | null): string {
+  const upper = word.toUpperCase().replace(/\s+/g, " ");
+  for (const l of withEnglish(locale)) if (l.continuity[upper]) return l.continuity[upper];
+  return upper;
+}
+
+// ─── Detection ───────────────────────────────────────────────────
+
+/**
+ * Pick the slugline locale from a script (or a single heading). Each heading
+ * votes for the locales whose prefixes and time/continuity words it uses;
+ * whole-word prefixes ("INNEN", "INTÉRIEUR") count double. English wins ties.
+ */
+export function detectSluglineLocale(text: string): SluglineLocale {
+  const headings = text
+    .split("\n")
+    // Margin scene numbers ("12A  INNEN/TAG") come before the prefix
+    .map((l) => l.trim().replace(/^\d{1,4}[A-Z]{0,3}\.?\s+/, ""))
+    .filter((l) => isSceneHeadingLine(l));
+  const scores = new Map<string, number>(SLUGLINE_LOCALES.map((l) => [l.code, 0]));
+
+  for (const heading of headings) {
+    const upper = heading.toUpperCase();
+    for (const locale of SLUGLINE_LOCALES) {
+      let score = 0;
+      for (const prefixes of Object.values(locale.prefixes)) {
+        for (const p of prefixes) {
+          if (!p.endsWith(".") && upper.startsWith(p)) score += 2;
+        }
+      }
+      const words = [...Object.keys(locale.times), ...Object.keys(locale.continuity)];
+      for (const w of words) {
+        if (new RegExp(`[-–—.,/\\s]${escapeRe(w)}${WORD_END}`).test(upper)) {
+          score += 1;
+          break;
+        }
+      }
+      scores.set(locale.code, (scores.get(locale.code) ?? 0) + score);
+    }
+  }
+
+  let best = SLUGLINE_LOCALES[0];
+  for (const locale of SLUGLINE_LOCALES) {
+    if ((scores.get(locale.code) ?? 0) > (scores.get(best.code) ?? 0)) best = locale;
+  }
+  return best;
+}
@@ -138,6 +138,32 @@ function buildDirectors(): DirectorProfile[] {
 
 const DIRECTORS = buildDirectors();
 
+/** custom_director_profiles row → profile; quadrant and depth derive from the vector like the client's */
+function customDirector(row: { id: string; name: string; vector: unknown; cluster: string; visual_mandate: unknown }): DirectorProfile {
+  const raw = (row.vector || {}) as Record<string, unknown>;
+  const vector = {} as StyleVector;
+  for (const axis of STYLE_AXES) {
+    const v = typeof raw[axis] === "number" ? (raw[axis] as number) : 5;
+    vector[axis] = Math.max(0, Math.min(10, v));
+  }
+  const mandate = (row.visual_mandate || {}) as Partial<VisualMandate>;
+  return {
+    id: row.id,
+    name: row.name,
+    vector,
+    cluster: row.cluster,
+    quadrant: vectorToQuadrant(vector),
+    emotionalDepth: emotionTier(vector.emotion),
+    visualMandate: {
+      lighting: mandate.lighting || "",
+      lens: mandate.lens || "",
+      texture: mandate.texture || "",
+      color: mandate.color || "",
+      negativeHints: mandate.negativeHints || "",
+    },
+  };
+}
+
 // ═══════════════════════════════════════════════════════
 // STYLE VECTOR COMPUTATION — Script metadata → 8-axis vector
 // ═══════════════════════════════════════════════════════
@@ -298,10 +324,11 @@ Deno.serve(async (req) => {
     const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
-    // Fetch film + analysis
-    const [filmRes, analysisRes] = await Promise.all([
+    // Fetch film + analysis + the workspace's custom director profiles
+    const [filmRes, analysisRes, customRes] = await Promise.all([
       supabase.from("films").select("*").eq("id", film_id).single(),
       supabase.from("script_analyses").select("visual_summary").eq("film_id", film_id).eq("status", "complete").order("created_at", { ascending: false }).limit(1).maybeSingle(),
+      supabase.from("custom_director_profiles").select("*").eq("user_id", authResult.userId),
     ]);
 
     const film = filmRes.data;
@@ -322,8 +349,9 @@ Deno.serve(async (req) => {
     const quadrant = vectorToQuadrant(scriptVector);
     const emotionalTier = emotionTier(scriptVector.emotion);
 
-    // Find top 5 nearest directors
-    const ranked = DIRECTORS
+    // Find top 5 nearest directors, custom profiles included
+    const catalog = [...DIRECTORS, ...(customRes.data || []).map(customDirector)];
+    const ranked = catalog
       .map((d) => ({ director: d, distance: styleDistance(scriptVector, d.vector) }))
       .sort((a, b) => a.distance - b.distance)
       .slice(0, 5);
@@ -340,6 +368,8 @@ Deno.serve(async (req) => {
         secondary_director_id: top3.length > 1 ? top3[1].director.id : null,
         secondary_director_name: top3.length > 1 ? top3[1].director.name : null,
         blend_weight: 1.0,
+        blend_directors: [{ id: bestMatch.director.id, name: bestMatch.director.name, weight: 1 }],
+        mandate_sources: {},
         computed_vector: scriptVector,
         quadrant,
         cluster: bestMatch.director.cluster,
@@ -385,6 +415,7 @@ Deno.serve(async (req) => {
           emotional_depth: r.director.emotionalDepth,
           vector: r.director.vector,
           visual_mandate: r.director.visualMandate,
+          custom: !DIRECTORS.includes(r.director),
         })),
         recommended_blend: top3.length >= 2 ? {
           primary: { id: top3[0].director.id, name: top3[0].director.name, weight: 0.7 },
@@ -163,7 +163,8 @@ Deno.serve(async (req) => {
     const authResult = await requireAuth(req);
     if (isResponse(authResult)) return authResult;
 
-    const { shot_id } = await req.json();
+    // style_contract_version pins the payload to a historical contract version
+    const { shot_id, style_contract_version } = await req.json();
     if (!shot_id) {
       return new Response(
         JSON.stringify({ error: "shot_id is required" }),
@@ -189,13 +190,16 @@ Deno.serve(async (req) => {
       );
     }
 
-    // ── 2. Parallel fetches: film, content_safety, template, style_contract, scene_override ──
-    const [filmRes, safetyRes, templateRes, contractRes, sceneOverrideRes] = await Promise.all([
+    // ── 2. Parallel fetches: film, content_safety, template, style_contract, scene_override, props_master ──
+    const [filmRes, safetyRes, templateRes, contractRes, sceneOverrideRes, propsRes] = await Promise.all([
       supabase.from("films").select("*").eq("id", shot.film_id).single(),
       supabase.from("content_safety").select("*").eq("film_id", shot.film_id).maybeSingle(),
       supabase.from("ai_generation_templates").select("*").eq("shot_id", shot_id).maybeSingle(),
-      supabase.from("film_style_contracts").select("*").eq("film_id", shot.film_id).maybeSingle(),
+      style_contract_version
+        ? supabase.from("style_contract_versions").select("*").eq("film_id", shot.film_id).eq("version", style_contract_version).maybeSingle()
+        : supabase.from("film_style_contracts").select("*").eq("film_id", shot.film_id).maybeSingle(),
       supabase.from("scene_style_overrides").select("*").eq("film_id", shot.film_id).eq("scene_number", shot.scene_number).maybeSingle(),
+      supabase.from("props_master").select("name, designation, scene_states, identity_id").eq("film_id", shot.film_id).contains("scene_numbers", [shot.scene_number]),
     ]);
 
     const film = filmRes.data;
@@ -204,6 +208,21 @@ Deno.serve(async (req) => {
     const contract = contractRes.data;
     const sceneOverride = sceneOverrideRes.data;
 
+    if (style_contract_version && !contract) {
+      return new Response(
+        JSON.stringify({ error: `Style contract v${style_contract_version} not found` }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Props in this scene with their state here (scenes without an entry are intact)
+    const propStates = (propsRes.data || []).map((p) => ({
+      name: p.name,
+      designation: p.designation,
+      state: (p.scene_states || {})[String(shot.scene_number)] || "intact",
+      identity_id: p.identity_id,
+    }));
+
     // ── 2b. Fetch locked film assets ──
     const { data: lockedAssets } = await supabase
       .from("film_assets")
@@ -231,6 +250,7 @@ Deno.serve(async (req) => {
           locked_image_url: a.reference_image_url,
           is_dirty: a.is_dirty,
           weight: a.asset_type === "character" ? 0.85 : undefined,
+          state: a.asset_type === "prop" ? propStates.find((p) => p.identity_id === a.id)?.state : undefined,
         }));
 
         // Fetch consistency views for referenced characters
@@ -361,10 +381,13 @@ Deno.serve(async (req) => {
       generation_payload: {
         raw_script_action: shot.prompt_text ?? "",
 
-        resolved_text_prompt: buildResolvedPrompt(shot, template, cinematography, lockedAssets || [], contract, sceneOverride),
+        resolved_text_prompt: buildResolvedPrompt(shot, template, cinematography, lockedAssets || [], contract, sceneOverride, propStates),
 
         identity_tokens: identityTokens,
 
+        // Props master entries for this scene with their per-scene state
+        prop_states: propStates.map(({ name, designation, state }) => ({ name, designation, state })),
+
         // Character consistency turnaround views for identity anchoring
         character_consistency_views: characterConsistencyViews,
 
@@ -416,7 +439,7 @@ Deno.serve(async (req) => {
   }
 });
 
-/** Build the resolved text prompt from shot + template + cinematography + locked assets + contract + scene override */
+/** Build the resolved text prompt from shot + template + cinematography + locked assets + contract + scene override + prop states */
 function buildResolvedPrompt(
   shot: any,
   template: any,
@@ -424,6 +447,7 @@ function buildResolvedPrompt(
   lockedAssets: any[],
   contract: any | null,
   sceneOverride: any | null,
+  propStates: { name: string; state: string }[],
 ): string {
   const parts: string[] = [];
 
@@ -479,6 +503,10 @@ function buildResolvedPrompt(
   if (propLocked.length > 0) {
     parts.push(`PROPS: ${propLocked.map((a: any) => `${a.asset_name} (${a.description})`).join("; ")}.`);
   }
+  const changedProps = propStates.filter((p) => p.state !== "intact");
+  if (changedProps.length > 0) {
+    parts.push(`PROP STATES: ${changedProps.map((p) => `${p.name} (${p.state})`).join("; ")}.`);
+  }
   const vehLocked = lockedAssets.filter((a) => a.asset_type === "vehicle");
   if (vehLocked.length > 0) {
     parts.push(`VEHICLES: ${vehLocked.map((a: any) => `${a.asset_name} (${a.description})`).join("; ")}.`);
@@ -1,5 +1,6 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { requireAuth, isResponse } from "../_shared/auth.ts";
+import { inferStoryDays, wardrobeStoryDayChanges, type StoryDay } from "../_shared/story-days.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -12,6 +13,7 @@ const corsHeaders = {
  *
  * Scans a film (or specific scene) for continuity issues:
  * - Wardrobe mismatches: same character wearing different wardrobe across shots in a scene
+ * - Story-day costume changes: a character's wardrobe changing between scenes of one story day
  * - Character drift: shots referencing a character whose identity has changed (is_dirty)
  * - Style drift: shots generated with an outdated style_contract_version
  * - Prop inconsistency: shots in same scene referencing different locked props
@@ -146,7 +148,31 @@ Deno.serve(async (req) => {
       }
     }
 
-    // ── 6. Persist new conflicts (clear old unresolved first for this scope) ──
+    // ── 6. Costumes change only between story days ──
+    if (wardrobeAssignments && wardrobeAssignments.length > 0) {
+      const { data: storyScenes } = await supabase
+        .from("parsed_scenes")
+        .select("id, scene_number, day_night, continuity_marker, is_flashback, is_dream, story_day, revision_status")
+        .eq("film_id", film_id);
+      const storyDays = new Map<number, StoryDay>(inferStoryDays(storyScenes ?? []).map((d) => [d.sceneNumber, d]));
+      for (const change of wardrobeStoryDayChanges(wardrobeAssignments, storyDays)) {
+        const scenes = [...change.items.values()].flat().sort((a, b) => a - b);
+        if (scene_number && !scenes.includes(scene_number)) continue;
+        // Flag the first scene that breaks from the costume the day opened in;
+        // when every scene also has the opening item, flag the opening scene
+        const opening = [...change.items.entries()].find(([, sns]) => sns.includes(scenes[0]))![0];
+        const firstChange = scenes.find((sn) => !change.items.get(opening)!.includes(sn)) ?? scenes[0];
+        newConflicts.push({
+          scene_number: scene_number || firstChange,
+          shot_id: null,
+          conflict_type: "wardrobe_story_day",
+          description: `${change.character} changes costume within story day ${change.day}: ${[...change.items.entries()].map(([item, sns]) => `${item} (sc ${sns.sort((a, b) => a - b).join(", ")})`).join(" vs ")}.`,
+          severity: "warning",
+        });
+      }
+    }
+
+    // ── 7. Persist new conflicts (clear old unresolved first for this scope) ──
     let deleteQuery = supabase
       .from("vice_conflicts")
       .delete()
@@ -156,12 +182,13 @@ Deno.serve(async (req) => {
     await deleteQuery;
 
     if (newConflicts.length > 0) {
-      await supabase.from("vice_conflicts").insert(
+      const { error: insertError } = await supabase.from("vice_conflicts").insert(
         newConflicts.map((c) => ({
           film_id,
           ...c,
         }))
       );
+      if (insertError) throw new Error(`Failed to save continuity conflicts: ${insertError.message}`);
     }
 
     return new Response(
@@ -91,7 +91,7 @@ Deno.serve(async (req) => {
 
     const { data: directorProfile } = await supabase
       .from("film_director_profiles")
-      .select("primary_director_name, secondary_director_name, quadrant, cluster, visual_mandate, blend_weight")
+      .select("primary_director_name, secondary_director_name, quadrant, cluster, visual_mandate, blend_weight, blend_directors")
       .eq("film_id", scene.film_id)
       .maybeSingle();
 
@@ -335,7 +335,10 @@ function buildStyleContext(
   if (directorProfile) {
     parts.push(`DIRECTOR DNA:`);
     parts.push(`  Primary: ${directorProfile.primary_director_name || "unset"}`);
-    if (directorProfile.secondary_director_name) {
+    const blend = Array.isArray(directorProfile.blend_directors) ? directorProfile.blend_directors : [];
+    if (blend.length > 1) {
+      parts.push(`  Blend: ${blend.map((b: { name: string; weight: number }) => `${b.name} ${Math.round(b.weight * 100)}%`).join(", ")}`);
+    } else if (directorProfile.secondary_director_name) {
       parts.push(`  Secondary: ${directorProfile.secondary_director_name} (blend: ${directorProfile.blend_weight || 1.0})`);
     }
     if (directorProfile.quadrant) parts.push(`  Quadrant: ${directorProfile.quadrant}`);
@@ -1,6 +1,7 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.97.0";
 import { requireAuth, isResponse } from "../_shared/auth.ts";
 import { logCreditUsage } from "../_shared/credit-logger.ts";
+import { detectSluglineLocale, getSluglineLocale } from "../_shared/slugline-locales.ts";
 import {
   ENTITY_TYPES,
   type EntityType,
@@ -9,6 +10,7 @@ import {
   canonicalizeLocations,
   extractCharacterCues,
   computeDialogueMetrics,
+  extractDialogueLines,
   parseSceneHeading,
   classifyEntity,
   isVehicleEntity,
@@ -74,6 +76,7 @@ Deno.serve(async (req) => {
       .from("parsed_scenes")
       .select("id, scene_number, heading, raw_text")
       .eq("film_id", film_id)
+      .neq("revision_status", "omitted")
       .order("scene_number");
 
     if (scenesErr || !scenes || scenes.length === 0) {
@@ -86,6 +89,17 @@ Deno.serve(async (req) => {
     // Step 2: Deterministic extraction (no AI)
     console.log(`[Phase1] Starting deterministic extraction for ${scenes.length} scenes`);
 
+    // Same slugline locale the script was parsed with (falls back to detection from the headings)
+    const { data: lastJob } = await supabase
+      .from("parse_jobs")
+      .select("slugline_locale")
+      .eq("film_id", film_id)
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    const locale = getSluglineLocale(lastJob?.slugline_locale)
+      ?? detectSluglineLocale(scenes.map((s) => s.heading).join("\n"));
+
     // 2a: Extract characters from ALL-CAPS cues across all scenes
     const allCharacterCues: { name: string; scene: number }[] = [];
     for (const scene of scenes) {
@@ -97,13 +111,13 @@ Deno.serve(async (req) => {
 
     // 2b: Extract locations from scene headings
     const headings = scenes.map((s) => ({ heading: s.heading, scene: s.scene_number }));
-    const locationEntities = canonicalizeLocations(headings);
+    const locationEntities = canonicalizeLocations(headings, locale);
     console.log(`[Phase1] Found ${locationEntities.length} canonical locations`);
 
     // 2c: Compute dialogue metrics and scene flags for each scene
     for (const scene of scenes) {
       const metrics = computeDialogueMetrics(scene.raw_text);
-      const parsed = parseSceneHeading(scene.heading);
+      const parsed = parseSceneHeading(scene.heading, locale);
 
       await supabase
         .from("parsed_scenes")
@@ -120,6 +134,7 @@ Deno.serve(async (req) => {
           dialogue_line_count: metrics.dialogue_line_count,
           dialogue_word_count: metrics.dialogue_word_count,
           dialogue_density: metrics.dialogue_density,
+          dialogue_lines: extractDialogueLines(scene.raw_text, scene.scene_number),
         })
         .eq("id", scene.id);
     }
@@ -177,7 +192,7 @@ Deno.serve(async (req) => {
       }
 
       // Link location to this scene
-      const parsed = parseSceneHeading(scene.heading);
+      const parsed = parseSceneHeading(scene.heading, locale);
       if (parsed.location) {
         for (const locEntity of locationEntities) {
           const allNames = [locEntity.canonical_name, ...locEntity.aliases];
@@ -2,6 +2,7 @@ import { createClient } from "https://esm.sh/@supabase/supabase-js@2.97.0";
 import { requireAuth, isResponse } from "../_shared/auth.ts";
 import { logCreditUsage } from "../_shared/credit-logger.ts";
 import { extractNormalizedLocations, normalizeLocationKey } from "../_shared/location-normalization.ts";
+import { parseSceneHeading } from "../_shared/entity-normalization.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -57,6 +58,7 @@ Deno.serve(async (req) => {
       .from("parsed_scenes")
       .select("*")
       .eq("film_id", analysis.film_id)
+      .neq("revision_status", "omitted")
       .order("scene_number");
 
     if (!allScenes || allScenes.length === 0) {
@@ -101,13 +103,14 @@ Deno.serve(async (req) => {
     };
 
     // ── Helper: extract location from scene heading ──
+    // Shared heading parser, so localised sluglines ("EXT. CALLE - NOCHE") resolve too
     const extractLocationFromHeading = (heading: string): { location: string; intExt: string; dayNight: string } => {
-      const match = heading.match(/^(INT\.|EXT\.|INT\/EXT\.?)\s*(.+?)(?:\s*-\s*(DAY|NIGHT|DAWN|DUSK|EVENING|MORNING|CONTINUOUS|LATER|SAME|MOMENTS LATER|SAME TIME|A MOMENT LATER|NEXT MORNING|NEXT DAY).*)?$/i);
-      if (!match) return { location: heading, intExt: "", dayNight: "" };
+      const parsed = parseSceneHeading(heading);
+      if (!parsed.int_ext) return { location: heading, intExt: "", dayNight: "" };
       return {
-        location: (match[2] || "").replace(/\s*-\s*$/, "").trim(),
-        intExt: (match[1] || "").replace(".", "").trim(),
-        dayNight: (match[3] || "").trim(),
+        location: parsed.location,
+        intExt: parsed.int_ext,
+        dayNight: parsed.time_of_day || parsed.continuity_marker || "",
       };
     };
 
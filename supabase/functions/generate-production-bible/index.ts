@@ -1,6 +1,7 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { requireAuth, isResponse } from "../_shared/auth.ts";
 import { logCreditUsage } from "../_shared/credit-logger.ts";
+import { buildLocationTree, type LocationTreeEntry } from "../_shared/location-tree.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -70,7 +71,7 @@ Deno.serve(async (req) => {
     }
 
     // ── Parallel fetches ──
-    const [filmRes, safetyRes, analysisRes, scenesRes, charsRes, directorRes, contractRes] = await Promise.all([
+    const [filmRes, safetyRes, analysisRes, scenesRes, charsRes, directorRes, contractRes, locationsRes] = await Promise.all([
       supabase.from("films").select("*").eq("id", film_id).single(),
       supabase.from("content_safety").select("*").eq("film_id", film_id).maybeSingle(),
       supabase.from("script_analyses").select("*").eq("film_id", film_id).eq("status", "complete").order("created_at", { ascending: false }).limit(1).maybeSingle(),
@@ -78,6 +79,7 @@ Deno.serve(async (req) => {
       supabase.from("characters").select("*").eq("film_id", film_id),
       supabase.from("film_director_profiles").select("*").eq("film_id", film_id).maybeSingle(),
       supabase.from("film_style_contracts").select("*").eq("film_id", film_id).maybeSingle(),
+      supabase.from("film_locations").select("*").eq("film_id", film_id),
     ]);
 
     const film = filmRes.data;
@@ -95,6 +97,17 @@ Deno.serve(async (req) => {
     const genres = (film.genres || []) as string[];
     const globalElements: any = analysis?.global_elements || {};
 
+    // ── Location tree (locations and the sets inside them), when the user has built one ──
+    const locationTree = buildLocationTree(locationsRes.data || [], scenes);
+    const toManifest = (entry: LocationTreeEntry): Record<string, unknown> => ({
+      name: entry.node.name,
+      scenes: entry.totalSceneNumbers.length,
+      pages: Math.round((entry.eighths / 8) * 10) / 10,
+      int_ext: entry.intExt,
+      day_night: entry.periods,
+      sets: entry.children.map(toManifest),
+    });
+
     // ── Compute style vector (from director profile) ──
     const computedVector = (director?.computed_vector || {}) as Record<string, number>;
     const visualMandate = (director?.visual_mandate || {}) as Record<string, string>;
@@ -119,6 +132,9 @@ Deno.serve(async (req) => {
         primary_director: director.primary_director_name,
         secondary_director: director.secondary_director_name || null,
         blend_weight: director.blend_weight,
+        // N-director blend (heaviest first) and which director each mandate dimension comes from
+        blend: director.blend_directors,
+        mandate_sources: director.mandate_sources,
         cluster: director.cluster,
         quadrant: director.quadrant,
         emotional_depth: director.emotional_depth,
@@ -156,9 +172,15 @@ Deno.serve(async (req) => {
           day: scenes.filter((s: any) => (s.day_night || "").toLowerCase().includes("day")).length,
           night: scenes.filter((s: any) => (s.day_night || "").toLowerCase().includes("night")).length,
         },
-        unique_locations: [...new Set(scenes.map((s: any) => s.location_name).filter(Boolean))],
+        unique_locations: locationTree.roots.length > 0
+          ? locationTree.roots.map((r) => r.node.name)
+          : [...new Set(scenes.map((s: any) => s.location_name).filter(Boolean))],
+        location_manifest: locationTree.roots.map(toManifest),
         moods: [...new Set(scenes.map((s: any) => s.mood).filter(Boolean))],
-        total_page_count: scenes.reduce((sum: number, s: any) => sum + (s.estimated_page_count || 0), 0),
+        // Parser pagination (eighths of a page) when available, else the AI estimates
+        total_page_count: scenes.some((s) => s.page_eighths != null)
+          ? scenes.reduce((sum: number, s) => sum + (s.page_eighths || 0), 0) / 8
+          : scenes.reduce((sum: number, s: any) => sum + (s.estimated_page_count || 0), 0),
       },
       characters: characters.map((c: any) => ({
         name: c.name,
@@ -170,6 +192,7 @@ Deno.serve(async (req) => {
       scenes_detail: scenes.slice(0, 30).map((s: any) => ({
         scene_number: s.scene_number,
         heading: s.heading,
+        page_eighths: s.page_eighths,
         characters: s.characters,
         mood: s.mood,
         description: s.description?.substring(0, 200),
@@ -203,6 +226,7 @@ CRITICAL RULES:
 - Use authoritative, specific, rule-based language — no ambiguity
 - When axis scores are extreme (≥9 or ≤2), generate absolute rules (non-negotiables)
 - Department doctrines must have concrete, actionable constraints
+- When scene_summary.location_manifest is non-empty, it is the production's authoritative location list: refer to locations and their sets by those names, and base location-dependent doctrine on its scene counts, pages and INT/EXT and day/night coverage
 - The document must feel like it was written by a veteran production designer
 - CRITICAL AUDIO RULE: All audio generated for scenes must be PRODUCTION SOUND ONLY — meaning only sounds that would be physically recorded on set by a production sound mixer. This means: dialogue, ambient environment sounds, practical sound effects from on-screen actions, and room tone. NO musical score, NO non-diegetic music, NO synthesized sound design, NO sounds from sources not physically present in the scene. This rule must be reflected in the Sound & Score department doctrine and in the CIC engine compiler instructions for all engines.
 
@@ -589,6 +589,7 @@ Deno.serve(async (req) => {
       prompt_delta,
       anchor_count = 4,
       repair_target,
+      style_contract_version,
     } = body;
 
     if (!shot_id) {
@@ -624,7 +625,7 @@ Deno.serve(async (req) => {
         Authorization: req.headers.get("Authorization") ?? "",
         apikey: supabaseKey,
       },
-      body: JSON.stringify({ shot_id }),
+      body: JSON.stringify({ shot_id, style_contract_version }),
     });
 
     if (!compileRes.ok) {
@@ -746,10 +747,11 @@ Deno.serve(async (req) => {
       const geminiKey = Deno.env.get("GEMINI_API_KEY");
       if (geminiKey) {
         const resolvedPrompt = compilePayload.generation_payload?.resolved_text_prompt ?? shot.prompt_text ?? "";
-        // Fetch style contract for scoring context
-        const { data: styleContract } = await supabase
-          .from("film_style_contracts")
-          .select("visual_dna, color_mandate, lighting_doctrine, texture_mandate")
+        // Fetch style contract for scoring context (the pinned version when regenerating against one)
+        const contractQuery = style_contract_version
+          ? supabase.from("style_contract_versions").select("visual_dna, color_mandate, lighting_doctrine, texture_mandate").eq("version", style_contract_version)
+          : supabase.from("film_style_contracts").select("visual_dna, color_mandate, lighting_doctrine, texture_mandate");
+        const { data: styleContract } = await contractQuery
           .eq("film_id", shot.film_id)
           .maybeSingle();
         
@@ -1,12 +1,27 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.97.0";
 import { requireAuth, isResponse } from "../_shared/auth.ts";
 import { logCreditUsage } from "../_shared/credit-logger.ts";
-import { extractText, getDocumentProxy } from "https://esm.sh/unpdf@0.12.1";
 import {
   parseSceneHeading,
   computeDialogueMetrics,
   extractCharacterCues,
+  extractDialogueLines,
 } from "../_shared/entity-normalization.ts";
+import { matchRevisedScenes, type IncomingScene, type StoredScene } from "../_shared/scene-revision.ts";
+import { parseFountain, titlePageMetadata } from "../_shared/fountain.ts";
+import { parsePdfScreenplay } from "../_shared/pdf-screenplay.ts";
+import { isOsfDocument, parseOsf } from "../_shared/osf.ts";
+import { splitParagraphsIntoScenes, type ScriptParagraph } from "../_shared/script-paragraphs.ts";
+import { paginateScenes } from "../_shared/pagination.ts";
+import { diffLines, normalizeLine, revisedLines, type LineDiffOp } from "../_shared/line-diff.ts";
+import { revisionColorName } from "../_shared/revision-colors.ts";
+import {
+  abbreviatedPrefixSource,
+  detectSluglineLocale,
+  getSluglineLocale,
+  headingPrefixSource,
+  type SluglineLocale,
+} from "../_shared/slugline-locales.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -19,11 +34,23 @@ const corsHeaders = {
 /** Extract plain text from Final Draft XML (.fdx / .fdr) */
 function parseFdxToPlainText(xml: string): string {
   const lines: string[] = [];
-  const paragraphRe = /<Paragraph[^>]*Type="([^"]*)"[^>]*>([\s\S]*?)<\/Paragraph>/gi;
+  // <DualDialogue> nests two speeches inside a wrapper paragraph. Unwrap it and
+  // flag the second cue, which becomes a Fountain-style "^" cue below.
+  xml = xml.replace(/<Paragraph[^>]*>\s*<DualDialogue>([\s\S]*?)<\/DualDialogue>\s*<\/Paragraph>/gi, (_, inner: string) => {
+    let cues = 0;
+    return inner.replace(/<Paragraph([^>]*\bType="Character"[^>]*)>/gi, (m, attrs: string) =>
+      ++cues === 2 ? `<Paragraph${attrs} Dual="Yes">` : m
+    );
+  });
+  const paragraphRe = /<Paragraph([^>]*)>([\s\S]*?)<\/Paragraph>/gi;
   let pm: RegExpExecArray | null;
 
   while ((pm = paragraphRe.exec(xml)) !== null) {
-    const pType = pm[1];
+    const attrs = pm[1];
+    const pType = attrs.match(/\bType="([^"]*)"/)?.[1];
+    if (!pType) continue;
+    // Locked scripts carry production scene numbers ("12A") on the heading paragraph
+    const sceneNumber = attrs.match(/\bNumber="([^"]+)"/)?.[1]?.trim();
     const inner = pm[2];
     const textRe = /<Text[^>]*>([\s\S]*?)<\/Text>/gi;
     let combined = "";
@@ -38,10 +65,11 @@ function parseFdxToPlainText(xml: string): string {
 
     switch (pType) {
       case "Scene Heading":
-        lines.push("", trimmed.toUpperCase(), "");
+        // Carried through as a Fountain-style #12A# marker for extractScenes
+        lines.push("", trimmed.toUpperCase() + (sceneNumber ? ` #${sceneNumber}#` : ""), "");
         break;
       case "Character":
-        lines.push("", "    " + trimmed.toUpperCase());
+        lines.push("", "    " + trimmed.toUpperCase() + (/\bDual="Yes"/.test(attrs) ? " ^" : ""));
         break;
       case "Parenthetical":
         lines.push("    " + trimmed);
@@ -61,15 +89,6 @@ function parseFdxToPlainText(xml: string): string {
   return lines.join("\n").trim();
 }
 
-/** Extract text from PDF using unpdf (pdfjs-based, Deno-compatible) */
-async function parsePdfToPlainText(data: ArrayBuffer): Promise<string> {
-  const pdf = await getDocumentProxy(new Uint8Array(data));
-  const { text } = await extractText(pdf, { mergePages: true });
-  const raw = typeof text === "string" ? text : (text as string[]).join("\n");
-  console.log("[PDF] Extracted text length:", raw.length);
-  return raw;
-}
-
 /** Strip RTF control codes to extract plain text */
 function parseRtfToPlainText(rtf: string): string {
   let text = rtf;
@@ -108,48 +127,100 @@ async function parseDocxToPlainText(data: ArrayBuffer): Promise<string> {
   return textParts.join("\n").trim();
 }
 
-/** Minimal ZIP parser – extracts uncompressed and deflate-compressed entries */
-function parseZipEntries(data: Uint8Array): { name: string; data: Uint8Array }[] {
-  const entries: { name: string; data: Uint8Array }[] = [];
+interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+  /** Deflate-compressed; inflated by decompressZipEntries */
+  deflated?: boolean;
+}
+
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const ZIP_CENTRAL_HEADER = 0x02014b50;
+const ZIP_END_OF_CENTRAL_DIR = 0x06054b50;
+const ZIP_DATA_DESCRIPTOR = 0x08074b50;
+
+/**
+ * Minimal ZIP parser – extracts uncompressed and deflate-compressed entries.
+ * Sizes come from the central directory, since archives written in streaming
+ * mode (Fade In, Highland, macOS zip) leave them zero in the local headers
+ * and append a data descriptor instead.
+ */
+function parseZipEntries(data: Uint8Array): ZipEntry[] {
   const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
-  let offset = 0;
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+
+  // End-of-central-directory record sits in the last 22 bytes plus an optional comment
+  let eocd = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === ZIP_END_OF_CENTRAL_DIR) {
+      eocd = i;
+      break;
+    }
+  }
 
-  while (offset < data.length - 4) {
-    const sig = view.getUint32(offset, true);
-    if (sig !== 0x04034b50) break;
+  if (eocd >= 0) {
+    const count = view.getUint16(eocd + 10, true);
+    let offset = view.getUint32(eocd + 16, true);
+    for (let n = 0; n < count && offset + 46 <= data.length; n++) {
+      if (view.getUint32(offset, true) !== ZIP_CENTRAL_HEADER) break;
+      const method = view.getUint16(offset + 10, true);
+      const compressedSize = view.getUint32(offset + 20, true);
+      const nameLen = view.getUint16(offset + 28, true);
+      const extraLen = view.getUint16(offset + 30, true);
+      const commentLen = view.getUint16(offset + 32, true);
+      const localOffset = view.getUint32(offset + 42, true);
+      const name = decoder.decode(data.subarray(offset + 46, offset + 46 + nameLen));
+      offset += 46 + nameLen + extraLen + commentLen;
+
+      if (name.endsWith("/") || view.getUint32(localOffset, true) !== ZIP_LOCAL_HEADER) continue;
+      // The local header's own name/extra lengths can differ from the central copy
+      const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+      entries.push({ name, data: data.subarray(dataStart, dataStart + compressedSize), deflated: method === 8 });
+    }
+    if (entries.length > 0) return entries;
+  }
 
-    const compressionMethod = view.getUint16(offset + 8, true);
-    const compressedSize = view.getUint32(offset + 18, true);
+  // No central directory (truncated archive) – walk the local headers
+  let offset = 0;
+  while (offset < data.length - 30 && view.getUint32(offset, true) === ZIP_LOCAL_HEADER) {
+    const flags = view.getUint16(offset + 6, true);
+    const method = view.getUint16(offset + 8, true);
+    let compressedSize = view.getUint32(offset + 18, true);
     const nameLen = view.getUint16(offset + 26, true);
     const extraLen = view.getUint16(offset + 28, true);
-
-    const nameBytes = data.subarray(offset + 30, offset + 30 + nameLen);
-    const name = new TextDecoder().decode(nameBytes);
-
+    const name = decoder.decode(data.subarray(offset + 30, offset + 30 + nameLen));
     const dataStart = offset + 30 + nameLen + extraLen;
-    const rawData = data.subarray(dataStart, dataStart + compressedSize);
+    let next = dataStart + compressedSize;
 
-    if (compressionMethod === 0) {
-      entries.push({ name, data: rawData });
-    } else if (compressionMethod === 8) {
-      entries.push({ name, data: rawData });
-      (entries[entries.length - 1] as any)._needsDecompress = true;
-    } else {
-      entries.push({ name, data: rawData });
+    // Bit 3: sizes follow the data in a descriptor – find the one whose size matches
+    if (flags & 0x08 && compressedSize === 0) {
+      let i = dataStart;
+      for (; i <= data.length - 16; i++) {
+        if (view.getUint32(i, true) === ZIP_DATA_DESCRIPTOR && view.getUint32(i + 8, true) === i - dataStart) break;
+      }
+      if (i > data.length - 16) break;
+      compressedSize = i - dataStart;
+      next = i + 16;
+    } else if (flags & 0x08) {
+      next += view.getUint32(next, true) === ZIP_DATA_DESCRIPTOR ? 16 : 12;
     }
 
-    offset = dataStart + compressedSize;
+    if (!name.endsWith("/")) {
+      entries.push({ name, data: data.subarray(dataStart, dataStart + compressedSize), deflated: method === 8 });
+    }
+    offset = next;
   }
 
   return entries;
 }
 
 /** Async decompression for ZIP entries that need it */
-async function decompressZipEntries(entries: { name: string; data: Uint8Array }[]): Promise<void> {
+async function decompressZipEntries(entries: ZipEntry[]): Promise<void> {
   for (const entry of entries) {
-    if ((entry as any)._needsDecompress) {
+    if (entry.deflated) {
       try {
-        const ds = new DecompressionStream("raw");
+        const ds = new DecompressionStream("deflate-raw");
         const writer = ds.writable.getWriter();
         const reader = ds.readable.getReader();
         writer.write(entry.data).catch(() => {});
@@ -173,25 +244,39 @@ async function decompressZipEntries(entries: { name: string; data: Uint8Array }[
       } catch {
         // Leave raw data if decompression fails
       }
-      delete (entry as any)._needsDecompress;
+      entry.deflated = false;
     }
   }
 }
 
-/** Parse Fountain format to plain text */
-function parseFountainToPlainText(text: string): string {
-  let result = text;
-  const titlePageEnd = result.search(/\n\s*\n\s*(?:INT\.|EXT\.|INT\/EXT\.|I\/E\.)/i);
-  if (titlePageEnd > 0 && titlePageEnd < 500) {
-    result = result.slice(titlePageEnd);
+/**
+ * Zipped screenplay packages: Fade In (.fadein → document.xml in OSF),
+ * Highland 2 (.highland → a TextBundle holding text.fountain or text.md) and
+ * WriterDuet (.wdz) exports. The archive content decides the reader.
+ */
+async function parseZippedScreenplay(data: ArrayBuffer): Promise<{ paragraphs: ScriptParagraph[] | null; text: string; titlePage: Record<string, string> | null }> {
+  const entries = parseZipEntries(new Uint8Array(data));
+  await decompressZipEntries(entries);
+  const decoder = new TextDecoder();
+  const files = entries.filter((e) => !/(^|\/)(__MACOSX|\.)/.test(e.name));
+
+  const fountain = files.find((e) => /\.(fountain|spmd)$/i.test(e.name))
+    ?? files.find((e) => /(^|\/)text\.(md|markdown|txt)$/i.test(e.name));
+  if (fountain) {
+    const doc = parseFountain(decoder.decode(fountain.data));
+    return { paragraphs: doc.paragraphs, text: "", titlePage: doc.titlePage };
+  }
+
+  for (const entry of files.filter((e) => /\.(xml|osf|fdx)$/i.test(e.name))) {
+    const xml = decoder.decode(entry.data);
+    if (isOsfDocument(xml)) {
+      const doc = parseOsf(xml);
+      return { paragraphs: doc.paragraphs, text: "", titlePage: doc.titlePage };
+    }
+    if (xml.includes("<FinalDraft")) return { paragraphs: null, text: parseFdxToPlainText(xml), titlePage: null };
   }
-  result = result.replace(/^\./gm, "");
-  result = result.replace(/\/\*[\s\S]*?\*\//g, "");
-  result = result.replace(/^#{1,6}\s+/gm, "");
-  result = result.replace(/^=\s+.+$/gm, "");
-  result = result.replace(/\[\[[\s\S]*?\]\]/g, "");
-  result = result.replace(/[*_]/g, "");
-  return result.trim();
+
+  throw new Error(`No screenplay found in archive (${files.map((e) => e.name).join(", ") || "empty"})`);
 }
 
 /** Extract text from Celtx (.sexp) – XML-based */
@@ -208,19 +293,44 @@ function parseSexpToPlainText(text: string): string {
 
 // ─── Scene extraction ─────────────────────────────────────────────
 
-/** Deterministic scene extraction */
-function extractScenes(scriptText: string) {
+/** Trailing Fountain scene number marker: "INT. HOUSE - DAY #12A#" */
+const SCENE_NUMBER_MARKER_RE = /\s*#([^#\s]+)#\s*$/;
+
+/**
+ * Numbered margins as printed in shooting-script PDFs and text exports:
+ * "12A   INT. HOUSE - DAY   12A" and "13   OMITTED   13". Rewritten to the
+ * Fountain marker form so every format reaches extractScenes the same way.
+ */
+function normalizeMarginSceneNumbers(text: string, locale: SluglineLocale): string {
+  return text
+    .replace(
+      new RegExp(`^[ \\t]*(\\d{1,4}[A-Z]{0,3})\\.?[ \\t]+(${headingPrefixSource(locale)}.*?)(?:[ \\t]+\\1\\.?)?[ \\t]*$`, "gim"),
+      "$2 #$1#"
+    )
+    .replace(/^[ \t]*(\d{1,4}[A-Z]{0,3})\.?[ \t]+(OMIT(?:TED)?)(?:[ \t]+\1\.?)?[ \t]*$/gim, "OMITTED #$1#");
+}
+
+/**
+ * Deterministic scene extraction. Scenes keep their ordinal scene_number;
+ * production numbers printed in the script ("12A") are captured separately,
+ * and numbered OMITTED placeholders come through as omitted scenes.
+ */
+function extractScenes(scriptText: string, locale: SluglineLocale) {
   let normalized = scriptText
     .replace(/\r\n/g, "\n")
     .replace(/\r/g, "\n");
 
-  normalized = normalized.replace(/([^\n])((?:INT\.|EXT\.|INT\/EXT\.|I\/E\.)\s)/g, "$1\n$2");
+  normalized = normalizeMarginSceneNumbers(normalized, locale);
+  // Headings glued mid-line; only abbreviated prefixes, whole words would split ordinary text
+  normalized = normalized.replace(new RegExp(`([^\\n])(${abbreviatedPrefixSource(locale)})`, "g"), "$1\n$2");
 
-  const sceneRegex = /^(INT\.|EXT\.|INT\/EXT\.|I\/E\.)\s.+$/gm;
+  // Heading prefixes follow the script's slugline locale ("INT. ", "INNEN/", "EXT. ")
+  const headingPrefix = headingPrefixSource(locale);
+  const sceneRegex = new RegExp(`^(?:${headingPrefix}.*|OMIT(?:TED)?\\s*#[^#\\s]+#)$`, "gm");
   let matches = [...normalized.matchAll(sceneRegex)];
 
   if (matches.length === 0) {
-    const ciRegex = /^(int\.|ext\.|int\/ext\.|i\/e\.)\s.+$/gim;
+    const ciRegex = new RegExp(sceneRegex.source, "gim");
     matches = [...normalized.matchAll(ciRegex)];
   }
 
@@ -228,6 +338,8 @@ function extractScenes(scriptText: string) {
 
   const scenes: {
     scene_number: number;
+    production_scene_number: string | null;
+    omitted: boolean;
     heading: string;
     text: string;
   }[] = [];
@@ -239,16 +351,291 @@ function extractScenes(scriptText: string) {
         ? matches[i + 1].index!
         : normalized.length;
 
+    const headingLine = matches[i][0].trim();
+    const productionNumber = headingLine.match(SCENE_NUMBER_MARKER_RE)?.[1]?.toUpperCase() ?? null;
+    const heading = headingLine.replace(SCENE_NUMBER_MARKER_RE, "");
+    const body = normalized.slice(start + matches[i][0].length, end);
+
     scenes.push({
       scene_number: i + 1,
-      heading: matches[i][0].trim(),
-      text: normalized.slice(start, end).trim(),
+      production_scene_number: productionNumber,
+      omitted: /^OMIT(?:TED)?$/i.test(heading),
+      heading,
+      text: (heading + body).trim(),
     });
   }
 
   return scenes;
 }
 
+// ─── Scene rows ───────────────────────────────────────────────────
+
+/** Printed numbering and page layout — refreshed on every import, even for unchanged scenes */
+function layoutFields(scene: IncomingScene) {
+  return {
+    production_scene_number: scene.production_scene_number ?? null,
+    page_start: scene.page_start ?? null,
+    page_end: scene.page_end ?? null,
+    // OMITTED placeholders hold a number, not screen time
+    page_eighths: scene.omitted ? 0 : scene.page_eighths ?? null,
+  };
+}
+
+/** Deterministic parsed_scenes fields for a scene (heading parse + dialogue metrics, no AI) */
+function buildSceneFields(scene: IncomingScene, locale: SluglineLocale) {
+  const parsed = parseSceneHeading(scene.heading, locale);
+  const metrics = computeDialogueMetrics(scene.text);
+  const cues = extractCharacterCues(scene.text, scene.scene_number);
+
+  return {
+    heading: scene.heading,
+    ...layoutFields(scene),
+    raw_text: scene.text,
+    // Typed paragraphs when the source format carries structure (Fountain, PDF layout)
+    paragraphs: scene.paragraphs ?? null,
+    int_ext: parsed.int_ext,
+    day_night: parsed.time_of_day,
+    location_name: parsed.location,
+    sublocation: parsed.sublocation,
+    continuity_marker: parsed.continuity_marker,
+    is_flashback: parsed.is_flashback,
+    is_dream: parsed.is_dream,
+    is_montage: parsed.is_montage,
+    line_count: metrics.line_count,
+    dialogue_line_count: metrics.dialogue_line_count,
+    dialogue_word_count: metrics.dialogue_word_count,
+    dialogue_density: metrics.dialogue_density,
+    // Characters from cue detection (deterministic, deduped)
+    characters: [...new Set(cues.map((c) => c.name))],
+    // Per-line speaker, cue extensions (V.O., O.S., …) and dual-dialogue pairing
+    dialogue_lines: extractDialogueLines(scene.text, scene.scene_number),
+  };
+}
+
+/** Tables that reference scenes by scene_number rather than by id (props_master is remapped separately) */
+const SCENE_NUMBER_TABLES = ["shots", "scene_style_overrides", "wardrobe_scene_assignments", "vice_conflicts", "vfx_shots"];
+
+/**
+ * Renumber scene-keyed rows after a revision. Moves go through negative
+ * placeholders first so unique (film_id, scene_number) constraints never
+ * see two rows with the same number mid-way.
+ */
+async function remapSceneNumbers(supabase: ReturnType<typeof createClient>, filmId: string, renumber: Map<number, number>) {
+  const moves = [...renumber].filter(([from, to]) => from !== to);
+  if (moves.length === 0) return;
+
+  for (const table of SCENE_NUMBER_TABLES) {
+    for (const [from, to] of moves) {
+      await supabase.from(table).update({ scene_number: -to }).eq("film_id", filmId).eq("scene_number", from);
+    }
+    for (const [, to] of moves) {
+      await supabase.from(table).update({ scene_number: to }).eq("film_id", filmId).eq("scene_number", -to);
+    }
+  }
+
+  // Props list their scenes as an array and as scene_states keys
+  const moved = new Map(moves);
+  const remap = (n: number) => moved.get(n) ?? n;
+  const { data: props } = await supabase.from("props_master").select("id, scene_numbers, scene_states").eq("film_id", filmId);
+  for (const prop of props || []) {
+    const sceneNumbers: number[] = prop.scene_numbers || [];
+    const sceneStates: Record<string, string> = prop.scene_states || {};
+    if (!sceneNumbers.some((n) => moved.has(n)) && !Object.keys(sceneStates).some((k) => moved.has(Number(k)))) continue;
+    await supabase
+      .from("props_master")
+      .update({
+        scene_numbers: sceneNumbers.map(remap).sort((a, b) => a - b),
+        scene_states: Object.fromEntries(Object.entries(sceneStates).map(([k, state]) => [String(remap(Number(k))), state])),
+      })
+      .eq("id", prop.id);
+  }
+}
+
+/** Stored scene plus the enrichment the change report needs */
+type PreviousScene = StoredScene & { characters: string[] | null; key_objects: string[] | null };
+
+/** parse_jobs.change_report — what a numbered revision changed, for every department */
+interface ChangeReport {
+  revision_number: number;
+  revision_color: string;
+  summary: Record<string, number>;
+  scenes: {
+    scene_number: number;
+    production_scene_number: string | null;
+    previous_scene_number: number | null;
+    heading: string;
+    status: string;
+    diff?: LineDiffOp[];
+  }[];
+  characters: { added: string[]; removed: string[]; affected: string[] };
+  props: string[];
+  shots: { id: string; scene_number: number }[];
+}
+
+/**
+ * Reconcile a revised draft with the stored scenes: unchanged scenes keep
+ * their enrichment, changed scenes get fresh deterministic data and are
+ * re-queued for enrichment, new scenes are inserted and dropped scenes stay
+ * behind as omitted placeholders. Shots on changed or omitted scenes are
+ * sent to the VICE dirty queue. Changed lines are kept for the margin
+ * asterisks, and the whole revision is summarised in a change report.
+ */
+async function applySceneRevision(
+  supabase: ReturnType<typeof createClient>,
+  analysis: { id: string; film_id: string; scene_approvals: unknown; scene_rejections: unknown },
+  existing: PreviousScene[],
+  scenes: IncomingScene[],
+  revision: { number: number; color: string },
+  locale: SluglineLocale,
+) {
+  const filmId = analysis.film_id;
+  const entries = matchRevisedScenes(existing, scenes);
+  const renumber = new Map<number, number>();
+  const keptReview = new Map<number, number>();
+  const dirtySceneNumbers: number[] = [];
+  const sceneIds: string[] = [];
+  const reparseSceneIds: string[] = [];
+  const summary = { unchanged: 0, changed: 0, added: 0, omitted: 0 };
+  const reportScenes: ChangeReport["scenes"] = [];
+  const affectedCharacters = new Set<string>();
+  const affectedProps = new Set<string>();
+
+  for (const entry of entries) {
+    const prev = entry.previous as PreviousScene | null;
+    if (prev) renumber.set(prev.scene_number, entry.scene_number);
+
+    // Placeholders from earlier revisions only move to their new slot
+    if (entry.carried) {
+      await supabase
+        .from("parsed_scenes")
+        .update({ scene_number: entry.scene_number, ...(entry.incoming ? layoutFields(entry.incoming) : {}) })
+        .eq("id", prev!.id);
+      continue;
+    }
+
+    summary[entry.status]++;
+
+    let diff: LineDiffOp[] | undefined;
+    if (entry.status !== "unchanged") {
+      if (entry.status === "changed") diff = diffLines(prev!.raw_text, entry.incoming!.text);
+      for (const c of prev?.characters ?? []) affectedCharacters.add(c);
+      for (const c of entry.incoming ? extractCharacterCues(entry.incoming.text, entry.scene_number) : []) affectedCharacters.add(c.name);
+      for (const p of prev?.key_objects ?? []) affectedProps.add(p);
+      reportScenes.push({
+        scene_number: entry.scene_number,
+        production_scene_number: entry.incoming?.production_scene_number ?? prev?.production_scene_number ?? null,
+        previous_scene_number: prev?.scene_number ?? null,
+        heading: entry.incoming?.heading ?? prev!.heading,
+        status: entry.status,
+        ...(diff ? { diff } : {}),
+      });
+    }
+
+    if (!prev) {
+      // New scene, or a new OMITTED placeholder with nothing to take over
+      const { data: inserted } = await supabase.from("parsed_scenes").insert({
+        film_id: filmId,
+        scene_number: entry.scene_number,
+        ...buildSceneFields({ ...entry.incoming!, scene_number: entry.scene_number }, locale),
+        revision_status: entry.status,
+        // A new scene is revised throughout
+        revised_lines: entry.status === "added" ? entry.incoming!.text.split("\n").map(normalizeLine).filter(Boolean) : null,
+        revision_color: revision.color,
+        enriched: false,
+        phase1_locked: false,
+      }).select("id").single();
+      if (inserted && entry.status === "added") {
+        sceneIds.push(inserted.id);
+        reparseSceneIds.push(inserted.id);
+      }
+      continue;
+    }
+
+    const update: Record<string, unknown> = {
+      scene_number: entry.scene_number,
+      previous_scene_number: prev.scene_number,
+      revision_status: entry.status,
+      // Asterisks mark only what this revision changed
+      revised_lines: diff ? revisedLines(diff) : null,
+    };
+    if (entry.status !== "unchanged") update.revision_color = revision.color;
+    // Locked scripts may renumber ("12" → "12A") and text elsewhere moves page breaks
+    if (entry.incoming) Object.assign(update, layoutFields(entry.incoming));
+    if (entry.status === "changed") {
+      Object.assign(update, buildSceneFields({ ...entry.incoming!, scene_number: entry.scene_number }, locale), {
+        enriched: false,
+        phase1_locked: false,
+      });
+    }
+    await supabase.from("parsed_scenes").update(update).eq("id", prev.id);
+
+    if (entry.status === "unchanged") keptReview.set(prev.scene_number, entry.scene_number);
+    else dirtySceneNumbers.push(entry.scene_number);
+    if (entry.status !== "omitted") sceneIds.push(prev.id);
+    if (entry.status === "changed") reparseSceneIds.push(prev.id);
+  }
+
+  await remapSceneNumbers(supabase, filmId, renumber);
+
+  // Scene approvals are stored as 0-based scene indices — keep them only for untouched scenes
+  const remapReview = (value: unknown) =>
+    (Array.isArray(value) ? value as number[] : [])
+      .filter((i) => keptReview.has(i + 1))
+      .map((i) => keptReview.get(i + 1)! - 1);
+  await supabase
+    .from("script_analyses")
+    .update({
+      scene_approvals: remapReview(analysis.scene_approvals),
+      scene_rejections: remapReview(analysis.scene_rejections),
+    })
+    .eq("id", analysis.id);
+
+  let affectedShots: { id: string; scene_number: number }[] = [];
+  if (dirtySceneNumbers.length > 0) {
+    const { data } = await supabase
+      .from("shots")
+      .select("id, scene_number")
+      .eq("film_id", filmId)
+      .in("scene_number", dirtySceneNumbers);
+    affectedShots = data || [];
+
+    for (const shot of affectedShots) {
+      await supabase
+        .from("vice_dirty_queue")
+        .upsert(
+          {
+            film_id: filmId,
+            shot_id: shot.id,
+            triggered_by: `SCENE_${shot.scene_number}`,
+            trigger_type: "script_revision",
+            status: "pending",
+          },
+          { onConflict: "shot_id,triggered_by,status" }
+        );
+    }
+  }
+
+  // Speaking parts gained or lost across the whole script
+  const before = new Set(existing.flatMap((s) => s.characters ?? []));
+  const after = new Set(scenes.flatMap((s) => extractCharacterCues(s.text, s.scene_number).map((c) => c.name)));
+  const report: ChangeReport = {
+    revision_number: revision.number,
+    revision_color: revision.color,
+    summary,
+    scenes: reportScenes,
+    characters: {
+      added: [...after].filter((c) => !before.has(c)).sort(),
+      removed: [...before].filter((c) => !after.has(c)).sort(),
+      affected: [...affectedCharacters].sort(),
+    },
+    props: [...affectedProps].sort(),
+    shots: affectedShots,
+  };
+
+  console.log(`[applySceneRevision] ${revision.color} revision: ${JSON.stringify(summary)}`);
+  return { sceneIds, reparseSceneIds, summary, report };
+}
+
 // ─── Main handler ─────────────────────────────────────────────────
 
 Deno.serve(async (req) => {
@@ -260,7 +647,8 @@ Deno.serve(async (req) => {
     const authResult = await requireAuth(req);
     if (isResponse(authResult)) return authResult;
 
-    const { analysis_id } = await req.json();
+    // slugline_locale ("fr", "de", …) overrides the language detected from the headings
+    const { analysis_id, slugline_locale } = await req.json();
     if (!analysis_id) {
       return new Response(JSON.stringify({ error: "analysis_id is required" }), {
         status: 400,
@@ -307,24 +695,42 @@ Deno.serve(async (req) => {
     }
 
     const fileName = analysis.file_name.toLowerCase();
-    let scriptText: string;
+    let scriptText = "";
+    // Structured formats hand over typed paragraphs instead of plain text
+    let paragraphs: ScriptParagraph[] | null = null;
+    let titlePage: Record<string, string> | null = null;
 
     try {
       if (fileName.endsWith(".pdf")) {
-        const arrayBuf = await fileData.arrayBuffer();
-        scriptText = await parsePdfToPlainText(arrayBuf);
+        const pdf = await parsePdfScreenplay(await fileData.arrayBuffer());
+        console.log("[PDF] Layout paragraphs:", pdf.paragraphs.length);
+        // Unusual layouts with no recognisable headings fall back to plain-text scene detection
+        if (pdf.paragraphs.some((p) => p.type === "Scene Heading")) paragraphs = pdf.paragraphs;
+        else scriptText = pdf.text;
       } else if (fileName.endsWith(".docx")) {
         const arrayBuf = await fileData.arrayBuffer();
         scriptText = await parseDocxToPlainText(arrayBuf);
       } else if (fileName.endsWith(".rtf")) {
         scriptText = parseRtfToPlainText(await fileData.text());
       } else if (fileName.endsWith(".fountain")) {
-        scriptText = parseFountainToPlainText(await fileData.text());
+        const doc = parseFountain(await fileData.text());
+        paragraphs = doc.paragraphs;
+        titlePage = doc.titlePage;
       } else if (fileName.endsWith(".sexp")) {
         scriptText = parseSexpToPlainText(await fileData.text());
+      } else if (fileName.endsWith(".fadein") || fileName.endsWith(".highland") || fileName.endsWith(".wdz")) {
+        const doc = await parseZippedScreenplay(await fileData.arrayBuffer());
+        paragraphs = doc.paragraphs;
+        scriptText = doc.text;
+        titlePage = doc.titlePage;
       } else {
         const rawText = await fileData.text();
-        if (
+        if (isOsfDocument(rawText)) {
+          // Open Screenplay Format (.osf / .xml exports from WriterDuet and Fade In)
+          const doc = parseOsf(rawText);
+          paragraphs = doc.paragraphs;
+          titlePage = doc.titlePage;
+        } else if (
           fileName.endsWith(".fdx") ||
           fileName.endsWith(".fdr") ||
           rawText.trimStart().startsWith("<?xml") ||
@@ -351,7 +757,14 @@ Deno.serve(async (req) => {
       });
     }
 
-    const scenes = extractScenes(scriptText);
+    const headingText = paragraphs
+      ? paragraphs.filter((p) => p.type === "Scene Heading").map((p) => p.text).join("\n")
+      : scriptText;
+    const locale = getSluglineLocale(slugline_locale) ?? detectSluglineLocale(headingText);
+    console.log(`[parse-script] Slugline locale: ${locale.code}`);
+
+    const scenes: IncomingScene[] = paragraphs ? splitParagraphsIntoScenes(paragraphs) : extractScenes(scriptText, locale);
+    paginateScenes(scenes).forEach((layout, i) => Object.assign(scenes[i], layout));
 
     if (scenes.length === 0) {
       await supabase
@@ -368,11 +781,41 @@ Deno.serve(async (req) => {
       );
     }
 
-    // Clean up old parsed_scenes for this film before inserting new ones
-    await supabase
+    // Fountain title page fills in the film's title and writers where they are
+    // still empty, so a revised draft never replaces what the user entered
+    if (titlePage) {
+      const meta = titlePageMetadata(titlePage);
+      const { data: film } = await supabase
+        .from("films")
+        .select("title, writers")
+        .eq("id", analysis.film_id)
+        .single();
+      const filmUpdate = Object.fromEntries(
+        Object.entries(meta).filter(([key, v]) => v && !film?.[key as keyof typeof meta]?.trim())
+      );
+      if (Object.keys(filmUpdate).length > 0) {
+        await supabase.from("films").update(filmUpdate).eq("id", analysis.film_id);
+      }
+    }
+
+    // Existing scenes mean this is a revised draft — reconcile instead of wiping
+    const { data: existingScenes } = await supabase
       .from("parsed_scenes")
-      .delete()
-      .eq("film_id", analysis.film_id);
+      .select("id, scene_number, heading, raw_text, production_scene_number, revision_status, characters, key_objects")
+      .eq("film_id", analysis.film_id)
+      .order("scene_number");
+
+    // Each import is a numbered revision: the first draft is White, then Blue, Pink, …
+    const isRevision = !!existingScenes && existingScenes.length > 0;
+    const { data: lastJob } = await supabase
+      .from("parse_jobs")
+      .select("revision_number")
+      .eq("film_id", analysis.film_id)
+      .order("revision_number", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    const revisionNumber = isRevision ? (lastJob?.revision_number ?? 0) + 1 : 0;
+    const revisionColor = revisionColorName(revisionNumber);
 
     const { data: job } = await supabase
       .from("parse_jobs")
@@ -381,52 +824,44 @@ Deno.serve(async (req) => {
         analysis_id: analysis_id,
         status: "completed",
         scene_count: scenes.length,
+        revision_number: revisionNumber,
+        revision_color: revisionColor,
+        file_name: analysis.file_name,
+        slugline_locale: locale.code,
       })
       .select()
       .single();
 
-    // ── Phase 1: Insert scenes with deterministic heading parse + dialogue metrics ──
     const sceneIds: string[] = [];
-    const allCharacterCues: { name: string; scene: number }[] = [];
-
-    for (const scene of scenes) {
-      // Deterministic heading parse (no AI)
-      const parsed = parseSceneHeading(scene.heading);
-      // Dialogue metrics (no AI)
-      const metrics = computeDialogueMetrics(scene.text);
-      // Extract character cues from raw text
-      const cues = extractCharacterCues(scene.text, scene.scene_number);
-      allCharacterCues.push(...cues);
-      // Character names for this scene (deduped)
-      const sceneCharacters = [...new Set(cues.map(c => c.name))];
-
-      const { data: insertedScene } = await supabase.from("parsed_scenes").insert({
-        film_id: analysis.film_id,
-        scene_number: scene.scene_number,
-        heading: scene.heading,
-        raw_text: scene.text,
-        // Deterministic fields from heading parse
-        int_ext: parsed.int_ext,
-        day_night: parsed.time_of_day,
-        location_name: parsed.location,
-        sublocation: parsed.sublocation,
-        continuity_marker: parsed.continuity_marker,
-        is_flashback: parsed.is_flashback,
-        is_dream: parsed.is_dream,
-        is_montage: parsed.is_montage,
-        // Dialogue metrics
-        line_count: metrics.line_count,
-        dialogue_line_count: metrics.dialogue_line_count,
-        dialogue_word_count: metrics.dialogue_word_count,
-        dialogue_density: metrics.dialogue_density,
-        // Characters from cue detection (deterministic, no AI)
-        characters: sceneCharacters,
-        // Phase 1 is NOT locked yet — extract-entities will do that
-        enriched: false,
-        phase1_locked: false,
-      }).select("id").single();
-
-      if (insertedScene) sceneIds.push(insertedScene.id);
+    let reparseSceneIds: string[] = [];
+    let revisionSummary: Record<string, number> | null = null;
+
+    if (isRevision) {
+      const result = await applySceneRevision(supabase, analysis, existingScenes as PreviousScene[], scenes, {
+        number: revisionNumber,
+        color: revisionColor,
+      }, locale);
+      sceneIds.push(...result.sceneIds);
+      reparseSceneIds = result.reparseSceneIds;
+      revisionSummary = result.summary;
+      if (job) await supabase.from("parse_jobs").update({ change_report: result.report }).eq("id", job.id);
+    } else {
+      // ── Phase 1: Insert scenes with deterministic heading parse + dialogue metrics ──
+      for (const scene of scenes) {
+        const { data: insertedScene } = await supabase.from("parsed_scenes").insert({
+          film_id: analysis.film_id,
+          scene_number: scene.scene_number,
+          ...buildSceneFields(scene, locale),
+          revision_color: revisionColor,
+          // OMITTED placeholders keep their slot but are never extracted
+          ...(scene.omitted ? { revision_status: "omitted" } : {}),
+          // Phase 1 is NOT locked yet — extract-entities will do that
+          enriched: false,
+          phase1_locked: false,
+        }).select("id").single();
+
+        if (insertedScene && !scene.omitted) sceneIds.push(insertedScene.id);
+      }
     }
 
     // ── Mark analysis as COMPLETE (no enrichment during parse) ──
@@ -434,7 +869,7 @@ Deno.serve(async (req) => {
     // Phase 2 enrichment happens after Vision Lock
     await supabase
       .from("script_analyses")
-      .update({ status: "complete" })
+      .update({ status: "complete", title_page: titlePage })
       .eq("id", analysis_id);
 
     await logCreditUsage({
@@ -466,6 +901,11 @@ Deno.serve(async (req) => {
         success: true,
         scene_count: scenes.length,
         scene_ids: sceneIds,
+        revision: revisionSummary,
+        revision_number: revisionNumber,
+        revision_color: revisionColor,
+        slugline_locale: locale.code,
+        reparse_scene_ids: reparseSceneIds,
       }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
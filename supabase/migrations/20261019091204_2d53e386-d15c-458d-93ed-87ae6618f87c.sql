@@ -0,0 +1,9 @@
+-- Revision-aware script re-import
+-- Scenes are reconciled against the previous draft instead of being wiped.
+ALTER TABLE public.parsed_scenes
+  ADD COLUMN IF NOT EXISTS revision_status TEXT NOT NULL DEFAULT 'original',  -- original | unchanged | changed | added | omitted
+  ADD COLUMN IF NOT EXISTS previous_scene_number INTEGER;  -- ordinal in the prior draft, null for new scenes
+
+CREATE INDEX IF NOT EXISTS idx_parsed_scenes_revision_status ON public.parsed_scenes(film_id, revision_status);
+
+-- vice_dirty_queue.trigger_type gains 'script_revision' (shots on changed/omitted scenes)
@@ -0,0 +1,6 @@
+-- Production scene numbers as printed in locked shooting scripts ("12A", "101B").
+-- scene_number stays the 1..N ordinal every scene-keyed table joins on.
+ALTER TABLE public.parsed_scenes
+  ADD COLUMN IF NOT EXISTS production_scene_number TEXT;  -- null when the script is unnumbered
+
+-- Numbered OMITTED placeholders are stored as scenes with revision_status = 'omitted'
@@ -0,0 +1,8 @@
+-- Typed screenplay paragraphs for structured formats (Fountain).
+-- [{ type: "Scene Heading" | "Action" | "Character" | ..., text, scene_number?, dual?, depth? }]
+ALTER TABLE public.parsed_scenes
+  ADD COLUMN IF NOT EXISTS paragraphs JSONB;
+
+-- Fountain title page keys as written (title, credit, author, draft date, contact, …)
+ALTER TABLE public.script_analyses
+  ADD COLUMN IF NOT EXISTS title_page JSONB;
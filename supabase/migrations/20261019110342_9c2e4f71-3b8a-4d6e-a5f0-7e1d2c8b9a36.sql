@@ -0,0 +1,6 @@
+-- Deterministic pagination (55-line Courier pages) for parsed scenes.
+-- estimated_page_count stays the AI enrichment estimate; these come from the parser.
+ALTER TABLE public.parsed_scenes
+  ADD COLUMN IF NOT EXISTS page_start INTEGER,
+  ADD COLUMN IF NOT EXISTS page_end INTEGER,
+  ADD COLUMN IF NOT EXISTS page_eighths INTEGER;  -- scene length in eighths of a page
@@ -0,0 +1,14 @@
+-- Numbered, coloured script revisions.
+-- Every import is a parse_jobs row: revision 0 is the White draft, then Blue, Pink, Yellow, Green, …
+ALTER TABLE public.parse_jobs
+  ADD COLUMN IF NOT EXISTS revision_number INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS revision_color TEXT NOT NULL DEFAULT 'White',
+  ADD COLUMN IF NOT EXISTS file_name TEXT,
+  ADD COLUMN IF NOT EXISTS change_report JSONB;  -- affected scenes (with line diffs), characters, props, shots
+
+-- Lines the latest revision added or rewrote (whitespace-normalised), shown with margin asterisks
+ALTER TABLE public.parsed_scenes
+  ADD COLUMN IF NOT EXISTS revised_lines JSONB,
+  ADD COLUMN IF NOT EXISTS revision_color TEXT;  -- colour of the revision that last touched the scene
+
+CREATE INDEX IF NOT EXISTS idx_parse_jobs_film_revision ON public.parse_jobs (film_id, revision_number);
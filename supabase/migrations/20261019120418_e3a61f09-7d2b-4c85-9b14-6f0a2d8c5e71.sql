@@ -0,0 +1,5 @@
+-- Structured dialogue per scene: one entry per speech line with speaker, cue
+-- extensions (V.O., O.S., O.C., PRE-LAP, FILTERED, CONT'D) and dual-dialogue pairing.
+-- Sound and ADR planning read voice-over and off-screen lines from here.
+ALTER TABLE public.parsed_scenes
+  ADD COLUMN IF NOT EXISTS dialogue_lines JSONB;
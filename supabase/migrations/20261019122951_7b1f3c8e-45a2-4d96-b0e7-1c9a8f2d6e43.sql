@@ -0,0 +1,4 @@
+-- Slugline language the script was parsed with ("en", "fr", "es", "de", "it", "pt").
+-- Detected from the scene headings unless the import overrides it; extract-entities reuses it.
+ALTER TABLE public.parse_jobs
+  ADD COLUMN IF NOT EXISTS slugline_locale TEXT NOT NULL DEFAULT 'en';
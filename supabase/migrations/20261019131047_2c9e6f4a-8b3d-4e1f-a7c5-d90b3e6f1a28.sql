@@ -0,0 +1,25 @@
+-- Stripboard: one shooting schedule per film version.
+-- days is an ordered array of { id, scene_ids, note } — scene ids, not ordinals,
+-- so re-importing the script and renumbering scenes keeps strips on their days.
+CREATE TABLE public.shooting_schedules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  film_id UUID NOT NULL REFERENCES public.films(id) ON DELETE CASCADE,
+  days JSONB NOT NULL DEFAULT '[]'::jsonb,
+  start_date DATE,
+  eighths_per_day INTEGER NOT NULL DEFAULT 40,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(film_id)
+);
+
+ALTER TABLE public.shooting_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can access own shooting_schedules"
+ON public.shooting_schedules
+FOR ALL
+USING (user_owns_film(film_id))
+WITH CHECK (user_owns_film(film_id));
+
+CREATE TRIGGER update_shooting_schedules_updated_at
+BEFORE UPDATE ON public.shooting_schedules
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,5 @@
+-- Story days: which day of the story each scene happens on ("Day 1 / Night 1 / Day 2").
+-- Inferred from continuity markers and day/night changes; this column holds a correction.
+-- NULL = inferred. Flashback and dream scenes sit outside the present-day timeline unless corrected.
+ALTER TABLE public.parsed_scenes
+  ADD COLUMN IF NOT EXISTS story_day INTEGER;
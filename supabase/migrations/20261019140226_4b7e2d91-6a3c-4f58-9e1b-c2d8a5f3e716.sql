@@ -0,0 +1,33 @@
+-- Props master list: one row per prop the props department tracks.
+-- scene_states maps a scene ordinal to the prop's state there ("intact", "broken", "bloodied", …);
+-- scenes without an entry are intact. identity_id links the prop to its identity token so
+-- generated shots describe it in the right state.
+CREATE TABLE public.props_master (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  film_id UUID NOT NULL REFERENCES public.films(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  character_name TEXT,
+  designation TEXT NOT NULL DEFAULT 'hero',  -- hero | stunt | background
+  quantity INTEGER NOT NULL DEFAULT 1,
+  duplicates INTEGER NOT NULL DEFAULT 0,
+  duplicate_notes TEXT,                       -- e.g. "breakaway bottles for takes 2+"
+  scene_numbers INTEGER[] NOT NULL DEFAULT '{}',
+  scene_states JSONB NOT NULL DEFAULT '{}'::jsonb,
+  notes TEXT,
+  identity_id UUID REFERENCES public.asset_identity_registry(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(film_id, name)
+);
+
+ALTER TABLE public.props_master ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can access own props_master"
+ON public.props_master
+FOR ALL
+USING (user_owns_film(film_id))
+WITH CHECK (user_owns_film(film_id));
+
+CREATE TRIGGER update_props_master_updated_at
+BEFORE UPDATE ON public.props_master
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,49 @@
+-- VFX breakdown: one row per VFX shot ID the bid sheet lists.
+-- vfx_id is unique per film (e.g. "VFX-012-01"); shot_ids links the item to the Production
+-- shots it covers. complexity is cleanup | comp | cg_creature | environment | sim.
+CREATE TABLE public.vfx_shots (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  film_id UUID NOT NULL REFERENCES public.films(id) ON DELETE CASCADE,
+  vfx_id TEXT NOT NULL,
+  scene_number INTEGER NOT NULL,
+  description TEXT NOT NULL,
+  complexity TEXT NOT NULL DEFAULT 'comp',
+  estimated_shots INTEGER NOT NULL DEFAULT 1,
+  shot_ids UUID[] NOT NULL DEFAULT '{}',
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(film_id, vfx_id)
+);
+
+ALTER TABLE public.vfx_shots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can access own vfx_shots"
+ON public.vfx_shots
+FOR ALL
+USING (user_owns_film(film_id))
+WITH CHECK (user_owns_film(film_id));
+
+CREATE TRIGGER update_vfx_shots_updated_at
+BEFORE UPDATE ON public.vfx_shots
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Repairs requested in the VFX Fix-It Bay, optionally filed against a VFX shot.
+CREATE TABLE public.vfx_repairs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  film_id UUID NOT NULL REFERENCES public.films(id) ON DELETE CASCADE,
+  vfx_shot_id UUID REFERENCES public.vfx_shots(id) ON DELETE SET NULL,
+  clip_id UUID REFERENCES public.post_production_clips(id) ON DELETE SET NULL,
+  clip_label TEXT NOT NULL,
+  prompt TEXT,
+  asset_id UUID REFERENCES public.asset_identity_registry(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.vfx_repairs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can access own vfx_repairs"
+ON public.vfx_repairs
+FOR ALL
+USING (user_owns_film(film_id))
+WITH CHECK (user_owns_film(film_id));
@@ -0,0 +1,27 @@
+-- Location tree: locations and the sets inside them, editable per film.
+-- aliases holds the normalized slugline locations a node stands for ("SMITH HOME - KITCHEN");
+-- scenes resolve to the node matching their location and sublocation.
+CREATE TABLE public.film_locations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  film_id UUID NOT NULL REFERENCES public.films(id) ON DELETE CASCADE,
+  parent_id UUID REFERENCES public.film_locations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  aliases TEXT[] NOT NULL DEFAULT '{}',
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_film_locations_film_id ON public.film_locations(film_id);
+
+ALTER TABLE public.film_locations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can access own film_locations"
+ON public.film_locations
+FOR ALL
+USING (user_owns_film(film_id))
+WITH CHECK (user_owns_film(film_id));
+
+CREATE TRIGGER update_film_locations_updated_at
+BEFORE UPDATE ON public.film_locations
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
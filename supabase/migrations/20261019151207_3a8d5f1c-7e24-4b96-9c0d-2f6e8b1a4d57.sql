@@ -0,0 +1,26 @@
+-- Custom director profiles: a workspace's own directors and house styles,
+-- offered alongside the built-in catalog in src/lib/director-styles.ts
+CREATE TABLE public.custom_director_profiles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  known_for TEXT[] NOT NULL DEFAULT '{}',
+  -- 8-axis StyleVector (0–10 per axis)
+  vector JSONB NOT NULL,
+  cluster TEXT NOT NULL,
+  -- VisualMandate: lighting, lens, texture, color, negativeHints
+  visual_mandate JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_custom_director_profiles_user_id ON public.custom_director_profiles(user_id);
+
+ALTER TABLE public.custom_director_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own director profiles" ON public.custom_director_profiles
+  FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_custom_director_profiles_updated_at
+  BEFORE UPDATE ON public.custom_director_profiles
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
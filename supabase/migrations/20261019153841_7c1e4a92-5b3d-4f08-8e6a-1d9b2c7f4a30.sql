@@ -0,0 +1,8 @@
+-- N-director style blends. blend_directors lists every director in the blend
+-- as { id, name, weight } with weights summing to 1 (heaviest first);
+-- mandate_sources maps a visual mandate dimension (lighting, lens, texture,
+-- color, negativeHints) to the director id it is taken from.
+-- primary/secondary/blend_weight stay populated for older readers.
+ALTER TABLE public.film_director_profiles
+  ADD COLUMN blend_directors JSONB NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN mandate_sources JSONB NOT NULL DEFAULT '{}'::jsonb;
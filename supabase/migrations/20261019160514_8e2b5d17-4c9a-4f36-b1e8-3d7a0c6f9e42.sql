@@ -0,0 +1,65 @@
+-- Style contract history: every compile (and every rollback) of a film's
+-- style contract is kept here as an immutable snapshot. film_style_contracts
+-- stays the single current contract; its version always matches the newest
+-- row here. rolled_back_from is set when a version restores an older one.
+CREATE TABLE public.style_contract_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  film_id UUID NOT NULL REFERENCES public.films(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  visual_dna TEXT,
+  color_mandate JSONB DEFAULT '{}'::jsonb,
+  lighting_doctrine JSONB DEFAULT '{}'::jsonb,
+  lens_philosophy JSONB DEFAULT '{}'::jsonb,
+  texture_mandate JSONB DEFAULT '{}'::jsonb,
+  temporal_rules JSONB DEFAULT '{}'::jsonb,
+  content_guardrails JSONB DEFAULT '{}'::jsonb,
+  genre_visual_profile JSONB DEFAULT '{}'::jsonb,
+  world_rules TEXT,
+  negative_prompt_base TEXT,
+  character_directives JSONB DEFAULT '{}'::jsonb,
+  source_hash TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  author_name TEXT,
+  rolled_back_from INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(film_id, version)
+);
+
+CREATE INDEX idx_style_contract_versions_film_id ON public.style_contract_versions(film_id);
+
+ALTER TABLE public.style_contract_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own style_contract_versions"
+ON public.style_contract_versions
+FOR SELECT
+USING (user_owns_film(film_id));
+
+CREATE POLICY "Users can add own style_contract_versions"
+ON public.style_contract_versions
+FOR INSERT
+WITH CHECK (user_owns_film(film_id));
+
+-- Versions are immutable; they only go away with their film
+CREATE OR REPLACE FUNCTION public.prevent_style_contract_version_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Style contract versions are immutable (film %, v%)', OLD.film_id, OLD.version;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER prevent_style_contract_versions_update
+  BEFORE UPDATE ON public.style_contract_versions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_style_contract_version_update();
+
+-- Seed the history with each film's current contract
+INSERT INTO public.style_contract_versions (
+  film_id, version, visual_dna, color_mandate, lighting_doctrine, lens_philosophy,
+  texture_mandate, temporal_rules, content_guardrails, genre_visual_profile,
+  world_rules, negative_prompt_base, character_directives, source_hash, created_at
+)
+SELECT
+  film_id, version, visual_dna, color_mandate, lighting_doctrine, lens_philosophy,
+  texture_mandate, temporal_rules, content_guardrails, genre_visual_profile,
+  world_rules, negative_prompt_base, character_directives, source_hash, updated_at
+FROM public.film_style_contracts;
@@ -0,0 +1,49 @@
+-- Workspace genre visual profiles: edited copies of the built-in genres in
+-- supabase/functions/_shared/genre-profiles.ts, or new genres ("Folk Horror").
+-- A profile named like a built-in replaces it in compile-style-contract.
+-- profile holds every GenreProfile field (lighting, color, texture, framing,
+-- the four tones and negative); version counts saves, and each save is kept
+-- in genre_profile_versions.
+CREATE TABLE public.genre_profiles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  profile JSONB NOT NULL,
+  version INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, name)
+);
+
+CREATE INDEX idx_genre_profiles_user_id ON public.genre_profiles(user_id);
+
+ALTER TABLE public.genre_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own genre profiles" ON public.genre_profiles
+  FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_genre_profiles_updated_at
+  BEFORE UPDATE ON public.genre_profiles
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- One row per saved version of a genre profile
+CREATE TABLE public.genre_profile_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  genre_profile_id UUID NOT NULL REFERENCES public.genre_profiles(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  profile JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(genre_profile_id, version)
+);
+
+CREATE INDEX idx_genre_profile_versions_genre_profile_id ON public.genre_profile_versions(genre_profile_id);
+
+ALTER TABLE public.genre_profile_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own genre profile versions" ON public.genre_profile_versions
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add own genre profile versions" ON public.genre_profile_versions
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
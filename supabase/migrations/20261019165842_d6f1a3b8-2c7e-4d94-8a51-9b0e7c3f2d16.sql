@@ -0,0 +1,8 @@
+-- Field-level locks on scene style overrides. locked_fields names the
+-- override columns edited by hand (mood_override, lighting_override,
+-- color_shift, ...); compile-style-contract regenerates every other field and
+-- keeps the locked ones. compiled_values holds what the last compile derived
+-- for each field, so an unlocked field can go back to it without a recompile.
+ALTER TABLE public.scene_style_overrides
+  ADD COLUMN locked_fields TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN compiled_values JSONB NOT NULL DEFAULT '{}'::jsonb;